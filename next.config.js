@@ -1,7 +1,7 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   // Enable server-side external packages (moved from experimental)
-  serverExternalPackages: ['bullmq', 'ioredis'],
+  serverExternalPackages: ['bullmq', 'ioredis', 'pdf-parse'],
   // Security headers
   async headers() {
     return [
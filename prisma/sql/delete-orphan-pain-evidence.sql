@@ -0,0 +1,6 @@
+-- Delete pain_evidence links whose evidence no longer exists
+-- Run once on databases created before pain_evidence.evidenceId referenced
+-- evidence, before applying the schema: the foreign key cannot be added
+-- while orphaned links remain.
+DELETE FROM "pain_evidence" pe
+WHERE NOT EXISTS (SELECT 1 FROM "evidence" e WHERE e."id" = pe."evidenceId");
@@ -0,0 +1,83 @@
+/**
+ * src/app/api/projects/[id]/company/route.ts: Company profile API endpoints
+ *
+ * Reads and manually edits the target company's firmographic profile.
+ * Each field reports its source; manual edits take precedence over
+ * values supplied by enrichment providers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { handleApiError, successResponse } from '@/lib/errors';
+import { requireProjectAccess } from '@/lib/auth';
+import { auditLog, logApiAccess } from '@/lib/audit';
+import { CompanyProfileUpdate } from '@/lib/schemas';
+import { describeCompanyProfile, loadCompanyProfile, updateCompanyProfile } from '@/lib/company-profile';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * GET /api/projects/[id]/company - Get the company profile
+ * Returns null when nothing has been recorded yet
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'read');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/company`, 'GET', params.id);
+
+    const profile = await loadCompanyProfile(params.id);
+
+    console.log(`src/app/api/projects/[id]/company/route.ts: Retrieved company profile for project ${params.id}`);
+
+    return successResponse({
+      profile,
+      description: profile ? describeCompanyProfile(profile) : null,
+    });
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/company`);
+  }
+}
+
+/**
+ * PATCH /api/projects/[id]/company - Edit the company profile
+ * Sets the given fields (null clears one) with manual attribution
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'write');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/company`, 'PATCH', params.id);
+
+    const body = await request.json();
+    const fields = CompanyProfileUpdate.parse(body);
+
+    const { profile, updatedFields } = await updateCompanyProfile(params.id, fields, { source: 'manual', userId });
+
+    if (updatedFields.length > 0) {
+      await auditLog(userId, 'UPDATE_COMPANY_PROFILE', `Updated company profile: ${updatedFields.join(', ')}`, params.id);
+    }
+
+    console.log(`src/app/api/projects/[id]/company/route.ts: Updated ${updatedFields.length} company profile fields for project ${params.id}`);
+
+    return successResponse({
+      profile,
+      description: describeCompanyProfile(profile),
+      updatedFields,
+    }, 'Company profile updated successfully');
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/company`);
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * src/app/api/projects/[id]/enrichment/route.ts: Project enrichment API endpoints
+ *
+ * Requests enrichment from external providers (news, company profiles) and
+ * the offline tech-stack detector, and lists recent enrichment runs with
+ * their status and counts. Results arrive as project evidence tagged with
+ * the provider that supplied them.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import type { EnrichmentType } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { handleApiError, successResponse } from '@/lib/errors';
+import { requireProjectAccess } from '@/lib/auth';
+import { auditLog, logApiAccess } from '@/lib/audit';
+import { addEnrichmentJob } from '@/lib/queue';
+import { rateLimiters } from '@/lib/redis';
+import { EnrichmentRequest } from '@/lib/schemas';
+import { enrichmentProviderFor } from '@/lib/enrichment-providers';
+import { activeEnrichmentTypes } from '@/lib/enrichment';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+const ENRICHMENT_TYPES: EnrichmentType[] = ['news', 'crunchbase', 'techstack', 'sec_filings'];
+
+/**
+ * Provider that would serve each enrichment type (techstack runs offline)
+ */
+function providerAvailability(): Record<EnrichmentType, string | null> {
+  return ENRICHMENT_TYPES.reduce((availability, type) => {
+    availability[type] = type === 'techstack' ? 'fingerprints' : enrichmentProviderFor(type);
+    return availability;
+  }, {} as Record<EnrichmentType, string | null>);
+}
+
+/**
+ * GET /api/projects/[id]/enrichment - List recent enrichment runs
+ * Also reports which provider serves each enrichment type (null when none is configured)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'read');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/enrichment`, 'GET', params.id);
+
+    const runs = await prisma.enrichmentRun.findMany({
+      where: { projectId: params.id },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    });
+
+    console.log(`src/app/api/projects/[id]/enrichment/route.ts: Retrieved ${runs.length} enrichment runs for project ${params.id}`);
+
+    return successResponse({ runs, providers: providerAvailability() });
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/enrichment`);
+  }
+}
+
+/**
+ * POST /api/projects/[id]/enrichment - Request enrichment
+ * Body: { types: EnrichmentType[] }. Queues one run per type and returns the runs (202).
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'write');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/enrichment`, 'POST', params.id);
+
+    // Apply rate limiting; provider APIs are paid per request
+    const { success } = await rateLimiters.enrichment.limit(`enrichment:${userId}`);
+    if (!success) {
+      return NextResponse.json(
+        {
+          type: 'about:blank',
+          title: 'Rate Limit Exceeded',
+          status: 429,
+          detail: 'Too many enrichment requests. Please try again later.',
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const types = Array.from(new Set(EnrichmentRequest.parse(body).types));
+
+    const project = await prisma.project.findUnique({
+      where: { id: params.id },
+      select: { companyName: true, companyDomain: true },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        {
+          type: 'about:blank',
+          title: 'Not Found',
+          status: 404,
+          detail: 'Project not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const providers = providerAvailability();
+    const unavailable = types.filter(type => !providers[type]);
+    if (unavailable.length > 0) {
+      return NextResponse.json(
+        {
+          type: 'about:blank',
+          title: 'Validation Error',
+          status: 400,
+          detail: `No enrichment provider is configured for: ${unavailable.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const active = await activeEnrichmentTypes(params.id, types);
+    if (active.length > 0) {
+      return NextResponse.json(
+        {
+          type: 'about:blank',
+          title: 'Conflict',
+          status: 409,
+          detail: `Enrichment already in progress for: ${active.join(', ')}`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const runs = [];
+    for (const type of types) {
+      const run = await prisma.enrichmentRun.create({
+        data: { projectId: params.id, type, requestedBy: userId },
+      });
+
+      await addEnrichmentJob(
+        { projectId: params.id, companyDomain: project.companyDomain, enrichmentType: type, runId: run.id },
+        `enrich-${params.id}-${type}-${run.id}`
+      );
+
+      runs.push(run);
+    }
+
+    await auditLog(
+      userId,
+      'REQUEST_ENRICHMENT',
+      `Requested ${types.join(', ')} enrichment for ${project.companyName}`,
+      params.id
+    );
+
+    console.log(`src/app/api/projects/[id]/enrichment/route.ts: Queued ${runs.length} enrichment runs for project ${params.id}`);
+
+    return successResponse({ runs }, 'Enrichment queued', 202);
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/enrichment`);
+  }
+}
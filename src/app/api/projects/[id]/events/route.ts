@@ -0,0 +1,97 @@
+/**
+ * src/app/api/projects/[id]/events/route.ts: Project job event stream
+ *
+ * Server-Sent Events endpoint relaying background job progress,
+ * completion and failure for the project's evidence pipeline.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { handleApiError } from '@/lib/errors';
+import { requireProjectAccess } from '@/lib/auth';
+import { logApiAccess } from '@/lib/audit';
+import { subscribeToProjectJobs } from '@/lib/queue-events';
+
+// Long-lived streaming response backed by Node-only Redis listeners
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Comment line sent periodically so proxies keep the connection open
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * GET /api/projects/[id]/events - Stream job events
+ * Emits `progress`, `completed` and `failed` SSE events with job details as JSON
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'read');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/events`, 'GET', params.id);
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            cleanup(); // Stream already closed
+          }
+        };
+
+        send('retry: 5000\n\n');
+        send(`event: ready\ndata: ${JSON.stringify({ projectId: params.id })}\n\n`);
+
+        const unsubscribe = subscribeToProjectJobs(params.id, (event) => {
+          send(`event: ${event.event}\ndata: ${JSON.stringify(event)}\n\n`);
+        });
+        const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+        cleanup = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+          cleanup = () => {};
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+        };
+
+        request.signal.addEventListener('abort', () => {
+          console.log(`src/app/api/projects/[id]/events/route.ts: Client disconnected from project ${params.id} events`);
+          cleanup();
+        });
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    console.log(`src/app/api/projects/[id]/events/route.ts: Streaming job events for project ${params.id}`);
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/events`);
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * src/app/api/projects/[id]/evidence/[evidenceId]/download/route.ts: Evidence file download endpoint
+ *
+ * Issues short-lived signed download links for file evidence.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/db';
+import { handleApiError, successResponse } from '@/lib/errors';
+import { requireProjectAccess } from '@/lib/auth';
+import { logApiAccess } from '@/lib/audit';
+import { getStorage, isEvidenceFileKey } from '@/lib/storage';
+
+interface RouteParams {
+  params: {
+    id: string;
+    evidenceId: string;
+  };
+}
+
+/**
+ * GET /api/projects/[id]/evidence/[evidenceId]/download - Get signed download link
+ * Returns a short-lived URL for downloading the evidence file
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'read');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/evidence/${params.evidenceId}/download`, 'GET', params.id);
+
+    // Quarantined and rejected files are not downloadable
+    const evidence = await prisma.evidence.findFirst({
+      where: { id: params.evidenceId, projectId: params.id, approved: true },
+      select: { type: true, fileKey: true },
+    });
+
+    // Rows written before keys were validated may point outside the project
+    if (evidence?.type !== 'file' || !evidence.fileKey || !isEvidenceFileKey(params.id, evidence.fileKey)) {
+      return NextResponse.json(
+        {
+          type: 'about:blank',
+          title: 'Not Found',
+          status: 404,
+          detail: 'Approved evidence file not found in this project',
+        },
+        { status: 404 }
+      );
+    }
+
+    // Serve under the original filename (last key segment)
+    const filename = evidence.fileKey.split('/').pop();
+    const download = await getStorage().createDownloadUrl(evidence.fileKey, filename);
+
+    return successResponse({ download });
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/evidence/${params.evidenceId}/download`);
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * src/app/api/projects/[id]/evidence/[evidenceId]/refresh/route.ts: Evidence refresh endpoint
+ *
+ * Re-fetches URL evidence so content changes are captured as a new
+ * snapshot version with a diff against the previous one.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/db';
+import { handleApiError, successResponse } from '@/lib/errors';
+import { requireProjectAccess } from '@/lib/auth';
+import { auditLog, logApiAccess } from '@/lib/audit';
+import { addEvidenceFetchJob } from '@/lib/queue';
+
+interface RouteParams {
+  params: {
+    id: string;
+    evidenceId: string;
+  };
+}
+
+/**
+ * POST /api/projects/[id]/evidence/[evidenceId]/refresh - Re-fetch URL evidence
+ * Bypasses the response cache; unchanged content keeps the current version and signals
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'write');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/evidence/${params.evidenceId}/refresh`, 'POST', params.id);
+
+    const existingEvidence = await prisma.evidence.findFirst({
+      where: { id: params.evidenceId, projectId: params.id },
+    });
+
+    if (!existingEvidence) {
+      return NextResponse.json(
+        {
+          type: 'about:blank',
+          title: 'Not Found',
+          status: 404,
+          detail: 'Evidence not found in this project',
+        },
+        { status: 404 }
+      );
+    }
+
+    // Only URL evidence can be re-fetched, and not while a fetch or analysis is running
+    const refreshBlocker =
+      existingEvidence.type !== 'url' || !existingEvidence.url
+        ? 'Only URL evidence can be refreshed'
+        : existingEvidence.processingState !== 'done' && existingEvidence.processingState !== 'failed'
+        ? `Evidence processing is ${existingEvidence.processingState}; wait for it to finish`
+        : null;
+
+    if (refreshBlocker) {
+      return NextResponse.json(
+        {
+          type: 'about:blank',
+          title: 'Conflict',
+          status: 409,
+          detail: refreshBlocker,
+        },
+        { status: 409 }
+      );
+    }
+
+    const evidence = await prisma.evidence.update({
+      where: { id: params.evidenceId },
+      data: {
+        processingState: 'queued',
+        processingErrorCode: null,
+        processingError: null,
+        processingFinishedAt: null,
+      },
+    });
+
+    await addEvidenceFetchJob(
+      { evidenceId: evidence.id, url: existingEvidence.url!, projectId: params.id, refresh: true },
+      `refresh-${evidence.id}-${Date.now()}`
+    );
+
+    await auditLog(userId, 'REFRESH_EVIDENCE', `Requested refresh of URL evidence ${evidence.title}`, params.id);
+
+    console.log(`src/app/api/projects/[id]/evidence/[evidenceId]/refresh/route.ts: Queued refresh of evidence ${evidence.id}`);
+
+    return successResponse(evidence, 'Evidence refresh queued');
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/evidence/${params.evidenceId}/refresh`);
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * src/app/api/projects/[id]/evidence/[evidenceId]/retry/route.ts: Evidence processing retry endpoint
+ *
+ * Re-queues background processing for evidence whose fetch, extraction
+ * or analysis failed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/db';
+import { handleApiError, successResponse } from '@/lib/errors';
+import { requireProjectAccess } from '@/lib/auth';
+import { auditLog, logApiAccess } from '@/lib/audit';
+import { addEvidenceFetchJob, addFileProcessJob } from '@/lib/queue';
+
+interface RouteParams {
+  params: {
+    id: string;
+    evidenceId: string;
+  };
+}
+
+/**
+ * POST /api/projects/[id]/evidence/[evidenceId]/retry - Retry failed processing
+ * Re-runs the pipeline from fetching (URLs) or scanning/extraction (files)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'write');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/evidence/${params.evidenceId}/retry`, 'POST', params.id);
+
+    const existingEvidence = await prisma.evidence.findFirst({
+      where: { id: params.evidenceId, projectId: params.id },
+    });
+
+    if (!existingEvidence) {
+      return NextResponse.json(
+        {
+          type: 'about:blank',
+          title: 'Not Found',
+          status: 404,
+          detail: 'Evidence not found in this project',
+        },
+        { status: 404 }
+      );
+    }
+
+    // Only failed processing can be retried; rejected files were deleted by the scanner
+    const retryBlocker =
+      existingEvidence.processingState !== 'failed'
+        ? `Evidence processing is ${existingEvidence.processingState}, not failed`
+        : existingEvidence.type === 'note'
+        ? 'Notes have no background processing to retry'
+        : existingEvidence.type === 'file' && existingEvidence.rejectedReason
+        ? 'Files rejected by the security scan cannot be retried; upload a new file instead'
+        : null;
+
+    if (retryBlocker) {
+      return NextResponse.json(
+        {
+          type: 'about:blank',
+          title: 'Conflict',
+          status: 409,
+          detail: retryBlocker,
+        },
+        { status: 409 }
+      );
+    }
+
+    const evidence = await prisma.evidence.update({
+      where: { id: params.evidenceId },
+      data: {
+        processingState: 'queued',
+        processingErrorCode: null,
+        processingError: null,
+        processingFinishedAt: null,
+      },
+    });
+
+    // Failed jobs are kept by BullMQ, so retries need a fresh job ID
+    const jobId = `retry-${evidence.id}-${Date.now()}`;
+    if (evidence.type === 'url' && evidence.url) {
+      await addEvidenceFetchJob({ evidenceId: evidence.id, url: evidence.url, projectId: params.id }, jobId);
+    } else if (evidence.type === 'file' && evidence.fileKey) {
+      await addFileProcessJob({ evidenceId: evidence.id, fileKey: evidence.fileKey, projectId: params.id }, jobId);
+    }
+
+    await auditLog(
+      userId,
+      'RETRY_EVIDENCE',
+      `Retried processing of ${evidence.type} evidence ${evidence.title} (previous error: ${existingEvidence.processingErrorCode ?? 'unknown'})`,
+      params.id
+    );
+
+    console.log(`src/app/api/projects/[id]/evidence/[evidenceId]/retry/route.ts: Re-queued processing for evidence ${evidence.id}`);
+
+    return successResponse(evidence, 'Evidence processing re-queued');
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/evidence/${params.evidenceId}/retry`);
+  }
+}
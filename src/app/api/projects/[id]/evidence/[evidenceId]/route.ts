@@ -0,0 +1,250 @@
+/**
+ * src/app/api/projects/[id]/evidence/[evidenceId]/route.ts: Single evidence API endpoints
+ *
+ * Handles editing and deleting an individual evidence source, keeping
+ * deduplication hashes, background fetch jobs, and pain links consistent.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/db';
+import { EvidenceUpdate } from '@/lib/schemas';
+import { handleApiError, successResponse } from '@/lib/errors';
+import { requireProjectAccess } from '@/lib/auth';
+import { auditLog, logApiAccess } from '@/lib/audit';
+import { generateContentHash, isValidUrl, parseStringArray } from '@/lib/utils';
+import { addEvidenceFetchJob } from '@/lib/queue';
+import { getStorage, isEvidenceFileKey } from '@/lib/storage';
+import { snapshotObjectKeys } from '@/lib/evidence-snapshots';
+import { canonicalizeUrl, urlIdentityHash } from '@/lib/url-canonical';
+import { findSamePageEvidence } from '@/lib/duplicate-detection';
+
+interface RouteParams {
+  params: {
+    id: string;
+    evidenceId: string;
+  };
+}
+
+/**
+ * PATCH /api/projects/[id]/evidence/[evidenceId] - Update evidence
+ * Edits evidence metadata; a changed URL resets derived signals and re-queues fetching
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'write');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/evidence/${params.evidenceId}`, 'PATCH', params.id);
+
+    const existingEvidence = await prisma.evidence.findFirst({
+      where: { id: params.evidenceId, projectId: params.id },
+    });
+
+    if (!existingEvidence) {
+      return NextResponse.json(
+        {
+          type: 'about:blank',
+          title: 'Not Found',
+          status: 404,
+          detail: 'Evidence not found in this project',
+        },
+        { status: 404 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = EvidenceUpdate.parse(body);
+
+    const url = validatedData.url !== undefined ? canonicalizeUrl(validatedData.url) : existingEvidence.url;
+    const title = validatedData.title ?? existingEvidence.title;
+    const urlChanged = validatedData.url !== undefined && url !== existingEvidence.url;
+    const urlHash = url ? urlIdentityHash(url) : null;
+    // Only URL evidence is fetched from its URL; notes and files keep their content and state
+    const refetch = urlChanged && existingEvidence.type === 'url';
+
+    // Recompute the dedup hash the same way creation does; fetched URL evidence
+    // keeps its content hash until the URL itself changes
+    const contentHash = urlHash
+      ? (urlChanged ? urlHash : existingEvidence.contentHash)
+      : generateContentHash(existingEvidence.fileKey || title);
+
+    const duplicateEvidence = refetch && urlHash
+      ? await findSamePageEvidence(params.id, urlHash, params.evidenceId)
+      : contentHash !== existingEvidence.contentHash
+      ? await prisma.evidence.findFirst({
+          where: {
+            projectId: params.id,
+            contentHash,
+            id: { not: params.evidenceId },
+          },
+        })
+      : null;
+
+    if (duplicateEvidence) {
+      return NextResponse.json(
+        {
+          type: 'about:blank',
+          title: 'Duplicate Evidence',
+          status: 409,
+          detail: `Evidence with similar content already exists in this project: ${duplicateEvidence.title}`,
+          duplicateOfId: duplicateEvidence.id,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Snapshots of the old URL's page would diff against an unrelated page
+    const staleSnapshotKeys = refetch ? await snapshotObjectKeys(params.evidenceId) : [];
+
+    const evidence = await prisma.evidence.update({
+      where: { id: params.evidenceId },
+      data: {
+        ...validatedData,
+        ...(validatedData.url !== undefined && { url }),
+        publishedAt: validatedData.publishedAt ? new Date(validatedData.publishedAt) : undefined,
+        contentHash,
+        ...(urlChanged && { urlHash }),
+        // Signals, analysis, approval and snapshots were derived from the old URL's content
+        ...(refetch && {
+          approved: false,
+          canonicalUrl: null,
+          canonicalUrlHash: null,
+          simhash: null,
+          summary: null,
+          keyQuotes: null,
+          topics: null,
+          analyzedBy: null,
+          analyzedAt: null,
+          duplicateOf: { disconnect: true },
+          duplicateSimilarity: null,
+          processingState: 'queued',
+          processingErrorCode: null,
+          processingError: null,
+          signals: { deleteMany: {} },
+          snapshots: { deleteMany: {} },
+        }),
+      },
+    });
+
+    for (const key of staleSnapshotKeys) {
+      try {
+        await getStorage().deleteObject(key);
+      } catch (error) {
+        console.error(`src/app/api/projects/[id]/evidence/[evidenceId]/route.ts: Failed to delete object ${key}:`, error);
+      }
+    }
+
+    // Re-fetch content for the new URL (job ID keyed by hash so each URL is fetched once)
+    if (refetch && url && isValidUrl(url)) {
+      await addEvidenceFetchJob(
+        {
+          evidenceId: evidence.id,
+          url,
+          projectId: params.id,
+        },
+        `fetch-${evidence.id}-${contentHash.substring(0, 12)}`
+      );
+
+      console.log(`src/app/api/projects/[id]/evidence/[evidenceId]/route.ts: Re-queued fetch job for evidence ${evidence.id}`);
+    }
+
+    // Log evidence update
+    await auditLog(
+      userId,
+      'UPDATE_EVIDENCE',
+      `Updated evidence ${evidence.title}: ${Object.keys(validatedData).join(', ')}`,
+      params.id
+    );
+
+    console.log(`src/app/api/projects/[id]/evidence/[evidenceId]/route.ts: Updated evidence ${evidence.id} for project ${params.id}`);
+
+    return successResponse({
+      ...evidence,
+      keyQuotes: parseStringArray(evidence.keyQuotes),
+      topics: parseStringArray(evidence.topics),
+    }, 'Evidence updated successfully');
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/evidence/${params.evidenceId}`);
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/evidence/[evidenceId] - Delete evidence
+ * Removes evidence along with its signals, pain point links, stored file and snapshots
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'write');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/evidence/${params.evidenceId}`, 'DELETE', params.id);
+
+    const existingEvidence = await prisma.evidence.findFirst({
+      where: { id: params.evidenceId, projectId: params.id },
+    });
+
+    if (!existingEvidence) {
+      return NextResponse.json(
+        {
+          type: 'about:blank',
+          title: 'Not Found',
+          status: 404,
+          detail: 'Evidence not found in this project',
+        },
+        { status: 404 }
+      );
+    }
+
+    // Snapshot rows cascade with the evidence, so collect their storage keys first
+    const snapshotKeys = await snapshotObjectKeys(params.evidenceId);
+
+    // Pain links and signals cascade with the evidence row; count the links for the audit log
+    const [unlinked] = await prisma.$transaction([
+      prisma.painEvidence.count({
+        where: { evidenceId: params.evidenceId },
+      }),
+      prisma.evidence.delete({
+        where: { id: params.evidenceId },
+      }),
+    ]);
+
+    // Remove the uploaded file and content snapshots; a storage failure must not resurrect the record
+    // Only keys inside this project's upload prefix are ours to delete
+    const fileKey = existingEvidence.type === 'file' && existingEvidence.fileKey && isEvidenceFileKey(params.id, existingEvidence.fileKey)
+      ? existingEvidence.fileKey
+      : null;
+    if (existingEvidence.fileKey && !fileKey) {
+      console.warn(`src/app/api/projects/[id]/evidence/[evidenceId]/route.ts: Not deleting object ${existingEvidence.fileKey} outside project ${params.id}`);
+    }
+    const objectKeys = fileKey ? [fileKey, ...snapshotKeys] : snapshotKeys;
+    for (const key of objectKeys) {
+      try {
+        await getStorage().deleteObject(key);
+      } catch (error) {
+        console.error(`src/app/api/projects/[id]/evidence/[evidenceId]/route.ts: Failed to delete object ${key}:`, error);
+      }
+    }
+
+    // Log evidence deletion
+    await auditLog(
+      userId,
+      'DELETE_EVIDENCE',
+      `Deleted ${existingEvidence.type} evidence: ${existingEvidence.title} (unlinked from ${unlinked} pain points)`,
+      params.id
+    );
+
+    console.log(`src/app/api/projects/[id]/evidence/[evidenceId]/route.ts: Deleted evidence ${params.evidenceId} from project ${params.id}`);
+
+    return successResponse({ id: params.evidenceId }, 'Evidence deleted successfully');
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/evidence/${params.evidenceId}`);
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * src/app/api/projects/[id]/evidence/[evidenceId]/snapshots/[version]/route.ts: Evidence snapshot content
+ *
+ * Returns one content version of an evidence item with its extracted
+ * text and the diff against the previous version.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/db';
+import { handleApiError, successResponse } from '@/lib/errors';
+import { requireProjectAccess } from '@/lib/auth';
+import { logApiAccess } from '@/lib/audit';
+import { readSnapshotContent } from '@/lib/evidence-snapshots';
+
+interface RouteParams {
+  params: {
+    id: string;
+    evidenceId: string;
+    version: string;
+  };
+}
+
+/**
+ * GET /api/projects/[id]/evidence/[evidenceId]/snapshots/[version] - Get a content version
+ * Response includes `text` and `diff` (unified diff, null for the first version)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'read');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/evidence/${params.evidenceId}/snapshots/${params.version}`, 'GET', params.id);
+
+    const version = parseInt(params.version);
+    const snapshot = Number.isInteger(version)
+      ? await prisma.evidenceSnapshot.findFirst({
+          where: {
+            evidenceId: params.evidenceId,
+            version,
+            evidence: { projectId: params.id },
+          },
+        })
+      : null;
+
+    if (!snapshot) {
+      return NextResponse.json(
+        {
+          type: 'about:blank',
+          title: 'Not Found',
+          status: 404,
+          detail: 'Snapshot version not found for this evidence',
+        },
+        { status: 404 }
+      );
+    }
+
+    const { text, diff } = await readSnapshotContent(snapshot);
+
+    // Storage keys stay server-side
+    const metadata: Partial<typeof snapshot> = { ...snapshot };
+    delete metadata.rawKey;
+    delete metadata.textKey;
+    delete metadata.diffKey;
+
+    console.log(`src/app/api/projects/[id]/evidence/[evidenceId]/snapshots/[version]/route.ts: Retrieved version ${version} of evidence ${params.evidenceId}`);
+
+    return successResponse({ ...metadata, text, diff });
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/evidence/${params.evidenceId}/snapshots/${params.version}`);
+  }
+}
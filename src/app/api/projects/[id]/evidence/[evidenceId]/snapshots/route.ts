@@ -0,0 +1,75 @@
+/**
+ * src/app/api/projects/[id]/evidence/[evidenceId]/snapshots/route.ts: Evidence snapshot history
+ *
+ * Lists the stored content versions of an evidence item, newest first.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/db';
+import { handleApiError, successResponse } from '@/lib/errors';
+import { requireProjectAccess } from '@/lib/auth';
+import { logApiAccess } from '@/lib/audit';
+
+interface RouteParams {
+  params: {
+    id: string;
+    evidenceId: string;
+  };
+}
+
+/**
+ * GET /api/projects/[id]/evidence/[evidenceId]/snapshots - List content versions
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'read');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/evidence/${params.evidenceId}/snapshots`, 'GET', params.id);
+
+    const evidence = await prisma.evidence.findFirst({
+      where: { id: params.evidenceId, projectId: params.id },
+      select: { id: true },
+    });
+
+    if (!evidence) {
+      return NextResponse.json(
+        {
+          type: 'about:blank',
+          title: 'Not Found',
+          status: 404,
+          detail: 'Evidence not found in this project',
+        },
+        { status: 404 }
+      );
+    }
+
+    // Storage keys stay server-side
+    const snapshots = await prisma.evidenceSnapshot.findMany({
+      where: { evidenceId: params.evidenceId },
+      orderBy: { version: 'desc' },
+      select: {
+        id: true,
+        version: true,
+        contentHash: true,
+        contentType: true,
+        byteSize: true,
+        textLength: true,
+        linesAdded: true,
+        linesRemoved: true,
+        fetchedAt: true,
+        lastSeenAt: true,
+      },
+    });
+
+    console.log(`src/app/api/projects/[id]/evidence/[evidenceId]/snapshots/route.ts: Retrieved ${snapshots.length} snapshots for evidence ${params.evidenceId}`);
+
+    return successResponse({ snapshots });
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/evidence/${params.evidenceId}/snapshots`);
+  }
+}
@@ -12,8 +12,11 @@ import { EvidenceCreate } from '@/lib/schemas';
 import { handleApiError, createdResponse, successResponse } from '@/lib/errors';
 import { requireProjectAccess } from '@/lib/auth';
 import { auditLog, logApiAccess } from '@/lib/audit';
-import { generateContentHash, isValidUrl } from '@/lib/utils';
-import { addEvidenceFetchJob } from '@/lib/queue';
+import { generateContentHash, isValidUrl, parseStringArray } from '@/lib/utils';
+import { addEvidenceFetchJob, addFileProcessJob } from '@/lib/queue';
+import { getStorage, isEvidenceFileKey } from '@/lib/storage';
+import { canonicalizeUrl, urlIdentityHash } from '@/lib/url-canonical';
+import { findSamePageEvidence } from '@/lib/duplicate-detection';
 
 interface RouteParams {
   params: {
@@ -52,8 +55,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
           signals: {
             orderBy: { confidence: 'desc' },
           },
+          duplicateOf: {
+            select: { id: true, title: true },
+          },
           _count: {
-            select: { signals: true },
+            select: { signals: true, snapshots: true },
           },
         },
       }),
@@ -65,7 +71,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     console.log(`src/app/api/projects/[id]/evidence/route.ts: Retrieved ${evidence.length} evidence items for project ${params.id}`);
 
     return successResponse({
-      evidence,
+      evidence: evidence.map(item => ({
+        ...item,
+        keyQuotes: parseStringArray(item.keyQuotes),
+        topics: parseStringArray(item.topics),
+      })),
       pagination: {
         page,
         limit,
@@ -99,17 +109,39 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       projectId: params.id,
     });
 
-    // Generate content hash for deduplication
-    const contentForHash = validatedData.url || validatedData.title;
-    const contentHash = generateContentHash(contentForHash);
+    // File evidence confirms an upload: the key must belong to this project and exist
+    if (validatedData.type === 'file') {
+      const fileInfo = validatedData.fileKey && isEvidenceFileKey(params.id, validatedData.fileKey)
+        ? await getStorage().headObject(validatedData.fileKey)
+        : null;
+
+      if (!fileInfo) {
+        return NextResponse.json(
+          {
+            type: 'about:blank',
+            title: 'Invalid File',
+            status: 400,
+            detail: 'File key is missing, not part of this project, or the upload has not completed',
+          },
+          { status: 400 }
+        );
+      }
+    }
 
-    // Check for duplicate evidence
-    const existingEvidence = await prisma.evidence.findFirst({
-      where: {
-        projectId: params.id,
-        contentHash,
-      },
-    });
+    // URLs are stored without tracking parameters and deduplicated by page identity
+    const url = validatedData.url ? canonicalizeUrl(validatedData.url) : undefined;
+    const urlHash = url ? urlIdentityHash(url) : null;
+    const contentHash = urlHash ?? generateContentHash(validatedData.fileKey || validatedData.title);
+
+    // Check for duplicate evidence (same page, including pages whose rel=canonical is this URL)
+    const existingEvidence = urlHash && validatedData.type === 'url'
+      ? await findSamePageEvidence(params.id, urlHash)
+      : await prisma.evidence.findFirst({
+          where: {
+            projectId: params.id,
+            contentHash,
+          },
+        });
 
     if (existingEvidence) {
       return NextResponse.json(
@@ -117,7 +149,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           type: 'about:blank',
           title: 'Duplicate Evidence',
           status: 409,
-          detail: 'Evidence with similar content already exists in this project',
+          detail: `Evidence with similar content already exists in this project: ${existingEvidence.title}`,
+          duplicateOfId: existingEvidence.id,
         },
         { status: 409 }
       );
@@ -127,23 +160,37 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     const evidence = await prisma.evidence.create({
       data: {
         ...validatedData,
+        url,
+        urlHash,
         contentHash,
-        // Auto-approve notes, queue processing for URLs
+        // Notes are typed in-app; URLs and files stay quarantined until their worker approves them
         approved: validatedData.type === 'note',
+        processingState: validatedData.type === 'note' ? 'done' : 'queued',
       },
     });
 
     // Queue background processing for URL evidence
-    if (validatedData.type === 'url' && validatedData.url && isValidUrl(validatedData.url)) {
+    if (validatedData.type === 'url' && url && isValidUrl(url)) {
       await addEvidenceFetchJob({
         evidenceId: evidence.id,
-        url: validatedData.url,
+        url,
         projectId: params.id,
       });
       
       console.log(`src/app/api/projects/[id]/evidence/route.ts: Queued fetch job for evidence ${evidence.id}`);
     }
 
+    // Queue security scanning and text extraction for uploaded files
+    if (validatedData.type === 'file' && validatedData.fileKey) {
+      await addFileProcessJob({
+        evidenceId: evidence.id,
+        fileKey: validatedData.fileKey,
+        projectId: params.id,
+      });
+
+      console.log(`src/app/api/projects/[id]/evidence/route.ts: Queued file processing job for evidence ${evidence.id}`);
+    }
+
     // Log evidence creation
     await auditLog(
       userId,
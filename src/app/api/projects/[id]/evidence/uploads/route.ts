@@ -0,0 +1,79 @@
+/**
+ * src/app/api/projects/[id]/evidence/uploads/route.ts: Evidence upload URL endpoint
+ *
+ * Issues presigned upload URLs for file evidence. The client PUTs the
+ * file to the returned URL and then confirms it by creating a `file`
+ * evidence record with the returned key.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { handleApiError, createdResponse } from '@/lib/errors';
+import { requireProjectAccess } from '@/lib/auth';
+import { auditLog, logApiAccess } from '@/lib/audit';
+import { getStorage, buildEvidenceFileKey, MAX_UPLOAD_BYTES } from '@/lib/storage';
+import { rateLimiters } from '@/lib/redis';
+import { z } from 'zod';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+const UploadRequest = z.object({
+  filename: z.string().min(1).max(200),
+  contentType: z.string().min(1).max(100),
+  size: z.number().int().min(1).max(MAX_UPLOAD_BYTES),
+});
+
+/**
+ * POST /api/projects/[id]/evidence/uploads - Request presigned upload URL
+ * Returns the storage key and a short-lived URL to PUT the file to
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'write');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/evidence/uploads`, 'POST', params.id);
+
+    // Apply rate limiting for uploads
+    const { success } = await rateLimiters.evidenceFetch.limit(`upload:${userId}`);
+    if (!success) {
+      return NextResponse.json(
+        {
+          type: 'about:blank',
+          title: 'Rate Limit Exceeded',
+          status: 429,
+          detail: 'Too many uploads. Please try again later.',
+        },
+        { status: 429 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const { filename, contentType, size } = UploadRequest.parse(body);
+
+    const key = buildEvidenceFileKey(params.id, filename);
+    const upload = await getStorage().createUploadUrl(key, contentType);
+
+    // Log upload request
+    await auditLog(
+      userId,
+      'REQUEST_UPLOAD',
+      `Requested upload URL for ${filename} (${contentType}, ${size} bytes)`,
+      params.id
+    );
+
+    console.log(`src/app/api/projects/[id]/evidence/uploads/route.ts: Issued upload URL for ${key}`);
+
+    return createdResponse({ key, upload }, 'Upload URL created successfully');
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/evidence/uploads`);
+  }
+}
@@ -11,7 +11,11 @@ import { prisma } from '@/lib/db';
 import { handleApiError, successResponse } from '@/lib/errors';
 import { requireProjectAccess } from '@/lib/auth';
 import { auditLog, logApiAccess } from '@/lib/audit';
+import { advanceProjectStatus } from '@/lib/project-status';
 import { generateMarkdownExport, generateJsonExport } from '@/lib/export-generator';
+import { parseStringArray } from '@/lib/utils';
+import { consolidateProjectSignals } from '@/lib/signal-clustering';
+import { loadCompanyProfile } from '@/lib/company-profile';
 
 interface RouteParams {
   params: {
@@ -35,13 +39,16 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     console.log(`src/app/api/projects/[id]/export/route.ts: Starting export generation for project ${params.id}`);
 
+    // Consolidate signals first so the export lists each insight once, not once per source
+    await consolidateProjectSignals(params.id);
+
     // Fetch complete project data for export
-    const [project, evidence, pains, stakeholders, outreachAssets, roiCalculation] = await Promise.all([
+    const [project, evidence, insights, pains, stakeholders, outreachAssets, roiCalculation, companyProfile] = await Promise.all([
       prisma.project.findUnique({
         where: { id: params.id },
       }),
       prisma.evidence.findMany({
-        where: { projectId: params.id },
+        where: { projectId: params.id, approved: true }, // Quarantined or rejected evidence is never exported
         include: {
           signals: {
             orderBy: { confidence: 'desc' },
@@ -49,9 +56,19 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         },
         orderBy: { createdAt: 'desc' },
       }),
+      prisma.insight.findMany({
+        where: { projectId: params.id },
+        orderBy: [{ confidence: 'desc' }, { corroboration: 'desc' }],
+        include: {
+          signals: { select: { evidenceId: true } },
+        },
+      }),
       prisma.pain.findMany({
         where: { projectId: params.id },
         orderBy: { confidence: 'desc' },
+        include: {
+          evidenceLinks: { select: { evidenceId: true } },
+        },
       }),
       prisma.stakeholder.findMany({
         where: { projectId: params.id },
@@ -65,6 +82,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         where: { projectId: params.id },
         orderBy: { createdAt: 'desc' },
       }),
+      loadCompanyProfile(params.id),
     ]);
 
     if (!project) {
@@ -113,12 +131,23 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       },
       evidence: evidence.map(item => ({
         ...item,
+        keyQuotes: parseStringArray(item.keyQuotes),
+        topics: parseStringArray(item.topics),
         createdAt: item.createdAt.toISOString(),
         updatedAt: item.updatedAt.toISOString(),
         publishedAt: item.publishedAt?.toISOString(),
       })),
-      pains: pains.map(pain => ({
+      insights: insights.map(insight => ({
+        id: insight.id,
+        kind: insight.kind,
+        text: insight.text,
+        confidence: insight.confidence,
+        corroboration: insight.corroboration,
+        evidenceIds: Array.from(new Set(insight.signals.map(signal => signal.evidenceId))),
+      })),
+      pains: pains.map(({ evidenceLinks, ...pain }) => ({
         ...pain,
+        evidenceIds: evidenceLinks.map(link => link.evidenceId),
         createdAt: pain.createdAt.toISOString(),
         updatedAt: pain.updatedAt.toISOString(),
       })),
@@ -133,6 +162,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         updatedAt: asset.updatedAt.toISOString(),
       })),
       roiOutput,
+      companyProfile,
     };
 
     // Generate exports
@@ -148,13 +178,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       },
     });
 
-    // Update project status to READY if not already
-    if (project.status !== 'READY') {
-      await prisma.project.update({
-        where: { id: params.id },
-        data: { status: 'READY' },
-      });
-      console.log(`src/app/api/projects/[id]/export/route.ts: Advanced project ${params.id} to READY status`);
+    // Advance toward READY; the state machine only gets there once QA passes
+    const statusResult = await advanceProjectStatus(params.id, 'READY', userId);
+    if (statusResult.advanced) {
+      console.log(`src/app/api/projects/[id]/export/route.ts: Advanced project ${params.id} to ${statusResult.status} status`);
     }
 
     // Log export generation
@@ -178,6 +205,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         outreachAssetCount: outreachAssets.length,
         completeness: jsonExport.summary.researchCompleteness,
       },
+      status: statusResult.status,
+      statusBlockedBy: statusResult.blockedBy,
     }, 'Export generated successfully');
   } catch (error) {
     return handleApiError(error, `/api/projects/${params.id}/export`);
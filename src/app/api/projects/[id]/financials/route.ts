@@ -0,0 +1,65 @@
+/**
+ * src/app/api/projects/[id]/financials/route.ts: Project financial metrics API endpoint
+ *
+ * Lists the revenue, operating expense, R&D and headcount figures read
+ * from the project's SEC filings, each with its year-over-year change, the
+ * filing section it was read from and the registrant that filed it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import type { FinancialMetricType } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { handleApiError, successResponse } from '@/lib/errors';
+import { requireProjectAccess } from '@/lib/auth';
+import { logApiAccess } from '@/lib/audit';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * GET /api/projects/[id]/financials - List financial metrics
+ * Returns the company's latest figure for each metric and every recorded
+ * period (peer filings included, tagged with their registrant), newest first
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'read');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/financials`, 'GET', params.id);
+
+    // Quarantined or rejected evidence never contributes figures
+    const metrics = await prisma.financialMetric.findMany({
+      where: { projectId: params.id, evidence: { approved: true } },
+      orderBy: [{ periodEnd: 'desc' }, { createdAt: 'desc' }],
+      include: {
+        evidence: {
+          select: { id: true, title: true, url: true },
+        },
+      },
+    });
+
+    // Headline values come from the company's own filings; annual figures are preferred and quarters fill gaps
+    const own = metrics.filter(metric => metric.ownCompany);
+    const latest: Partial<Record<FinancialMetricType, typeof metrics[number]>> = {};
+    own
+      .filter(metric => metric.fiscalPeriod === 'FY' || metric.metric === 'headcount')
+      .concat(own)
+      .forEach(metric => {
+        if (!latest[metric.metric]) latest[metric.metric] = metric;
+      });
+
+    console.log(`src/app/api/projects/[id]/financials/route.ts: Retrieved ${metrics.length} financial metrics for project ${params.id}`);
+
+    return successResponse({ latest, metrics });
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/financials`);
+  }
+}
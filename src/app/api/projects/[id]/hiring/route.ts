@@ -0,0 +1,110 @@
+/**
+ * src/app/api/projects/[id]/hiring/route.ts: Project hiring signals API endpoint
+ *
+ * Lists the open roles extracted from the project's careers pages and job
+ * postings, filtered by department, seniority, technology and age, with a
+ * breakdown and a one-line description of the result.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { HiringQuery } from '@/lib/schemas';
+import { handleApiError, successResponse } from '@/lib/errors';
+import { requireProjectAccess } from '@/lib/auth';
+import { logApiAccess } from '@/lib/audit';
+import { parseStringArray } from '@/lib/utils';
+import { canonicalTechnology, DEPARTMENT_LABELS, describeHiring } from '@/lib/job-postings';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// Technologies listed in the summary
+const TOP_TECHNOLOGIES = 10;
+
+/**
+ * Count occurrences of each key, most frequent first
+ */
+function countBy<T extends string>(values: T[]): Array<{ key: T; count: number }> {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return Array.from(counts, ([key, count]) => ({ key, count })).sort((a, b) => b.count - a.count || (a.key < b.key ? -1 : 1));
+}
+
+/**
+ * GET /api/projects/[id]/hiring - List hiring records
+ * Query: department, seniority, technology, days (posted or first seen within)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'read');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/hiring`, 'GET', params.id);
+
+    const { searchParams } = new URL(request.url);
+    const query = HiringQuery.parse({
+      department: searchParams.get('department') || undefined,
+      seniority: searchParams.get('seniority') || undefined,
+      technology: searchParams.get('technology') || undefined,
+      days: searchParams.get('days') || undefined,
+    });
+    const technology = query.technology && (canonicalTechnology(query.technology) ?? query.technology);
+
+    // Quarantined or rejected evidence never contributes hiring records
+    const where: Prisma.HiringRecordWhereInput = {
+      projectId: params.id,
+      evidence: { approved: true },
+      ...(query.department && { department: query.department }),
+      ...(query.seniority && { seniority: query.seniority }),
+      ...(technology && { technologies: { contains: JSON.stringify(technology), mode: 'insensitive' } }),
+    };
+    if (query.days) {
+      // Roles without a posted date count from when they were first seen
+      const since = new Date(Date.now() - query.days * 24 * 60 * 60 * 1000);
+      where.OR = [
+        { postedAt: { gte: since } },
+        { postedAt: null, firstSeenAt: { gte: since } },
+      ];
+    }
+
+    const records = await prisma.hiringRecord.findMany({
+      where,
+      orderBy: [{ postedAt: { sort: 'desc', nulls: 'last' } }, { firstSeenAt: 'desc' }],
+      include: {
+        evidence: {
+          select: { id: true, title: true, url: true },
+        },
+      },
+    });
+
+    const roles = records.map(record => ({
+      ...record,
+      technologies: parseStringArray(record.technologies),
+    }));
+
+    const summary = {
+      total: roles.length,
+      byDepartment: countBy(roles.map(role => role.department)).map(({ key, count }) => ({ department: key, label: DEPARTMENT_LABELS[key], count })),
+      bySeniority: countBy(roles.map(role => role.seniority)).map(({ key, count }) => ({ seniority: key, count })),
+      topTechnologies: countBy(roles.reduce<string[]>((all, role) => all.concat(role.technologies), [])).slice(0, TOP_TECHNOLOGIES).map(({ key, count }) => ({ technology: key, count })),
+    };
+
+    console.log(`src/app/api/projects/[id]/hiring/route.ts: Retrieved ${roles.length} hiring records for project ${params.id}`);
+
+    return successResponse({
+      records: roles,
+      summary,
+      description: describeHiring(roles.length, { ...query, technology }),
+    });
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/hiring`);
+  }
+}
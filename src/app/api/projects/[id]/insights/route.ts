@@ -0,0 +1,97 @@
+/**
+ * src/app/api/projects/[id]/insights/route.ts: Project insights API endpoints
+ *
+ * Lists the project's consolidated insights with their supporting signals
+ * and evidence, and rebuilds them by clustering the current signals.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/db';
+import { handleApiError, successResponse } from '@/lib/errors';
+import { requireProjectAccess } from '@/lib/auth';
+import { auditLog, logApiAccess } from '@/lib/audit';
+import { consolidateProjectSignals } from '@/lib/signal-clustering';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * Load a project's insights, strongest first, with their supporting signals
+ */
+function findInsights(projectId: string) {
+  return prisma.insight.findMany({
+    where: { projectId },
+    orderBy: [{ confidence: 'desc' }, { corroboration: 'desc' }],
+    include: {
+      signals: {
+        select: {
+          id: true,
+          text: true,
+          confidence: true,
+          evidence: {
+            select: { id: true, title: true, url: true },
+          },
+        },
+        orderBy: { confidence: 'desc' },
+      },
+    },
+  });
+}
+
+/**
+ * GET /api/projects/[id]/insights - List consolidated insights
+ * Returns insights with corroboration counts and supporting signals
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'read');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/insights`, 'GET', params.id);
+
+    const insights = await findInsights(params.id);
+
+    console.log(`src/app/api/projects/[id]/insights/route.ts: Retrieved ${insights.length} insights for project ${params.id}`);
+
+    return successResponse({ insights });
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/insights`);
+  }
+}
+
+/**
+ * POST /api/projects/[id]/insights - Rebuild insights
+ * Clusters the project's current signals into insights, replacing the previous set
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'write');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/insights`, 'POST', params.id);
+
+    const result = await consolidateProjectSignals(params.id);
+    const insights = await findInsights(params.id);
+
+    await auditLog(
+      userId,
+      'CONSOLIDATE_SIGNALS',
+      `Consolidated ${result.signals} signals into ${result.insights} insights (${result.corroborated} corroborated, ${result.embeddingModel})`,
+      params.id
+    );
+
+    return successResponse({ insights, consolidation: result }, 'Insights rebuilt successfully');
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/insights`);
+  }
+}
@@ -12,7 +12,9 @@ import { prisma } from '@/lib/db';
 import { handleApiError, createdResponse, successResponse } from '@/lib/errors';
 import { requireProjectAccess } from '@/lib/auth';
 import { auditLog, logApiAccess } from '@/lib/audit';
+import { advanceProjectStatus } from '@/lib/project-status';
 import { generateOutreachAsset, validateOutreachRequirements } from '@/lib/outreach-generator';
+import { loadTechStack, MIN_TECH_CONFIDENCE } from '@/lib/tech-stack';
 import { rateLimiters } from '@/lib/redis';
 import { z } from 'zod';
 
@@ -96,7 +98,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     const { stakeholderId, kind, senderName = 'Sales Team' } = OutreachGenerateRequest.parse(body);
 
     // Get project data needed for outreach generation
-    const [project, stakeholder, pains, roiCalculation, evidence] = await Promise.all([
+    const [project, stakeholder, pains, roiCalculation, evidence, techStack] = await Promise.all([
       prisma.project.findUnique({
         where: { id: params.id },
         select: { companyName: true, productCategory: true },
@@ -120,6 +122,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         },
         select: { url: true },
       }),
+      loadTechStack(params.id, MIN_TECH_CONFIDENCE),
     ]);
 
     if (!project || !stakeholder) {
@@ -182,6 +185,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         pains,
         roiOutput,
         sources,
+        techStack,
       },
       senderName
     );
@@ -198,18 +202,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       },
     });
 
-    // Update project status if this is first outreach asset
-    const projectStatus = await prisma.project.findUnique({
-      where: { id: params.id },
-      select: { status: true },
-    });
-
-    if (projectStatus?.status === 'STAKE') {
-      await prisma.project.update({
-        where: { id: params.id },
-        data: { status: 'OUTREACH' },
-      });
-      console.log(`src/app/api/projects/[id]/outreach/route.ts: Advanced project ${params.id} to OUTREACH status`);
+    // Advance project status now that outreach has been generated
+    const { advanced, status } = await advanceProjectStatus(params.id, 'OUTREACH', userId);
+    if (advanced) {
+      console.log(`src/app/api/projects/[id]/outreach/route.ts: Advanced project ${params.id} to ${status} status`);
     }
 
     // Log outreach generation
@@ -2,7 +2,9 @@
  * src/app/api/projects/[id]/pain/route.ts: Pain point mapping API endpoints
  * 
  * Handles creating and managing pain points linked to evidence sources
- * with confidence scoring and business impact categorization.
+ * with confidence scoring and business impact categorization. Listings
+ * load pains with their evidence in one query and compute per-pain
+ * evidence counts and signal strength in the database.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -12,6 +14,9 @@ import { PainCreate } from '@/lib/schemas';
 import { handleApiError, createdResponse, successResponse } from '@/lib/errors';
 import { requireProjectAccess } from '@/lib/auth';
 import { auditLog, logApiAccess } from '@/lib/audit';
+import { advanceProjectStatus } from '@/lib/project-status';
+import { loadTechStack, MIN_TECH_CONFIDENCE } from '@/lib/tech-stack';
+import { painAggregates } from '@/lib/pain-aggregates';
 
 interface RouteParams {
   params: {
@@ -33,46 +38,46 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     await requireProjectAccess(userId, params.id, 'read');
     await logApiAccess(request, userId, `/api/projects/${params.id}/pain`, 'GET', params.id);
 
-    // Get pain points with linked evidence
-    const pains = await prisma.pain.findMany({
-      where: { projectId: params.id },
-      orderBy: { confidence: 'desc' },
-      include: {
-        evidenceLinks: {
-          include: {
-            pain: false, // Avoid circular reference
+    // Get pain points with linked evidence, their aggregates, and the detected tech stack for context
+    const [pains, aggregates, techStack] = await Promise.all([
+      prisma.pain.findMany({
+        where: { projectId: params.id },
+        orderBy: { confidence: 'desc' },
+        include: {
+          evidenceLinks: {
+            select: {
+              evidence: {
+                select: {
+                  id: true,
+                  title: true,
+                  type: true,
+                  url: true,
+                  author: true,
+                  publishedAt: true,
+                },
+              },
+            },
           },
         },
-      },
+      }),
+      painAggregates(params.id),
+      loadTechStack(params.id, MIN_TECH_CONFIDENCE),
+    ]);
+
+    const painsWithEvidence = pains.map(({ evidenceLinks, ...pain }) => {
+      const aggregate = aggregates.get(pain.id);
+      return {
+        ...pain,
+        evidence: evidenceLinks.map(link => link.evidence),
+        evidenceCount: aggregate?.evidenceCount ?? 0,
+        signalCount: aggregate?.signalCount ?? 0,
+        signalStrength: aggregate?.signalStrength ?? 0,
+      };
     });
 
-    // Get evidence details for each pain point
-    const painsWithEvidence = await Promise.all(
-      pains.map(async (pain) => {
-        const evidenceDetails = await prisma.evidence.findMany({
-          where: {
-            id: { in: pain.evidenceIds },
-          },
-          select: {
-            id: true,
-            title: true,
-            type: true,
-            url: true,
-            author: true,
-            publishedAt: true,
-          },
-        });
-
-        return {
-          ...pain,
-          evidence: evidenceDetails,
-        };
-      })
-    );
-
     console.log(`src/app/api/projects/[id]/pain/route.ts: Retrieved ${pains.length} pain points for project ${params.id}`);
 
-    return successResponse({ pains: painsWithEvidence });
+    return successResponse({ pains: painsWithEvidence, techStack });
   } catch (error) {
     return handleApiError(error, `/api/projects/${params.id}/pain`);
   }
@@ -99,11 +104,12 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       projectId: params.id,
     });
 
-    // Verify all evidence IDs exist and belong to this project
+    // Verify all evidence IDs exist, belong to this project and passed security scanning
     const evidenceCount = await prisma.evidence.count({
       where: {
         id: { in: validatedData.evidenceIds },
         projectId: params.id,
+        approved: true,
       },
     });
 
@@ -113,41 +119,27 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           type: 'about:blank',
           title: 'Invalid Evidence',
           status: 400,
-          detail: 'One or more evidence IDs are invalid or not part of this project',
+          detail: 'One or more evidence IDs are invalid, not part of this project, or not yet approved',
         },
         { status: 400 }
       );
     }
 
-    // Create pain point
+    // Create pain point with its evidence links
+    const { evidenceIds, ...painData } = validatedData;
     const pain = await prisma.pain.create({
-      data: validatedData,
-    });
-
-    // Create evidence links
-    await Promise.all(
-      validatedData.evidenceIds.map(evidenceId =>
-        prisma.painEvidence.create({
-          data: {
-            painId: pain.id,
-            evidenceId,
-          },
-        })
-      )
-    );
-
-    // Update project status if this is first pain point
-    const project = await prisma.project.findUnique({
-      where: { id: params.id },
-      select: { status: true },
+      data: {
+        ...painData,
+        evidenceLinks: {
+          create: evidenceIds.map(evidenceId => ({ evidenceId })),
+        },
+      },
     });
 
-    if (project?.status === 'COMPANY') {
-      await prisma.project.update({
-        where: { id: params.id },
-        data: { status: 'PAIN' },
-      });
-      console.log(`src/app/api/projects/[id]/pain/route.ts: Advanced project ${params.id} to PAIN status`);
+    // Advance project status now that pain mapping has started
+    const { advanced, status } = await advanceProjectStatus(params.id, 'PAIN', userId);
+    if (advanced) {
+      console.log(`src/app/api/projects/[id]/pain/route.ts: Advanced project ${params.id} to ${status} status`);
     }
 
     // Log pain point creation
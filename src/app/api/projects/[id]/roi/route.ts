@@ -3,6 +3,9 @@
  * 
  * Handles ROI scenario calculations with sensitivity analysis
  * and stores results for project tracking and export generation.
+ * Inputs left out of a request default to benchmark values for the
+ * project's segment (industry, company size, product category), and
+ * inputs beyond the segment's benchmark ranges draw warnings.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -12,8 +15,12 @@ import { RoiInputs } from '@/lib/schemas';
 import { handleApiError, successResponse } from '@/lib/errors';
 import { requireProjectAccess } from '@/lib/auth';
 import { auditLog, logApiAccess } from '@/lib/audit';
+import { advanceProjectStatus } from '@/lib/project-status';
 import { calculateRoiScenarios, validateRoiInputs } from '@/lib/roi-calculator';
 import { rateLimiters } from '@/lib/redis';
+import { estimateHeadcount, loadCompanyProfile } from '@/lib/company-profile';
+import { benchmarkContext, resolveRoiBenchmarks, suggestRoiInputs } from '@/lib/roi-benchmarks';
+import { parseStringArray } from '@/lib/utils';
 
 interface RouteParams {
   params: {
@@ -21,9 +28,26 @@ interface RouteParams {
   };
 }
 
+/**
+ * Resolve the project's benchmark ranges and suggested inputs
+ * @param projectId - Project UUID
+ */
+async function loadRoiSuggestions(projectId: string) {
+  const [project, profile] = await Promise.all([
+    prisma.project.findUnique({
+      where: { id: projectId },
+      select: { productCategory: true },
+    }),
+    loadCompanyProfile(projectId),
+  ]);
+
+  const benchmarks = resolveRoiBenchmarks(benchmarkContext(profile, project?.productCategory ?? ''));
+  return { benchmarks, suggestions: suggestRoiInputs(benchmarks, profile ? estimateHeadcount(profile) : null) };
+}
+
 /**
  * GET /api/projects/[id]/roi - Get latest ROI calculation
- * Returns the most recent ROI calculation for the project
+ * Returns the most recent ROI calculation and benchmark-based input defaults with their ranges
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
@@ -36,13 +60,16 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     await logApiAccess(request, userId, `/api/projects/${params.id}/roi`, 'GET', params.id);
 
     // Get latest ROI calculation
-    const roiCalculation = await prisma.roiCalculation.findFirst({
-      where: { projectId: params.id },
-      orderBy: { createdAt: 'desc' },
-    });
+    const [roiCalculation, { suggestions: defaults }] = await Promise.all([
+      prisma.roiCalculation.findFirst({
+        where: { projectId: params.id },
+        orderBy: { createdAt: 'desc' },
+      }),
+      loadRoiSuggestions(params.id),
+    ]);
 
     if (!roiCalculation) {
-      return successResponse({ roiCalculation: null });
+      return successResponse({ roiCalculation: null, defaults });
     }
 
     // Parse stored JSON scenarios
@@ -51,11 +78,12 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       lowScenario: JSON.parse(roiCalculation.lowScenario),
       mostLikelyScenario: JSON.parse(roiCalculation.mostLikelyScenario),
       highScenario: JSON.parse(roiCalculation.highScenario),
+      warnings: parseStringArray(roiCalculation.warnings),
     };
 
     console.log(`src/app/api/projects/[id]/roi/route.ts: Retrieved ROI calculation for project ${params.id}`);
 
-    return successResponse({ roiCalculation: result });
+    return successResponse({ roiCalculation: result, defaults });
   } catch (error) {
     return handleApiError(error, `/api/projects/${params.id}/roi`);
   }
@@ -89,12 +117,14 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Parse and validate request body
+    // Parse and validate request body, filling omitted inputs with benchmark defaults
     const body = await request.json();
-    const inputs = RoiInputs.parse(body);
+    const { benchmarks, suggestions: defaults } = await loadRoiSuggestions(params.id);
+    const inputs = RoiInputs.parse({ ...defaults.inputs, ...body });
+    const defaultedInputs = Object.keys(defaults.inputs).filter(key => body?.[key] === undefined);
 
-    // Validate inputs for reasonableness
-    const warnings = validateRoiInputs(inputs);
+    // Validate inputs against the segment's benchmark ranges
+    const warnings = validateRoiInputs(inputs, benchmarks);
     if (warnings.length > 0) {
       console.log(`src/app/api/projects/[id]/roi/route.ts: ROI input warnings for project ${params.id}:`, warnings);
     }
@@ -122,21 +152,15 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         lowScenario: JSON.stringify(roiOutput.low),
         mostLikelyScenario: JSON.stringify(roiOutput.mostLikely),
         highScenario: JSON.stringify(roiOutput.high),
+        benchmarkVersion: benchmarks.version,
+        warnings: JSON.stringify(warnings),
       },
     });
 
-    // Update project status if this is first ROI calculation
-    const project = await prisma.project.findUnique({
-      where: { id: params.id },
-      select: { status: true },
-    });
-
-    if (project?.status === 'PAIN') {
-      await prisma.project.update({
-        where: { id: params.id },
-        data: { status: 'ROI' },
-      });
-      console.log(`src/app/api/projects/[id]/roi/route.ts: Advanced project ${params.id} to ROI status`);
+    // Advance project status now that ROI has been modeled
+    const { advanced, status } = await advanceProjectStatus(params.id, 'ROI', userId);
+    if (advanced) {
+      console.log(`src/app/api/projects/[id]/roi/route.ts: Advanced project ${params.id} to ${status} status`);
     }
 
     // Log ROI calculation
@@ -155,8 +179,11 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         lowScenario: roiOutput.low,
         mostLikelyScenario: roiOutput.mostLikely,
         highScenario: roiOutput.high,
+        warnings,
       },
       warnings,
+      defaultedInputs,
+      defaultNotes: defaults.notes.filter(note => defaultedInputs.some(key => note.startsWith(`${key}:`))),
     }, 'ROI calculation completed successfully');
   } catch (error) {
     return handleApiError(error, `/api/projects/${params.id}/roi`);
@@ -0,0 +1,195 @@
+/**
+ * src/app/api/projects/[id]/route.ts: Single project API endpoints
+ *
+ * Handles reading, updating, and deleting an individual research project
+ * with proper authorization, validation, and audit logging.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/db';
+import { ProjectUpdate } from '@/lib/schemas';
+import { handleApiError, successResponse } from '@/lib/errors';
+import { requireProjectAccess } from '@/lib/auth';
+import { auditLog, logApiAccess } from '@/lib/audit';
+import { transitionProjectStatus } from '@/lib/project-status';
+import { toCompanyProfileView } from '@/lib/company-profile';
+import { parseStringArray } from '@/lib/utils';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * GET /api/projects/[id] - Get project details
+ * Returns the project with relation counts, the company profile and the latest ROI calculation
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'read');
+    await logApiAccess(request, userId, `/api/projects/${params.id}`, 'GET', params.id);
+
+    const project = await prisma.project.findUnique({
+      where: { id: params.id },
+      include: {
+        roiCalculations: {
+          orderBy: { createdAt: 'desc' },
+          take: 1, // Only the most recent calculation
+        },
+        companyProfile: true,
+        _count: {
+          select: {
+            evidence: true,
+            pains: true,
+            stakeholders: true,
+            outreachAssets: true,
+            roiCalculations: true,
+            exports: true,
+          },
+        },
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        {
+          type: 'about:blank',
+          title: 'Not Found',
+          status: 404,
+          detail: 'Project not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    // Parse stored JSON scenarios of the latest ROI calculation
+    const { roiCalculations, companyProfile, ...projectData } = project;
+    const latestRoi = roiCalculations[0]
+      ? {
+          ...roiCalculations[0],
+          lowScenario: JSON.parse(roiCalculations[0].lowScenario),
+          mostLikelyScenario: JSON.parse(roiCalculations[0].mostLikelyScenario),
+          highScenario: JSON.parse(roiCalculations[0].highScenario),
+          warnings: parseStringArray(roiCalculations[0].warnings),
+        }
+      : null;
+
+    console.log(`src/app/api/projects/[id]/route.ts: Retrieved project ${params.id}`);
+
+    return successResponse({
+      project: {
+        ...projectData,
+        companyProfile: companyProfile ? toCompanyProfileView(companyProfile) : null,
+        latestRoi,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}`);
+  }
+}
+
+/**
+ * PATCH /api/projects/[id] - Update project
+ * Applies a partial update to the project's editable fields; status
+ * changes go through the project status state machine
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'write');
+    await logApiAccess(request, userId, `/api/projects/${params.id}`, 'PATCH', params.id);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const { name, companyName, companyDomain, productCategory, status } = ProjectUpdate.parse(body);
+    const updates = { name, companyName, companyDomain, productCategory };
+
+    const changedFields = Object.entries({ ...updates, status })
+      .filter(([, value]) => value !== undefined)
+      .map(([field]) => field);
+
+    if (changedFields.length === 0) {
+      return NextResponse.json(
+        {
+          type: 'about:blank',
+          title: 'Validation Error',
+          status: 400,
+          detail: 'At least one updatable field must be provided',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Guarded status transition (throws Conflict if not allowed), writing the
+    // field updates in the same transaction
+    if (status) {
+      await transitionProjectStatus(params.id, status, userId, undefined, updates);
+    }
+
+    const project = status
+      ? await prisma.project.findUniqueOrThrow({ where: { id: params.id } })
+      : await prisma.project.update({
+          where: { id: params.id },
+          data: updates,
+        });
+
+    // Log project update
+    await auditLog(
+      userId,
+      'UPDATE_PROJECT',
+      `Updated project ${project.name}: ${changedFields.join(', ')}`,
+      params.id
+    );
+
+    console.log(`src/app/api/projects/[id]/route.ts: Updated project ${params.id} (${changedFields.join(', ')})`);
+
+    return successResponse(project, 'Project updated successfully');
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}`);
+  }
+}
+
+/**
+ * DELETE /api/projects/[id] - Delete project
+ * Removes the project and all related research data (cascading)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'admin');
+    await logApiAccess(request, userId, `/api/projects/${params.id}`, 'DELETE', params.id);
+
+    const project = await prisma.project.delete({
+      where: { id: params.id },
+    });
+
+    // Log project deletion
+    await auditLog(
+      userId,
+      'DELETE_PROJECT',
+      `Deleted project: ${project.name} for company: ${project.companyName}`,
+      params.id
+    );
+
+    console.log(`src/app/api/projects/[id]/route.ts: Deleted project ${params.id}`);
+
+    return successResponse({ id: project.id }, 'Project deleted successfully');
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}`);
+  }
+}
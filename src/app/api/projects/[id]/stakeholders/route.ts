@@ -12,6 +12,7 @@ import { StakeholderCreate } from '@/lib/schemas';
 import { handleApiError, createdResponse, successResponse } from '@/lib/errors';
 import { requireProjectAccess } from '@/lib/auth';
 import { auditLog, logApiAccess } from '@/lib/audit';
+import { advanceProjectStatus } from '@/lib/project-status';
 
 interface RouteParams {
   params: {
@@ -86,18 +87,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       },
     });
 
-    // Update project status if this is first stakeholder
-    const project = await prisma.project.findUnique({
-      where: { id: params.id },
-      select: { status: true },
-    });
-
-    if (project?.status === 'ROI') {
-      await prisma.project.update({
-        where: { id: params.id },
-        data: { status: 'STAKE' },
-      });
-      console.log(`src/app/api/projects/[id]/stakeholders/route.ts: Advanced project ${params.id} to STAKE status`);
+    // Advance project status now that stakeholders are being mapped
+    const { advanced, status } = await advanceProjectStatus(params.id, 'STAKE', userId);
+    if (advanced) {
+      console.log(`src/app/api/projects/[id]/stakeholders/route.ts: Advanced project ${params.id} to ${status} status`);
     }
 
     // Log stakeholder creation
@@ -0,0 +1,124 @@
+/**
+ * src/app/api/projects/[id]/status/route.ts: Project status API endpoints
+ *
+ * Exposes the project status timeline and performs guarded forward
+ * transitions and explicit rollbacks through the status state machine.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/db';
+import { handleApiError, successResponse } from '@/lib/errors';
+import { requireProjectAccess } from '@/lib/auth';
+import { auditLog, logApiAccess } from '@/lib/audit';
+import {
+  checkTransition,
+  getStatusHistory,
+  nextStatus,
+  runQaChecks,
+  transitionProjectStatus,
+} from '@/lib/project-status';
+import { Project } from '@/lib/schemas';
+import { z } from 'zod';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+const StatusTransitionRequest = z.object({
+  status: Project.shape.status,
+  reason: z.string().min(1).max(500).optional(),
+});
+
+/**
+ * GET /api/projects/[id]/status - Get status timeline
+ * Returns current status, the next legal move with its blockers,
+ * QA checklist results, and the full transition history
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'read');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/status`, 'GET', params.id);
+
+    const project = await prisma.project.findUnique({
+      where: { id: params.id },
+      select: { status: true },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        {
+          type: 'about:blank',
+          title: 'Not Found',
+          status: 404,
+          detail: 'Project not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const next = nextStatus(project.status);
+    const [history, qa, blockedBy] = await Promise.all([
+      getStatusHistory(params.id),
+      runQaChecks(params.id),
+      next ? checkTransition(params.id, project.status, next) : Promise.resolve([]),
+    ]);
+
+    return successResponse({
+      status: project.status,
+      next: next ? { status: next, blockedBy } : null,
+      qa,
+      history,
+    });
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/status`);
+  }
+}
+
+/**
+ * POST /api/projects/[id]/status - Transition project status
+ * Moves the project one step forward (if preconditions pass) or rolls it back
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'write');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/status`, 'POST', params.id);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const { status, reason } = StatusTransitionRequest.parse(body);
+
+    const previous = await prisma.project.findUnique({
+      where: { id: params.id },
+      select: { status: true },
+    });
+
+    const newStatus = await transitionProjectStatus(params.id, status, userId, reason);
+
+    // Log status transition
+    await auditLog(
+      userId,
+      'TRANSITION_STATUS',
+      `Changed project status from ${previous?.status} to ${newStatus}${reason ? ` (${reason})` : ''}`,
+      params.id
+    );
+
+    console.log(`src/app/api/projects/[id]/status/route.ts: Project ${params.id} now in ${newStatus} status`);
+
+    return successResponse({ status: newStatus }, 'Project status updated successfully');
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/status`);
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * src/app/api/projects/[id]/techstack/route.ts: Project tech-stack profile API endpoints
+ *
+ * Returns the technologies detected on the company's web pages, with
+ * confidence and the pages and patterns that matched, and queues a fresh
+ * detection pass.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { prisma } from '@/lib/db';
+import { handleApiError, successResponse } from '@/lib/errors';
+import { requireProjectAccess } from '@/lib/auth';
+import { auditLog, logApiAccess } from '@/lib/audit';
+import { addEnrichmentJob } from '@/lib/queue';
+import { loadTechStack } from '@/lib/tech-stack';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * GET /api/projects/[id]/techstack - Get the tech-stack profile
+ * Query: minConfidence (0-1, default 0)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'read');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/techstack`, 'GET', params.id);
+
+    const { searchParams } = new URL(request.url);
+    const minConfidence = Math.min(Math.max(parseFloat(searchParams.get('minConfidence') || '0') || 0, 0), 1);
+
+    const [technologies, latest] = await Promise.all([
+      loadTechStack(params.id, minConfidence),
+      prisma.techStackItem.findFirst({
+        where: { projectId: params.id },
+        orderBy: { detectedAt: 'desc' },
+        select: { detectedAt: true, detector: true },
+      }),
+    ]);
+
+    // Group names by category for a compact overview
+    const byCategory: Record<string, string[]> = {};
+    technologies.forEach(technology => {
+      byCategory[technology.category] = [...(byCategory[technology.category] ?? []), technology.name];
+    });
+
+    console.log(`src/app/api/projects/[id]/techstack/route.ts: Retrieved ${technologies.length} technologies for project ${params.id}`);
+
+    return successResponse({
+      technologies,
+      byCategory,
+      detectedAt: latest?.detectedAt ?? null,
+      detector: latest?.detector ?? null,
+    });
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/techstack`);
+  }
+}
+
+/**
+ * POST /api/projects/[id]/techstack - Re-detect the tech stack
+ * Queues fingerprinting of the company's pages; the profile is replaced when the job completes
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireProjectAccess(userId, params.id, 'write');
+    await logApiAccess(request, userId, `/api/projects/${params.id}/techstack`, 'POST', params.id);
+
+    const project = await prisma.project.findUnique({
+      where: { id: params.id },
+      select: { companyDomain: true },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        {
+          type: 'about:blank',
+          title: 'Not Found',
+          status: 404,
+          detail: 'Project not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const job = await addEnrichmentJob(
+      { projectId: params.id, companyDomain: project.companyDomain, enrichmentType: 'techstack' },
+      `enrich-${params.id}-techstack-${Date.now()}`
+    );
+
+    await auditLog(userId, 'REQUEST_ENRICHMENT', `Requested tech-stack detection for ${project.companyDomain}`, params.id);
+
+    console.log(`src/app/api/projects/[id]/techstack/route.ts: Queued tech-stack detection for project ${params.id}`);
+
+    return successResponse({ jobId: job.id }, 'Tech-stack detection queued', 202);
+  } catch (error) {
+    return handleApiError(error, `/api/projects/${params.id}/techstack`);
+  }
+}
@@ -11,6 +11,7 @@ import { prisma } from '@/lib/db';
 import { ProjectCreate, Project } from '@/lib/schemas';
 import { handleApiError, createdResponse, successResponse } from '@/lib/errors';
 import { auditLog, logApiAccess } from '@/lib/audit';
+import { recordInitialStatus } from '@/lib/project-status';
 
 
 /**
@@ -104,6 +105,9 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    // Start the status timeline at INIT
+    await recordInitialStatus(project.id, userId);
+
     // Log project creation for audit
     await auditLog(
       userId,
@@ -0,0 +1,112 @@
+/**
+ * src/app/api/storage/local/route.ts: Local storage driver endpoints
+ *
+ * Serves the signed upload and download URLs issued by the local
+ * filesystem storage adapter. Only active when STORAGE_DRIVER=local;
+ * requests are authorized by their HMAC signature, not a session.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { problemResponse } from '@/lib/errors';
+import { getStorage, verifyLocalRequest, MAX_UPLOAD_BYTES } from '@/lib/storage';
+
+/**
+ * Reject requests when the local driver is not in use or the signature is invalid
+ */
+function checkRequest(request: NextRequest, method: 'PUT' | 'GET') {
+  if (getStorage().driver !== 'local') {
+    return problemResponse(404, 'Not Found', 'Local storage driver is not enabled');
+  }
+
+  const { searchParams } = new URL(request.url);
+  if (!verifyLocalRequest(method, searchParams)) {
+    return problemResponse(403, 'Forbidden', 'Invalid or expired storage signature');
+  }
+
+  return null;
+}
+
+/**
+ * Read a request body, giving up as soon as it exceeds a byte limit
+ * @returns The body, or null when it is larger than maxBytes
+ */
+async function readCapped(request: NextRequest, maxBytes: number): Promise<Buffer | null> {
+  if (!request.body) return Buffer.alloc(0);
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * PUT /api/storage/local - Upload file to a signed key
+ */
+export async function PUT(request: NextRequest) {
+  const rejection = checkRequest(request, 'PUT');
+  if (rejection) return rejection;
+
+  const { searchParams } = new URL(request.url);
+  const key = searchParams.get('key') as string;
+  const contentType = searchParams.get('contentType') || 'application/octet-stream';
+
+  if (request.headers.get('content-type') !== contentType) {
+    return problemResponse(400, 'Bad Request', 'Content-Type does not match the signed upload');
+  }
+
+  const declaredLength = parseInt(request.headers.get('content-length') || '0');
+  if (declaredLength > MAX_UPLOAD_BYTES) {
+    return problemResponse(413, 'Payload Too Large', `Uploads are limited to ${MAX_UPLOAD_BYTES} bytes`);
+  }
+
+  // Chunked bodies declare no length, so the cap is also enforced while reading
+  const body = await readCapped(request, MAX_UPLOAD_BYTES);
+  if (!body) {
+    return problemResponse(413, 'Payload Too Large', `Uploads are limited to ${MAX_UPLOAD_BYTES} bytes`);
+  }
+
+  await getStorage().putObject(key, body, contentType);
+
+  console.log(`src/app/api/storage/local/route.ts: Stored ${body.length} bytes at ${key}`);
+
+  return new NextResponse(null, { status: 200 });
+}
+
+/**
+ * GET /api/storage/local - Download file from a signed key
+ */
+export async function GET(request: NextRequest) {
+  const rejection = checkRequest(request, 'GET');
+  if (rejection) return rejection;
+
+  const { searchParams } = new URL(request.url);
+  const key = searchParams.get('key') as string;
+  const filename = searchParams.get('filename');
+
+  const storage = getStorage();
+  const info = await storage.headObject(key);
+  if (!info) {
+    return problemResponse(404, 'Not Found', 'File not found');
+  }
+
+  const body = await storage.getObject(key);
+
+  return new NextResponse(new Uint8Array(body), {
+    status: 200,
+    headers: {
+      'Content-Type': info.contentType,
+      'Content-Length': info.size.toString(),
+      ...(filename && { 'Content-Disposition': `attachment; filename="${filename.replace(/["\\]/g, '')}"` }),
+    },
+  });
+}
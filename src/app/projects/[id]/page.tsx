@@ -10,6 +10,7 @@ import { redirect, notFound } from 'next/navigation';
 import { prisma } from '@/lib/db';
 import { requireProjectAccess } from '@/lib/auth';
 import { ProjectWizard } from '@/features/projects/components/project-wizard';
+import { describeCompanyProfile, toCompanyProfileView } from '@/lib/company-profile';
 
 interface ProjectPageProps {
   params: {
@@ -58,6 +59,10 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
           orderBy: { createdAt: 'desc' },
           take: 1, // Get most recent export
         },
+        statusHistory: {
+          orderBy: { createdAt: 'asc' }, // Oldest first for the timeline
+        },
+        companyProfile: true,
       },
     });
 
@@ -67,9 +72,21 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
 
     console.log(`src/app/projects/[id]/page.tsx: Loaded project ${project.id} with status ${project.status}`);
 
+    // Summarize the company profile on the server; the wizard only renders it
+    const profile = project.companyProfile ? toCompanyProfileView(project.companyProfile) : null;
+    const companyProfile = profile
+      ? {
+          description: describeCompanyProfile(profile),
+          sources: Array.from(new Set(Object.values(profile.sources).map(source => source?.source).filter((source): source is string => !!source))),
+        }
+      : null;
+
     return (
       <div className="min-h-screen bg-gray-50">
-        <ProjectWizard project={project} />
+        <ProjectWizard
+          project={project}
+          companyProfile={companyProfile}
+        />
       </div>
     );
   } catch (error) {
@@ -0,0 +1,82 @@
+/**
+ * src/features/evidence/components/evidence-history.tsx: Evidence version history
+ *
+ * Lists the stored content versions of an evidence item and shows the
+ * diff of the selected version against the one before it.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { EvidenceSnapshot } from '@prisma/client';
+import { useEvidenceSnapshots, useEvidenceSnapshot } from '@/features/evidence/hooks/use-evidence';
+import { Loader2 } from 'lucide-react';
+
+// Line prefix of a unified diff → text color
+const DIFF_LINE_CLASSES: Record<string, string> = {
+  '+': 'text-green-700 bg-green-50',
+  '-': 'text-red-700 bg-red-50',
+  '@': 'text-gray-400',
+};
+
+type SnapshotSummary = Omit<EvidenceSnapshot, 'evidenceId' | 'rawKey' | 'textKey' | 'diffKey'>;
+
+interface EvidenceHistoryProps {
+  projectId: string;
+  evidenceId: string;
+}
+
+export function EvidenceHistory({ projectId, evidenceId }: EvidenceHistoryProps) {
+  const { data, isLoading } = useEvidenceSnapshots(projectId, evidenceId);
+  const snapshots: SnapshotSummary[] = data?.data?.snapshots ?? [];
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+
+  // Default to the latest version that has a diff
+  const version = selectedVersion ?? snapshots.find(snapshot => snapshot.version > 1)?.version ?? null;
+  const { data: snapshotData, isLoading: isLoadingSnapshot } = useEvidenceSnapshot(projectId, evidenceId, version);
+  const diff: string | null = snapshotData?.data?.diff ?? null;
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-gray-400" />;
+  }
+
+  if (snapshots.length === 0) {
+    return <p className="text-sm text-gray-500">No content snapshots yet</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2 text-xs">
+        {snapshots.map((snapshot) => (
+          <button
+            key={snapshot.id}
+            type="button"
+            onClick={() => setSelectedVersion(snapshot.version)}
+            className={`rounded border px-2 py-1 ${snapshot.version === version ? 'border-blue-500 bg-blue-50 text-blue-800' : 'border-gray-200 text-gray-600'}`}
+          >
+            v{snapshot.version} · {new Date(snapshot.fetchedAt).toLocaleDateString()}
+            {snapshot.linesAdded !== null && snapshot.linesRemoved !== null && (
+              <span className="ml-1">
+                <span className="text-green-700">+{snapshot.linesAdded}</span>/<span className="text-red-700">-{snapshot.linesRemoved}</span>
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {version === null || version === 1 ? (
+        <p className="text-sm text-gray-500">First version; no changes to compare yet</p>
+      ) : isLoadingSnapshot ? (
+        <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+      ) : (
+        <pre className="max-h-80 overflow-auto rounded border bg-white p-2 text-xs whitespace-pre-wrap">
+          {(diff ?? '').split('\n').map((line, index) => (
+            <div key={index} className={DIFF_LINE_CLASSES[line[0]] ?? 'text-gray-600'}>
+              {line}
+            </div>
+          ))}
+        </pre>
+      )}
+    </div>
+  );
+}
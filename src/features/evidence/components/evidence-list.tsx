@@ -0,0 +1,209 @@
+/**
+ * src/features/evidence/components/evidence-list.tsx: Project evidence list
+ *
+ * Lists a project's evidence sources with per-item processing status
+ * badges (updated live from job events), failure details, a retry
+ * action for failed items, refresh/version history for URLs,
+ * possible-duplicate warnings, and the NLP summary, topics and key quotes.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { Evidence, EvidenceProcessingState } from '@prisma/client';
+import { useEvidence, useEvidenceEvents, useRefreshEvidence, useRetryEvidence } from '@/features/evidence/hooks/use-evidence';
+import { EvidenceHistory } from '@/features/evidence/components/evidence-history';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, AlertCircle, AlertTriangle, RotateCw, RefreshCw, History, Link as LinkIcon, FileText, StickyNote, ShieldAlert } from 'lucide-react';
+
+// Badge label and colors for each processing state
+const STATE_BADGES: Record<EvidenceProcessingState, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-100 text-gray-700 border-gray-200' },
+  fetching: { label: 'Fetching', className: 'bg-blue-100 text-blue-800 border-blue-200' },
+  fetched: { label: 'Fetched', className: 'bg-indigo-100 text-indigo-800 border-indigo-200' },
+  analyzing: { label: 'Analyzing', className: 'bg-purple-100 text-purple-800 border-purple-200' },
+  done: { label: 'Done', className: 'bg-green-100 text-green-800 border-green-200' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800 border-red-200' },
+};
+
+const TYPE_ICONS = {
+  url: LinkIcon,
+  file: FileText,
+  note: StickyNote,
+} as const;
+
+// JSON text columns arrive parsed from the API
+type EvidenceListItem = Omit<Evidence, 'keyQuotes' | 'topics'> & {
+  keyQuotes: string[];
+  topics: string[];
+  duplicateOf?: { id: string; title: string } | null;
+  _count?: { signals: number; snapshots: number };
+};
+
+interface EvidenceListProps {
+  projectId: string;
+}
+
+export function EvidenceList({ projectId }: EvidenceListProps) {
+  const { data, isLoading, error } = useEvidence(projectId);
+  const retryEvidence = useRetryEvidence(projectId);
+  const refreshEvidence = useRefreshEvidence(projectId);
+  const { progress } = useEvidenceEvents(projectId);
+  const [historyOpenId, setHistoryOpenId] = useState<string | null>(null);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-gray-500">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        Loading evidence...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{error.message}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const evidence: EvidenceListItem[] = data?.data?.evidence ?? [];
+
+  if (evidence.length === 0) {
+    return <p className="text-center py-12 text-gray-500">No evidence added yet</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {(retryEvidence.error || refreshEvidence.error) && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{(retryEvidence.error || refreshEvidence.error)?.message}</AlertDescription>
+        </Alert>
+      )}
+
+      <ul className="divide-y divide-gray-200 rounded-lg border">
+        {evidence.map((item) => {
+          const badge = STATE_BADGES[item.processingState];
+          const TypeIcon = TYPE_ICONS[item.type];
+          const inProgress = item.processingState !== 'done' && item.processingState !== 'failed';
+          const canRetry = item.processingState === 'failed' && item.type !== 'note' && !(item.type === 'file' && item.rejectedReason);
+          const canRefresh = item.type === 'url' && item.processingState === 'done';
+          const versions = item._count?.snapshots ?? 0;
+
+          return (
+            <li key={item.id} className="p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex items-start space-x-3 min-w-0">
+                  <TypeIcon className="h-5 w-5 mt-0.5 text-gray-400 shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{item.title}</p>
+                    {item.url && (
+                      <a href={item.url} target="_blank" rel="noopener noreferrer" className="text-sm text-blue-600 hover:underline truncate block">
+                        {item.url}
+                      </a>
+                    )}
+                    {(item.summary || item.snippet) && (
+                      <p className="text-sm text-gray-600 mt-1 line-clamp-3">{item.summary || item.snippet}</p>
+                    )}
+                    {item.topics.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {item.topics.map((topic) => (
+                          <Badge key={topic} variant="outline" className="text-xs font-normal">{topic}</Badge>
+                        ))}
+                      </div>
+                    )}
+                    {item.keyQuotes.length > 0 && (
+                      <details className="mt-2 text-sm">
+                        <summary className="cursor-pointer text-gray-500 hover:text-gray-700">
+                          {item.keyQuotes.length} key {item.keyQuotes.length === 1 ? 'quote' : 'quotes'}
+                        </summary>
+                        <ul className="mt-1 space-y-1">
+                          {item.keyQuotes.map((quote) => (
+                            <li key={quote} className="border-l-2 border-gray-200 pl-2 italic text-gray-600">&ldquo;{quote}&rdquo;</li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2 shrink-0">
+                  {item._count && item._count.signals > 0 && (
+                    <Badge variant="secondary">{item._count.signals} signals</Badge>
+                  )}
+                  <Badge variant="outline" className={badge.className}>
+                    {inProgress && <Loader2 className="h-3 w-3 animate-spin mr-1" />}
+                    {badge.label}
+                    {inProgress && progress[item.id] !== undefined && ` ${progress[item.id]}%`}
+                  </Badge>
+                  {versions > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setHistoryOpenId(historyOpenId === item.id ? null : item.id)}
+                    >
+                      <History className="h-4 w-4 mr-1" />
+                      v{versions}
+                    </Button>
+                  )}
+                  {canRefresh && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => refreshEvidence.mutate(item.id)}
+                      disabled={refreshEvidence.isPending && refreshEvidence.variables === item.id}
+                    >
+                      <RefreshCw className="h-4 w-4 mr-1" />
+                      Refresh
+                    </Button>
+                  )}
+                  {canRetry && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => retryEvidence.mutate(item.id)}
+                      disabled={retryEvidence.isPending && retryEvidence.variables === item.id}
+                    >
+                      <RotateCw className="h-4 w-4 mr-1" />
+                      Retry
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {item.processingState === 'failed' && (
+                <p className="flex items-center text-sm text-red-700 mt-2 ml-8">
+                  <ShieldAlert className="h-4 w-4 mr-1 shrink-0" />
+                  {item.processingErrorCode && <span className="font-mono mr-2">{item.processingErrorCode}</span>}
+                  {item.rejectedReason || item.processingError}
+                  {item.processingAttempts > 1 && <span className="text-gray-500 ml-2">({item.processingAttempts} attempts)</span>}
+                </p>
+              )}
+
+              {item.duplicateOf && (
+                <p className="flex items-center text-sm text-amber-700 mt-2 ml-8">
+                  <AlertTriangle className="h-4 w-4 mr-1 shrink-0" />
+                  Possible duplicate of {item.duplicateOf.title}
+                  {item.duplicateSimilarity !== null && item.duplicateSimilarity < 1 && (
+                    <span className="text-gray-500 ml-2">({Math.round(item.duplicateSimilarity * 100)}% similar)</span>
+                  )}
+                </p>
+              )}
+
+              {historyOpenId === item.id && (
+                <div className="mt-3 ml-8">
+                  <EvidenceHistory projectId={projectId} evidenceId={item.id} />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
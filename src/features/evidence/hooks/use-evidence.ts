@@ -5,6 +5,7 @@
  * with real-time updates and optimistic UI updates.
  */
 
+import { useEffect, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { EvidenceCreateType } from '@/lib/schemas';
 
@@ -126,3 +127,219 @@ export function useDeleteEvidence(projectId: string) {
     },
   });
 }
+
+/**
+ * Upload file evidence mutation
+ * Requests a presigned URL, uploads the file directly to storage,
+ * then confirms it by creating the evidence record
+ */
+export function useUploadEvidenceFile(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ file, title }: { file: File; title?: string }) => {
+      console.log(`src/features/evidence/hooks/use-evidence.ts: Uploading file ${file.name}`);
+
+      const contentType = file.type || 'application/octet-stream';
+
+      // Step 1: request presigned upload URL
+      const uploadResponse = await fetch(`/api/projects/${projectId}/evidence/uploads`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ filename: file.name, contentType, size: file.size }),
+      });
+
+      if (!uploadResponse.ok) {
+        const errorData = await uploadResponse.json();
+        throw new Error(errorData.title || 'Failed to request upload URL');
+      }
+
+      const { data: { key, upload } } = await uploadResponse.json();
+
+      // Step 2: upload file directly to storage
+      const putResponse = await fetch(upload.url, {
+        method: upload.method,
+        headers: upload.headers,
+        body: file,
+      });
+
+      if (!putResponse.ok) {
+        throw new Error('Failed to upload file');
+      }
+
+      // Step 3: confirm upload by creating the evidence record
+      const response = await fetch(`/api/projects/${projectId}/evidence`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ type: 'file', fileKey: key, title: title || file.name.substring(0, 200) }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.title || 'Failed to create file evidence');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['evidence', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['project', projectId] });
+      console.log(`src/features/evidence/hooks/use-evidence.ts: File evidence uploaded for project ${projectId}`);
+    },
+  });
+}
+
+/**
+ * Retry failed evidence processing mutation
+ */
+export function useRetryEvidence(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (evidenceId: string) => {
+      console.log(`src/features/evidence/hooks/use-evidence.ts: Retrying processing for evidence ${evidenceId}`);
+
+      const response = await fetch(`/api/projects/${projectId}/evidence/${evidenceId}/retry`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.detail || errorData.title || 'Failed to retry evidence processing');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['evidence', projectId] });
+      console.log(`src/features/evidence/hooks/use-evidence.ts: Evidence processing re-queued for project ${projectId}`);
+    },
+  });
+}
+
+/**
+ * Refresh (re-fetch) URL evidence mutation
+ */
+export function useRefreshEvidence(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (evidenceId: string) => {
+      console.log(`src/features/evidence/hooks/use-evidence.ts: Refreshing evidence ${evidenceId}`);
+
+      const response = await fetch(`/api/projects/${projectId}/evidence/${evidenceId}/refresh`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.detail || errorData.title || 'Failed to refresh evidence');
+      }
+
+      return response.json();
+    },
+    onSuccess: (_data, evidenceId) => {
+      queryClient.invalidateQueries({ queryKey: ['evidence', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['evidence-snapshots', projectId, evidenceId] });
+      console.log(`src/features/evidence/hooks/use-evidence.ts: Evidence refresh queued for project ${projectId}`);
+    },
+  });
+}
+
+/**
+ * Fetch the content version history of an evidence item
+ * @param projectId - Project UUID
+ * @param evidenceId - Evidence UUID
+ */
+export function useEvidenceSnapshots(projectId: string, evidenceId: string) {
+  return useQuery({
+    queryKey: ['evidence-snapshots', projectId, evidenceId],
+    queryFn: async () => {
+      console.log(`src/features/evidence/hooks/use-evidence.ts: Fetching snapshots for evidence ${evidenceId}`);
+
+      const response = await fetch(`/api/projects/${projectId}/evidence/${evidenceId}/snapshots`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch evidence snapshots');
+      }
+      return response.json();
+    },
+    enabled: !!projectId && !!evidenceId,
+  });
+}
+
+/**
+ * Fetch one content version of an evidence item, with text and diff
+ * @param projectId - Project UUID
+ * @param evidenceId - Evidence UUID
+ * @param version - Snapshot version, or null to skip fetching
+ */
+export function useEvidenceSnapshot(projectId: string, evidenceId: string, version: number | null) {
+  return useQuery({
+    queryKey: ['evidence-snapshots', projectId, evidenceId, version],
+    queryFn: async () => {
+      console.log(`src/features/evidence/hooks/use-evidence.ts: Fetching version ${version} of evidence ${evidenceId}`);
+
+      const response = await fetch(`/api/projects/${projectId}/evidence/${evidenceId}/snapshots/${version}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch evidence snapshot');
+      }
+      return response.json();
+    },
+    enabled: !!projectId && !!evidenceId && version !== null,
+    staleTime: Infinity, // Snapshot versions never change
+  });
+}
+
+/**
+ * Subscribe to live job events for a project's evidence pipeline
+ * Refreshes the evidence list as jobs complete or fail, and tracks
+ * the latest reported progress per evidence item
+ * @param projectId - Project UUID
+ */
+export function useEvidenceEvents(projectId: string) {
+  const queryClient = useQueryClient();
+  const [connected, setConnected] = useState(false);
+  const [progress, setProgress] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    const source = new EventSource(`/api/projects/${projectId}/events`);
+
+    const handleProgress = (message: MessageEvent) => {
+      const event = JSON.parse(message.data);
+      if (event.evidenceId && typeof event.progress === 'number') {
+        setProgress((current) => ({ ...current, [event.evidenceId]: event.progress }));
+      }
+    };
+
+    const handleFinished = (message: MessageEvent) => {
+      const event = JSON.parse(message.data);
+      console.log(`src/features/evidence/hooks/use-evidence.ts: Job ${event.jobId} ${event.event} for evidence ${event.evidenceId}`);
+
+      setProgress((current) => {
+        const rest = { ...current };
+        delete rest[event.evidenceId];
+        return rest;
+      });
+      queryClient.invalidateQueries({ queryKey: ['evidence', projectId] });
+    };
+
+    source.addEventListener('ready', () => setConnected(true));
+    source.addEventListener('progress', handleProgress);
+    source.addEventListener('completed', handleFinished);
+    source.addEventListener('failed', handleFinished);
+    source.onerror = () => setConnected(false); // EventSource reconnects automatically
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [projectId, queryClient]);
+
+  return { connected, progress };
+}
@@ -0,0 +1,182 @@
+/**
+ * src/features/hiring/components/hiring-overview.tsx: Project hiring signals
+ *
+ * Summarizes the open roles found on the project's careers pages and job
+ * postings ("12 open DevOps roles mentioning Terraform in the last 60
+ * days"), filterable by department, technology and age. Renders nothing
+ * until the project has hiring records.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { HiringRecord, JobDepartment } from '@prisma/client';
+import { useHiring } from '@/features/hiring/hooks/use-hiring';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Briefcase, Loader2, MapPin } from 'lucide-react';
+
+// Posting age windows offered as filters
+const DAY_WINDOWS = [30, 60, 90] as const;
+
+// Roles shown before the list is expanded
+const COLLAPSED_ROLES = 10;
+
+// JSON text columns arrive parsed from the API
+type HiringListItem = Omit<HiringRecord, 'technologies'> & {
+  technologies: string[];
+  evidence: { id: string; title: string; url: string | null };
+};
+
+interface HiringSummary {
+  total: number;
+  byDepartment: Array<{ department: JobDepartment; label: string; count: number }>;
+  topTechnologies: Array<{ technology: string; count: number }>;
+}
+
+interface HiringOverviewProps {
+  projectId: string;
+}
+
+export function HiringOverview({ projectId }: HiringOverviewProps) {
+  const [department, setDepartment] = useState<JobDepartment | undefined>();
+  const [technology, setTechnology] = useState<string | undefined>();
+  const [days, setDays] = useState<number | undefined>();
+  const [expanded, setExpanded] = useState(false);
+  const { data, isLoading, error } = useHiring(projectId, { department, technology, days });
+
+  const filtered = Boolean(department || technology || days);
+  const records: HiringListItem[] = data?.data?.records ?? [];
+  const summary: HiringSummary | undefined = data?.data?.summary;
+
+  // Projects without careers pages get no hiring section
+  if (!isLoading && !error && !filtered && records.length === 0) {
+    return null;
+  }
+
+  if (isLoading && !data) {
+    return (
+      <div className="flex items-center justify-center py-6 text-gray-500">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        Loading hiring signals...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{error.message}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const visible = expanded ? records : records.slice(0, COLLAPSED_ROLES);
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center space-x-2">
+          <Briefcase className="h-5 w-5 text-gray-400" />
+          <h3 className="font-medium text-gray-900">Hiring Signals</h3>
+        </div>
+        {filtered && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setDepartment(undefined);
+              setTechnology(undefined);
+              setDays(undefined);
+            }}
+          >
+            Clear filters
+          </Button>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-700">{data?.data?.description}</p>
+
+      <div className="flex flex-wrap gap-1">
+        {DAY_WINDOWS.map((windowDays) => (
+          <Button key={windowDays} variant={days === windowDays ? 'default' : 'outline'} size="sm" onClick={() => setDays(days === windowDays ? undefined : windowDays)}>
+            Last {windowDays} days
+          </Button>
+        ))}
+      </div>
+
+      {summary && summary.byDepartment.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {summary.byDepartment.map((item) => (
+            <Button
+              key={item.department}
+              variant={department === item.department ? 'default' : 'outline'}
+              size="sm"
+              className="h-7 text-xs font-normal"
+              onClick={() => setDepartment(department === item.department ? undefined : item.department)}
+            >
+              {item.label} ({item.count})
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {summary && summary.topTechnologies.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {summary.topTechnologies.map((item) => (
+            <Button
+              key={item.technology}
+              variant={technology === item.technology ? 'default' : 'secondary'}
+              size="sm"
+              className="h-7 text-xs font-normal"
+              onClick={() => setTechnology(technology === item.technology ? undefined : item.technology)}
+            >
+              {item.technology} ({item.count})
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {records.length > 0 && (
+        <ul className="divide-y divide-gray-100 text-sm">
+          {visible.map((record) => (
+            <li key={record.id} className="py-2 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                {record.url ? (
+                  <a href={record.url} target="_blank" rel="noopener noreferrer" className="font-medium text-blue-600 hover:underline">
+                    {record.title}
+                  </a>
+                ) : (
+                  <p className="font-medium text-gray-900">{record.title}</p>
+                )}
+                {(record.location || record.remote) && (
+                  <p className="text-gray-500 flex items-center">
+                    <MapPin className="h-3 w-3 mr-1 shrink-0" />
+                    <span className="truncate">{record.location || 'Remote'}</span>
+                  </p>
+                )}
+                {record.technologies.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">{record.technologies.join(', ')}</p>
+                )}
+              </div>
+              <div className="flex items-center space-x-2 shrink-0">
+                <Badge variant="outline" className="text-xs font-normal capitalize">{record.seniority}</Badge>
+                {record.postedAt && (
+                  <span className="text-xs text-gray-500">{new Date(record.postedAt).toLocaleDateString()}</span>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {records.length > COLLAPSED_ROLES && (
+        <Button variant="ghost" size="sm" onClick={() => setExpanded(!expanded)}>
+          {expanded ? 'Show fewer roles' : `Show all ${records.length} roles`}
+        </Button>
+      )}
+    </div>
+  );
+}
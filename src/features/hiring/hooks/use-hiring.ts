@@ -0,0 +1,37 @@
+/**
+ * src/features/hiring/hooks/use-hiring.ts: React Query hooks for hiring data
+ *
+ * Fetches the open roles extracted from a project's careers pages and
+ * job postings, with server-side filtering.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import type { HiringFilters } from '@/lib/job-postings';
+
+/**
+ * Fetch hiring records for a project
+ * @param projectId - Project UUID
+ * @param filters - Department, seniority, technology and age filters
+ */
+export function useHiring(projectId: string, filters: HiringFilters = {}) {
+  return useQuery({
+    queryKey: ['hiring', projectId, filters],
+    queryFn: async () => {
+      console.log(`src/features/hiring/hooks/use-hiring.ts: Fetching hiring records for project ${projectId}`);
+
+      const params = new URLSearchParams();
+      if (filters.department) params.set('department', filters.department);
+      if (filters.seniority) params.set('seniority', filters.seniority);
+      if (filters.technology) params.set('technology', filters.technology);
+      if (filters.days) params.set('days', String(filters.days));
+
+      const response = await fetch(`/api/projects/${projectId}/hiring?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch hiring records');
+      }
+      return response.json();
+    },
+    enabled: !!projectId,
+    staleTime: 30000, // 30 seconds
+  });
+}
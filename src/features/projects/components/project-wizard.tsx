@@ -11,6 +11,10 @@ import { useState, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
+import type { ProjectStatusHistory } from '@prisma/client';
+import { EvidenceList } from '@/features/evidence/components/evidence-list';
+import { HiringOverview } from '@/features/hiring/components/hiring-overview';
+import { RoiForm } from '@/features/roi/components/roi-form';
 import { 
   Search, 
   Building, 
@@ -20,7 +24,9 @@ import {
   Mail, 
   CheckCircle,
   Clock,
-  AlertTriangle
+  AlertTriangle,
+  History,
+  Undo2
 } from 'lucide-react';
 
 // Define wizard phases with metadata
@@ -76,11 +82,18 @@ const WIZARD_PHASES = [
   },
 ] as const;
 
+// Phases whose content is the project's evidence list
+const EVIDENCE_PHASES: string[] = ['industry', 'company'];
+
 interface ProjectWizardProps {
   project: any; // TODO: Type this properly with Prisma types
+  companyProfile?: {
+    description: string; // One-line firmographic summary
+    sources: string[]; // Where the profile's values came from
+  } | null;
 }
 
-export function ProjectWizard({ project }: ProjectWizardProps) {
+export function ProjectWizard({ project, companyProfile }: ProjectWizardProps) {
   // Determine current phase based on project status
   const currentPhaseIndex = useMemo(() => {
     const statusToIndex = {
@@ -118,6 +131,14 @@ export function ProjectWizard({ project }: ProjectWizardProps) {
             <p className="text-gray-600 mt-1">
               {project.companyName} • {project.productCategory}
             </p>
+            {companyProfile?.description && (
+              <p
+                className="text-sm text-gray-500 mt-1"
+                title={`Sources: ${companyProfile.sources.join(', ')}`}
+              >
+                {companyProfile.description}
+              </p>
+            )}
           </div>
           <Badge variant={project.status === 'READY' ? 'default' : 'secondary'}>
             {project.status}
@@ -162,6 +183,42 @@ export function ProjectWizard({ project }: ProjectWizardProps) {
         </CardContent>
       </Card>
 
+      {/* Status Timeline */}
+      {project.statusHistory?.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center space-x-2">
+              <History className="h-5 w-5" />
+              <span>Status Timeline</span>
+            </CardTitle>
+            <CardDescription>Every status change, including rollbacks</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+              {project.statusHistory.map((entry: ProjectStatusHistory) => (
+                <li key={entry.id} className="ml-4">
+                  <div
+                    className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${
+                      entry.rollback ? 'bg-amber-500' : 'bg-blue-600'
+                    }`}
+                  />
+                  <div className="flex items-center space-x-2 text-sm">
+                    {entry.rollback && <Undo2 className="h-4 w-4 text-amber-600" />}
+                    <span className="font-medium text-gray-900">
+                      {entry.fromStatus ? `${entry.fromStatus} → ${entry.toStatus}` : `Created (${entry.toStatus})`}
+                    </span>
+                    <span className="text-gray-500">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  {entry.reason && <p className="text-sm text-gray-600 mt-1">{entry.reason}</p>}
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Wizard Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
         <TabsList className="grid w-full grid-cols-7">
@@ -195,13 +252,22 @@ export function ProjectWizard({ project }: ProjectWizardProps) {
               </CardHeader>
               <CardContent>
                 {/* Phase-specific content will be rendered here */}
-                <div className="text-center py-12 text-gray-500">
-                  <phase.icon className="h-12 w-12 mx-auto mb-4 text-gray-300" />
-                  <p>Phase content coming soon...</p>
-                  <p className="text-sm mt-2">
-                    This phase will guide you through {phase.description.toLowerCase()}
-                  </p>
-                </div>
+                {EVIDENCE_PHASES.includes(phase.id) ? (
+                  <div className="space-y-6">
+                    <EvidenceList projectId={project.id} />
+                    <HiringOverview projectId={project.id} />
+                  </div>
+                ) : phase.id === 'roi' ? (
+                  <RoiForm projectId={project.id} />
+                ) : (
+                  <div className="text-center py-12 text-gray-500">
+                    <phase.icon className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+                    <p>Phase content coming soon...</p>
+                    <p className="text-sm mt-2">
+                      This phase will guide you through {phase.description.toLowerCase()}
+                    </p>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
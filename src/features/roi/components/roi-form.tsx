@@ -0,0 +1,202 @@
+/**
+ * src/features/roi/components/roi-form.tsx: ROI model form
+ *
+ * React Hook Form component for the ROI inputs, pre-filled with the last
+ * calculation or with benchmark defaults for the project's segment. Each
+ * benchmarked input shows its typical range and source; the result shows
+ * the scenarios and any plausibility warnings.
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { RoiInputs, RoiInputsType, RoiScenarioType } from '@/lib/schemas';
+import type { ResolvedBenchmarkRange, RoiSuggestions } from '@/lib/roi-benchmarks';
+import { formatCurrency, formatPercentage } from '@/lib/utils';
+import { useCalculateRoi, useRoi } from '../hooks/use-roi';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, AlertTriangle, Loader2 } from 'lucide-react';
+
+interface RoiFormProps {
+  projectId: string;
+}
+
+type FieldKind = 'count' | 'currency' | 'hours' | 'fraction';
+
+const FIELDS: Array<{ name: keyof RoiInputsType; label: string; kind: FieldKind }> = [
+  { name: 'nPeople', label: 'People affected', kind: 'count' },
+  { name: 'costPerHour', label: 'Loaded cost per hour', kind: 'currency' },
+  { name: 'hoursSavedPerPersonPerMonth', label: 'Hours saved per person per month', kind: 'hours' },
+  { name: 'errorCostAnnual', label: 'Annual cost of errors', kind: 'currency' },
+  { name: 'errorReductionPct', label: 'Error reduction (0-1)', kind: 'fraction' },
+  { name: 'cloudSpendAnnual', label: 'Annual cloud spend', kind: 'currency' },
+  { name: 'cloudReductionPct', label: 'Cloud cost reduction (0-1)', kind: 'fraction' },
+  { name: 'riskCostAnnual', label: 'Annual risk exposure', kind: 'currency' },
+  { name: 'riskReductionPct', label: 'Risk reduction (0-1)', kind: 'fraction' },
+  { name: 'licenseCostAnnual', label: 'Annual license cost', kind: 'currency' },
+  { name: 'implementationOneTime', label: 'One-time implementation cost', kind: 'currency' },
+];
+
+const SCENARIOS: Array<{ key: 'lowScenario' | 'mostLikelyScenario' | 'highScenario'; label: string }> = [
+  { key: 'lowScenario', label: 'Conservative' },
+  { key: 'mostLikelyScenario', label: 'Most Likely' },
+  { key: 'highScenario', label: 'Optimistic' },
+];
+
+/**
+ * Format a value for its field kind
+ */
+function formatValue(value: number, kind: FieldKind): string {
+  if (kind === 'currency') return formatCurrency(value);
+  if (kind === 'fraction') return formatPercentage(value, 0);
+  if (kind === 'hours') return `${value} h`;
+  return String(value);
+}
+
+export function RoiForm({ projectId }: RoiFormProps) {
+  const [error, setError] = useState<string | null>(null);
+  const { data, isLoading, error: loadError } = useRoi(projectId);
+  const calculateRoi = useCalculateRoi(projectId);
+
+  const latest = data?.data?.roiCalculation;
+  const defaults: RoiSuggestions | undefined = data?.data?.defaults;
+
+  // Pre-fill with the last calculation, else benchmark defaults, else zero
+  const values = useMemo(() => {
+    const initial = {} as RoiInputsType;
+    FIELDS.forEach(({ name }) => {
+      initial[name] = latest?.[name] ?? defaults?.inputs?.[name] ?? (name === 'nPeople' ? 1 : 0);
+    });
+    return initial;
+  }, [latest, defaults]);
+
+  const form = useForm<RoiInputsType>({
+    resolver: zodResolver(RoiInputs),
+    values,
+  });
+
+  const onSubmit = (inputs: RoiInputsType) => {
+    setError(null);
+    calculateRoi.mutate(inputs, {
+      onError: (mutationError: Error) => {
+        console.error('src/features/roi/components/roi-form.tsx: ROI calculation failed:', mutationError);
+        setError(mutationError.message);
+      },
+    });
+  };
+
+  if (isLoading && !data) {
+    return (
+      <div className="flex items-center justify-center py-6 text-gray-500">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" />
+        Loading ROI model...
+      </div>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{loadError.message}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const result = calculateRoi.data?.data?.roiCalculation ?? latest;
+  const warnings: string[] = calculateRoi.data?.data?.warnings ?? latest?.warnings ?? [];
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        {!latest && defaults && defaults.notes.length > 0 && (
+          <p className="text-sm text-gray-600">
+            Pre-filled with typical values for this company&apos;s segment ({defaults.version}). Adjust any input before calculating.
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          {FIELDS.map(({ name, label, kind }) => {
+            const range: ResolvedBenchmarkRange | undefined =
+              defaults?.ranges?.[name as keyof RoiSuggestions['ranges']];
+            const fieldError = form.formState.errors[name];
+
+            return (
+              <div key={name} className="space-y-1">
+                <Label htmlFor={`roi-${name}`}>{label}</Label>
+                <Input
+                  id={`roi-${name}`}
+                  type="number"
+                  step={kind === 'fraction' ? '0.01' : kind === 'count' ? '1' : 'any'}
+                  {...form.register(name, { valueAsNumber: true })}
+                  aria-describedby={fieldError ? `roi-${name}-error` : range ? `roi-${name}-range` : undefined}
+                />
+                {range && (
+                  <p id={`roi-${name}-range`} className="text-xs text-gray-500">
+                    Typical for {range.segment}: {formatValue(range.low, kind)}-{formatValue(range.high, kind)} ({range.citation})
+                  </p>
+                )}
+                {fieldError && (
+                  <p id={`roi-${name}-error`} className="text-sm text-red-600">
+                    {fieldError.message}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={calculateRoi.isPending}>
+            {calculateRoi.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Calculate ROI
+          </Button>
+        </div>
+      </form>
+
+      {warnings.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-1">
+              {warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {result && (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          {SCENARIOS.map(({ key, label }) => {
+            const scenario: RoiScenarioType = result[key];
+            return (
+              <div key={key} className="rounded-lg border p-4">
+                <p className="text-sm font-medium text-gray-900">{label}</p>
+                <p className="mt-1 text-2xl font-bold text-gray-900">{scenario.roiPct.toFixed(1)}%</p>
+                <p className="text-sm text-gray-600">
+                  {formatCurrency(scenario.totalBenefit)} annual benefit •{' '}
+                  {/* Infinite payback is stored as null */}
+                  {Number.isFinite(scenario.paybackMonths) ? `${scenario.paybackMonths.toFixed(1)} month payback` : 'no payback'}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
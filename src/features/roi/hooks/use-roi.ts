@@ -0,0 +1,64 @@
+/**
+ * src/features/roi/hooks/use-roi.ts: React Query hooks for ROI data
+ *
+ * Fetches the latest ROI calculation with benchmark-based input defaults
+ * and runs new calculations.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { RoiInputsType } from '@/lib/schemas';
+
+/**
+ * Fetch the latest ROI calculation and suggested inputs for a project
+ * @param projectId - Project UUID
+ */
+export function useRoi(projectId: string) {
+  return useQuery({
+    queryKey: ['roi', projectId],
+    queryFn: async () => {
+      console.log(`src/features/roi/hooks/use-roi.ts: Fetching ROI data for project ${projectId}`);
+
+      const response = await fetch(`/api/projects/${projectId}/roi`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch ROI data');
+      }
+      return response.json();
+    },
+    enabled: !!projectId,
+    staleTime: 60000, // 1 minute
+  });
+}
+
+/**
+ * Calculate ROI scenarios mutation
+ * @param projectId - Project UUID
+ */
+export function useCalculateRoi(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (inputs: Partial<RoiInputsType>) => {
+      console.log(`src/features/roi/hooks/use-roi.ts: Calculating ROI for project ${projectId}`);
+
+      const response = await fetch(`/api/projects/${projectId}/roi`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(inputs),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.title || 'Failed to calculate ROI');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['roi', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['project', projectId] });
+      console.log(`src/features/roi/hooks/use-roi.ts: ROI calculated for project ${projectId}, invalidating cache`);
+    },
+  });
+}
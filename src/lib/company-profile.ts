@@ -0,0 +1,291 @@
+/**
+ * src/lib/company-profile.ts: Firmographic company profile
+ *
+ * Each project has at most one profile of the target company (industry,
+ * size, HQ, revenue, funding, ownership, subsidiaries). Fields are filled
+ * manually or by enrichment providers, and every field records where its
+ * value came from. Manual values are never overwritten by enrichment.
+ */
+
+import type { CompanyOwnership, CompanyProfile } from '@prisma/client';
+import { prisma } from './db';
+import { parseStringArray } from './utils';
+import type { HeadcountEstimate } from './roi-benchmarks';
+
+export const EMPLOYEE_BANDS = ['1-10', '11-50', '51-200', '201-500', '501-1000', '1001-5000', '5001-10000', '10001+'] as const;
+export const REVENUE_BANDS = ['<1M', '1M-10M', '10M-50M', '50M-100M', '100M-500M', '500M-1B', '1B-10B', '10B+'] as const;
+export const FUNDING_STAGES = ['bootstrapped', 'pre_seed', 'seed', 'series_a', 'series_b', 'series_c', 'series_d_plus', 'private_equity', 'public'] as const;
+
+export type EmployeeBand = typeof EMPLOYEE_BANDS[number];
+export type RevenueBand = typeof REVENUE_BANDS[number];
+export type FundingStage = typeof FUNDING_STAGES[number];
+
+export interface CompanyProfileFields {
+  industryName?: string | null;
+  naicsCode?: string | null;
+  sicCode?: string | null;
+  employeeBand?: EmployeeBand | null;
+  employeeCount?: number | null;
+  hqCity?: string | null;
+  hqRegion?: string | null;
+  hqCountry?: string | null;
+  revenueBand?: RevenueBand | null;
+  fundingStage?: FundingStage | null;
+  ownership?: CompanyOwnership | null;
+  stockTicker?: string | null;
+  subsidiaries?: string[] | null;
+}
+
+export type CompanyProfileField = keyof CompanyProfileFields;
+
+export const PROFILE_FIELDS: CompanyProfileField[] = [
+  'industryName', 'naicsCode', 'sicCode', 'employeeBand', 'employeeCount', 'hqCity', 'hqRegion',
+  'hqCountry', 'revenueBand', 'fundingStage', 'ownership', 'stockTicker', 'subsidiaries',
+];
+
+export interface ProfileFieldSource {
+  source: string; // "manual" or the enrichment source, e.g. "crunchbase/crunchbase"
+  evidenceId?: string; // Evidence the value was read from
+  userId?: string; // User who entered a manual value
+  updatedAt: string;
+}
+
+export interface ProfileAttribution {
+  source: string;
+  evidenceId?: string;
+  userId?: string;
+}
+
+export interface CompanyProfileView extends CompanyProfileFields {
+  subsidiaries: string[];
+  sources: Partial<Record<CompanyProfileField, ProfileFieldSource>>;
+  updatedAt: string;
+}
+
+const MANUAL_SOURCE = 'manual';
+
+// Representative headcount per employee band, used when no exact count is known
+const BAND_HEADCOUNT: Record<EmployeeBand, number> = {
+  '1-10': 5,
+  '11-50': 30,
+  '51-200': 120,
+  '201-500': 350,
+  '501-1000': 750,
+  '1001-5000': 2500,
+  '5001-10000': 7500,
+  '10001+': 15000,
+};
+
+const FUNDING_STAGE_LABELS: Record<FundingStage, string> = {
+  bootstrapped: 'Bootstrapped',
+  pre_seed: 'Pre-seed',
+  seed: 'Seed',
+  series_a: 'Series A',
+  series_b: 'Series B',
+  series_c: 'Series C',
+  series_d_plus: 'Series D+',
+  private_equity: 'Private equity',
+  public: 'Public',
+};
+
+/**
+ * Employee band containing a headcount
+ */
+export function employeeBandFor(count: number): EmployeeBand {
+  const bounds = [10, 50, 200, 500, 1000, 5000, 10000];
+  const index = bounds.findIndex(bound => count <= bound);
+  return EMPLOYEE_BANDS[index === -1 ? EMPLOYEE_BANDS.length - 1 : index];
+}
+
+/**
+ * Revenue band containing an annual revenue in USD
+ */
+export function revenueBandFor(revenueUsd: number): RevenueBand {
+  const bounds = [1e6, 10e6, 50e6, 100e6, 500e6, 1e9, 10e9];
+  const index = bounds.findIndex(bound => revenueUsd < bound);
+  return REVENUE_BANDS[index === -1 ? REVENUE_BANDS.length - 1 : index];
+}
+
+/**
+ * Normalize a provider funding round type (e.g. Crunchbase "series_e", "angel") to a funding stage
+ * @returns Funding stage, or null for rounds that say nothing about stage (debt, grants)
+ */
+export function normalizeFundingStage(roundType: string): FundingStage | null {
+  const type = roundType.toLowerCase().replace(/[\s-]+/g, '_');
+  if ((FUNDING_STAGES as readonly string[]).includes(type)) return type as FundingStage;
+  if (type === 'angel') return 'pre_seed';
+  if (/^series_[d-z]$/.test(type)) return 'series_d_plus';
+  if (type.startsWith('post_ipo') || type === 'ipo') return 'public';
+  if (type === 'private_equity' || type === 'corporate_round') return 'private_equity';
+  return null;
+}
+
+/**
+ * Convert a stored profile row to its API shape
+ */
+export function toCompanyProfileView(profile: CompanyProfile): CompanyProfileView {
+  let sources: CompanyProfileView['sources'] = {};
+  try {
+    const parsed = JSON.parse(profile.fieldSources);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) sources = parsed;
+  } catch {
+    // Keep the values even if attribution is unreadable
+  }
+
+  return {
+    industryName: profile.industryName,
+    naicsCode: profile.naicsCode,
+    sicCode: profile.sicCode,
+    employeeBand: profile.employeeBand as EmployeeBand | null,
+    employeeCount: profile.employeeCount,
+    hqCity: profile.hqCity,
+    hqRegion: profile.hqRegion,
+    hqCountry: profile.hqCountry,
+    revenueBand: profile.revenueBand as RevenueBand | null,
+    fundingStage: profile.fundingStage as FundingStage | null,
+    ownership: profile.ownership,
+    stockTicker: profile.stockTicker,
+    subsidiaries: parseStringArray(profile.subsidiaries),
+    sources,
+    updatedAt: profile.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Load a project's company profile
+ * @returns Profile view, or null when nothing has been recorded yet
+ */
+export async function loadCompanyProfile(projectId: string): Promise<CompanyProfileView | null> {
+  const profile = await prisma.companyProfile.findUnique({ where: { projectId } });
+  return profile ? toCompanyProfileView(profile) : null;
+}
+
+/**
+ * Apply field values to a project's company profile, recording their source
+ * Manual updates set, change or clear (null) any field. Enrichment updates
+ * only set non-empty values and skip fields whose current value was entered
+ * manually.
+ * @param projectId - Project UUID
+ * @param fields - Field values to apply (undefined fields are left alone)
+ * @param attribution - Where the values came from
+ * @returns Updated profile and the fields that changed
+ */
+export async function updateCompanyProfile(
+  projectId: string,
+  fields: CompanyProfileFields,
+  attribution: ProfileAttribution
+): Promise<{ profile: CompanyProfileView; updatedFields: CompanyProfileField[] }> {
+  const manual = attribution.source === MANUAL_SOURCE;
+
+  return await prisma.$transaction(async (tx) => {
+    // Serialize updates for the same project: enrichment runs, filings and manual edits
+    // read-modify-write the field sources, and the first ones race to create the row
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`company-profile:${projectId}`}))`;
+
+    const existing = await tx.companyProfile.findUnique({ where: { projectId } });
+    const current = existing ? toCompanyProfileView(existing) : null;
+    const sources = { ...(current?.sources ?? {}) };
+    const data: Record<string, unknown> = {};
+    const updatedFields: CompanyProfileField[] = [];
+
+    PROFILE_FIELDS.forEach(field => {
+      const value = fields[field];
+      if (value === undefined) return;
+
+      const empty = value === null || value === '' || (Array.isArray(value) && value.length === 0);
+      if (!manual && (empty || sources[field]?.source === MANUAL_SOURCE)) return;
+      if (JSON.stringify(current?.[field] ?? null) === JSON.stringify(empty ? null : value) && sources[field]?.source === attribution.source) return;
+
+      if (field === 'subsidiaries') {
+        data.subsidiaries = JSON.stringify(empty ? [] : value);
+      } else {
+        data[field] = empty ? null : value;
+      }
+
+      if (empty) {
+        delete sources[field];
+      } else {
+        sources[field] = {
+          source: attribution.source,
+          ...(attribution.evidenceId && { evidenceId: attribution.evidenceId }),
+          ...(attribution.userId && { userId: attribution.userId }),
+          updatedAt: new Date().toISOString(),
+        };
+      }
+      updatedFields.push(field);
+    });
+
+    if (existing && updatedFields.length === 0) {
+      return { profile: toCompanyProfileView(existing), updatedFields };
+    }
+
+    const saved = await tx.companyProfile.upsert({
+      where: { projectId },
+      create: {
+        projectId,
+        subsidiaries: '[]',
+        ...data,
+        fieldSources: JSON.stringify(sources),
+      },
+      update: {
+        ...data,
+        fieldSources: JSON.stringify(sources),
+      },
+    });
+
+    return { profile: toCompanyProfileView(saved), updatedFields };
+  });
+}
+
+/**
+ * Best headcount estimate: the exact count, else the band's representative size
+ * @returns Estimate with its basis and source, or null when size is unknown
+ */
+export function estimateHeadcount(profile: CompanyProfileView): HeadcountEstimate | null {
+  if (profile.employeeCount) {
+    return {
+      count: profile.employeeCount,
+      basis: `${profile.employeeCount.toLocaleString('en-US')} employees`,
+      source: profile.sources.employeeCount?.source,
+    };
+  }
+  if (profile.employeeBand && BAND_HEADCOUNT[profile.employeeBand]) {
+    return {
+      count: BAND_HEADCOUNT[profile.employeeBand],
+      basis: `${profile.employeeBand} employees`,
+      source: profile.sources.employeeBand?.source,
+    };
+  }
+  return null;
+}
+
+/**
+ * Human-readable funding stage
+ */
+export function fundingStageLabel(stage: FundingStage): string {
+  return FUNDING_STAGE_LABELS[stage] ?? stage;
+}
+
+/**
+ * Headquarters as "City, Region, Country" from whichever parts are known
+ */
+export function formatHeadquarters(profile: CompanyProfileFields): string | null {
+  const parts = [profile.hqCity, profile.hqRegion, profile.hqCountry].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+/**
+ * One-line company description, e.g. "Software · 1001-5000 employees · Austin, Texas, United States · Series C"
+ */
+export function describeCompanyProfile(profile: CompanyProfileView): string {
+  const industry = profile.industryName ?? (profile.naicsCode ? `NAICS ${profile.naicsCode}` : profile.sicCode ? `SIC ${profile.sicCode}` : null);
+  const size = profile.employeeCount
+    ? `${profile.employeeCount.toLocaleString('en-US')} employees`
+    : profile.employeeBand ? `${profile.employeeBand} employees` : null;
+  const revenue = profile.revenueBand ? `$${profile.revenueBand} revenue` : null;
+  const ownership = profile.ownership === 'public'
+    ? `Public${profile.stockTicker ? ` (${profile.stockTicker})` : ''}`
+    : profile.fundingStage ? fundingStageLabel(profile.fundingStage) : profile.ownership === 'private' ? 'Private' : null;
+
+  return [industry, size, formatHeadquarters(profile), revenue, ownership].filter(Boolean).join(' · ');
+}
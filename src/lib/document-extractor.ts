@@ -0,0 +1,254 @@
+/**
+ * src/lib/document-extractor.ts: Plain text and metadata extraction for documents
+ *
+ * Extracts text, title, author and creation date from uploaded evidence
+ * files (PDF, DOCX, PPTX, TXT, HTML) so they can flow into the same
+ * summarization pipeline as fetched URLs.
+ */
+
+import JSZip from 'jszip';
+import { PDFParse } from 'pdf-parse';
+import { extractHtmlContent } from './html-extractor';
+
+export type DocumentFormat = 'pdf' | 'docx' | 'pptx' | 'txt' | 'html';
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  text: string;
+  title?: string;
+  author?: string;
+  createdAt?: Date;
+  pageCount?: number;
+  leadParagraph?: string;
+}
+
+// Upper bound on extracted text kept in memory and passed downstream
+export const MAX_EXTRACTED_CHARS = 500_000;
+
+const CONTENT_TYPE_FORMATS: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'text/plain': 'txt',
+  'text/markdown': 'txt',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+};
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  pptx: 'pptx',
+  txt: 'txt',
+  md: 'txt',
+  html: 'html',
+  htm: 'html',
+};
+
+/**
+ * Determine document format from content type, falling back to file extension
+ * @param contentType - MIME type reported by storage
+ * @param filename - Original filename or storage key
+ * @returns Detected format or null if unsupported
+ */
+export function detectDocumentFormat(contentType: string, filename: string): DocumentFormat | null {
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+  if (CONTENT_TYPE_FORMATS[mimeType]) {
+    return CONTENT_TYPE_FORMATS[mimeType];
+  }
+
+  const extension = filename.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_FORMATS[extension] ?? null;
+}
+
+/**
+ * Decode the XML entities used in OOXML and HTML text
+ */
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Collapse runs of whitespace while keeping paragraph breaks
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .substring(0, MAX_EXTRACTED_CHARS);
+}
+
+/**
+ * Parse a date string, returning undefined when invalid
+ */
+function parseDate(value?: string | null): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Read a single element's text from an XML string
+ */
+function xmlElementText(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`, 'i'));
+  const value = match ? decodeEntities(match[1]).trim() : '';
+  return value || undefined;
+}
+
+/**
+ * Extract text runs from WordprocessingML / DrawingML markup
+ * @param xml - Part XML
+ * @param prefix - Namespace prefix of paragraphs and text runs ('w' or 'a')
+ */
+function ooxmlText(xml: string, prefix: 'w' | 'a'): string {
+  return decodeEntities(
+    xml
+      .replace(new RegExp(`<${prefix}:tab/>`, 'g'), '\t')
+      .replace(new RegExp(`<${prefix}:br[^>]*/>`, 'g'), '\n')
+      .replace(new RegExp(`</${prefix}:p>`, 'g'), '\n')
+      .replace(new RegExp(`<(?!/?${prefix}:t[ >])[^>]+>`, 'g'), '')
+      .replace(new RegExp(`</?${prefix}:t[^>]*>`, 'g'), '')
+  );
+}
+
+/**
+ * Read Dublin Core metadata from an OOXML package's docProps/core.xml
+ */
+async function ooxmlCoreProperties(zip: JSZip) {
+  const coreXml = await zip.file('docProps/core.xml')?.async('string');
+  if (!coreXml) return {};
+
+  return {
+    title: xmlElementText(coreXml, 'dc:title'),
+    author: xmlElementText(coreXml, 'dc:creator'),
+    createdAt: parseDate(xmlElementText(coreXml, 'dcterms:created')),
+  };
+}
+
+/**
+ * Extract text and metadata from a PDF
+ */
+async function extractPdf(buffer: Buffer): Promise<ExtractedDocument> {
+  const parser = new PDFParse({ data: new Uint8Array(buffer) });
+
+  try {
+    // Sequential: the parser shares one document proxy between calls
+    const textResult = await parser.getText({ pageJoiner: '' });
+    const infoResult = await parser.getInfo();
+    const dates = infoResult.getDateNode();
+
+    return {
+      format: 'pdf',
+      text: normalizeText(textResult.text),
+      title: infoResult.info?.Title?.trim() || undefined,
+      author: infoResult.info?.Author?.trim() || undefined,
+      createdAt: dates.CreationDate || dates.XmpCreateDate || undefined,
+      pageCount: textResult.total,
+    };
+  } finally {
+    await parser.destroy();
+  }
+}
+
+/**
+ * Extract text and metadata from a Word document
+ */
+async function extractDocx(buffer: Buffer): Promise<ExtractedDocument> {
+  const zip = await JSZip.loadAsync(buffer);
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) {
+    throw new Error('Invalid DOCX: word/document.xml not found');
+  }
+
+  return {
+    format: 'docx',
+    text: normalizeText(ooxmlText(documentXml, 'w')),
+    ...(await ooxmlCoreProperties(zip)),
+  };
+}
+
+/**
+ * Extract text and metadata from a PowerPoint deck (slides in order)
+ */
+async function extractPptx(buffer: Buffer): Promise<ExtractedDocument> {
+  const zip = await JSZip.loadAsync(buffer);
+  const slideFiles = Object.keys(zip.files)
+    .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => parseInt(a.match(/\d+/)![0]) - parseInt(b.match(/\d+/)![0]));
+
+  const slides = await Promise.all(
+    slideFiles.map(async name => ooxmlText(await zip.file(name)!.async('string'), 'a'))
+  );
+
+  return {
+    format: 'pptx',
+    text: normalizeText(slides.join('\n\n')),
+    pageCount: slides.length,
+    ...(await ooxmlCoreProperties(zip)),
+  };
+}
+
+/**
+ * Extract main content and metadata from an HTML document
+ */
+function extractHtml(buffer: Buffer): ExtractedDocument {
+  const page = extractHtmlContent(buffer.toString('utf8'));
+
+  return {
+    format: 'html',
+    text: normalizeText(page.text),
+    title: page.title,
+    author: page.author,
+    createdAt: page.publishedAt,
+    leadParagraph: page.leadParagraph,
+  };
+}
+
+/**
+ * Extract plain text from a text file (UTF-8, BOM stripped)
+ */
+function extractTxt(buffer: Buffer): ExtractedDocument {
+  const text = buffer.toString('utf8').replace(/^\uFEFF/, '');
+  const firstLine = text.split('\n').find(line => line.trim().length > 0)?.trim();
+
+  return {
+    format: 'txt',
+    text: normalizeText(text),
+    title: firstLine && firstLine.length <= 200 ? firstLine.replace(/^#+\s*/, '') : undefined,
+  };
+}
+
+/**
+ * Extract plain text and metadata from a document
+ * @param buffer - Raw file contents
+ * @param format - Document format (see detectDocumentFormat)
+ * @returns Extracted text with any title, author and creation date found
+ */
+export async function extractDocument(buffer: Buffer, format: DocumentFormat): Promise<ExtractedDocument> {
+  console.log(`src/lib/document-extractor.ts: Extracting ${format} document (${buffer.length} bytes)`);
+
+  switch (format) {
+    case 'pdf':
+      return extractPdf(buffer);
+    case 'docx':
+      return extractDocx(buffer);
+    case 'pptx':
+      return extractPptx(buffer);
+    case 'html':
+      return extractHtml(buffer);
+    case 'txt':
+      return extractTxt(buffer);
+  }
+}
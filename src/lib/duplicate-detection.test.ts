@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { hammingDistance, NEAR_DUPLICATE_MAX_DISTANCE, simhash } from './duplicate-detection';
+
+const ARTICLE = `Fabrikam today announced that it has raised forty million dollars in a Series B round led by Redpoint Ventures.
+The company will use the funding to expand its logistics platform into Europe and to double the size of its engineering team.
+Fabrikam said annual recurring revenue grew one hundred and eighty percent last year as retailers moved warehouse scheduling
+to its software. Chief executive Dana Smith said the round lets the company open offices in Berlin and Amsterdam next spring
+and invest in route optimization features that customers have requested for several years.`;
+
+const UNRELATED = `Contoso published its annual security report describing how the team rotated encryption keys, retired legacy
+single sign-on integrations and completed an independent penetration test of its payment systems. The report lists every
+third-party processor the company relies on, the regions where customer data is stored, and the response times measured
+during the two incidents the company handled this year, neither of which exposed customer records to outside parties.`;
+
+describe('simhash', () => {
+  it('returns a 64-bit hex fingerprint, the same for the same text', () => {
+    const fingerprint = simhash(ARTICLE);
+
+    expect(fingerprint).toMatch(/^[0-9a-f]{16}$/);
+    expect(simhash(ARTICLE)).toBe(fingerprint);
+  });
+
+  it('returns null for text too short to fingerprint', () => {
+    expect(simhash('Fabrikam raised a Series B.')).toBeNull();
+  });
+
+  it('keeps lightly edited copies within the near-duplicate distance and unrelated texts outside it', () => {
+    const syndicated = `${ARTICLE.replace('today announced', 'announced on Tuesday')} Reporting by the Logistics Daily newsroom.`;
+
+    expect(hammingDistance(simhash(ARTICLE)!, simhash(syndicated)!)).toBeLessThanOrEqual(NEAR_DUPLICATE_MAX_DISTANCE);
+    expect(hammingDistance(simhash(ARTICLE)!, simhash(UNRELATED)!)).toBeGreaterThan(NEAR_DUPLICATE_MAX_DISTANCE);
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts differing bits across both halves of the fingerprint', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+    expect(hammingDistance('8000000000000001', '0000000000000000')).toBe(2);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * src/lib/duplicate-detection.ts: Duplicate and near-duplicate evidence detection
+ *
+ * Finds evidence that points at the same page (by URL identity, including
+ * rel=canonical) and computes 64-bit SimHash fingerprints over word
+ * shingles of extracted text so syndicated or lightly edited copies of the
+ * same article (a press release on several news sites, say) can be flagged
+ * as possible duplicates of evidence already in the project.
+ */
+
+import crypto from 'crypto';
+import { prisma } from './db';
+import { urlIdentityHash } from './url-canonical';
+
+// Words per shingle; 3-word shingles tolerate small edits while keeping word order
+const SHINGLE_SIZE = 3;
+
+// Fingerprints differing in at most this many of 64 bits are near-duplicates
+// (unrelated texts differ in ~32; lightly edited copies of short articles in ~10)
+export const NEAR_DUPLICATE_MAX_DISTANCE = 10;
+
+// Texts shorter than this carry too few shingles for a meaningful fingerprint
+const MIN_FINGERPRINT_WORDS = 50;
+
+const FINGERPRINT_BITS = 64;
+
+export interface DuplicateMatch {
+  evidenceId: string;
+  title: string;
+  reason: 'canonical_url' | 'near_duplicate';
+  similarity: number; // 0-1, share of matching fingerprint bits (1 for the same page)
+}
+
+export interface DuplicateCheck {
+  simhash: string | null;
+  canonicalUrlHash: string | null;
+  match: DuplicateMatch | null;
+}
+
+/**
+ * Compute the SimHash fingerprint of a text
+ * @param text - Extracted text
+ * @returns 16-character hex fingerprint, or null if the text is too short
+ */
+export function simhash(text: string): string | null {
+  const words = text.toLowerCase().split(/[^a-z0-9\u00c0-\u024f\u0370-\u03ff\u0400-\u04ff]+/).filter(Boolean);
+  if (words.length < MIN_FINGERPRINT_WORDS) return null;
+
+  // Shingle frequencies act as weights
+  const shingles = new Map<string, number>();
+  for (let index = 0; index + SHINGLE_SIZE <= words.length; index++) {
+    const shingle = words.slice(index, index + SHINGLE_SIZE).join(' ');
+    shingles.set(shingle, (shingles.get(shingle) ?? 0) + 1);
+  }
+
+  // The 64 bits are handled as two 32-bit halves
+  const vector = new Array<number>(FINGERPRINT_BITS).fill(0);
+  shingles.forEach((weight, shingle) => {
+    const digest = crypto.createHash('md5').update(shingle).digest();
+    const halves = [digest.readUInt32BE(0), digest.readUInt32BE(4)];
+    for (let bit = 0; bit < FINGERPRINT_BITS; bit++) {
+      vector[bit] += (halves[bit >> 5] >>> (bit & 31)) & 1 ? weight : -weight;
+    }
+  });
+
+  const fingerprint = [0, 0];
+  for (let bit = 0; bit < FINGERPRINT_BITS; bit++) {
+    if (vector[bit] > 0) fingerprint[bit >> 5] |= 1 << (bit & 31);
+  }
+
+  return fingerprint.map(half => (half >>> 0).toString(16).padStart(8, '0')).join('');
+}
+
+/**
+ * Number of differing bits between two hex fingerprints
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let offset = 0; offset < 16; offset += 8) {
+    let difference = (parseInt(a.substring(offset, offset + 8), 16) ^ parseInt(b.substring(offset, offset + 8), 16)) >>> 0;
+    while (difference !== 0) {
+      difference = (difference & (difference - 1)) >>> 0;
+      distance++;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Find evidence in a project that refers to the same page as a URL identity hash
+ * Matches both submitted URLs and the canonical URLs of fetched pages
+ * @param projectId - Project UUID
+ * @param hash - URL identity hash (see urlIdentityHash)
+ * @param excludeId - Evidence to leave out (the one being checked)
+ */
+export async function findSamePageEvidence(projectId: string, hash: string, excludeId?: string) {
+  return prisma.evidence.findFirst({
+    where: {
+      projectId,
+      type: 'url',
+      ...(excludeId && { id: { not: excludeId } }),
+      OR: [{ urlHash: hash }, { canonicalUrlHash: hash }],
+    },
+    select: { id: true, title: true },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Find the closest near-duplicate of a fingerprint among a project's other evidence
+ * @param projectId - Project UUID
+ * @param evidenceId - Evidence being checked (excluded from the search)
+ * @param fingerprint - SimHash of the evidence's text
+ * @returns Closest match within the distance threshold, or null
+ */
+export async function findNearDuplicate(projectId: string, evidenceId: string, fingerprint: string): Promise<DuplicateMatch | null> {
+  const candidates = await prisma.evidence.findMany({
+    where: {
+      projectId,
+      id: { not: evidenceId },
+      simhash: { not: null },
+    },
+    select: { id: true, title: true, simhash: true },
+    orderBy: { createdAt: 'asc' }, // Prefer the original over later copies on ties
+  });
+
+  let best: { match: DuplicateMatch; distance: number } | null = null;
+  for (const candidate of candidates) {
+    const distance = hammingDistance(fingerprint, candidate.simhash!);
+    if (distance <= NEAR_DUPLICATE_MAX_DISTANCE && (!best || distance < best.distance)) {
+      best = {
+        distance,
+        match: {
+          evidenceId: candidate.id,
+          title: candidate.title,
+          reason: 'near_duplicate',
+          similarity: 1 - distance / FINGERPRINT_BITS,
+        },
+      };
+    }
+  }
+
+  return best?.match ?? null;
+}
+
+/**
+ * Check fetched or extracted evidence against the rest of its project
+ * A canonical URL naming another evidence item's page wins over text similarity
+ * @param projectId - Project UUID
+ * @param evidenceId - Evidence being checked
+ * @param text - Extracted text
+ * @param canonicalUrl - rel=canonical / og:url of the fetched page, if any
+ * @returns Fingerprints to store and the possible duplicate, if any
+ */
+export async function checkForDuplicates(projectId: string, evidenceId: string, text: string, canonicalUrl?: string | null): Promise<DuplicateCheck> {
+  const fingerprint = simhash(text);
+  const canonicalUrlHash = canonicalUrl ? urlIdentityHash(canonicalUrl) : null;
+
+  let match: DuplicateMatch | null = null;
+  if (canonicalUrlHash) {
+    const samePage = await findSamePageEvidence(projectId, canonicalUrlHash, evidenceId);
+    if (samePage) {
+      match = { evidenceId: samePage.id, title: samePage.title, reason: 'canonical_url', similarity: 1 };
+    }
+  }
+  if (!match && fingerprint) {
+    match = await findNearDuplicate(projectId, evidenceId, fingerprint);
+  }
+
+  if (match) {
+    console.log(`src/lib/duplicate-detection.ts: Evidence ${evidenceId} is a possible duplicate of ${match.evidenceId} (${match.reason}, similarity ${match.similarity.toFixed(2)})`);
+  }
+
+  return { simhash: fingerprint, canonicalUrlHash, match };
+}
@@ -0,0 +1,214 @@
+/**
+ * src/lib/embeddings.ts: Text embedding provider adapters
+ *
+ * Embeds short texts (signals) as vectors for similarity search and
+ * clustering. Supports the OpenAI embeddings API and OpenAI-compatible
+ * servers, with a local feature-hashing embedder as the fallback when no
+ * API is configured. Selected with EMBEDDING_PROVIDER and EMBEDDING_MODEL.
+ */
+
+export type EmbeddingProviderName = 'openai' | 'openai-compatible' | 'hashing';
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  // Cosine similarity above which two texts say the same thing for this model
+  readonly similarityThreshold: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Raised when an embeddings API call fails; `status` is the HTTP status if one was received
+ */
+export class EmbeddingProviderError extends Error {
+  constructor(public provider: EmbeddingProviderName, message: string, public status?: number) {
+    super(message);
+    this.name = 'EmbeddingProviderError';
+  }
+}
+
+// Default model per provider when EMBEDDING_MODEL is not set
+const DEFAULT_MODELS: Record<EmbeddingProviderName, string> = {
+  'openai': 'text-embedding-3-small',
+  'openai-compatible': 'nomic-embed-text',
+  'hashing': 'hashing-v1',
+};
+
+const REQUEST_TIMEOUT_MS = parseInt(process.env.LLM_TIMEOUT_MS || '60000');
+const MAX_BATCH_SIZE = 100;
+
+// Hashing embedder dimensions (power of two)
+const HASHING_DIMENSIONS = 1024;
+
+const HASHING_STOPWORDS = new Set(`
+  the and for are but not you all any can had her was one our out has have this that with from they will would there their
+  what about which when make like than them been into its also more some could other over such only after most these then
+  were said says company new
+`.trim().split(/\s+/));
+
+interface OpenAiEmbeddingResponse {
+  data?: Array<{ index: number; embedding: number[] }>;
+}
+
+/**
+ * OpenAI embeddings API, also used for OpenAI-compatible servers (Ollama, vLLM)
+ */
+class OpenAiEmbeddingProvider implements EmbeddingProvider {
+  readonly similarityThreshold = parseFloat(process.env.SIGNAL_CLUSTER_THRESHOLD || '0.82');
+
+  constructor(
+    readonly name: 'openai' | 'openai-compatible',
+    readonly model: string,
+    private baseUrl: string,
+    private apiKey?: string
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let offset = 0; offset < texts.length; offset += MAX_BATCH_SIZE) {
+      const batch = texts.slice(offset, offset + MAX_BATCH_SIZE);
+
+      let response: Response;
+      try {
+        response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/embeddings`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+          },
+          body: JSON.stringify({ model: this.model, input: batch }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+      } catch (error) {
+        throw new EmbeddingProviderError(this.name, `${this.name} embeddings request failed: ${(error as Error).message}`);
+      }
+
+      if (!response.ok) {
+        const detail = (await response.text().catch(() => '')).substring(0, 300);
+        throw new EmbeddingProviderError(this.name, `${this.name} embeddings API returned HTTP ${response.status}: ${detail}`, response.status);
+      }
+
+      const data = (await response.json()) as OpenAiEmbeddingResponse;
+      if (!data.data || data.data.length !== batch.length) {
+        throw new EmbeddingProviderError(this.name, `${this.name} returned ${data.data?.length ?? 0} embeddings for ${batch.length} inputs`);
+      }
+
+      vectors.push(...[...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding));
+    }
+
+    return vectors;
+  }
+}
+
+/**
+ * FNV-1a 32-bit hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Crude suffix stripping so "breaches"/"breached" and "hiring"/"hires" share features
+ */
+function stem(word: string): string {
+  return word.replace(/(?:ing|ed|es|s)$/, '') || word;
+}
+
+/**
+ * Local, deterministic embedder: hashed word and word-pair features
+ * Captures lexical overlap only, so it needs a lower threshold than model
+ * embeddings and misses paraphrases that share no words
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing' as const;
+  readonly model = DEFAULT_MODELS.hashing;
+  readonly similarityThreshold = parseFloat(process.env.SIGNAL_CLUSTER_THRESHOLD || '0.5');
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(HASHING_DIMENSIONS).fill(0);
+      const words = (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+        .filter(word => word.length >= 3 && !HASHING_STOPWORDS.has(word))
+        .map(stem);
+
+      const addFeature = (feature: string, weight: number) => {
+        const hash = fnv1a(feature);
+        // Signed hashing keeps collisions from only ever adding similarity
+        vector[hash % HASHING_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+      };
+      words.forEach((word, index) => {
+        addFeature(word, 1);
+        if (index > 0) addFeature(`${words[index - 1]} ${word}`, 0.5);
+      });
+
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+      return norm > 0 ? vector.map(value => value / norm) : vector;
+    });
+  }
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is all zeros)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+let providerInstance: EmbeddingProvider | null = null;
+
+/**
+ * Resolve the configured provider name
+ * Without EMBEDDING_PROVIDER, uses OpenAI when its key is set, else the hashing embedder
+ */
+function configuredProviderName(): EmbeddingProviderName {
+  const configured = process.env.EMBEDDING_PROVIDER as EmbeddingProviderName | undefined;
+  if (configured) {
+    if (!(configured in DEFAULT_MODELS)) {
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${configured}" (expected ${Object.keys(DEFAULT_MODELS).join(', ')})`);
+    }
+    return configured;
+  }
+  return process.env.OPENAI_API_KEY ? 'openai' : 'hashing';
+}
+
+/**
+ * Create an embedding provider by name, reading keys, model and endpoint from the environment
+ * @param name - Provider name
+ * @param model - Model override (defaults to EMBEDDING_MODEL, then the provider default)
+ */
+export function createEmbeddingProvider(name: EmbeddingProviderName, model: string = process.env.EMBEDDING_MODEL || DEFAULT_MODELS[name]): EmbeddingProvider {
+  switch (name) {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) throw new Error('OPENAI_API_KEY is required for the openai embedding provider');
+      return new OpenAiEmbeddingProvider('openai', model, 'https://api.openai.com/v1', process.env.OPENAI_API_KEY);
+    case 'openai-compatible':
+      return new OpenAiEmbeddingProvider('openai-compatible', model, process.env.EMBEDDING_BASE_URL || process.env.LLM_BASE_URL || 'http://localhost:11434/v1', process.env.LLM_API_KEY);
+    case 'hashing':
+      return new HashingEmbeddingProvider();
+  }
+}
+
+/**
+ * Get the configured embedding provider (cached per process)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!providerInstance) {
+    providerInstance = createEmbeddingProvider(configuredProviderName());
+    console.log(`src/lib/embeddings.ts: Using ${providerInstance.name} embedding provider with model ${providerInstance.model}`);
+  }
+  return providerInstance;
+}
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { EMPLOYEE_BANDS } from './company-profile';
+import { createEnrichmentProvider, enrichmentProviderFor } from './enrichment-providers';
+
+function stubCrunchbase(numEmployees: string) {
+  const fetchMock = vi.fn(async (url: string) => Response.json(url.includes('/autocompletes')
+    ? { entities: [{ identifier: { permalink: 'contoso' } }] }
+    : { properties: { identifier: { value: 'Contoso' }, num_employees_enum: numEmployees } }));
+  vi.stubGlobal('fetch', fetchMock);
+}
+
+async function crunchbaseProfile() {
+  vi.stubEnv('CRUNCHBASE_API_KEY', 'test-key');
+  const [item] = await createEnrichmentProvider('crunchbase').enrich({ companyName: 'Contoso', companyDomain: 'contoso.com', type: 'crunchbase' });
+  return item;
+}
+
+describe('CrunchbaseProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it.each([
+    ['c_00001_00010', '1-10'],
+    ['c_00051_00100', '51-200'],
+    ['c_00101_00250', '201-500'],
+    ['c_01001_05000', '1001-5000'],
+    ['c_10001_max', '10001+'],
+  ])('maps %s onto the %s employee band', async (numEmployees, band) => {
+    stubCrunchbase(numEmployees);
+
+    const item = await crunchbaseProfile();
+
+    expect(item.profile?.employeeBand).toBe(band);
+    expect(EMPLOYEE_BANDS).toContain(item.profile?.employeeBand);
+  });
+
+  it('keeps the Crunchbase range in the signal text', async () => {
+    stubCrunchbase('c_00101_00250');
+
+    const item = await crunchbaseProfile();
+
+    expect(item.signals).toEqual([expect.objectContaining({ text: 'Contoso has 101-250 employees according to Crunchbase.' })]);
+  });
+
+  it('leaves the band unset for unknown ranges', async () => {
+    stubCrunchbase('c_99999_99999');
+
+    const item = await crunchbaseProfile();
+
+    expect(item.profile?.employeeBand).toBeUndefined();
+  });
+});
+
+describe('enrichmentProviderFor', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reports a forced provider without its key as unconfigured instead of throwing', () => {
+    vi.stubEnv('ENRICHMENT_PROVIDER', 'crunchbase');
+    vi.stubEnv('CRUNCHBASE_API_KEY', '');
+
+    expect(enrichmentProviderFor('crunchbase')).toBeNull();
+    expect(enrichmentProviderFor('news')).toBeNull();
+  });
+
+  it('uses a forced provider only for the types it serves', () => {
+    vi.stubEnv('ENRICHMENT_PROVIDER', 'crunchbase');
+    vi.stubEnv('CRUNCHBASE_API_KEY', 'test-key');
+
+    expect(enrichmentProviderFor('crunchbase')).toBe('crunchbase');
+    expect(enrichmentProviderFor('news')).toBeNull();
+  });
+
+  it('picks the first provider with a key when none is forced', () => {
+    vi.stubEnv('ENRICHMENT_PROVIDER', '');
+    vi.stubEnv('NEWS_API_KEY', '');
+    vi.stubEnv('SERPAPI_KEY', 'test-key');
+
+    expect(enrichmentProviderFor('news')).toBe('serpapi');
+  });
+});
@@ -0,0 +1,650 @@
+/**
+ * src/lib/enrichment-providers.ts: External data enrichment provider adapters
+ *
+ * Each provider turns a company (name and domain) into enrichment items:
+ * documents with optional structured signals that become project evidence.
+ * NewsAPI and SerpApi serve news, Crunchbase serves company profiles, SEC
+ * EDGAR serves 10-K/10-Q filings, and a deterministic fixture provider
+ * serves every type offline for tests and development. Selected per type from configured API keys, or forced with
+ * ENRICHMENT_PROVIDER.
+ */
+
+import type { EnrichmentType, SignalKind } from '@prisma/client';
+import { CompanyProfileFields, EmployeeBand, normalizeFundingStage, REVENUE_BANDS } from './company-profile';
+import { filingLabel, filingProfile, filingSignals, parseSecFiling, registrantKey, SecFiling, summarizeFiling } from './sec-filings';
+
+export type EnrichmentProviderName = 'newsapi' | 'serpapi' | 'crunchbase' | 'edgar' | 'fixture';
+
+export interface EnrichmentRequest {
+  companyName: string;
+  companyDomain: string;
+  type: EnrichmentType;
+}
+
+export interface EnrichmentSignal {
+  kind: SignalKind;
+  text: string;
+  confidence: number;
+  weight: number;
+  section?: string; // Document section the signal cites
+}
+
+export interface EnrichmentItem {
+  title: string;
+  url?: string;
+  author?: string; // Author or publication
+  publishedAt?: Date;
+  content: string; // Text analyzed for signals (or the snippet when the page is fetched instead)
+  signals?: EnrichmentSignal[]; // Structured signals supplied by the provider; skips NLP analysis
+  profile?: CompanyProfileFields; // Firmographic fields for the project's company profile
+  filing?: SecFiling; // Parsed SEC filing whose financial metrics are recorded with the evidence
+}
+
+export interface EnrichmentProvider {
+  readonly name: EnrichmentProviderName;
+  supports(type: EnrichmentType): boolean;
+  enrich(request: EnrichmentRequest): Promise<EnrichmentItem[]>;
+}
+
+/**
+ * Raised when a provider cannot serve a request
+ * `retryable` is false for configuration and client errors that a retry cannot fix
+ */
+export class EnrichmentProviderError extends Error {
+  constructor(public provider: EnrichmentProviderName | 'none', message: string, public status?: number, public retryable: boolean = true) {
+    super(message);
+    this.name = 'EnrichmentProviderError';
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+// Items requested per run
+const MAX_ITEMS = 20;
+
+// Crunchbase revenue_range enum values, in REVENUE_BANDS order
+const CRUNCHBASE_REVENUE_RANGES = ['r_00000000', 'r_00001000', 'r_00010000', 'r_00050000', 'r_00100000', 'r_00500000', 'r_01000000', 'r_10000000'];
+
+// Crunchbase num_employees_enum values mapped onto EMPLOYEE_BANDS
+// Ranges that straddle two bands take the band containing their upper bound
+const CRUNCHBASE_EMPLOYEE_BANDS: Record<string, EmployeeBand> = {
+  c_00001_00010: '1-10',
+  c_00011_00050: '11-50',
+  c_00051_00100: '51-200',
+  c_00101_00250: '201-500',
+  c_00251_00500: '201-500',
+  c_00501_01000: '501-1000',
+  c_01001_05000: '1001-5000',
+  c_05001_10000: '5001-10000',
+  c_10001_max: '10001+',
+};
+
+/**
+ * GET from a provider API
+ * 4xx responses other than 429 are not retryable
+ */
+async function providerGet(provider: EnrichmentProviderName, url: string, headers: Record<string, string>): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    const reason = error instanceof Error && error.name === 'TimeoutError'
+      ? `timed out after ${REQUEST_TIMEOUT_MS}ms`
+      : (error as Error).message;
+    throw new EnrichmentProviderError(provider, `${provider} request failed: ${reason}`);
+  }
+
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => '')).substring(0, 300);
+    const retryable = response.status === 429 || response.status >= 500;
+    throw new EnrichmentProviderError(provider, `${provider} API returned HTTP ${response.status}: ${detail}`, response.status, retryable);
+  }
+
+  return response;
+}
+
+/**
+ * GET JSON from a provider API
+ */
+async function getJson<T>(provider: EnrichmentProviderName, url: string, headers: Record<string, string> = {}): Promise<T> {
+  const response = await providerGet(provider, url, { Accept: 'application/json', ...headers });
+  return (await response.json()) as T;
+}
+
+/**
+ * GET a document (HTML or text) from a provider
+ */
+async function getText(provider: EnrichmentProviderName, url: string, headers: Record<string, string> = {}): Promise<string> {
+  const response = await providerGet(provider, url, { Accept: 'text/html,text/plain;q=0.9', ...headers });
+  return await response.text();
+}
+
+/**
+ * Parse a provider date string, ignoring values that are not dates
+ */
+function parseDate(value?: string | null): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+interface NewsApiResponse {
+  articles?: Array<{
+    source?: { name?: string };
+    author?: string | null;
+    title?: string | null;
+    description?: string | null;
+    url?: string | null;
+    publishedAt?: string | null;
+    content?: string | null;
+  }>;
+}
+
+/**
+ * NewsAPI.org everything endpoint: recent articles mentioning the company
+ */
+class NewsApiProvider implements EnrichmentProvider {
+  readonly name = 'newsapi' as const;
+
+  constructor(private apiKey: string) {}
+
+  supports(type: EnrichmentType): boolean {
+    return type === 'news';
+  }
+
+  async enrich(request: EnrichmentRequest): Promise<EnrichmentItem[]> {
+    const params = new URLSearchParams({
+      q: `"${request.companyName}"`,
+      language: 'en',
+      sortBy: 'publishedAt',
+      pageSize: String(MAX_ITEMS),
+    });
+    const data = await getJson<NewsApiResponse>(this.name, `https://newsapi.org/v2/everything?${params}`, { 'X-Api-Key': this.apiKey });
+
+    return (data.articles ?? [])
+      .filter(article => article.title && article.url)
+      .map(article => ({
+        title: article.title as string,
+        url: article.url as string,
+        author: article.source?.name || article.author || undefined,
+        publishedAt: parseDate(article.publishedAt),
+        // NewsAPI truncates content ("... [+1234 chars]"), so the article is fetched for analysis
+        content: [article.description, article.content?.replace(/\s*\[\+\d+ chars\]$/, '')].filter(Boolean).join('\n\n'),
+      }));
+  }
+}
+
+interface SerpApiNewsResponse {
+  news_results?: Array<{
+    title?: string;
+    link?: string;
+    snippet?: string;
+    date?: string;
+    source?: { name?: string } | string;
+  }>;
+}
+
+/**
+ * SerpApi Google News engine: news results for the company name
+ */
+class SerpApiProvider implements EnrichmentProvider {
+  readonly name = 'serpapi' as const;
+
+  constructor(private apiKey: string) {}
+
+  supports(type: EnrichmentType): boolean {
+    return type === 'news';
+  }
+
+  async enrich(request: EnrichmentRequest): Promise<EnrichmentItem[]> {
+    const params = new URLSearchParams({
+      engine: 'google_news',
+      q: `"${request.companyName}"`,
+      hl: 'en',
+      api_key: this.apiKey,
+    });
+    const data = await getJson<SerpApiNewsResponse>(this.name, `https://serpapi.com/search.json?${params}`);
+
+    return (data.news_results ?? [])
+      .filter(result => result.title && result.link)
+      .slice(0, MAX_ITEMS)
+      .map(result => ({
+        title: result.title as string,
+        url: result.link as string,
+        author: (typeof result.source === 'string' ? result.source : result.source?.name) || undefined,
+        publishedAt: parseDate(result.date),
+        content: result.snippet ?? '',
+      }));
+  }
+}
+
+interface CrunchbaseAutocompleteResponse {
+  entities?: Array<{ identifier?: { permalink?: string; value?: string } }>;
+}
+
+interface CrunchbaseOrganizationResponse {
+  properties?: {
+    identifier?: { value?: string; permalink?: string };
+    short_description?: string;
+    website_url?: string;
+    founded_on?: { value?: string };
+    num_employees_enum?: string;
+    funding_total?: { value_usd?: number };
+    last_funding_type?: string;
+    last_funding_at?: string;
+    ipo_status?: string;
+    revenue_range?: string;
+    categories?: Array<{ value?: string }>;
+    location_identifiers?: Array<{ value?: string; location_type?: string }>;
+  };
+}
+
+/**
+ * Crunchbase v4 API: the company's organization profile
+ * Funding, headcount and listing status become structured signals
+ */
+class CrunchbaseProvider implements EnrichmentProvider {
+  readonly name = 'crunchbase' as const;
+  private baseUrl = 'https://api.crunchbase.com/api/v4';
+
+  constructor(private apiKey: string) {}
+
+  supports(type: EnrichmentType): boolean {
+    return type === 'crunchbase';
+  }
+
+  async enrich(request: EnrichmentRequest): Promise<EnrichmentItem[]> {
+    const headers = { 'X-cb-user-key': this.apiKey };
+    const search = new URLSearchParams({ query: request.companyName, collection_ids: 'organizations', limit: '1' });
+    const matches = await getJson<CrunchbaseAutocompleteResponse>(this.name, `${this.baseUrl}/autocompletes?${search}`, headers);
+
+    const permalink = matches.entities?.[0]?.identifier?.permalink;
+    if (!permalink) return [];
+
+    const fields = new URLSearchParams({
+      field_ids: 'identifier,short_description,website_url,founded_on,num_employees_enum,funding_total,last_funding_type,last_funding_at,ipo_status,revenue_range,categories,location_identifiers',
+    });
+    const organization = await getJson<CrunchbaseOrganizationResponse>(
+      this.name,
+      `${this.baseUrl}/entities/organizations/${encodeURIComponent(permalink)}?${fields}`,
+      headers
+    );
+
+    const properties = organization.properties ?? {};
+    const name = properties.identifier?.value || request.companyName;
+    const signals: EnrichmentSignal[] = [];
+    const facts: string[] = [];
+    const profile: CompanyProfileFields = {};
+
+    if (properties.short_description) facts.push(properties.short_description);
+    if (properties.categories?.length) {
+      facts.push(`Categories: ${properties.categories.map(category => category.value).filter(Boolean).join(', ')}.`);
+      profile.industryName = properties.categories[0].value;
+    }
+    if (properties.founded_on?.value) facts.push(`Founded ${properties.founded_on.value}.`);
+
+    const employeeBand = properties.num_employees_enum ? CRUNCHBASE_EMPLOYEE_BANDS[properties.num_employees_enum] : undefined;
+    if (properties.num_employees_enum && employeeBand) {
+      const range = properties.num_employees_enum.replace(/^c_0*/, '').replace(/_0*/, '-').replace(/-max$/, '+');
+      const text = `${name} has ${range} employees according to Crunchbase.`;
+      profile.employeeBand = employeeBand;
+      facts.push(text);
+      signals.push({ kind: 'company', text, confidence: 0.8, weight: 0.4 });
+    }
+
+    if (properties.funding_total?.value_usd) {
+      const lastRound = properties.last_funding_type ? `, most recently a ${properties.last_funding_type.replace(/_/g, ' ')} round${properties.last_funding_at ? ` on ${properties.last_funding_at}` : ''}` : '';
+      const text = `${name} has raised $${Math.round(properties.funding_total.value_usd / 1e6)}M in total funding${lastRound}.`;
+      facts.push(text);
+      signals.push({ kind: 'financial', text, confidence: 0.85, weight: 0.6 });
+    }
+
+    if (properties.last_funding_type) {
+      profile.fundingStage = normalizeFundingStage(properties.last_funding_type) ?? undefined;
+    }
+
+    const revenueIndex = properties.revenue_range ? CRUNCHBASE_REVENUE_RANGES.indexOf(properties.revenue_range) : -1;
+    if (revenueIndex !== -1) {
+      profile.revenueBand = REVENUE_BANDS[revenueIndex];
+      facts.push(`Estimated annual revenue: $${profile.revenueBand}.`);
+    }
+
+    const location = (type: string) => properties.location_identifiers?.find(identifier => identifier.location_type === type)?.value;
+    profile.hqCity = location('city');
+    profile.hqRegion = location('region');
+    profile.hqCountry = location('country');
+
+    if (properties.ipo_status) {
+      profile.ownership = properties.ipo_status === 'public' ? 'public' : 'private';
+      if (profile.ownership === 'public') profile.fundingStage = 'public';
+      const text = `${name} is ${properties.ipo_status === 'public' ? 'a public company' : `privately held (${properties.ipo_status.replace(/_/g, ' ')})`}.`;
+      facts.push(text);
+      signals.push({ kind: 'financial', text, confidence: 0.9, weight: 0.3 });
+    }
+
+    return [{
+      title: `${name} company profile (Crunchbase)`,
+      url: `https://www.crunchbase.com/organization/${permalink}`,
+      author: 'Crunchbase',
+      content: facts.join(' '),
+      signals,
+      profile,
+    }];
+  }
+}
+
+/**
+ * Enrichment item for a parsed SEC filing: its summary, cited signals, profile fields and metrics
+ */
+function filingItem(filing: SecFiling, companyName: string, url: string, author: string, publishedAt?: Date): EnrichmentItem {
+  return {
+    title: `${filing.companyName || companyName} ${filingLabel(filing)}`,
+    url,
+    author,
+    publishedAt,
+    content: summarizeFiling(filing, companyName),
+    signals: filingSignals(filing, companyName),
+    profile: filingProfile(filing),
+    filing,
+  };
+}
+
+interface EdgarTicker {
+  cik_str: number;
+  ticker: string;
+  title: string;
+}
+
+interface EdgarSubmissionsResponse {
+  name?: string;
+  sic?: string;
+  tickers?: string[];
+  filings?: {
+    recent?: {
+      accessionNumber: string[];
+      form: string[];
+      filingDate: string[];
+      primaryDocument: string[];
+    };
+  };
+}
+
+/**
+ * SEC EDGAR: the company's latest 10-K and any 10-Q filed since
+ * The registrant is matched by name (or ticker) against EDGAR's ticker
+ * list, and each filing's primary document is parsed like an upload.
+ * SEC requires a User-Agent naming the requester and a contact address.
+ */
+class SecEdgarProvider implements EnrichmentProvider {
+  readonly name = 'edgar' as const;
+
+  constructor(private userAgent: string) {}
+
+  supports(type: EnrichmentType): boolean {
+    return type === 'sec_filings';
+  }
+
+  async enrich(request: EnrichmentRequest): Promise<EnrichmentItem[]> {
+    const headers = { 'User-Agent': this.userAgent };
+    const tickers = await getJson<Record<string, EdgarTicker>>(this.name, 'https://www.sec.gov/files/company_tickers.json', headers);
+
+    const key = registrantKey(request.companyName);
+    const registrants = Object.keys(tickers).map(index => tickers[index]);
+    const registrant = registrants.find(entry => registrantKey(entry.title) === key) ||
+      registrants.find(entry => entry.ticker.toLowerCase() === request.companyName.trim().toLowerCase());
+    if (!registrant) return [];
+
+    const cik = `0000000000${registrant.cik_str}`.slice(-10);
+    const submissions = await getJson<EdgarSubmissionsResponse>(this.name, `https://data.sec.gov/submissions/CIK${cik}.json`, headers);
+    const recent = submissions.filings?.recent;
+    if (!recent) return [];
+
+    // Filings are listed newest first: take the latest 10-K and the 10-Qs filed since
+    const selected: number[] = [];
+    for (let index = 0; index < recent.form.length && selected.length < 4; index++) {
+      const form = recent.form[index];
+      if (form === '10-Q') selected.push(index);
+      if (form === '10-K') {
+        selected.push(index);
+        break;
+      }
+    }
+
+    const items: EnrichmentItem[] = [];
+    for (const index of selected) {
+      const url = `https://www.sec.gov/Archives/edgar/data/${registrant.cik_str}/${recent.accessionNumber[index].replace(/-/g, '')}/${recent.primaryDocument[index]}`;
+      const filing = parseSecFiling({ html: await getText(this.name, url, headers) });
+      if (!filing) continue;
+
+      filing.sicCode = submissions.sic || undefined;
+      filing.ticker = filing.ticker || registrant.ticker.toUpperCase();
+      items.push(filingItem(filing, request.companyName, url, 'SEC EDGAR', parseDate(recent.filingDate[index])));
+    }
+
+    return items;
+  }
+}
+
+/**
+ * Synthetic inline XBRL 10-K for the fixture provider, parsed by the same code as real filings
+ * Fiscal 2025 against 2024: revenue $412M (+18%), opex $389M, R&D $96M, 3,200 employees.
+ */
+function fixtureFilingHtml(company: string, ticker: string): string {
+  const fact = (name: string, context: string, value: string) =>
+    `<ix:nonFraction name="${name}" contextRef="${context}" unitRef="usd" decimals="-5" scale="6" format="ixt:num-dot-decimal">${value}</ix:nonFraction>`;
+  const paragraph = (text: string) => `<div><span>${text}</span></div>`;
+  const risk = (headline: string, detail: string) => `<div><span style="font-style:italic">${headline}</span></div>${paragraph(detail)}`;
+  const detail = `If this occurs, our business, financial condition and results of operations could be adversely affected, and the trading price of our common stock could decline. We cannot assure you that the measures we have taken will be sufficient, and the costs of addressing these matters could be significant.`;
+
+  return `<html><head><title>${company} 10-K 2025</title></head><body>
+<div style="display:none"><ix:header><ix:hidden>
+<ix:nonNumeric name="dei:DocumentType" contextRef="fy2025">10-K</ix:nonNumeric>
+<ix:nonNumeric name="dei:DocumentFiscalYearFocus" contextRef="fy2025">2025</ix:nonNumeric>
+<ix:nonNumeric name="dei:DocumentFiscalPeriodFocus" contextRef="fy2025">FY</ix:nonNumeric>
+<ix:nonNumeric name="dei:TradingSymbol" contextRef="fy2025">${ticker}</ix:nonNumeric>
+</ix:hidden><ix:resources>
+<xbrli:context id="fy2025"><xbrli:entity><xbrli:identifier scheme="http://www.sec.gov/CIK">0009999999</xbrli:identifier></xbrli:entity><xbrli:period><xbrli:startDate>2025-01-01</xbrli:startDate><xbrli:endDate>2025-12-31</xbrli:endDate></xbrli:period></xbrli:context>
+<xbrli:context id="fy2024"><xbrli:entity><xbrli:identifier scheme="http://www.sec.gov/CIK">0009999999</xbrli:identifier></xbrli:entity><xbrli:period><xbrli:startDate>2024-01-01</xbrli:startDate><xbrli:endDate>2024-12-31</xbrli:endDate></xbrli:period></xbrli:context>
+<xbrli:context id="fy2025-subscription"><xbrli:entity><xbrli:identifier scheme="http://www.sec.gov/CIK">0009999999</xbrli:identifier><xbrli:segment><xbrldi:explicitMember dimension="srt:ProductOrServiceAxis">us-gaap:SubscriptionAndCirculationMember</xbrldi:explicitMember></xbrli:segment></xbrli:entity><xbrli:period><xbrli:startDate>2025-01-01</xbrli:startDate><xbrli:endDate>2025-12-31</xbrli:endDate></xbrli:period></xbrli:context>
+<xbrli:unit id="usd"><xbrli:measure>iso4217:USD</xbrli:measure></xbrli:unit>
+</ix:resources></ix:header></div>
+${paragraph('UNITED STATES SECURITIES AND EXCHANGE COMMISSION')}
+${paragraph('Washington, D.C. 20549')}
+${paragraph('FORM 10-K')}
+${paragraph('ANNUAL REPORT PURSUANT TO SECTION 13 OR 15(d) OF THE SECURITIES EXCHANGE ACT OF 1934')}
+${paragraph('For the fiscal year ended December 31, 2025')}
+${paragraph(`<ix:nonNumeric name="dei:EntityRegistrantName" contextRef="fy2025">${company}</ix:nonNumeric>`)}
+<table><tr><td>Item 1.</td><td>Business</td><td>4</td></tr><tr><td>Item 1A.</td><td>Risk Factors</td><td>12</td></tr><tr><td>Item 1B.</td><td>Unresolved Staff Comments</td><td>30</td></tr></table>
+${paragraph('Item 1. Business')}
+${paragraph(`${company} provides a cloud platform that helps engineering teams build, deploy and operate software. Our customers range from high-growth startups to Fortune 500 enterprises.`)}
+${paragraph('Human Capital')}
+${paragraph('As of December 31, 2025, we had approximately 3,200 full-time employees, of whom approximately 1,400 work in research and development.')}
+${paragraph('Item 1A. Risk Factors')}
+${paragraph('Investing in our common stock involves a high degree of risk. You should carefully consider the risks described below before making an investment decision.')}
+${paragraph('Risks Related to Our Business')}
+${risk('We have a history of net losses and may not achieve or sustain profitability in the future.', detail)}
+${risk('Our revenue growth depends on customers expanding their use of our platform, and growth may slow as our market matures.', detail)}
+${risk('If we are unable to attract and retain qualified engineering personnel, our ability to develop new products could suffer.', detail)}
+${paragraph('Risks Related to Security and Regulation')}
+${risk('A cybersecurity incident or unauthorized access to customer data could harm our reputation and expose us to liability.', detail)}
+${risk('We are subject to evolving privacy and data protection laws, and failure to comply could result in fines and restrictions on our business.', detail)}
+${paragraph('Item 1B. Unresolved Staff Comments')}
+${paragraph('None.')}
+${paragraph('Item 8. Financial Statements and Supplementary Data')}
+<table>
+<tr><td>Total revenue</td><td>${fact('us-gaap:Revenues', 'fy2025', '412.0')}</td><td>${fact('us-gaap:Revenues', 'fy2024', '349.2')}</td></tr>
+<tr><td>Subscription revenue</td><td>${fact('us-gaap:Revenues', 'fy2025-subscription', '371.5')}</td><td></td></tr>
+<tr><td>Research and development</td><td>${fact('us-gaap:ResearchAndDevelopmentExpense', 'fy2025', '96.4')}</td><td>${fact('us-gaap:ResearchAndDevelopmentExpense', 'fy2024', '81.7')}</td></tr>
+<tr><td>Total operating expenses</td><td>${fact('us-gaap:OperatingExpenses', 'fy2025', '389.1')}</td><td>${fact('us-gaap:OperatingExpenses', 'fy2024', '352.6')}</td></tr>
+</table>
+</body></html>`;
+}
+
+/**
+ * Deterministic fixture provider for tests and offline development
+ * Returns the items passed to the constructor, or generated items for the
+ * company: long news articles (analyzed by the NLP pipeline), a company
+ * profile with structured signals, and a synthetic 10-K. Fixture URLs use
+ * example.com.
+ */
+export class FixtureEnrichmentProvider implements EnrichmentProvider {
+  readonly name = 'fixture' as const;
+  readonly requests: EnrichmentRequest[] = [];
+
+  constructor(private items?: Partial<Record<EnrichmentType, EnrichmentItem[]>>) {}
+
+  supports(type: EnrichmentType): boolean {
+    return type === 'news' || type === 'crunchbase' || type === 'sec_filings';
+  }
+
+  async enrich(request: EnrichmentRequest): Promise<EnrichmentItem[]> {
+    this.requests.push(request);
+    if (this.items) return this.items[request.type] ?? [];
+
+    const company = request.companyName;
+    const slug = company.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+    if (request.type === 'news') {
+      return [
+        {
+          title: `${company} expands engineering team after record quarter`,
+          url: `https://example.com/fixtures/news/${slug}-expansion`,
+          author: 'Fixture Business Wire',
+          publishedAt: new Date('2026-01-15T00:00:00Z'),
+          content: [
+            `${company} announced plans to hire 200 engineers over the next year after reporting record quarterly revenue.`,
+            `The company said its platform team is struggling to keep deployment times low as customer demand grows.`,
+            `Executives described manual release processes and on-call fatigue as the main obstacles to shipping faster.`,
+            `${company} is also investing in cloud cost controls after infrastructure spending rose 40 percent year over year.`,
+            `Analysts expect the company to evaluate new developer tooling and observability vendors during the next budget cycle.`,
+          ].join(' '),
+        },
+        {
+          title: `${company} discloses security incident affecting customer accounts`,
+          url: `https://example.com/fixtures/news/${slug}-incident`,
+          author: 'Fixture Security Daily',
+          publishedAt: new Date('2026-02-03T00:00:00Z'),
+          content: [
+            `${company} disclosed a security incident in which attackers used stolen credentials to access a subset of customer accounts.`,
+            `The company said it has since enforced multi-factor authentication for all employees and is reviewing its access controls.`,
+            `Regulators in two states have requested details about the breach, and the company expects to complete a SOC 2 re-audit this year.`,
+            `Security leaders at ${company} said the incident accelerated plans to consolidate identity and monitoring tools.`,
+            `The team currently triages alerts from six separate products by hand.`,
+          ].join(' '),
+        },
+      ];
+    }
+
+    if (request.type === 'crunchbase') {
+      return [{
+        title: `${company} company profile (fixture)`,
+        url: `https://example.com/fixtures/organizations/${slug}`,
+        author: 'Fixture Crunchbase',
+        content: `${company} is a software company headquartered in the United States with 1001-5000 employees. ${company} has raised $250M in total funding, most recently a series d round.`,
+        signals: [
+          { kind: 'company', text: `${company} has 1001-5000 employees.`, confidence: 0.8, weight: 0.4 },
+          { kind: 'financial', text: `${company} has raised $250M in total funding, most recently a series d round.`, confidence: 0.85, weight: 0.6 },
+        ],
+        profile: {
+          industryName: 'Software',
+          employeeBand: '1001-5000',
+          hqCity: 'Austin',
+          hqRegion: 'Texas',
+          hqCountry: 'United States',
+          revenueBand: '100M-500M',
+          fundingStage: 'series_d_plus',
+          ownership: 'private',
+        },
+      }];
+    }
+
+    if (request.type === 'sec_filings') {
+      const ticker = slug.replace(/-/g, '').substring(0, 4).toUpperCase() || 'FIXT';
+      const filing = parseSecFiling({ html: fixtureFilingHtml(company, ticker) });
+      return filing
+        ? [filingItem(filing, company, `https://example.com/fixtures/sec/${slug}-10-k-2025`, 'Fixture EDGAR', new Date('2026-02-20T00:00:00Z'))]
+        : [];
+    }
+
+    return [];
+  }
+}
+
+const PROVIDER_NAMES: EnrichmentProviderName[] = ['newsapi', 'serpapi', 'crunchbase', 'edgar', 'fixture'];
+
+// Types each provider serves and the environment variable it cannot run without
+const PROVIDER_REQUIREMENTS: Record<EnrichmentProviderName, { types: EnrichmentType[]; env?: string }> = {
+  newsapi: { types: ['news'], env: 'NEWS_API_KEY' },
+  serpapi: { types: ['news'], env: 'SERPAPI_KEY' },
+  crunchbase: { types: ['crunchbase'], env: 'CRUNCHBASE_API_KEY' },
+  edgar: { types: ['sec_filings'], env: 'SEC_USER_AGENT' },
+  fixture: { types: ['news', 'crunchbase', 'sec_filings'] },
+};
+
+/**
+ * Create a provider by name, reading its API key from the environment
+ * @param name - Provider name
+ */
+export function createEnrichmentProvider(name: EnrichmentProviderName): EnrichmentProvider {
+  switch (name) {
+    case 'newsapi':
+      if (!process.env.NEWS_API_KEY) throw new EnrichmentProviderError(name, 'NEWS_API_KEY is required for the newsapi enrichment provider', undefined, false);
+      return new NewsApiProvider(process.env.NEWS_API_KEY);
+    case 'serpapi':
+      if (!process.env.SERPAPI_KEY) throw new EnrichmentProviderError(name, 'SERPAPI_KEY is required for the serpapi enrichment provider', undefined, false);
+      return new SerpApiProvider(process.env.SERPAPI_KEY);
+    case 'crunchbase':
+      if (!process.env.CRUNCHBASE_API_KEY) throw new EnrichmentProviderError(name, 'CRUNCHBASE_API_KEY is required for the crunchbase enrichment provider', undefined, false);
+      return new CrunchbaseProvider(process.env.CRUNCHBASE_API_KEY);
+    case 'edgar':
+      if (!process.env.SEC_USER_AGENT) throw new EnrichmentProviderError(name, 'SEC_USER_AGENT is required for the edgar enrichment provider', undefined, false);
+      return new SecEdgarProvider(process.env.SEC_USER_AGENT);
+    case 'fixture':
+      return new FixtureEnrichmentProvider();
+  }
+}
+
+/**
+ * Resolve the provider name that serves an enrichment type
+ * ENRICHMENT_PROVIDER forces one provider; otherwise the first provider
+ * with an API key wins. Never falls back to fixtures implicitly, so
+ * fixture data cannot end up in real projects. Only reads configuration,
+ * so it is safe for availability checks.
+ * @returns Provider name, or null when none is configured for the type
+ */
+export function enrichmentProviderFor(type: EnrichmentType): EnrichmentProviderName | null {
+  const forced = process.env.ENRICHMENT_PROVIDER as EnrichmentProviderName | undefined;
+  if (forced) {
+    if (!PROVIDER_NAMES.includes(forced)) {
+      throw new Error(`Unknown ENRICHMENT_PROVIDER "${forced}" (expected ${PROVIDER_NAMES.join(', ')})`);
+    }
+    const { types, env } = PROVIDER_REQUIREMENTS[forced];
+    return types.includes(type) && (!env || process.env[env]) ? forced : null;
+  }
+
+  switch (type) {
+    case 'news':
+      return process.env.NEWS_API_KEY ? 'newsapi' : process.env.SERPAPI_KEY ? 'serpapi' : null;
+    case 'crunchbase':
+      return process.env.CRUNCHBASE_API_KEY ? 'crunchbase' : null;
+    case 'sec_filings':
+      return process.env.SEC_USER_AGENT ? 'edgar' : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get the provider for an enrichment type
+ * @throws EnrichmentProviderError (not retryable) when no provider is configured
+ */
+export function getEnrichmentProvider(type: EnrichmentType): EnrichmentProvider {
+  const name = enrichmentProviderFor(type);
+  if (!name) {
+    throw new EnrichmentProviderError('none', `No enrichment provider is configured for ${type}`, undefined, false);
+  }
+  return createEnrichmentProvider(name);
+}
@@ -0,0 +1,173 @@
+/**
+ * src/lib/enrichment.ts: Enrichment runs and result persistence
+ *
+ * Runs an enrichment provider for a project and stores each result as
+ * evidence tagged with its provider and run. Results with structured
+ * signals are stored with those signals; long texts are queued for NLP
+ * analysis; short news results are fetched like user-added URLs. Items
+ * already in the project (same page or same content) are skipped.
+ * Firmographic fields update the project's company profile, attributed to
+ * the provider and the evidence they came from; SEC filings also record
+ * their financial metrics.
+ */
+
+import type { EnrichmentRun, EnrichmentType } from '@prisma/client';
+import { prisma } from './db';
+import { addEvidenceFetchJob, addNlpSummarizeJob } from './queue';
+import { generateContentHash, isValidUrl } from './utils';
+import { canonicalizeUrl, urlIdentityHash } from './url-canonical';
+import { findSamePageEvidence } from './duplicate-detection';
+import { truncateAtWord } from './html-extractor';
+import { EnrichmentItem, getEnrichmentProvider, EnrichmentProvider } from './enrichment-providers';
+import { updateCompanyProfile } from './company-profile';
+import { recordFinancialMetrics } from './sec-filings';
+
+export interface EnrichmentOutcome {
+  provider: string;
+  itemsFound: number;
+  evidenceCreated: number;
+  signalsCreated: number;
+  profileFieldsUpdated: number;
+}
+
+// Provider text at least this long is analyzed directly instead of fetching the page
+const MIN_ANALYZABLE_CHARS = 500;
+
+// Longest an enrichment job runs, retries and backoff included; unfinished runs
+// older than this were abandoned (worker crash, removed job) and block nothing
+const MAX_RUN_MS = 30 * 60 * 1000;
+
+/**
+ * Store one enrichment item as evidence, unless the project already has it
+ * @returns Evidence holding the item, whether it was created, and signals created
+ */
+async function persistItem(
+  run: EnrichmentRun,
+  provider: EnrichmentProvider,
+  item: EnrichmentItem
+): Promise<{ evidenceId: string; created: boolean; signals: number }> {
+  const { projectId } = run;
+  const source = `${provider.name}/${run.type}`;
+
+  const url = item.url && isValidUrl(item.url) ? canonicalizeUrl(item.url) : undefined;
+  const storedUrl = url && url.length <= 500 ? url : undefined;
+  const urlHash = storedUrl ? urlIdentityHash(storedUrl) : null;
+  const contentHash = urlHash ?? generateContentHash(item.content || item.title);
+
+  const existing = urlHash
+    ? await findSamePageEvidence(projectId, urlHash)
+    : await prisma.evidence.findFirst({ where: { projectId, contentHash } });
+  if (existing) return { evidenceId: existing.id, created: false, signals: 0 };
+
+  const signals = item.signals ?? [];
+  const analyzeText = signals.length === 0 && item.content.length >= MIN_ANALYZABLE_CHARS;
+  const fetchPage = signals.length === 0 && !analyzeText && !!storedUrl;
+
+  const evidence = await prisma.evidence.create({
+    data: {
+      projectId,
+      type: storedUrl ? 'url' : 'note',
+      url: storedUrl,
+      urlHash,
+      title: item.title.substring(0, 200),
+      author: item.author?.substring(0, 100),
+      publishedAt: item.publishedAt,
+      snippet: item.content ? truncateAtWord(item.content, 500) : null,
+      contentHash,
+      enrichmentSource: source,
+      enrichmentRunId: run.id,
+      // Pages fetched from the open web stay quarantined until the evidence worker approves them
+      approved: !fetchPage,
+      scannedAt: fetchPage ? null : new Date(),
+      processingState: fetchPage ? 'queued' : analyzeText ? 'fetched' : 'done',
+      ...(!fetchPage && !analyzeText && { processingFinishedAt: new Date() }),
+      ...(signals.length > 0 && {
+        summary: truncateAtWord(item.content, 1000),
+        analyzedBy: source,
+        analyzedAt: new Date(),
+        signals: {
+          create: signals.map(signal => ({
+            kind: signal.kind,
+            text: signal.text.substring(0, 500),
+            confidence: Math.min(1, Math.max(0, signal.confidence)),
+            weight: Math.min(1, Math.max(0, signal.weight)),
+            section: signal.section?.substring(0, 200),
+          })),
+        },
+      }),
+    },
+  });
+
+  if (fetchPage && storedUrl) {
+    await addEvidenceFetchJob({ evidenceId: evidence.id, url: storedUrl, projectId });
+  } else if (analyzeText) {
+    await addNlpSummarizeJob({ evidenceId: evidence.id, content: item.content, projectId }, `nlp-${evidence.id}-enrichment`);
+  }
+
+  if (item.filing) {
+    // Providers only return the company's own filings (EDGAR matches the registrant before fetching)
+    await recordFinancialMetrics(projectId, evidence.id, item.filing, true);
+  }
+
+  return { evidenceId: evidence.id, created: true, signals: signals.length };
+}
+
+/**
+ * Run a provider enrichment and persist its results
+ * @param run - Enrichment run being processed
+ * @param provider - Provider override (defaults to the configured provider for the run's type)
+ * @returns Provider used and counts of items, new evidence and signals
+ */
+export async function runProviderEnrichment(run: EnrichmentRun, provider?: EnrichmentProvider): Promise<EnrichmentOutcome> {
+  const project = await prisma.project.findUniqueOrThrow({
+    where: { id: run.projectId },
+    select: { companyName: true, companyDomain: true },
+  });
+
+  const selected = provider ?? getEnrichmentProvider(run.type);
+  await prisma.enrichmentRun.update({ where: { id: run.id }, data: { provider: selected.name } });
+
+  const items = await selected.enrich({ companyName: project.companyName, companyDomain: project.companyDomain, type: run.type });
+
+  let evidenceCreated = 0;
+  let signalsCreated = 0;
+  let profileFieldsUpdated = 0;
+  for (const item of items) {
+    if (!item.title) continue;
+    const { evidenceId, created, signals } = await persistItem(run, selected, item);
+    if (created) evidenceCreated++;
+    signalsCreated += signals;
+
+    // Profiles are re-applied for known evidence too, so a re-run refreshes changed firmographics
+    if (item.profile) {
+      const { updatedFields } = await updateCompanyProfile(run.projectId, item.profile, {
+        source: `${selected.name}/${run.type}`,
+        evidenceId,
+      });
+      profileFieldsUpdated += updatedFields.length;
+    }
+  }
+
+  console.log(`src/lib/enrichment.ts: ${selected.name} returned ${items.length} ${run.type} items for project ${run.projectId}; ${evidenceCreated} new`);
+
+  return { provider: selected.name, itemsFound: items.length, evidenceCreated, signalsCreated, profileFieldsUpdated };
+}
+
+/**
+ * Enrichment types with a run still queued or running for the project
+ * Runs created longer ago than the job's maximum runtime are ignored
+ * @param projectId - Project UUID
+ * @param types - Types about to be requested
+ */
+export async function activeEnrichmentTypes(projectId: string, types: EnrichmentType[]): Promise<EnrichmentType[]> {
+  const active = await prisma.enrichmentRun.findMany({
+    where: {
+      projectId,
+      type: { in: types },
+      status: { in: ['queued', 'running'] },
+      createdAt: { gte: new Date(Date.now() - MAX_RUN_MS) },
+    },
+    select: { type: true },
+  });
+  return Array.from(new Set(active.map(run => run.type)));
+}
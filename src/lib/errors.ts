@@ -83,6 +83,15 @@ export function handleApiError(error: unknown, instance?: string) {
     if (error.message.includes('Forbidden')) {
       return problemResponse(403, 'Forbidden', error.message, instance);
     }
+
+    if (error.message.includes('Not Found')) {
+      return problemResponse(404, 'Not Found', error.message, instance);
+    }
+
+    // State conflicts (e.g. illegal project status transitions)
+    if (error.message.includes('Conflict')) {
+      return problemResponse(409, 'Conflict', error.message, instance);
+    }
     
     // Other application errors
     return problemResponse(500, 'Internal Server Error', error.message, instance);
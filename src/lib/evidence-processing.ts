@@ -0,0 +1,100 @@
+/**
+ * src/lib/evidence-processing.ts: Evidence processing state tracking
+ *
+ * Records where each evidence item is in the background pipeline
+ * (queued → fetching → fetched → analyzing → done, or failed) with a
+ * structured error code and message, attempt count and timestamps.
+ */
+
+import { Job } from 'bullmq';
+import { EvidenceProcessingState } from '@prisma/client';
+import { prisma } from './db';
+import { SafeFetchBlockedError } from './safe-fetch';
+import { LlmProviderError } from './llm';
+import { LlmOutputError } from './signal-extraction';
+
+/**
+ * Map an error to a stable, machine-readable processing error code
+ * @param error - Error thrown by a worker
+ */
+export function processingErrorCode(error: unknown): string {
+  if (error instanceof SafeFetchBlockedError) return error.code;
+  if (error instanceof LlmOutputError) return 'LLM_INVALID_OUTPUT';
+  if (error instanceof LlmProviderError) return error.status ? `LLM_HTTP_${error.status}` : 'LLM_ERROR';
+  if (!(error instanceof Error)) return 'UNKNOWN_ERROR';
+
+  const httpStatus = error.message.match(/^HTTP (\d{3})/);
+  if (httpStatus) return `HTTP_${httpStatus[1]}`;
+
+  const code = (error as NodeJS.ErrnoException).code;
+  if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') return 'DNS_ERROR';
+  if (code === 'ECONNREFUSED' || code === 'ECONNRESET' || code === 'EPIPE') return 'NETWORK_ERROR';
+  if (code?.startsWith('ERR_TLS') || code?.includes('CERT')) return 'TLS_ERROR';
+  if (/timed out|timeout/i.test(error.message)) return 'TIMEOUT';
+
+  return 'PROCESSING_ERROR';
+}
+
+/**
+ * Mark the start of a fetch/extraction attempt
+ * Clears any previous error and counts the attempt
+ */
+export async function markProcessingStarted(evidenceId: string) {
+  await prisma.evidence.update({
+    where: { id: evidenceId },
+    data: {
+      processingState: 'fetching',
+      processingAttempts: { increment: 1 },
+      processingStartedAt: new Date(),
+      processingFinishedAt: null,
+      processingErrorCode: null,
+      processingError: null,
+    },
+  });
+}
+
+/**
+ * Move evidence to a new processing state; terminal states record the finish time
+ */
+export async function markProcessingState(evidenceId: string, state: EvidenceProcessingState) {
+  await prisma.evidence.update({
+    where: { id: evidenceId },
+    data: {
+      processingState: state,
+      ...((state === 'done' || state === 'failed') && { processingFinishedAt: new Date() }),
+    },
+  });
+}
+
+/**
+ * Record a processing failure
+ * If BullMQ will retry the job, the evidence returns to retryState with the
+ * error kept for visibility; otherwise it is marked failed
+ * @param evidenceId - Evidence UUID
+ * @param error - Error or { code, message } describing the failure
+ * @param job - Job whose attempts decide whether a retry follows (omit for final failures)
+ * @param retryState - State to show while waiting for the retry
+ */
+export async function markProcessingFailed(
+  evidenceId: string,
+  error: unknown,
+  job?: Job,
+  retryState: EvidenceProcessingState = 'queued'
+) {
+  const { code, message } =
+    error && typeof error === 'object' && 'code' in error && 'message' in error && !(error instanceof Error)
+      ? (error as { code: string; message: string })
+      : { code: processingErrorCode(error), message: error instanceof Error ? error.message : 'Unknown error' };
+
+  const willRetry = job !== undefined && job.attemptsMade + 1 < (job.opts.attempts ?? 1);
+
+  await prisma.evidence.update({
+    where: { id: evidenceId },
+    data: {
+      processingState: willRetry ? retryState : 'failed',
+      processingErrorCode: code.substring(0, 50),
+      processingError: message.substring(0, 500),
+      ...(!willRetry && { processingFinishedAt: new Date() }),
+    },
+  });
+}
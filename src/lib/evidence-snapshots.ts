@@ -0,0 +1,125 @@
+/**
+ * src/lib/evidence-snapshots.ts: Versioned content snapshots of evidence
+ *
+ * Persists the raw response body and extracted text of each fetch through
+ * the storage adapter. A new version is recorded only when the clean-text
+ * hash changes, together with a unified diff against the previous version,
+ * so changes to pricing, careers or security pages can be reviewed.
+ */
+
+import { EvidenceSnapshot } from '@prisma/client';
+import { prisma } from './db';
+import { getStorage, snapshotKeyPrefix } from './storage';
+import { diffText, TextDiff } from './text-diff';
+
+export interface SnapshotInput {
+  projectId: string;
+  evidenceId: string;
+  body: Buffer;
+  contentType: string;
+  text: string;
+  contentHash: string;
+  headers?: Record<string, string>; // Response headers for technology fingerprinting
+}
+
+export interface SnapshotResult {
+  snapshot: EvidenceSnapshot;
+  changed: boolean;
+  previousVersion?: number;
+  diff?: TextDiff;
+}
+
+/**
+ * Record the content of a fetch, creating a new version if it changed
+ * @param input - Fetched body, extracted text and its hash
+ * @returns Latest snapshot and, for new versions, the diff against the previous one
+ */
+export async function recordSnapshot(input: SnapshotInput): Promise<SnapshotResult> {
+  const { projectId, evidenceId, body, contentType, text, contentHash, headers } = input;
+  const headersJson = headers ? JSON.stringify(headers) : null;
+
+  const latest = await prisma.evidenceSnapshot.findFirst({
+    where: { evidenceId },
+    orderBy: { version: 'desc' },
+  });
+
+  if (latest && latest.contentHash === contentHash) {
+    const snapshot = await prisma.evidenceSnapshot.update({
+      where: { id: latest.id },
+      data: { lastSeenAt: new Date(), ...(headersJson && { headers: headersJson }) },
+    });
+
+    console.log(`src/lib/evidence-snapshots.ts: Evidence ${evidenceId} unchanged since version ${latest.version}`);
+    return { snapshot, changed: false };
+  }
+
+  const storage = getStorage();
+  const version = (latest?.version ?? 0) + 1;
+  const prefix = `${snapshotKeyPrefix(projectId, evidenceId)}v${version}/`;
+  const rawKey = `${prefix}raw`;
+  const textKey = `${prefix}text.txt`;
+
+  await storage.putObject(rawKey, body, contentType || 'application/octet-stream');
+  await storage.putObject(textKey, Buffer.from(text, 'utf8'), 'text/plain; charset=utf-8');
+
+  // Diff against the previous version's text
+  let diff: TextDiff | undefined;
+  let diffKey: string | null = null;
+  if (latest) {
+    const previousText = (await storage.getObject(latest.textKey)).toString('utf8');
+    diff = diffText(previousText, text);
+    if (diff.unified) {
+      diffKey = `${prefix}diff.patch`;
+      await storage.putObject(diffKey, Buffer.from(diff.unified, 'utf8'), 'text/x-diff; charset=utf-8');
+    }
+  }
+
+  const snapshot = await prisma.evidenceSnapshot.create({
+    data: {
+      evidenceId,
+      version,
+      contentHash,
+      contentType: contentType.substring(0, 100),
+      rawKey,
+      textKey,
+      diffKey,
+      byteSize: body.length,
+      textLength: text.length,
+      linesAdded: diff?.added ?? null,
+      linesRemoved: diff?.removed ?? null,
+      headers: headersJson,
+    },
+  });
+
+  console.log(`src/lib/evidence-snapshots.ts: Stored version ${version} of evidence ${evidenceId}${diff ? ` (+${diff.added}/-${diff.removed} lines)` : ''}`);
+
+  return { snapshot, changed: true, previousVersion: latest?.version, diff };
+}
+
+/**
+ * Load the extracted text and diff of a snapshot from storage
+ * @param snapshot - Snapshot record
+ */
+export async function readSnapshotContent(snapshot: EvidenceSnapshot): Promise<{ text: string; diff: string | null }> {
+  const storage = getStorage();
+  const [text, diff] = await Promise.all([
+    storage.getObject(snapshot.textKey),
+    snapshot.diffKey ? storage.getObject(snapshot.diffKey) : Promise.resolve(null),
+  ]);
+
+  return { text: text.toString('utf8'), diff: diff ? diff.toString('utf8') : null };
+}
+
+/**
+ * List the storage keys of every snapshot of an evidence item
+ * Collect before deleting the evidence, since snapshot rows cascade with it
+ * @param evidenceId - Evidence UUID
+ */
+export async function snapshotObjectKeys(evidenceId: string): Promise<string[]> {
+  const snapshots = await prisma.evidenceSnapshot.findMany({
+    where: { evidenceId },
+    select: { rawKey: true, textKey: true, diffKey: true },
+  });
+
+  return snapshots.flatMap(snapshot => [snapshot.rawKey, snapshot.textKey, snapshot.diffKey]).filter((key): key is string => !!key);
+}
@@ -7,6 +7,7 @@
 
 import { ProjectType, PainType, StakeholderType, OutreachAssetType, RoiOutputType } from './schemas';
 import { formatCurrency, formatPercentage } from './utils';
+import { CompanyProfileField, CompanyProfileView, formatHeadquarters, fundingStageLabel } from './company-profile';
 
 interface ExportData {
   project: ProjectType;
@@ -18,6 +19,9 @@ interface ExportData {
     author?: string;
     publishedAt?: string;
     snippet?: string;
+    summary?: string | null;
+    keyQuotes?: string[];
+    topics?: string[];
     signals: Array<{
       kind: string;
       text: string;
@@ -25,10 +29,51 @@ interface ExportData {
       weight: number;
     }>;
   }>;
+  insights?: Array<{
+    id: string;
+    kind: string;
+    text: string;
+    confidence: number;
+    corroboration: number;
+    evidenceIds: string[];
+  }>;
   pains: PainType[];
   stakeholders: StakeholderType[];
   outreachAssets: OutreachAssetType[];
   roiOutput?: RoiOutputType;
+  companyProfile?: CompanyProfileView | null;
+}
+
+/**
+ * Executive Summary lines for the company profile, each citing its source
+ */
+function companyProfileLines(profile: CompanyProfileView): string[] {
+  const cite = (...fields: CompanyProfileField[]) => {
+    const sources = Array.from(new Set(fields.map(field => profile.sources[field]?.source).filter(Boolean)));
+    return sources.length > 0 ? ` _(source: ${sources.join(', ')})_` : '';
+  };
+  const lines: string[] = [];
+
+  const codes = [profile.naicsCode && `NAICS ${profile.naicsCode}`, profile.sicCode && `SIC ${profile.sicCode}`].filter(Boolean).join(', ');
+  if (profile.industryName || codes) {
+    lines.push(`**Industry:** ${[profile.industryName, codes && (profile.industryName ? `(${codes})` : codes)].filter(Boolean).join(' ')}${cite('industryName', 'naicsCode', 'sicCode')}`);
+  }
+  if (profile.employeeCount || profile.employeeBand) {
+    const size = profile.employeeCount ? profile.employeeCount.toLocaleString('en-US') : profile.employeeBand;
+    lines.push(`**Employees:** ${size}${cite(profile.employeeCount ? 'employeeCount' : 'employeeBand')}`);
+  }
+  const headquarters = formatHeadquarters(profile);
+  if (headquarters) lines.push(`**Headquarters:** ${headquarters}${cite('hqCity', 'hqRegion', 'hqCountry')}`);
+  if (profile.revenueBand) lines.push(`**Annual Revenue:** $${profile.revenueBand}${cite('revenueBand')}`);
+  if (profile.ownership) {
+    lines.push(`**Ownership:** ${profile.ownership === 'public' ? 'Public' : 'Private'}${profile.stockTicker ? ` (${profile.stockTicker})` : ''}${cite('ownership', 'stockTicker')}`);
+  }
+  if (profile.fundingStage && profile.fundingStage !== 'public') {
+    lines.push(`**Funding Stage:** ${fundingStageLabel(profile.fundingStage)}${cite('fundingStage')}`);
+  }
+  if (profile.subsidiaries.length > 0) lines.push(`**Subsidiaries:** ${profile.subsidiaries.join(', ')}${cite('subsidiaries')}`);
+
+  return lines;
 }
 
 /**
@@ -40,6 +85,7 @@ export function generateMarkdownExport(data: ExportData): string {
   console.log(`src/lib/export-generator.ts: Generating Markdown export for project ${data.project.id}`);
 
   const { project, evidence, pains, stakeholders, outreachAssets, roiOutput } = data;
+  const insights = data.insights ?? [];
 
   let markdown = `# ${project.name}
 **Research Brief & ROI Analysis**
@@ -51,7 +97,7 @@ export function generateMarkdownExport(data: ExportData): string {
 **Target Company:** ${project.companyName}  
 **Domain:** ${project.companyDomain}  
 **Product Category:** ${project.productCategory}  
-**Research Status:** ${project.status}  
+${data.companyProfile ? companyProfileLines(data.companyProfile).map(line => `${line}  \n`).join('') : ''}**Research Status:** ${project.status}  
 **Generated:** ${new Date().toLocaleDateString()}
 
 `;
@@ -69,6 +115,24 @@ export function generateMarkdownExport(data: ExportData): string {
 `;
   }
 
+  // Key Insights (signals consolidated across evidence; sources numbered as in Evidence Sources)
+  if (insights.length > 0) {
+    markdown += `## Key Insights
+
+`;
+    insights.forEach((insight, index) => {
+      const sources = insight.evidenceIds
+        .map(evidenceId => evidence.findIndex(e => e.id === evidenceId) + 1)
+        .filter(number => number > 0)
+        .sort((a, b) => a - b);
+      markdown += `${index + 1}. **${insight.kind.toUpperCase()}:** ${insight.text} (confidence: ${formatPercentage(insight.confidence)}`;
+      if (insight.corroboration > 1) markdown += `, corroborated by ${insight.corroboration} sources`;
+      markdown += `)${sources.length > 0 ? ` — sources ${sources.map(number => `[${number}]`).join(', ')}` : ''}
+`;
+    });
+    markdown += '\n';
+  }
+
   // Pain Points Analysis
   if (pains.length > 0) {
     markdown += `## Identified Pain Points
@@ -139,13 +203,41 @@ ${item.author ? `**Author:** ${item.author}` : ''}
 ${item.publishedAt ? `**Published:** ${new Date(item.publishedAt).toLocaleDateString()}` : ''}
 
 `;
-    if (item.snippet) {
-      markdown += `**Summary:** ${item.snippet}
+    // Prefer the NLP summary over the raw lead-text snippet
+    const summary = item.summary || item.snippet;
+    if (summary) {
+      markdown += `**Summary:** ${summary}
 
 `;
     }
 
-    if (item.signals.length > 0) {
+    if (item.topics && item.topics.length > 0) {
+      markdown += `**Topics:** ${item.topics.join(', ')}
+
+`;
+    }
+
+    if (item.keyQuotes && item.keyQuotes.length > 0) {
+      markdown += `**Key Quotes:**
+`;
+      item.keyQuotes.forEach(quote => {
+        markdown += `> "${quote}"
+
+`;
+      });
+    }
+
+    // With insights, each signal is listed once under its insight instead of per source
+    const supported = insights
+      .map((insight, insightIndex) => (insight.evidenceIds.includes(item.id) ? insightIndex + 1 : 0))
+      .filter(number => number > 0);
+    if (insights.length > 0) {
+      if (supported.length > 0) {
+        markdown += `**Supports Insights:** ${supported.join(', ')}
+
+`;
+      }
+    } else if (item.signals.length > 0) {
       markdown += `**Extracted Signals:**
 `;
       item.signals.forEach(signal => {
@@ -221,6 +313,8 @@ export function generateJsonExport(data: ExportData) {
       exportedAt: new Date().toISOString(),
       version: '1.0',
     },
+
+    companyProfile: data.companyProfile ?? null,
     
     summary: {
       totalEvidence: evidence.length,
@@ -236,6 +330,15 @@ export function generateJsonExport(data: ExportData) {
       riskLevel: roiOutput.low.roiPct < 0 ? 'HIGH' : roiOutput.low.roiPct < 10 ? 'MEDIUM' : 'LOW',
     } : null,
 
+    insights: (data.insights ?? []).map(insight => ({
+      id: insight.id,
+      kind: insight.kind,
+      text: insight.text,
+      confidence: insight.confidence,
+      corroboration: insight.corroboration,
+      evidenceIds: insight.evidenceIds,
+    })),
+
     painPoints: pains.map(pain => ({
       id: pain.id,
       name: pain.name,
@@ -274,6 +377,9 @@ export function generateJsonExport(data: ExportData) {
       author: item.author,
       publishedAt: item.publishedAt,
       snippet: item.snippet,
+      summary: item.summary ?? null,
+      keyQuotes: item.keyQuotes ?? [],
+      topics: item.topics ?? [],
       signalCount: item.signals.length,
       signals: item.signals.map(signal => ({
         kind: signal.kind,
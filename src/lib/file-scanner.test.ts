@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { inspectArchive, scanFile, sniffFormat } from './file-scanner';
+
+interface ZipEntry {
+  name: string;
+  data?: string;
+  compressedSize?: number; // Sizes recorded in the central directory (default: the stored data length)
+  uncompressedSize?: number;
+}
+
+/**
+ * Build a stored (uncompressed) ZIP archive whose central directory may
+ * declare sizes other than the stored data
+ */
+function zip(entries: ZipEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const data = Buffer.from(entry.data ?? '');
+    const compressedSize = entry.compressedSize ?? data.length;
+    const uncompressedSize = entry.uncompressedSize ?? data.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt32LE(compressedSize, 18);
+    local.writeUInt32LE(uncompressedSize, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt32LE(compressedSize, 20);
+    central.writeUInt32LE(uncompressedSize, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const DOCX_ENTRIES: ZipEntry[] = [
+  { name: '[Content_Types].xml', data: '<Types/>' },
+  { name: 'word/document.xml', data: '<w:document/>' },
+];
+
+const PDF = Buffer.from('%PDF-1.7\n1 0 obj << /Type /Catalog >> endobj\n%%EOF\n');
+
+describe('sniffFormat', () => {
+  it('identifies formats from their content, not their name', () => {
+    expect(sniffFormat(PDF)).toEqual({ format: 'pdf' });
+    expect(sniffFormat(zip(DOCX_ENTRIES))).toEqual({ format: 'docx' });
+    expect(sniffFormat(Buffer.from('<!DOCTYPE html><html><body>Report</body></html>'))).toEqual({ format: 'html' });
+    expect(sniffFormat(Buffer.from('MZ\x90\x00'))).toEqual({ reason: 'Blocked file type: Windows executable' });
+  });
+});
+
+describe('inspectArchive', () => {
+  it('accepts an ordinary document', () => {
+    expect(inspectArchive(zip(DOCX_ENTRIES))).toBeNull();
+  });
+
+  it('rejects entries whose compression ratio suggests a zip bomb', () => {
+    const bomb = zip([...DOCX_ENTRIES, { name: 'word/media/filler.xml', data: 'x'.repeat(100), uncompressedSize: 100 * 101 }]);
+
+    expect(inspectArchive(bomb)).toBe('Suspicious compression ratio for word/media/filler.xml');
+  });
+
+  it('rejects macro-bearing documents', () => {
+    expect(inspectArchive(zip([...DOCX_ENTRIES, { name: 'word/vbaProject.bin', data: 'VBA' }])))
+      .toBe('Macro-enabled documents are not accepted: word/vbaProject.bin');
+  });
+});
+
+describe('scanFile', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it('rejects content that does not match its declared extension', async () => {
+    await expect(scanFile(PDF, 'docx')).resolves.toEqual({
+      clean: false,
+      reason: 'Declared type docx does not match content (pdf)',
+    });
+  });
+
+  it('rejects a macro-bearing docx before the antivirus scan', async () => {
+    const result = await scanFile(zip([...DOCX_ENTRIES, { name: 'word/vbaProject.bin', data: 'VBA' }]), 'docx');
+
+    expect(result.clean).toBe(false);
+    expect(result.reason).toMatch(/Macro-enabled/);
+  });
+
+  it('throws instead of approving files when ANTIVIRUS_DRIVER is unset', async () => {
+    vi.stubEnv('ANTIVIRUS_DRIVER', '');
+    const { scanFile: scanWithoutDriver } = await import('./file-scanner');
+
+    await expect(scanWithoutDriver(PDF, 'pdf')).rejects.toThrow(/ANTIVIRUS_DRIVER is not set/);
+  });
+
+  it('passes clean files when scanning is explicitly disabled', async () => {
+    vi.stubEnv('ANTIVIRUS_DRIVER', 'none');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { scanFile: scanWithNoop } = await import('./file-scanner');
+
+    await expect(scanWithNoop(PDF, 'pdf')).resolves.toEqual({ clean: true, format: 'pdf' });
+  });
+});
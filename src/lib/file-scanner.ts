@@ -0,0 +1,336 @@
+/**
+ * src/lib/file-scanner.ts: Security scanning for uploaded evidence files
+ *
+ * Quarantined uploads must pass these checks before their evidence is
+ * approved: size limits, magic-byte MIME sniffing against a type
+ * allowlist, archive-bomb and macro inspection for ZIP-based formats, and an
+ * antivirus scan through a pluggable adapter (clamd or disabled).
+ */
+
+import net from 'net';
+import { MAX_UPLOAD_BYTES } from './storage';
+import { DocumentFormat } from './document-extractor';
+
+export interface ScanResult {
+  clean: boolean;
+  format?: DocumentFormat;
+  reason?: string;
+}
+
+export interface AntivirusScanner {
+  readonly name: string;
+  scan(buffer: Buffer): Promise<{ infected: boolean; signature?: string }>;
+}
+
+// Archive limits for ZIP-based formats (DOCX/PPTX)
+const ZIP_LIMITS = {
+  maxEntries: 5000,
+  maxTotalUncompressedBytes: 250 * 1024 * 1024,
+  maxCompressionRatio: 100,
+};
+
+// Formats accepted for upload; anything else is rejected
+export const ALLOWED_FORMATS: DocumentFormat[] = ['pdf', 'docx', 'pptx', 'txt', 'html'];
+
+// Signatures of executable and script containers that are never accepted
+const BLOCKED_SIGNATURES: Array<{ name: string; bytes: number[] }> = [
+  { name: 'Windows executable', bytes: [0x4d, 0x5a] }, // MZ
+  { name: 'ELF executable', bytes: [0x7f, 0x45, 0x4c, 0x46] },
+  { name: 'Mach-O executable', bytes: [0xcf, 0xfa, 0xed, 0xfe] },
+  { name: 'Mach-O executable', bytes: [0xfe, 0xed, 0xfa, 0xce] },
+  { name: 'Java class file', bytes: [0xca, 0xfe, 0xba, 0xbe] },
+  { name: 'OLE compound document', bytes: [0xd0, 0xcf, 0x11, 0xe0] }, // Legacy Office, macro carrier
+];
+
+/**
+ * Check whether a buffer starts with the given bytes
+ */
+function startsWith(buffer: Buffer, bytes: number[]): boolean {
+  return buffer.length >= bytes.length && bytes.every((byte, index) => buffer[index] === byte);
+}
+
+/**
+ * List the entry names and sizes of a ZIP archive from its central directory
+ * without decompressing anything
+ * @param buffer - ZIP file contents
+ * @returns Entries, or null if the archive structure is invalid
+ */
+export function readZipEntries(buffer: Buffer): Array<{ name: string; compressedSize: number; uncompressedSize: number }> | null {
+  // End of central directory record is within the last 64KB + 22 bytes
+  const searchStart = Math.max(0, buffer.length - 65557);
+  let eocd = -1;
+  for (let offset = buffer.length - 22; offset >= searchStart; offset--) {
+    if (buffer.readUInt32LE(offset) === 0x06054b50) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) return null;
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries = [];
+
+  for (let index = 0; index < entryCount; index++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) {
+      return null;
+    }
+
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.push({ name, compressedSize, uncompressedSize });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Inspect a ZIP-based document for archive-bomb characteristics and macros
+ * @returns Rejection reason, or null if the archive looks safe
+ */
+export function inspectArchive(buffer: Buffer): string | null {
+  const entries = readZipEntries(buffer);
+  if (!entries) {
+    return 'Corrupt or unreadable archive structure';
+  }
+
+  if (entries.length > ZIP_LIMITS.maxEntries) {
+    return `Archive contains too many entries (${entries.length})`;
+  }
+
+  let totalUncompressed = 0;
+  for (const entry of entries) {
+    // ZIP64 markers are not expected in office documents of accepted size
+    if (entry.compressedSize === 0xffffffff || entry.uncompressedSize === 0xffffffff) {
+      return 'ZIP64 archives are not accepted';
+    }
+
+    if (/\.(zip|jar|7z|rar|gz|tgz|bz2|xz)$/i.test(entry.name)) {
+      return `Nested archive not allowed: ${entry.name}`;
+    }
+
+    // Macro-enabled documents renamed to .docx/.pptx still carry their VBA project
+    if (/(^|\/)vbaProject\.bin$/i.test(entry.name)) {
+      return `Macro-enabled documents are not accepted: ${entry.name}`;
+    }
+
+    if (entry.compressedSize > 0 && entry.uncompressedSize / entry.compressedSize > ZIP_LIMITS.maxCompressionRatio) {
+      return `Suspicious compression ratio for ${entry.name}`;
+    }
+
+    totalUncompressed += entry.uncompressedSize;
+  }
+
+  if (totalUncompressed > ZIP_LIMITS.maxTotalUncompressedBytes) {
+    return `Archive expands to ${totalUncompressed} bytes, above the allowed limit`;
+  }
+
+  return null;
+}
+
+/**
+ * Identify a document format from its leading bytes (magic numbers)
+ * @param buffer - File contents
+ * @returns Sniffed format, or a rejection reason
+ */
+export function sniffFormat(buffer: Buffer): { format?: DocumentFormat; reason?: string } {
+  const blocked = BLOCKED_SIGNATURES.find(signature => startsWith(buffer, signature.bytes));
+  if (blocked) {
+    return { reason: `Blocked file type: ${blocked.name}` };
+  }
+
+  if (startsWith(buffer, [0x25, 0x50, 0x44, 0x46, 0x2d])) { // %PDF-
+    return { format: 'pdf' };
+  }
+
+  if (startsWith(buffer, [0x50, 0x4b, 0x03, 0x04])) { // PK\x03\x04
+    const names = (readZipEntries(buffer) || []).map(entry => entry.name);
+    if (!names.includes('[Content_Types].xml')) {
+      return { reason: 'ZIP archive is not an Office Open XML document' };
+    }
+    if (names.some(name => name.startsWith('word/'))) return { format: 'docx' };
+    if (names.some(name => name.startsWith('ppt/'))) return { format: 'pptx' };
+    return { reason: 'Unsupported Office Open XML document type' };
+  }
+
+  // Text formats have no magic number: require NUL-free valid UTF-8
+  const sample = buffer.subarray(0, 64 * 1024);
+  if (sample.includes(0x00)) {
+    return { reason: 'Unrecognized binary file type' };
+  }
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample.subarray(0, lastCompleteUtf8Boundary(sample)));
+  } catch {
+    return { reason: 'Text file is not valid UTF-8' };
+  }
+
+  const head = sample.toString('utf8', 0, 1024).replace(/^\uFEFF/, '').trimStart().toLowerCase();
+  if (head.startsWith('<!doctype html') || head.startsWith('<html')) {
+    return { format: 'html' };
+  }
+  return { format: 'txt' };
+}
+
+/**
+ * Length of the sample up to the last complete UTF-8 sequence, so a
+ * multi-byte character cut off by sampling is not reported as invalid
+ */
+function lastCompleteUtf8Boundary(sample: Buffer): number {
+  let end = sample.length;
+  for (let back = 1; back <= 3 && end - back >= 0; back++) {
+    const byte = sample[end - back];
+    if ((byte & 0xc0) === 0x80) continue; // continuation byte
+    if (byte >= 0xc0) {
+      const expected = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : 2;
+      if (back < expected) end -= back;
+    }
+    break;
+  }
+  return end;
+}
+
+/**
+ * clamd antivirus adapter using the INSTREAM command over TCP
+ */
+class ClamdScanner implements AntivirusScanner {
+  readonly name = 'clamd';
+  private host: string;
+  private port: number;
+  private timeoutMs: number;
+
+  constructor() {
+    this.host = process.env.CLAMD_HOST || '127.0.0.1';
+    this.port = parseInt(process.env.CLAMD_PORT || '3310');
+    this.timeoutMs = parseInt(process.env.CLAMD_TIMEOUT_MS || '60000');
+  }
+
+  scan(buffer: Buffer): Promise<{ infected: boolean; signature?: string }> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      const chunks: Buffer[] = [];
+
+      socket.setTimeout(this.timeoutMs, () => {
+        socket.destroy(new Error('clamd scan timed out'));
+      });
+
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0');
+        // Stream in chunks, each prefixed with its length (network byte order)
+        for (let offset = 0; offset < buffer.length; offset += 64 * 1024) {
+          const chunk = buffer.subarray(offset, offset + 64 * 1024);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        socket.write(Buffer.alloc(4)); // Zero-length chunk terminates the stream
+      });
+
+      socket.on('data', data => chunks.push(data));
+      socket.on('error', reject);
+      socket.on('end', () => {
+        const reply = Buffer.concat(chunks).toString('utf8').replace(/\0/g, '').trim();
+        const found = reply.match(/^stream: (.+) FOUND$/);
+
+        if (found) {
+          resolve({ infected: true, signature: found[1] });
+        } else if (reply.endsWith('OK')) {
+          resolve({ infected: false });
+        } else {
+          reject(new Error(`Unexpected clamd reply: ${reply}`));
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Disabled antivirus adapter (development only)
+ */
+class NoopScanner implements AntivirusScanner {
+  readonly name = 'none';
+
+  async scan() {
+    return { infected: false };
+  }
+}
+
+let scannerInstance: AntivirusScanner | undefined;
+
+/**
+ * Get the configured antivirus adapter
+ * ANTIVIRUS_DRIVER=clamd scans through a clamd daemon; scanning is only
+ * disabled by an explicit ANTIVIRUS_DRIVER=none, so a missing or mistyped
+ * setting keeps uploads quarantined instead of approving them unscanned.
+ * @throws Error when ANTIVIRUS_DRIVER is unset or unknown
+ */
+export function getAntivirusScanner(): AntivirusScanner {
+  if (!scannerInstance) {
+    const driver = process.env.ANTIVIRUS_DRIVER;
+    if (driver === 'clamd') {
+      scannerInstance = new ClamdScanner();
+    } else if (driver === 'none') {
+      scannerInstance = new NoopScanner();
+      console.warn('src/lib/file-scanner.ts: Antivirus scanning is disabled (ANTIVIRUS_DRIVER=none)');
+    } else {
+      throw new Error(driver
+        ? `Unknown ANTIVIRUS_DRIVER "${driver}" (expected clamd or none)`
+        : 'ANTIVIRUS_DRIVER is not set (use clamd, or none to disable scanning in development)');
+    }
+  }
+  return scannerInstance;
+}
+
+/**
+ * Run all security checks on an uploaded file
+ * @param buffer - File contents
+ * @param declaredFormat - Format implied by the declared content type / extension
+ * @returns Scan verdict with the sniffed format or a rejection reason
+ */
+export async function scanFile(buffer: Buffer, declaredFormat: DocumentFormat | null): Promise<ScanResult> {
+  if (buffer.length === 0) {
+    return { clean: false, reason: 'File is empty' };
+  }
+
+  if (buffer.length > MAX_UPLOAD_BYTES) {
+    return { clean: false, reason: `File exceeds ${MAX_UPLOAD_BYTES} bytes` };
+  }
+
+  const sniffed = sniffFormat(buffer);
+  if (!sniffed.format) {
+    return { clean: false, reason: sniffed.reason };
+  }
+
+  if (!ALLOWED_FORMATS.includes(sniffed.format)) {
+    return { clean: false, reason: `File type ${sniffed.format} is not allowed` };
+  }
+
+  // Declared type must match content (HTML saved as .txt and vice versa is tolerated)
+  const textFormats: DocumentFormat[] = ['txt', 'html'];
+  const compatible = declaredFormat === sniffed.format ||
+    (declaredFormat !== null && textFormats.includes(declaredFormat) && textFormats.includes(sniffed.format));
+  if (!compatible) {
+    return { clean: false, reason: `Declared type ${declaredFormat ?? 'unknown'} does not match content (${sniffed.format})` };
+  }
+
+  if (sniffed.format === 'docx' || sniffed.format === 'pptx') {
+    const archiveProblem = inspectArchive(buffer);
+    if (archiveProblem) {
+      return { clean: false, reason: archiveProblem };
+    }
+  }
+
+  const scanner = getAntivirusScanner();
+  const verdict = await scanner.scan(buffer);
+  if (verdict.infected) {
+    return { clean: false, reason: `Malware detected by ${scanner.name}: ${verdict.signature}` };
+  }
+
+  return { clean: true, format: sniffed.format };
+}
@@ -0,0 +1,209 @@
+/**
+ * src/lib/html-extractor.ts: Main-content and metadata extraction for HTML pages
+ *
+ * Uses Mozilla Readability to isolate article content from navigation,
+ * cookie banners and other boilerplate, and collects metadata from
+ * JSON-LD, OpenGraph, Twitter cards, canonical links and <time> elements.
+ */
+
+import { Readability } from '@mozilla/readability';
+import { parseHTML } from 'linkedom';
+
+export interface ExtractedHtml {
+  title?: string;
+  author?: string;
+  publishedAt?: Date;
+  siteName?: string;
+  description?: string;
+  canonicalUrl?: string;
+  leadParagraph?: string;
+  text: string;
+}
+
+// Shortest paragraph considered meaningful enough to be a lead
+const MIN_LEAD_LENGTH = 80;
+
+// Schema.org types treated as articles in JSON-LD
+const ARTICLE_TYPES = ['Article', 'NewsArticle', 'BlogPosting', 'Report', 'TechArticle', 'PressRelease', 'WebPage'];
+
+// Boilerplate Readability does not treat as unlikely content
+const BOILERPLATE_PATTERN = /cookie|consent|newsletter|subscribe|paywall|promo|share-?bar|skip-link/i;
+
+export type JsonLdNode = Record<string, unknown>;
+
+/**
+ * Parse a date string, returning undefined when invalid
+ */
+function parseDate(value?: string | null): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Collapse whitespace in a single-line value
+ */
+function clean(value?: string | null): string | undefined {
+  const text = value?.replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+/**
+ * Read the content of the first matching <meta> tag (by property or name)
+ */
+function metaContent(document: Document, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const element = document.querySelector(`meta[property="${key}"], meta[name="${key}"]`);
+    const content = clean(element?.getAttribute('content'));
+    if (content) return content;
+  }
+  return undefined;
+}
+
+/**
+ * Collect all JSON-LD nodes on the page, flattening arrays and @graph
+ */
+export function jsonLdNodes(document: Document): JsonLdNode[] {
+  const nodes: JsonLdNode[] = [];
+
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      const node = value as JsonLdNode;
+      nodes.push(node);
+      if (node['@graph']) visit(node['@graph']);
+    }
+  };
+
+  document.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+    try {
+      visit(JSON.parse(script.textContent || ''));
+    } catch {
+      // Malformed JSON-LD is common; ignore it
+    }
+  });
+
+  return nodes;
+}
+
+/**
+ * Check whether a JSON-LD node has one of the given @type values
+ */
+export function hasType(node: JsonLdNode, types: string[]): boolean {
+  const nodeTypes = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+  return nodeTypes.some(type => typeof type === 'string' && types.includes(type));
+}
+
+/**
+ * Read a name from a JSON-LD person/organization value (string, object or list)
+ */
+export function jsonLdName(value: unknown): string | undefined {
+  if (typeof value === 'string') return clean(value);
+  if (Array.isArray(value)) {
+    const names = value.map(jsonLdName).filter(Boolean);
+    return names.length > 0 ? names.join(', ') : undefined;
+  }
+  if (value && typeof value === 'object') {
+    return clean((value as JsonLdNode).name as string | undefined);
+  }
+  return undefined;
+}
+
+/**
+ * Trim text to a maximum length on a word boundary
+ */
+export function truncateAtWord(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.substring(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength * 0.6 ? cut.substring(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+/**
+ * Extract main content and metadata from an HTML page
+ * @param html - Raw HTML
+ * @param url - Page URL, used to resolve relative canonical links
+ * @returns Clean article text, lead paragraph and page metadata
+ */
+export function extractHtmlContent(html: string, url?: string): ExtractedHtml {
+  const { document } = parseHTML(html) as unknown as { document: Document };
+
+  const nodes = jsonLdNodes(document);
+  const article = nodes.find(node => hasType(node, ARTICLE_TYPES));
+  const organization = nodes.find(node => hasType(node, ['Organization', 'Corporation', 'NewsMediaOrganization']));
+
+  const timeElement = document.querySelector('article time[datetime], time[datetime]');
+
+  let canonicalUrl = document.querySelector('link[rel="canonical"]')?.getAttribute('href') || metaContent(document, 'og:url');
+  if (canonicalUrl) {
+    try {
+      canonicalUrl = new URL(canonicalUrl, url).toString();
+    } catch {
+      canonicalUrl = undefined;
+    }
+  }
+
+  // Metadata must be read before Readability, which mutates the document
+  const metadata = {
+    title:
+      clean(article?.headline as string | undefined) ||
+      metaContent(document, 'og:title', 'twitter:title') ||
+      clean(document.querySelector('title')?.textContent),
+    author:
+      jsonLdName(article?.author) ||
+      metaContent(document, 'author', 'article:author', 'twitter:creator') ||
+      jsonLdName(article?.publisher) ||
+      jsonLdName(organization),
+    publishedAt:
+      parseDate(article?.datePublished as string | undefined) ||
+      parseDate(metaContent(document, 'article:published_time', 'date', 'pubdate')) ||
+      parseDate(timeElement?.getAttribute('datetime')),
+    siteName:
+      metaContent(document, 'og:site_name', 'application-name') ||
+      jsonLdName(article?.publisher) ||
+      jsonLdName(organization),
+    description:
+      metaContent(document, 'og:description', 'twitter:description', 'description') ||
+      clean(article?.description as string | undefined),
+    canonicalUrl,
+  };
+
+  document.querySelectorAll('[id], [class]').forEach(element => {
+    const identifiers = `${element.getAttribute('id') || ''} ${element.getAttribute('class') || ''}`;
+    if (BOILERPLATE_PATTERN.test(identifiers) && element.tagName !== 'BODY' && element.tagName !== 'HTML') {
+      element.remove();
+    }
+  });
+
+  const readable = new Readability(document, { charThreshold: 200 }).parse();
+
+  let text: string;
+  let leadParagraph: string | undefined;
+
+  if (readable?.content) {
+    const { document: contentDocument } = parseHTML(`<html><body>${readable.content}</body></html>`) as unknown as { document: Document };
+    const blocks = Array.from(contentDocument.querySelectorAll('p, li, h1, h2, h3, h4, h5, h6, blockquote, pre, td'))
+      .filter(element => !element.querySelector('p, li, blockquote'))
+      .map(element => clean(element.textContent))
+      .filter((block): block is string => Boolean(block));
+
+    text = blocks.length > 0 ? blocks.join('\n\n') : clean(readable.textContent) || '';
+    leadParagraph = Array.from(contentDocument.querySelectorAll('p'))
+      .map(element => clean(element.textContent))
+      .find(paragraph => paragraph && paragraph.length >= MIN_LEAD_LENGTH);
+  } else {
+    // Readability found no article; fall back to all visible body text
+    document.querySelectorAll('script, style, noscript, template, nav, header, footer, aside').forEach(element => element.remove());
+    text = clean(document.body?.textContent) || '';
+  }
+
+  return {
+    ...metadata,
+    title: metadata.title || clean(readable?.title),
+    author: metadata.author || clean(readable?.byline),
+    siteName: metadata.siteName || clean(readable?.siteName),
+    leadParagraph: leadParagraph || metadata.description || clean(readable?.excerpt),
+    text,
+  };
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { classifyDepartment, classifySeniority, detectTechnologies, extractJobPostings, parsePostedDate } from './job-postings';
+
+const NOW = new Date('2025-06-15T12:00:00Z');
+
+describe('classifyDepartment', () => {
+  it.each([
+    ['Senior Site Reliability Engineer', 'devops'],
+    ['Application Security Engineer', 'security'],
+    ['Solutions Engineer', 'sales'],
+    ['Staff Backend Engineer', 'engineering'],
+    ['Product Marketing Manager', 'marketing'],
+    ['Technical Account Manager', 'customer_success'],
+    ['Senior Recruiter', 'people'],
+  ])('classifies "%s" as %s', (title, department) => {
+    expect(classifyDepartment(title)).toBe(department);
+  });
+
+  it('falls back to the department label when the title says nothing', () => {
+    expect(classifyDepartment('Team Member', 'Finance & Accounting')).toBe('finance');
+    expect(classifyDepartment('Team Member')).toBe('other');
+  });
+});
+
+describe('classifySeniority', () => {
+  it.each([
+    ['Software Engineering Intern', 'intern'],
+    ['VP of Engineering', 'executive'],
+    ['Head of Data', 'director'],
+    ['Principal Engineer', 'lead'],
+    ['Sr. Data Analyst', 'senior'],
+    ['Software Engineer I', 'junior'],
+    ['Backend Engineer', 'mid'],
+    ['Senior Engineering Manager', 'manager'],
+    ['Senior Product Manager', 'senior'],
+  ])('classifies "%s" as %s', (title, seniority) => {
+    expect(classifySeniority(title)).toBe(seniority);
+  });
+});
+
+describe('detectTechnologies', () => {
+  it('recognizes Go only where it names the language', () => {
+    expect(detectTechnologies('Experience with Go, Python and Kubernetes')).toEqual(['Kubernetes', 'Python', 'Go']);
+    expect(detectTechnologies('Hiring a Go developer; golang a plus')).toEqual(['Go']);
+    expect(detectTechnologies('Go to market with our sales team')).toEqual([]);
+    expect(detectTechnologies('You will go and meet customers')).toEqual([]);
+  });
+
+  it('recognizes Helm as the tool, not the idiom', () => {
+    expect(detectTechnologies('Package services as Helm charts')).toEqual(['Helm']);
+    expect(detectTechnologies('Take the helm of our platform team')).toEqual([]);
+  });
+});
+
+describe('parsePostedDate', () => {
+  it('reads relative dates against the given time', () => {
+    expect(parsePostedDate('Posted 3 days ago', NOW)).toEqual(new Date('2025-06-12T12:00:00Z'));
+    expect(parsePostedDate('Posted 2 weeks ago', NOW)).toEqual(new Date('2025-06-01T12:00:00Z'));
+    expect(parsePostedDate('Posted yesterday', NOW)).toEqual(new Date('2025-06-14T12:00:00Z'));
+    expect(parsePostedDate('Posted today', NOW)).toEqual(NOW);
+  });
+
+  it('reads absolute dates and ignores future or missing ones', () => {
+    expect(parsePostedDate('Date posted: 2025-03-03', NOW)).toEqual(new Date('2025-03-03'));
+    expect(parsePostedDate('Posted on 2026-01-01', NOW)).toBeUndefined();
+    expect(parsePostedDate('Apply by March 3, 2025', NOW)).toBeUndefined();
+  });
+});
+
+describe('extractJobPostings', () => {
+  it('reads schema.org JobPosting JSON-LD', () => {
+    const html = `<html><head><script type="application/ld+json">${JSON.stringify({
+      '@context': 'https://schema.org',
+      '@type': 'JobPosting',
+      title: 'Senior DevOps Engineer',
+      description: '<p>Run our AWS platform with Terraform and Kubernetes.</p>',
+      datePosted: '2025-06-01',
+      jobLocationType: 'TELECOMMUTE',
+      jobLocation: { '@type': 'Place', address: { '@type': 'PostalAddress', addressLocality: 'Austin', addressRegion: 'TX', addressCountry: 'US' } },
+    })}</script></head><body><h1>Senior DevOps Engineer</h1></body></html>`;
+
+    const postings = extractJobPostings(html, 'https://contoso.com/careers/devops', '');
+
+    expect(postings).toEqual([{
+      title: 'Senior DevOps Engineer',
+      department: 'devops',
+      seniority: 'senior',
+      location: 'Austin, TX, US',
+      remote: true,
+      postedAt: new Date('2025-06-01'),
+      technologies: ['AWS', 'Kubernetes', 'Terraform'],
+      url: 'https://contoso.com/careers/devops',
+    }]);
+  });
+
+  it('reads a job board listing, once per title and location', () => {
+    const html = `<html><body><ul>
+      <li class="opening"><a href="/jobs/101">Backend Engineer</a><span class="location">Berlin</span><span class="department">Platform</span></li>
+      <li class="opening"><a href="/jobs/102">Backend Engineer</a><span class="location">Berlin</span></li>
+      <li class="opening"><a href="/jobs/103">Account Executive</a><span class="location">Remote - US</span></li>
+      <li><a href="/about">About our team</a></li>
+    </ul></body></html>`;
+
+    const postings = extractJobPostings(html, 'https://boards.greenhouse.io/contoso', '');
+
+    expect(postings.map(({ title, department, location, remote, url }) => ({ title, department, location, remote, url }))).toEqual([
+      { title: 'Backend Engineer', department: 'engineering', location: 'Berlin', remote: false, url: 'https://boards.greenhouse.io/jobs/101' },
+      { title: 'Account Executive', department: 'sales', location: 'Remote - US', remote: true, url: 'https://boards.greenhouse.io/jobs/103' },
+    ]);
+  });
+
+  it('treats the heading of a single posting page without JSON-LD as the role', () => {
+    const html = '<html><body><h1>Data Engineer</h1><div class="job-location">London</div><p>Build pipelines in Airflow and dbt.</p></body></html>';
+    const text = 'Data Engineer London Posted 2 days ago Build pipelines in Airflow and dbt.';
+
+    const [posting] = extractJobPostings(html, 'https://contoso.com/careers/data-engineer', text);
+
+    expect(posting).toMatchObject({ title: 'Data Engineer', department: 'data', location: 'London', technologies: ['Airflow', 'dbt'] });
+    expect(posting.postedAt).toBeInstanceOf(Date);
+  });
+
+  it('finds nothing on pages that are not about jobs', () => {
+    expect(extractJobPostings('<html><body><h1>Engineering blog</h1></body></html>', 'https://contoso.com/blog/post', '')).toEqual([]);
+  });
+});
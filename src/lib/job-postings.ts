@@ -0,0 +1,439 @@
+/**
+ * src/lib/job-postings.ts: Structured hiring-signal extraction
+ *
+ * Recognizes careers pages and job-board URLs and extracts each open role
+ * with its department, seniority, location, posted date and the
+ * technologies it mentions. schema.org JobPosting JSON-LD is preferred;
+ * job-board listing markup (Greenhouse, Lever and generic careers pages)
+ * and single-posting pages without JSON-LD fall back to heuristics.
+ */
+
+import { parseHTML } from 'linkedom';
+import type { JobDepartment, JobSeniority } from '@prisma/client';
+import { hasType, jsonLdName, JsonLdNode, jsonLdNodes } from './html-extractor';
+import { decodeEntities } from './document-extractor';
+
+export interface ExtractedJobPosting {
+  title: string;
+  department: JobDepartment;
+  seniority: JobSeniority;
+  location?: string;
+  remote: boolean;
+  postedAt?: Date;
+  technologies: string[];
+  url?: string;
+}
+
+export interface HiringFilters {
+  department?: JobDepartment;
+  seniority?: JobSeniority;
+  technology?: string;
+  days?: number;
+}
+
+// Most roles recorded from one page (large boards list hundreds)
+const MAX_POSTINGS_PER_PAGE = 200;
+
+// Job boards and ATS hosts whose pages are postings or listings
+const JOB_BOARD_HOSTS = [
+  /(^|\.)greenhouse\.io$/,
+  /^jobs\.lever\.co$/,
+  /^jobs\.ashbyhq\.com$/,
+  /\.myworkdayjobs\.com$/,
+  /^apply\.workable\.com$/,
+  /^(jobs|careers)\.smartrecruiters\.com$/,
+  /\.bamboohr\.com$/,
+  /\.recruitee\.com$/,
+  /^(www\.)?wellfound\.com$/,
+  /^(careers|jobs)\./,
+];
+
+const JOB_PATH_PATTERN = /\/(careers?|jobs?|positions?|openings?|vacanc(y|ies)|join-us|work-with-us|opportunities)(\/|$|\?|#|\.)/i;
+
+// Host/path pairs for general sites whose job pages live under a known path
+const JOB_BOARD_PATHS: Array<[RegExp, RegExp]> = [
+  [/(^|\.)linkedin\.com$/, /^\/jobs\//],
+  [/(^|\.)indeed\.com$/, /^\/(viewjob|jobs|cmp\/[^/]+\/jobs)/],
+];
+
+// Words that make a link or heading look like a role title
+const ROLE_PATTERN = /\b(engineer|developer|programmer|architect|designer|scientist|analyst|manager|director|lead|head of|vp|vice president|chief|officer|specialist|administrator|consultant|coordinator|representative|executive|associate|intern|recruiter|counsel|accountant|controller|strategist|researcher|technician|sre|devops|writer|editor|partner|advocate|owner|agent)\b/i;
+
+const CAREERS_TEXT_PATTERN = /\b(open (roles|positions)|job openings|current openings|we'?re hiring|join our team|view (all )?(jobs|openings)|apply now)\b/gi;
+
+// Department by title keywords, most specific first
+const DEPARTMENT_RULES: Array<[JobDepartment, RegExp]> = [
+  ['security', /\b(security|infosec|cyber|appsec|penetration|soc analyst|threat|grc)\b/i],
+  ['devops', /\b(devops|dev ops|site reliability|sre|platform engineer|infrastructure|cloud engineer|release engineer|systems? (engineer|administrator)|network engineer|build engineer)\b/i],
+  ['data', /\b(data|analytics|machine learning|ml|ai engineer|business intelligence|bi (developer|analyst)|statistician)\b/i],
+  ['sales', /\b(solutions? engineer|sales engineer|pre-?sales)\b/i],
+  ['marketing', /\b(product marketing|marketing|content|seo|growth|brand|communications|demand gen|copywriter|social media)\b/i],
+  ['design', /\b(designer|design|ux|ui|user research)\b/i],
+  ['product', /\b(product (manager|owner|lead|director)|head of product|vp,? product|program manager|technical program)\b/i],
+  ['customer_success', /\b(customer (success|support|experience|service)|support (engineer|specialist|agent)|implementation|onboarding|technical account manager)\b/i],
+  ['engineering', /\b(engineer|engineering|developer|software|programmer|qa|quality assurance|test automation|architect|firmware|frontend|front-end|backend|back-end|full[- ]?stack|mobile|ios|android)\b/i],
+  ['sales', /\b(sales|account executive|business development|sdr|bdr|account manager|partnerships?|channel)\b/i],
+  ['finance', /\b(finance|financial|accountant|accounting|controller|fp&a|payroll|tax|treasury|billing)\b/i],
+  ['people', /\b(recruiter|recruiting|talent|hr|human resources|people (partner|operations|ops)|people)\b/i],
+  ['legal', /\b(counsel|legal|paralegal|attorney|compliance|privacy)\b/i],
+  ['operations', /\b(operations|office manager|supply chain|logistics|procurement|facilities|administrative|executive assistant)\b/i],
+];
+
+// Individual-contributor roles named "manager"
+const IC_MANAGER_PATTERN = /\b(product|program|project|account|customer success|partner|community|marketing|campaign|content)\s+manager\b/i;
+
+// Seniority by title keywords, checked in order
+const SENIORITY_RULES: Array<[JobSeniority, RegExp]> = [
+  ['intern', /\b(intern|internship|co-?op|apprentice|working student)\b/i],
+  ['executive', /\b(chief|ceo|cto|cfo|coo|ciso|cio|cmo|vp|svp|evp|vice president|president)\b/i],
+  ['director', /\b(director|head of)\b/i],
+  ['lead', /\b(lead|staff|principal|distinguished|architect)\b/i],
+  ['senior', /\b(senior|sr\.?|iii|iv)\b/i],
+  ['junior', /\b(junior|jr\.?|entry[- ]level|graduate|new grad|associate)\b|\b(engineer|developer|analyst) i\b/i],
+];
+
+// Canonical technology names and how they appear in postings
+const TECHNOLOGIES: Array<[string, RegExp]> = [
+  ['AWS', /\b(aws|amazon web services)\b/i],
+  ['Azure', /\bazure\b/i],
+  ['GCP', /\b(gcp|google cloud)\b/i],
+  ['Kubernetes', /\b(kubernetes|k8s|eks|gke|aks)\b/i],
+  ['Docker', /\bdocker\b/i],
+  ['Terraform', /\bterraform\b/i],
+  ['Ansible', /\bansible\b/i],
+  ['Pulumi', /\bpulumi\b/i],
+  ['Helm', /\bHelm\b/],
+  ['Jenkins', /\bjenkins\b/i],
+  ['GitHub Actions', /\bgithub actions\b/i],
+  ['GitLab CI', /\bgitlab[- ]ci\b/i],
+  ['Argo CD', /\bargo ?cd\b/i],
+  ['Prometheus', /\bprometheus\b/i],
+  ['Grafana', /\bgrafana\b/i],
+  ['Datadog', /\bdatadog\b/i],
+  ['Splunk', /\bsplunk\b/i],
+  ['New Relic', /\bnew relic\b/i],
+  ['OpenTelemetry', /\bopentelemetry\b/i],
+  ['Elasticsearch', /\b(elasticsearch|elastic stack|elk)\b/i],
+  ['Kafka', /\bkafka\b/i],
+  ['Spark', /\b(Apache )?Spark\b/],
+  ['Airflow', /\bairflow\b/i],
+  ['dbt', /\bdbt\b/i],
+  ['Snowflake', /\bsnowflake\b/i],
+  ['Databricks', /\bdatabricks\b/i],
+  ['BigQuery', /\bbigquery\b/i],
+  ['Redshift', /\bredshift\b/i],
+  ['PostgreSQL', /\b(postgres|postgresql)\b/i],
+  ['MySQL', /\bmysql\b/i],
+  ['MongoDB', /\bmongo(db)?\b/i],
+  ['Redis', /\bredis\b/i],
+  ['Python', /\bpython\b/i],
+  ['Java', /\bjava\b(?!script)/i],
+  ['Go', /\bgolang\b|\bGo\b(?=\s*(,|\/|\)|and\b|or\b|developer|engineer))/],
+  ['JavaScript', /\bjavascript\b/i],
+  ['TypeScript', /\btypescript\b/i],
+  ['React', /\breact(\.js|js)?\b/i],
+  ['Node.js', /\bnode(\.js|js)\b/i],
+  ['Ruby on Rails', /\b(ruby on rails|rails)\b/i],
+  ['Ruby', /\bruby\b/i],
+  ['C#', /(^|[^\w])c#(?!\w)/i],
+  ['.NET', /(^|\s)\.net\b/i],
+  ['C++', /(^|[^\w])c\+\+(?!\w)/i],
+  ['Rust', /\bRust\b/],
+  ['Scala', /\bscala\b/i],
+  ['Kotlin', /\bkotlin\b/i],
+  ['Swift', /\bSwift\b/],
+  ['PHP', /\bphp\b/i],
+  ['Linux', /\blinux\b/i],
+  ['HashiCorp Vault', /\b[Hh]ashi[Cc]orp [Vv]ault\b|\bVault\b/],
+  ['Okta', /\bokta\b/i],
+  ['CrowdStrike', /\bcrowdstrike\b/i],
+  ['SIEM', /\bsiem\b/i],
+  ['Salesforce', /\bsalesforce\b/i],
+  ['HubSpot', /\bhubspot\b/i],
+  ['ServiceNow', /\bservicenow\b/i],
+  ['Workday', /\bworkday\b/i],
+  ['SAP', /\bSAP\b/],
+  ['NetSuite', /\bnetsuite\b/i],
+  ['Jira', /\bjira\b/i],
+  ['Tableau', /\btableau\b/i],
+  ['Looker', /\blooker\b/i],
+  ['Power BI', /\bpower ?bi\b/i],
+  ['PyTorch', /\bpytorch\b/i],
+  ['TensorFlow', /\btensorflow\b/i],
+];
+
+export const DEPARTMENT_LABELS: Record<JobDepartment, string> = {
+  engineering: 'Engineering',
+  devops: 'DevOps',
+  security: 'Security',
+  data: 'Data',
+  product: 'Product',
+  design: 'Design',
+  sales: 'Sales',
+  marketing: 'Marketing',
+  customer_success: 'Customer Success',
+  finance: 'Finance',
+  people: 'People',
+  legal: 'Legal',
+  operations: 'Operations',
+  other: 'Other',
+};
+
+/**
+ * Collapse whitespace in a single-line value
+ */
+function clean(value?: string | null): string | undefined {
+  const text = value?.replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+/**
+ * Check whether a URL is a job posting or job board/careers listing
+ */
+export function isJobPostingUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  const host = parsed.hostname.toLowerCase();
+
+  if (JOB_BOARD_HOSTS.some(pattern => pattern.test(host))) return true;
+  if (JOB_BOARD_PATHS.some(([hostPattern, pathPattern]) => hostPattern.test(host) && pathPattern.test(parsed.pathname))) return true;
+  return JOB_PATH_PATTERN.test(parsed.pathname);
+}
+
+/**
+ * Check whether page text reads like a careers page (several hiring phrases)
+ */
+export function looksLikeCareersPage(title: string, text: string): boolean {
+  if (/\b(careers|jobs|open positions|join us)\b/i.test(title)) return true;
+  return (text.match(CAREERS_TEXT_PATTERN) ?? []).length >= 2;
+}
+
+/**
+ * Classify a role's department from its title and any department label
+ */
+export function classifyDepartment(title: string, hint?: string): JobDepartment {
+  for (const text of [title, hint]) {
+    if (!text) continue;
+    const rule = DEPARTMENT_RULES.find(([, pattern]) => pattern.test(text));
+    if (rule) return rule[0];
+  }
+  return 'other';
+}
+
+/**
+ * Classify a role's seniority from its title
+ */
+export function classifySeniority(title: string): JobSeniority {
+  const peopleManager = /\bmanager\b/i.test(title) && !IC_MANAGER_PATTERN.test(title);
+  for (const [seniority, pattern] of SENIORITY_RULES) {
+    // Managing people outranks level words ("Senior Engineering Manager")
+    if (peopleManager && (seniority === 'lead' || seniority === 'senior' || seniority === 'junior')) return 'manager';
+    if (pattern.test(title)) return seniority;
+  }
+  return peopleManager ? 'manager' : 'mid';
+}
+
+/**
+ * Find the technologies and tools a posting mentions
+ * @returns Canonical names in lexicon order
+ */
+export function detectTechnologies(text: string): string[] {
+  return TECHNOLOGIES.filter(([, pattern]) => pattern.test(text)).map(([name]) => name);
+}
+
+/**
+ * Canonical name of a technology as written by a user ("terraform" -> "Terraform")
+ */
+export function canonicalTechnology(name: string): string | undefined {
+  const lower = name.trim().toLowerCase();
+  return TECHNOLOGIES.find(([canonical]) => canonical.toLowerCase() === lower)?.[0]
+    ?? TECHNOLOGIES.find(([, pattern]) => pattern.test(name))?.[0];
+}
+
+/**
+ * Read a posted date from page text ("Posted 3 days ago", "Posted on March 3, 2025")
+ */
+export function parsePostedDate(text: string, now: Date = new Date()): Date | undefined {
+  const relative = text.match(/\bposted\s+(?:on\s+)?(today|yesterday|(\d+)\+?\s+(hour|day|week|month)s?\s+ago)\b/i);
+  if (relative) {
+    const date = new Date(now);
+    if (/^yesterday$/i.test(relative[1])) {
+      date.setDate(date.getDate() - 1);
+    } else if (relative[2]) {
+      const amount = parseInt(relative[2]);
+      const unit = relative[3].toLowerCase();
+      if (unit === 'hour') date.setHours(date.getHours() - amount);
+      if (unit === 'day') date.setDate(date.getDate() - amount);
+      if (unit === 'week') date.setDate(date.getDate() - amount * 7);
+      if (unit === 'month') date.setMonth(date.getMonth() - amount);
+    }
+    return date;
+  }
+
+  const absolute = text.match(/\b(?:posted|date posted|published)\s*(?:on|:)?\s*([A-Z][a-z]+\.? \d{1,2},? \d{4}|\d{4}-\d{2}-\d{2})/i);
+  if (absolute) {
+    const date = new Date(absolute[1]);
+    if (!isNaN(date.getTime()) && date.getTime() <= now.getTime()) return date;
+  }
+  return undefined;
+}
+
+/**
+ * Format a JSON-LD jobLocation (Place, PostalAddress, string or list)
+ */
+function jsonLdLocation(value: unknown): string | undefined {
+  if (typeof value === 'string') return clean(value);
+  if (Array.isArray(value)) {
+    const locations = Array.from(new Set(value.map(jsonLdLocation).filter(Boolean)));
+    return locations.length > 0 ? locations.join('; ') : undefined;
+  }
+  if (value && typeof value === 'object') {
+    const node = value as JsonLdNode;
+    const address = node.address;
+    if (typeof address === 'string') return clean(address);
+    if (address && typeof address === 'object') {
+      const parts = ['addressLocality', 'addressRegion', 'addressCountry']
+        .map(key => jsonLdName((address as JsonLdNode)[key]))
+        .filter(Boolean);
+      if (parts.length > 0) return parts.join(', ');
+    }
+    return jsonLdName(node);
+  }
+  return undefined;
+}
+
+/**
+ * Build a posting record from a title and whatever context is known
+ */
+function buildPosting(title: string, details: { description?: string; department?: string; location?: string; remote?: boolean; postedAt?: Date; url?: string }): ExtractedJobPosting {
+  const location = details.location?.substring(0, 200);
+  return {
+    title: title.substring(0, 200),
+    department: classifyDepartment(title, details.department),
+    seniority: classifySeniority(title),
+    location,
+    remote: details.remote || /\b(remote|work from home|anywhere)\b/i.test(`${title} ${location ?? ''}`),
+    postedAt: details.postedAt,
+    technologies: detectTechnologies(`${title}\n${details.description ?? ''}`),
+    url: details.url && details.url.length <= 500 ? details.url : undefined,
+  };
+}
+
+/**
+ * Postings described by schema.org JobPosting JSON-LD (including inside ItemLists)
+ */
+function jsonLdPostings(nodes: JsonLdNode[], pageUrl: string): ExtractedJobPosting[] {
+  const candidates: JsonLdNode[] = [];
+  for (const node of nodes) {
+    if (hasType(node, ['JobPosting'])) candidates.push(node);
+    if (hasType(node, ['ItemList']) && Array.isArray(node.itemListElement)) {
+      for (const element of node.itemListElement as JsonLdNode[]) {
+        const item = (element?.item ?? element) as JsonLdNode;
+        if (item && typeof item === 'object' && hasType(item, ['JobPosting'])) candidates.push(item);
+      }
+    }
+  }
+
+  return candidates.flatMap(node => {
+    const title = clean(node.title as string | undefined) || clean(node.name as string | undefined);
+    if (!title) return [];
+
+    const description = typeof node.description === 'string'
+      ? decodeEntities(node.description.replace(/<[^>]*>/g, ' '))
+      : undefined;
+    const skills = [node.skills, node.qualifications, node.responsibilities].filter(value => typeof value === 'string').join(' ');
+    const postedAt = typeof node.datePosted === 'string' ? new Date(node.datePosted) : undefined;
+
+    return [buildPosting(title, {
+      description: `${description ?? ''} ${skills}`,
+      department: clean((node.occupationalCategory ?? node.industry) as string | undefined),
+      location: jsonLdLocation(node.jobLocation),
+      remote: node.jobLocationType === 'TELECOMMUTE',
+      postedAt: postedAt && !isNaN(postedAt.getTime()) ? postedAt : undefined,
+      url: typeof node.url === 'string' ? node.url : pageUrl,
+    })];
+  });
+}
+
+/**
+ * Postings listed as links on a careers page or job board
+ */
+function listedPostings(document: Document, pageUrl: string): ExtractedJobPosting[] {
+  const postings: ExtractedJobPosting[] = [];
+
+  document.querySelectorAll('a[href]').forEach(anchor => {
+    if (postings.length >= MAX_POSTINGS_PER_PAGE) return;
+
+    // Lever and similar boards wrap the title in a heading inside the link
+    const titleElement = anchor.querySelector('[data-qa="posting-name"], h2, h3, h4, h5') ?? anchor;
+    const title = clean(titleElement.textContent);
+    if (!title || title.length < 4 || title.length > 100 || !ROLE_PATTERN.test(title)) return;
+
+    let href: string;
+    try {
+      href = new URL(anchor.getAttribute('href') || '', pageUrl).toString();
+    } catch {
+      return;
+    }
+    if (!isJobPostingUrl(href)) return;
+
+    const container = anchor.closest('li, tr, .opening, .posting, [class*="job"], [class*="position"]') ?? anchor.parentElement;
+    const location = clean(container?.querySelector('[class*="location"]')?.textContent);
+    const department = clean(container?.querySelector('[class*="department"], [class*="team"]')?.textContent);
+
+    postings.push(buildPosting(title, { location, department, url: href }));
+  });
+
+  return postings;
+}
+
+/**
+ * Extract open roles from a careers page, job board listing or single job posting
+ * @param html - Raw page HTML
+ * @param pageUrl - Final page URL (resolves relative links)
+ * @param text - Extracted page text (single-posting description and posted date)
+ * @returns Distinct postings, at most MAX_POSTINGS_PER_PAGE
+ */
+export function extractJobPostings(html: string, pageUrl: string, text: string): ExtractedJobPosting[] {
+  const { document } = parseHTML(html) as unknown as { document: Document };
+
+  let postings = jsonLdPostings(jsonLdNodes(document), pageUrl);
+
+  if (postings.length === 0) {
+    postings = listedPostings(document, pageUrl);
+  }
+
+  // A single posting page without JSON-LD: the heading is the role
+  if (postings.length === 0 && isJobPostingUrl(pageUrl)) {
+    const heading = clean(document.querySelector('h1')?.textContent);
+    if (heading && heading.length <= 120 && ROLE_PATTERN.test(heading)) {
+      const location = clean(document.querySelector('[class*="location"]')?.textContent);
+      postings = [buildPosting(heading, { description: text, location, postedAt: parsePostedDate(text), url: pageUrl })];
+    }
+  }
+
+  // Boards often repeat a role per location; keep each title/location once
+  const seen = new Set<string>();
+  return postings.filter(posting => {
+    const key = `${posting.title.toLowerCase()}|${(posting.location ?? '').toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).slice(0, MAX_POSTINGS_PER_PAGE);
+}
+
+/**
+ * Describe a hiring query result ("12 open DevOps roles mentioning Terraform in the last 60 days")
+ */
+export function describeHiring(count: number, filters: HiringFilters): string {
+  const seniority = filters.seniority ? `${filters.seniority} ` : '';
+  const department = filters.department ? `${DEPARTMENT_LABELS[filters.department]} ` : '';
+  let description = `${count} open ${seniority}${department}${count === 1 ? 'role' : 'roles'}`;
+  if (filters.technology) description += ` mentioning ${filters.technology}`;
+  if (filters.days) description += ` in the last ${filters.days} days`;
+  return description;
+}
@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+describe('getLlmProvider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it('refuses to fall back to the fixture provider when nothing is configured', async () => {
+    vi.stubEnv('LLM_PROVIDER', '');
+    vi.stubEnv('OPENAI_API_KEY', '');
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+    const { getLlmProvider } = await import('./llm');
+
+    expect(() => getLlmProvider()).toThrow(/No LLM provider is configured/);
+  });
+
+  it('uses the fixture provider only when named explicitly', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'fixture');
+    const { getLlmProvider } = await import('./llm');
+
+    expect(getLlmProvider().name).toBe('fixture');
+  });
+
+  it('rejects unknown providers', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'gpt');
+    const { getLlmProvider } = await import('./llm');
+
+    expect(() => getLlmProvider()).toThrow(/Unknown LLM_PROVIDER "gpt"/);
+  });
+});
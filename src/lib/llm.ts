@@ -0,0 +1,286 @@
+/**
+ * src/lib/llm.ts: LLM provider adapters
+ *
+ * Provides a chat-completion abstraction with OpenAI, Anthropic and
+ * OpenAI-compatible (Ollama, llama.cpp, vLLM) implementations, plus a
+ * deterministic fixture provider for tests and offline development.
+ * The provider and model are selected with LLM_PROVIDER and LLM_MODEL.
+ */
+
+import { generateContentHash } from './utils';
+
+export type LlmProviderName = 'openai' | 'anthropic' | 'openai-compatible' | 'fixture';
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmCompletionRequest {
+  system?: string;
+  messages: LlmMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  json?: boolean; // Ask for a JSON object response where the API supports it
+}
+
+export interface LlmCompletion {
+  text: string;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+}
+
+/**
+ * Raised when a provider API call fails; `status` is the HTTP status if one was received
+ */
+export class LlmProviderError extends Error {
+  constructor(public provider: LlmProviderName, message: string, public status?: number) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+// Default model per provider when LLM_MODEL is not set
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  'openai': 'gpt-4o-mini',
+  'anthropic': 'claude-3-5-haiku-latest',
+  'openai-compatible': 'llama3.1',
+  'fixture': 'fixture-v1',
+};
+
+// Response fields read from the provider APIs
+interface OpenAiChatResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface AnthropicMessageResponse {
+  model?: string;
+  content?: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+const DEFAULT_MAX_TOKENS = 1000;
+const REQUEST_TIMEOUT_MS = parseInt(process.env.LLM_TIMEOUT_MS || '60000');
+
+/**
+ * POST JSON to a provider API and return the parsed response body
+ */
+async function postJson<T>(provider: LlmProviderName, url: string, headers: Record<string, string>, body: unknown): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    const reason = error instanceof Error && error.name === 'TimeoutError'
+      ? `timed out after ${REQUEST_TIMEOUT_MS}ms`
+      : (error as Error).message;
+    throw new LlmProviderError(provider, `${provider} request failed: ${reason}`);
+  }
+
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => '')).substring(0, 300);
+    throw new LlmProviderError(provider, `${provider} API returned HTTP ${response.status}: ${detail}`, response.status);
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * OpenAI Chat Completions API, also used for OpenAI-compatible servers
+ */
+class OpenAiProvider implements LlmProvider {
+  constructor(
+    readonly name: 'openai' | 'openai-compatible',
+    readonly model: string,
+    private baseUrl: string,
+    private apiKey?: string
+  ) {}
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      ...request.messages,
+    ];
+
+    const data = await postJson<OpenAiChatResponse>(
+      this.name,
+      `${this.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+      this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      {
+        model: this.model,
+        messages,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature ?? 0.2,
+        ...(request.json && { response_format: { type: 'json_object' } }),
+      }
+    );
+
+    const text = data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new LlmProviderError(this.name, `${this.name} response has no message content`);
+    }
+
+    return {
+      text,
+      model: data.model || this.model,
+      inputTokens: data.usage?.prompt_tokens,
+      outputTokens: data.usage?.completion_tokens,
+    };
+  }
+}
+
+/**
+ * Anthropic Messages API
+ */
+class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic' as const;
+
+  constructor(readonly model: string, private apiKey: string) {}
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const data = await postJson<AnthropicMessageResponse>(
+      this.name,
+      'https://api.anthropic.com/v1/messages',
+      {
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      {
+        model: this.model,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature ?? 0.2,
+        ...(request.system && { system: request.system }),
+        messages: request.messages,
+      }
+    );
+
+    const text = data?.content
+      ?.filter(block => block.type === 'text')
+      .map(block => block.text ?? '')
+      .join('');
+    if (!text) {
+      throw new LlmProviderError(this.name, 'anthropic response has no text content');
+    }
+
+    return {
+      text,
+      model: data.model || this.model,
+      inputTokens: data.usage?.input_tokens,
+      outputTokens: data.usage?.output_tokens,
+    };
+  }
+}
+
+/**
+ * Deterministic provider for tests and offline development
+ * Replays the given responses in order when provided; otherwise answers
+ * with a fixed-shape signal analysis derived from the prompt text, so the
+ * same input always yields the same output.
+ */
+export class FixtureLlmProvider implements LlmProvider {
+  readonly name = 'fixture' as const;
+  readonly model = DEFAULT_MODELS.fixture;
+  readonly requests: LlmCompletionRequest[] = [];
+
+  constructor(private responses: string[] = []) {}
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    this.requests.push(request);
+
+    if (this.responses.length > 0) {
+      const text = this.responses[Math.min(this.requests.length, this.responses.length) - 1];
+      return { text, model: this.model };
+    }
+
+    // Use the longest sentences of the last user message as signals
+    const prompt = request.messages[request.messages.length - 1]?.content ?? '';
+    const sentences = ((prompt.split(/Content:\s*/).pop() ?? prompt).match(/[^.!?]+[.!?]+/g) ?? [])
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length >= 40 && sentence.length <= 500);
+    const picked = [...sentences].sort((a, b) => b.length - a.length || (a < b ? -1 : 1)).slice(0, 3);
+    const seed = parseInt(generateContentHash(prompt).substring(0, 2), 16) / 255;
+
+    const text = JSON.stringify({
+      summary: picked[0] ?? 'No substantive content found.',
+      keyQuotes: picked.slice(0, 2),
+      signals: picked.map((sentence, index) => ({
+        kind: 'company',
+        text: sentence,
+        confidence: Math.round((0.5 + seed * 0.2 - index * 0.05) * 100) / 100,
+        weight: 0.5,
+      })),
+    });
+
+    return { text, model: this.model };
+  }
+}
+
+let providerInstance: LlmProvider | null = null;
+
+/**
+ * Resolve the configured provider name
+ * Without LLM_PROVIDER, uses whichever API key is configured; the fixture
+ * provider is only used when named explicitly, so a missing key cannot
+ * quietly fill projects with placeholder signals
+ * @throws Error when LLM_PROVIDER is unknown or nothing is configured
+ */
+function configuredProviderName(): LlmProviderName {
+  const configured = process.env.LLM_PROVIDER as LlmProviderName | undefined;
+  if (configured) {
+    if (!(configured in DEFAULT_MODELS)) {
+      throw new Error(`Unknown LLM_PROVIDER "${configured}" (expected ${Object.keys(DEFAULT_MODELS).join(', ')})`);
+    }
+    return configured;
+  }
+  if (process.env.OPENAI_API_KEY) return 'openai';
+  if (process.env.ANTHROPIC_API_KEY) return 'anthropic';
+  throw new Error('No LLM provider is configured (set LLM_PROVIDER, OPENAI_API_KEY or ANTHROPIC_API_KEY, or LLM_PROVIDER=fixture for offline development)');
+}
+
+/**
+ * Create a provider by name, reading keys, model and endpoint from the environment
+ * @param name - Provider name
+ * @param model - Model override (defaults to LLM_MODEL, then the provider default)
+ */
+export function createLlmProvider(name: LlmProviderName, model: string = process.env.LLM_MODEL || DEFAULT_MODELS[name]): LlmProvider {
+  switch (name) {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) throw new Error('OPENAI_API_KEY is required for the openai LLM provider');
+      return new OpenAiProvider('openai', model, 'https://api.openai.com/v1', process.env.OPENAI_API_KEY);
+    case 'anthropic':
+      if (!process.env.ANTHROPIC_API_KEY) throw new Error('ANTHROPIC_API_KEY is required for the anthropic LLM provider');
+      return new AnthropicProvider(model, process.env.ANTHROPIC_API_KEY);
+    case 'openai-compatible':
+      return new OpenAiProvider('openai-compatible', model, process.env.LLM_BASE_URL || 'http://localhost:11434/v1', process.env.LLM_API_KEY);
+    case 'fixture':
+      return new FixtureLlmProvider();
+  }
+}
+
+/**
+ * Get the configured LLM provider (cached per process)
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!providerInstance) {
+    providerInstance = createLlmProvider(configuredProviderName());
+    if (providerInstance.name === 'fixture') {
+      console.warn('src/lib/llm.ts: Using the fixture LLM provider; signals are not model-generated');
+    } else {
+      console.log(`src/lib/llm.ts: Using ${providerInstance.name} LLM provider with model ${providerInstance.model}`);
+    }
+  }
+  return providerInstance;
+}
@@ -51,6 +51,11 @@ I've been analyzing {{companyName}}'s technical landscape and see some interesti
 • {{name}}: {{impactNote}}
 {{/pains}}
 
+{{#techStack}}
+**Current Stack (detected from public web assets):**
+• {{name}} ({{category}})
+{{/techStack}}
+
 **Implementation Considerations:**
 {{#assumptions}}
 • {{.}}
@@ -102,6 +107,7 @@ export function generateOutreachAsset(
     pains: PainType[];
     roiOutput?: RoiOutputType;
     sources: string[];
+    techStack?: Array<{ name: string; category: string }>; // Detected technologies, most confident first
   },
   senderName: string = 'Sales Team'
 ) {
@@ -152,11 +158,19 @@ export function generateOutreachAsset(
     body = body.replace(/{{#pains}}[\s\S]*?{{\/pains}}/g, '• [Pain points to be identified during research]');
   }
 
+  // Replace tech stack section, dropping it when nothing was detected
+  const techStack = (projectData.techStack ?? []).slice(0, 8);
+  const techStackList = techStack
+    .map(technology => `• ${technology.name} (${technology.category.replace(/-/g, ' ')})`)
+    .join('\n');
+  body = body.replace(/{{#techStack}}\n([^\n]*\n)[\s\S]*?{{\/techStack}}\n*/g, (_: string, heading: string) => (techStack.length > 0 ? `${heading}${techStackList}\n\n` : ''));
+
   // Replace assumptions loop
   const assumptions = [
     `${projectData.companyName} is actively investing in ${projectData.productCategory} solutions`,
     `Current manual processes are creating inefficiencies`,
     `ROI calculations based on industry benchmarks and public information`,
+    ...(techStack.length > 0 ? [`${projectData.companyName}'s public web stack includes ${techStack.slice(0, 4).map(technology => technology.name).join(', ')}`] : []),
     ...stakeholder.goals.slice(0, 2), // Include stakeholder-specific goals
   ];
 
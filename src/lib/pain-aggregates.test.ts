@@ -0,0 +1,43 @@
+import { Prisma } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: { $queryRaw: vi.fn() },
+}));
+
+vi.mock('./db', () => ({ prisma }));
+
+import { painAggregates } from './pain-aggregates';
+
+describe('painAggregates', () => {
+  beforeEach(() => {
+    prisma.$queryRaw.mockReset();
+  });
+
+  it('groups the project pain links in one query and keys the rows by pain', async () => {
+    const rows = [
+      { painId: 'pain-1', evidenceCount: 2, signalCount: 5, signalStrength: 0.42 },
+      { painId: 'pain-2', evidenceCount: 1, signalCount: 0, signalStrength: 0 },
+    ];
+    prisma.$queryRaw.mockResolvedValue(rows);
+
+    const aggregates = await painAggregates('project-1');
+
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+    const [strings, ...values] = prisma.$queryRaw.mock.calls[0];
+    expect(values).toEqual(['project-1']);
+    expect(strings.join('?')).toMatch(/WHERE p\."projectId" = \?\s+GROUP BY pe\."painId"/);
+    expect(aggregates.get('pain-1')).toEqual(rows[0]);
+    expect(aggregates.get('pain-2')).toEqual(rows[1]);
+    expect(aggregates.has('pain-3')).toBe(false);
+  });
+});
+
+describe('pain evidence links', () => {
+  it('cascade when either the pain or the evidence is deleted', () => {
+    const model = Prisma.dmmf.datamodel.models.find(candidate => candidate.name === 'PainEvidence')!;
+    const relations = Object.fromEntries(model.fields.filter(field => field.kind === 'object').map(field => [field.name, field.relationOnDelete]));
+
+    expect(relations).toEqual({ pain: 'Cascade', evidence: 'Cascade' });
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * src/lib/pain-aggregates.ts: Evidence and signal aggregates for pain points
+ *
+ * Computes per-pain evidence counts and signal strength in the database,
+ * so pain listings do not load every linked signal.
+ */
+
+import { prisma } from './db';
+
+export interface PainAggregate {
+  painId: string;
+  evidenceCount: number;
+  signalCount: number;
+  signalStrength: number; // Mean confidence × weight of the linked evidence's signals, 0-1
+}
+
+/**
+ * Evidence and signal aggregates for every pain in a project, in one grouped query
+ * @param projectId - Project UUID
+ * @returns Aggregates keyed by pain ID (pains without links are absent)
+ */
+export async function painAggregates(projectId: string): Promise<Map<string, PainAggregate>> {
+  const rows = await prisma.$queryRaw<PainAggregate[]>`
+    SELECT pe."painId" AS "painId",
+           COUNT(DISTINCT pe."evidenceId")::int AS "evidenceCount",
+           COUNT(s."id")::int AS "signalCount",
+           COALESCE(AVG(s."confidence" * s."weight"), 0)::float AS "signalStrength"
+    FROM "pain_evidence" pe
+    JOIN "pains" p ON p."id" = pe."painId"
+    LEFT JOIN "signals" s ON s."evidenceId" = pe."evidenceId"
+    WHERE p."projectId" = ${projectId}
+    GROUP BY pe."painId"
+  `;
+  return new Map(rows.map(row => [row.painId, row]));
+}
@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const store = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('./redis', () => ({
+  cacheGet: vi.fn(async (key: string) => store.get(key) ?? null),
+  cacheSet: vi.fn(async (key: string, value: unknown) => {
+    store.set(key, JSON.parse(JSON.stringify(value)));
+  }),
+  redis: {
+    incr: vi.fn(async () => 1),
+    expire: vi.fn(async () => 1),
+    set: vi.fn(async () => 'OK'),
+    decr: vi.fn(async () => 0),
+    pttl: vi.fn(async () => 0),
+  },
+}));
+
+vi.mock('./safe-fetch', async importOriginal => ({
+  ...(await importOriginal<typeof import('./safe-fetch')>()),
+  safeFetch: vi.fn(),
+}));
+
+import { politeFetch } from './polite-fetch';
+import { redis } from './redis';
+import { safeFetch } from './safe-fetch';
+
+const fetched = (status: number, headers: Record<string, string | string[]>, body = '') => ({
+  url: 'https://acme.com/',
+  status,
+  headers,
+  contentType: 'text/html',
+  body: Buffer.from(body),
+  text: () => body,
+});
+
+describe('politeFetch', () => {
+  beforeEach(() => {
+    store.clear();
+    vi.mocked(safeFetch).mockReset();
+  });
+
+  it('keeps the original response headers when a revalidation returns 304', async () => {
+    vi.mocked(safeFetch)
+      .mockResolvedValueOnce(fetched(404, {})) // robots.txt
+      .mockResolvedValueOnce(fetched(200, { server: 'nginx', etag: '"v1"', 'set-cookie': ['sid=secret; Path=/'] }, '<html></html>'))
+      .mockResolvedValueOnce(fetched(304, { etag: '"v1"' }));
+
+    const first = await politeFetch('https://acme.com/');
+    const revalidated = await politeFetch('https://acme.com/', { revalidate: true });
+
+    expect(first.fromCache).toBe(false);
+    expect(vi.mocked(safeFetch).mock.calls[2][1]?.headers).toMatchObject({ 'If-None-Match': '"v1"' });
+    expect(revalidated.fromCache).toBe(true);
+    expect(revalidated.text()).toBe('<html></html>');
+    expect(revalidated.headers).toMatchObject({ server: 'nginx', 'set-cookie': ['sid'] });
+  });
+
+  it('never caches cookie values', async () => {
+    vi.mocked(safeFetch)
+      .mockResolvedValueOnce(fetched(404, {}))
+      .mockResolvedValueOnce(fetched(200, { 'set-cookie': ['sid=secret; Path=/', 'theme=dark'] }, '<html></html>'));
+
+    await politeFetch('https://acme.com/');
+    const cached = await politeFetch('https://acme.com/');
+
+    expect(cached.fromCache).toBe(true);
+    expect(cached.headers['set-cookie']).toEqual(['sid', 'theme']);
+    expect(JSON.stringify(Array.from(store.values()))).not.toContain('secret');
+  });
+
+  it('applies robots.txt and the host slot of each cross-host redirect hop', async () => {
+    vi.mocked(redis.incr).mockClear();
+    vi.mocked(safeFetch)
+      .mockResolvedValueOnce(fetched(404, {})) // acme.com robots.txt
+      .mockResolvedValueOnce(fetched(301, { location: 'https://www.acme.com/about' }))
+      .mockResolvedValueOnce(fetched(404, {})) // www.acme.com robots.txt
+      .mockResolvedValueOnce(fetched(200, {}, '<html>About</html>'));
+
+    const response = await politeFetch('https://acme.com/about');
+
+    expect(response.text()).toBe('<html>About</html>');
+    expect(vi.mocked(safeFetch).mock.calls.map(([url]) => url)).toEqual([
+      'https://acme.com/robots.txt',
+      'https://acme.com/about',
+      'https://www.acme.com/robots.txt',
+      'https://www.acme.com/about',
+    ]);
+    expect(vi.mocked(safeFetch).mock.calls[1][1]).toMatchObject({ followRedirects: false });
+    expect(vi.mocked(redis.incr).mock.calls.map(([key]) => key)).toEqual([
+      'fetch:host:acme.com:active',
+      'fetch:host:www.acme.com:active',
+    ]);
+  });
+
+  it('refuses a redirect to a path the target host disallows', async () => {
+    vi.mocked(safeFetch)
+      .mockResolvedValueOnce(fetched(404, {}))
+      .mockResolvedValueOnce(fetched(302, { location: 'https://tracker.example.net/private/page' }))
+      .mockResolvedValueOnce(fetched(200, {}, 'User-agent: *\nDisallow: /private/'));
+
+    const error = await politeFetch('https://acme.com/go').catch(caught => caught);
+
+    expect(error).toMatchObject({ code: 'ROBOTS_DISALLOWED', url: 'https://tracker.example.net/private/page' });
+    expect(safeFetch).toHaveBeenCalledTimes(3);
+  });
+});
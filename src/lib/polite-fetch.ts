@@ -0,0 +1,337 @@
+/**
+ * src/lib/polite-fetch.ts: Polite, cached fetching of evidence URLs
+ *
+ * Wraps safeFetch with per-host concurrency and delay buckets held in
+ * Redis, robots.txt compliance for the GTM-Deep-Diver user agent (both
+ * applied to every redirect hop, under that hop's host),
+ * conditional requests (ETag / Last-Modified), and a shared HTTP response
+ * cache so the same URL is not refetched across projects.
+ */
+
+import crypto from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { redis, cacheGet, cacheSet } from './redis';
+import { DEFAULT_MAX_REDIRECTS, safeFetch, SafeFetchBlockedError, SafeFetchOptions, SafeFetchResponse } from './safe-fetch';
+
+export const USER_AGENT = 'GTM-Deep-Diver/1.0 (+https://gtm-deep-diver.com)';
+const ROBOTS_AGENT = 'gtm-deep-diver';
+
+// Per-host politeness: simultaneous requests and minimum spacing between request starts
+const HOST_MAX_CONCURRENCY = parseInt(process.env.FETCH_HOST_CONCURRENCY || '2');
+const HOST_MIN_DELAY_MS = parseInt(process.env.FETCH_HOST_DELAY_MS || '1000');
+const HOST_MAX_WAIT_MS = 60000;
+const HOST_SLOT_TTL_SECONDS = 120; // Releases slots held by crashed workers
+
+// robots.txt cache lifetimes
+const ROBOTS_TTL_SECONDS = 24 * 60 * 60;
+const ROBOTS_ERROR_TTL_SECONDS = 5 * 60;
+const ROBOTS_MAX_BYTES = 512 * 1024;
+
+// Response cache: served without revalidation while fresh, revalidated until expiry
+const RESPONSE_FRESH_SECONDS = 60 * 60;
+const RESPONSE_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60;
+const RESPONSE_CACHE_MAX_BYTES = 1024 * 1024;
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelaySeconds?: number;
+  unavailable?: boolean; // robots.txt could not be fetched (server error); fetching is deferred
+}
+
+interface CachedResponse {
+  url: string;
+  status: number;
+  contentType: string;
+  etag?: string;
+  lastModified?: string;
+  headers?: IncomingHttpHeaders; // Set-Cookie reduced to cookie names (see cacheableHeaders)
+  body: string;
+  fetchedAt: number;
+}
+
+export interface PoliteFetchOptions extends SafeFetchOptions {
+  revalidate?: boolean; // Skip the fresh-cache window and ask the origin (conditionally)
+}
+
+export interface PoliteFetchResponse extends SafeFetchResponse {
+  fromCache: boolean;
+}
+
+/**
+ * Parse robots.txt, keeping the rules of the group that applies to our user agent
+ * Groups naming GTM-Deep-Diver take precedence over the wildcard group
+ * @param content - robots.txt body
+ */
+export function parseRobotsTxt(content: string): RobotsPolicy {
+  const groups: Array<{ agents: string[]; rules: RobotsRule[]; crawlDelaySeconds?: number }> = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+
+    const field = line.substring(0, separator).trim().toLowerCase();
+    const value = line.substring(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: value });
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (!isNaN(delay)) current.crawlDelaySeconds = delay;
+    }
+  }
+
+  const specific = groups.filter(group => group.agents.some(agent => agent !== '*' && ROBOTS_AGENT.startsWith(agent)));
+  const applicable = specific.length > 0 ? specific : groups.filter(group => group.agents.includes('*'));
+
+  return {
+    rules: applicable.flatMap(group => group.rules),
+    crawlDelaySeconds: applicable.find(group => group.crawlDelaySeconds !== undefined)?.crawlDelaySeconds,
+  };
+}
+
+/**
+ * Convert a robots.txt path pattern (with * and $) to a regular expression
+ */
+function robotsPatternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Check a path against robots rules (longest match wins; Allow wins ties)
+ * @param policy - Parsed robots policy
+ * @param path - URL path including query string
+ */
+export function isPathAllowed(policy: RobotsPolicy, path: string): boolean {
+  let best: RobotsRule | null = null;
+  for (const rule of policy.rules) {
+    if (!robotsPatternToRegExp(rule.pattern).test(path)) continue;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+/**
+ * Get the robots policy for an origin, fetching and caching robots.txt as needed
+ * Missing robots.txt (4xx) allows everything; server errors defer fetching briefly
+ */
+async function getRobotsPolicy(origin: string): Promise<RobotsPolicy> {
+  const cacheKey = `robots:${origin}`;
+  const cached = await cacheGet<RobotsPolicy>(cacheKey);
+  if (cached) return cached;
+
+  let policy: RobotsPolicy;
+  let ttl = ROBOTS_TTL_SECONDS;
+
+  try {
+    const response = await safeFetch(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': USER_AGENT },
+      maxBytes: ROBOTS_MAX_BYTES,
+      timeoutMs: 10000,
+    });
+
+    if (response.status >= 200 && response.status < 300) {
+      policy = parseRobotsTxt(response.text());
+    } else if (response.status >= 400 && response.status < 500) {
+      policy = { rules: [] };
+    } else {
+      policy = { rules: [], unavailable: true };
+      ttl = ROBOTS_ERROR_TTL_SECONDS;
+    }
+  } catch (error) {
+    // Oversized robots.txt is treated as absent; policy blocks on the origin itself propagate
+    if (error instanceof SafeFetchBlockedError && error.code !== 'RESPONSE_TOO_LARGE') {
+      throw error;
+    }
+    console.warn(`src/lib/polite-fetch.ts: Failed to fetch robots.txt for ${origin}:`, error);
+    policy = error instanceof SafeFetchBlockedError ? { rules: [] } : { rules: [], unavailable: true };
+    ttl = error instanceof SafeFetchBlockedError ? ROBOTS_TTL_SECONDS : ROBOTS_ERROR_TTL_SECONDS;
+  }
+
+  await cacheSet(cacheKey, policy, ttl);
+  return policy;
+}
+
+/**
+ * Wait for a per-host request slot, honoring concurrency and minimum delay
+ * @param host - Hostname the request goes to
+ * @param delayMs - Minimum spacing between request starts for this host
+ * @returns Function that releases the slot
+ */
+async function acquireHostSlot(host: string, delayMs: number): Promise<() => Promise<void>> {
+  const activeKey = `fetch:host:${host}:active`;
+  const nextKey = `fetch:host:${host}:next`;
+  const deadline = Date.now() + HOST_MAX_WAIT_MS;
+
+  while (Date.now() < deadline) {
+    const active = await redis.incr(activeKey);
+    await redis.expire(activeKey, HOST_SLOT_TTL_SECONDS);
+
+    if (active <= HOST_MAX_CONCURRENCY) {
+      // Claim the next start time; only one request may start per delay window
+      const claimed = await redis.set(nextKey, Date.now(), { nx: true, px: delayMs });
+      if (claimed) {
+        return async () => {
+          await redis.decr(activeKey);
+        };
+      }
+    }
+
+    await redis.decr(activeKey);
+    const waitMs = Math.max(100, Math.min(await redis.pttl(nextKey), delayMs));
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+  }
+
+  // Let the queue retry later rather than holding a worker
+  throw new Error(`Host ${host} is busy; politeness wait exceeded ${HOST_MAX_WAIT_MS}ms`);
+}
+
+/**
+ * Response headers safe to keep in the shared cache
+ * The cache is shared across projects, so Set-Cookie keeps only cookie names
+ * and never session values
+ */
+function cacheableHeaders(headers: IncomingHttpHeaders): IncomingHttpHeaders {
+  const cookies = headers['set-cookie'];
+  if (!cookies) return { ...headers };
+  return { ...headers, 'set-cookie': cookies.map(cookie => cookie.split('=')[0].trim()).filter(Boolean) };
+}
+
+/**
+ * Build a response object from a cached entry
+ * Headers are those of the original 200 response (empty for entries cached without them)
+ */
+function responseFromCache(entry: CachedResponse): PoliteFetchResponse {
+  const body = Buffer.from(entry.body, 'utf8');
+  return {
+    url: entry.url,
+    status: entry.status,
+    headers: entry.headers ?? {},
+    contentType: entry.contentType,
+    body,
+    text: () => entry.body,
+    fromCache: true,
+  };
+}
+
+/**
+ * Fetch one request hop under its host's robots.txt rules and request slot
+ * @param url - URL of this hop
+ * @param options - safeFetch options; redirects are returned, not followed
+ * @throws SafeFetchBlockedError when robots.txt disallows the path
+ */
+async function fetchHop(url: URL, options: SafeFetchOptions): Promise<SafeFetchResponse> {
+  const robots = await getRobotsPolicy(url.origin);
+  if (robots.unavailable) {
+    // Temporary: let the queue retry once the site recovers
+    throw new Error(`robots.txt for ${url.host} is unavailable`);
+  }
+  if (!isPathAllowed(robots, `${url.pathname}${url.search}`)) {
+    throw new SafeFetchBlockedError('ROBOTS_DISALLOWED', `robots.txt disallows ${url.pathname}`, url.toString());
+  }
+
+  const delayMs = Math.max(HOST_MIN_DELAY_MS, (robots.crawlDelaySeconds ?? 0) * 1000);
+  const release = await acquireHostSlot(url.host, delayMs);
+
+  try {
+    return await safeFetch(url.toString(), { ...options, followRedirects: false });
+  } finally {
+    await release();
+  }
+}
+
+/**
+ * Fetch a URL politely: robots.txt, per-host buckets, conditional requests and caching
+ * @param url - URL to fetch
+ * @param options - safeFetch options (User-Agent is always ours), plus revalidate
+ * @returns Response, possibly served from the shared cache
+ * @throws SafeFetchBlockedError for policy blocks, including robots.txt disallow
+ */
+export async function politeFetch(url: string, options: PoliteFetchOptions = {}): Promise<PoliteFetchResponse> {
+  const { revalidate, ...fetchOptions } = options;
+  const target = new URL(url);
+  const cacheKey = `http:${crypto.createHash('sha256').update(target.toString()).digest('hex')}`;
+
+  const cached = await cacheGet<CachedResponse>(cacheKey);
+  if (cached && !revalidate && Date.now() - cached.fetchedAt < RESPONSE_FRESH_SECONDS * 1000) {
+    console.log(`src/lib/polite-fetch.ts: Serving ${url} from response cache`);
+    return responseFromCache(cached);
+  }
+
+  const hopOptions: SafeFetchOptions = {
+    ...fetchOptions,
+    headers: {
+      ...fetchOptions.headers,
+      'User-Agent': USER_AGENT,
+      ...(cached?.etag && { 'If-None-Match': cached.etag }),
+      ...(cached?.lastModified && { 'If-Modified-Since': cached.lastModified }),
+    },
+  };
+  const maxRedirects = fetchOptions.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+
+  // Follow redirects here so each hop is checked against its own host's robots.txt and slot
+  let hopUrl = target;
+  let response: SafeFetchResponse;
+  for (let hop = 0; ; hop++) {
+    response = await fetchHop(hopUrl, hopOptions);
+    const location = response.headers.location;
+    if (response.status < 300 || response.status >= 400 || response.status === 304 || !location) break;
+
+    if (hop >= maxRedirects) {
+      throw new SafeFetchBlockedError('TOO_MANY_REDIRECTS', `More than ${maxRedirects} redirects`, hopUrl.toString());
+    }
+    hopUrl = new URL(location, hopUrl);
+  }
+
+  if (response.status === 304 && cached) {
+    console.log(`src/lib/polite-fetch.ts: ${url} not modified; reusing cached response`);
+    await cacheSet(cacheKey, { ...cached, fetchedAt: Date.now() }, RESPONSE_CACHE_TTL_SECONDS);
+    return responseFromCache(cached);
+  }
+
+  const cacheControl = String(response.headers['cache-control'] || '');
+  if (response.status === 200 && response.body.length <= RESPONSE_CACHE_MAX_BYTES && !/no-store|private/i.test(cacheControl)) {
+    const entry: CachedResponse = {
+      url: response.url,
+      status: response.status,
+      contentType: response.contentType.split(';')[0].trim() + '; charset=utf-8', // Body is stored decoded
+      etag: response.headers.etag,
+      lastModified: response.headers['last-modified'],
+      headers: cacheableHeaders(response.headers),
+      body: response.text(),
+      fetchedAt: Date.now(),
+    };
+    await cacheSet(cacheKey, entry, RESPONSE_CACHE_TTL_SECONDS);
+  }
+
+  return { ...response, fromCache: false };
+}
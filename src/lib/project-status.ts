@@ -0,0 +1,335 @@
+/**
+ * src/lib/project-status.ts: Project status state machine
+ *
+ * Defines the legal status moves through the research workflow
+ * (INIT → … → READY), enforces their preconditions, and records
+ * every transition and rollback in the project status history.
+ */
+
+import { Prisma, ProjectStatus } from '@prisma/client';
+import { prisma } from './db';
+
+// Ordered workflow phases; a forward move may only go to the next entry
+export const STATUS_ORDER: ProjectStatus[] = [
+  'INIT',
+  'INDUSTRY',
+  'COMPANY',
+  'PAIN',
+  'ROI',
+  'STAKE',
+  'OUTREACH',
+  'QA',
+  'READY',
+];
+
+export interface QaCheck {
+  id: string;
+  label: string;
+  passed: boolean;
+}
+
+export interface QaResult {
+  passed: boolean;
+  checks: QaCheck[];
+}
+
+// Project fields written in the same transaction as a status change
+export type ProjectFieldUpdates = Omit<Prisma.ProjectUpdateManyMutationInput, 'status'>;
+
+export interface AdvanceResult {
+  status: ProjectStatus;
+  advanced: boolean;
+  blockedBy: string[];
+}
+
+/**
+ * Get the position of a status in the workflow
+ * @param status - Project status
+ * @returns Zero-based index in STATUS_ORDER
+ */
+export function statusIndex(status: ProjectStatus): number {
+  return STATUS_ORDER.indexOf(status);
+}
+
+/**
+ * Get the next status in the workflow
+ * @param status - Current project status
+ * @returns Next status or null if already READY
+ */
+export function nextStatus(status: ProjectStatus): ProjectStatus | null {
+  return STATUS_ORDER[statusIndex(status) + 1] ?? null;
+}
+
+/**
+ * Run the QA review checklist that gates the READY status
+ * @param projectId - Project UUID
+ * @returns Individual check results and overall pass/fail
+ */
+export async function runQaChecks(projectId: string): Promise<QaResult> {
+  const [approvedEvidence, pains, roiCalculations, stakeholders, outreachAssets] = await Promise.all([
+    prisma.evidence.count({ where: { projectId, approved: true } }),
+    prisma.pain.count({ where: { projectId } }),
+    prisma.roiCalculation.count({ where: { projectId } }),
+    prisma.stakeholder.count({ where: { projectId } }),
+    prisma.outreachAsset.count({ where: { projectId } }),
+  ]);
+
+  const checks: QaCheck[] = [
+    { id: 'evidence', label: 'At least one approved evidence source', passed: approvedEvidence > 0 },
+    { id: 'pains', label: 'At least one mapped pain point', passed: pains > 0 },
+    { id: 'roi', label: 'ROI scenarios calculated', passed: roiCalculations > 0 },
+    { id: 'stakeholders', label: 'At least one stakeholder mapped', passed: stakeholders > 0 },
+    { id: 'outreach', label: 'At least one outreach asset generated', passed: outreachAssets > 0 },
+  ];
+
+  return {
+    passed: checks.every(check => check.passed),
+    checks,
+  };
+}
+
+/**
+ * Preconditions that must hold before a project may enter a status.
+ * Each guard returns the list of unmet requirements (empty if satisfied).
+ */
+const TRANSITION_GUARDS: Partial<Record<ProjectStatus, (projectId: string) => Promise<string[]>>> = {
+  PAIN: async (projectId) => {
+    const count = await prisma.evidence.count({ where: { projectId, approved: true } });
+    return count > 0 ? [] : ['At least one approved evidence source is required'];
+  },
+  ROI: async (projectId) => {
+    const count = await prisma.pain.count({ where: { projectId } });
+    return count > 0 ? [] : ['At least one pain point is required'];
+  },
+  STAKE: async (projectId) => {
+    const count = await prisma.roiCalculation.count({ where: { projectId } });
+    return count > 0 ? [] : ['An ROI calculation is required'];
+  },
+  OUTREACH: async (projectId) => {
+    const count = await prisma.stakeholder.count({ where: { projectId } });
+    return count > 0 ? [] : ['At least one stakeholder is required'];
+  },
+  QA: async (projectId) => {
+    const count = await prisma.outreachAsset.count({ where: { projectId } });
+    return count > 0 ? [] : ['At least one outreach asset is required'];
+  },
+  READY: async (projectId) => {
+    const qa = await runQaChecks(projectId);
+    return qa.checks.filter(check => !check.passed).map(check => `QA failed: ${check.label}`);
+  },
+};
+
+/**
+ * Check whether a forward move is legal and its preconditions are met
+ * @param projectId - Project UUID
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns List of reasons the move is blocked (empty if allowed)
+ */
+export async function checkTransition(
+  projectId: string,
+  from: ProjectStatus,
+  to: ProjectStatus
+): Promise<string[]> {
+  if (nextStatus(from) !== to) {
+    return [`Illegal transition from ${from} to ${to}`];
+  }
+
+  const guard = TRANSITION_GUARDS[to];
+  return guard ? guard(projectId) : [];
+}
+
+/**
+ * Persist a status change together with its history entry and any field updates.
+ * The update is conditional on the current status so concurrent
+ * transitions cannot both succeed.
+ */
+async function applyTransition(
+  projectId: string,
+  from: ProjectStatus,
+  to: ProjectStatus,
+  userId: string,
+  options: { rollback?: boolean; reason?: string; fields?: ProjectFieldUpdates } = {}
+): Promise<boolean> {
+  const applied = await prisma.$transaction(async (tx) => {
+    const updated = await tx.project.updateMany({
+      where: { id: projectId, status: from },
+      data: { ...options.fields, status: to },
+    });
+
+    if (updated.count === 0) {
+      return false;
+    }
+
+    await tx.projectStatusHistory.create({
+      data: {
+        projectId,
+        fromStatus: from,
+        toStatus: to,
+        userId,
+        rollback: options.rollback ?? false,
+        reason: options.reason,
+      },
+    });
+    return true;
+  });
+
+  if (applied) {
+    console.log(`src/lib/project-status.ts: Project ${projectId} ${options.rollback ? 'rolled back' : 'advanced'} ${from} -> ${to}`);
+  }
+  return applied;
+}
+
+/**
+ * Get the current status of a project
+ * Throws error if the project does not exist
+ */
+async function getCurrentStatus(projectId: string): Promise<ProjectStatus> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { status: true },
+  });
+
+  if (!project) {
+    throw new Error(`Not Found: Project ${projectId} does not exist`);
+  }
+
+  return project.status;
+}
+
+/**
+ * Record the initial INIT entry for a newly created project
+ * @param projectId - Project UUID
+ * @param userId - Clerk user ID of the creator
+ */
+export async function recordInitialStatus(projectId: string, userId: string): Promise<void> {
+  await prisma.projectStatusHistory.create({
+    data: {
+      projectId,
+      toStatus: 'INIT',
+      userId,
+    },
+  });
+}
+
+/**
+ * Explicitly move a project one step forward or roll it back
+ * Throws a Conflict error if the move is illegal or its preconditions fail
+ * @param projectId - Project UUID
+ * @param to - Requested status
+ * @param userId - Clerk user ID performing the transition
+ * @param reason - Optional reason (recorded in history)
+ * @param fields - Project fields to update atomically with the status
+ * @returns The new status
+ */
+export async function transitionProjectStatus(
+  projectId: string,
+  to: ProjectStatus,
+  userId: string,
+  reason?: string,
+  fields: ProjectFieldUpdates = {}
+): Promise<ProjectStatus> {
+  const from = await getCurrentStatus(projectId);
+
+  if (from === to) {
+    if (Object.values(fields).some(value => value !== undefined)) {
+      await prisma.project.update({ where: { id: projectId }, data: fields });
+    }
+    return from;
+  }
+
+  if (statusIndex(to) < statusIndex(from)) {
+    return rollbackProjectStatus(projectId, to, userId, reason, fields);
+  }
+
+  const blockedBy = await checkTransition(projectId, from, to);
+  if (blockedBy.length > 0) {
+    throw new Error(`Conflict: Cannot move project from ${from} to ${to}: ${blockedBy.join('; ')}`);
+  }
+
+  const applied = await applyTransition(projectId, from, to, userId, { reason, fields });
+  if (!applied) {
+    throw new Error(`Conflict: Project status changed while moving from ${from} to ${to}`);
+  }
+
+  return to;
+}
+
+/**
+ * Advance a project toward a target status, one legal step at a time.
+ * Stops at the first step whose preconditions are not met; never moves
+ * a project backwards. Used by routes when a phase's work is completed.
+ * @param projectId - Project UUID
+ * @param target - Status the completed work qualifies for
+ * @param userId - Clerk user ID whose action triggered the advance
+ * @returns Resulting status and any unmet preconditions
+ */
+export async function advanceProjectStatus(
+  projectId: string,
+  target: ProjectStatus,
+  userId: string
+): Promise<AdvanceResult> {
+  let status = await getCurrentStatus(projectId);
+  let advanced = false;
+
+  while (statusIndex(status) < statusIndex(target)) {
+    const to = nextStatus(status) as ProjectStatus;
+    const blockedBy = await checkTransition(projectId, status, to);
+
+    if (blockedBy.length > 0) {
+      console.log(`src/lib/project-status.ts: Project ${projectId} blocked at ${status} -> ${to}: ${blockedBy.join('; ')}`);
+      return { status, advanced, blockedBy };
+    }
+
+    if (!(await applyTransition(projectId, status, to, userId))) {
+      return { status: await getCurrentStatus(projectId), advanced, blockedBy: [] };
+    }
+
+    status = to;
+    advanced = true;
+  }
+
+  return { status, advanced, blockedBy: [] };
+}
+
+/**
+ * Roll a project back to an earlier status
+ * Throws a Conflict error if the target is not earlier than the current status
+ * @param projectId - Project UUID
+ * @param to - Earlier status to return to
+ * @param userId - Clerk user ID performing the rollback
+ * @param reason - Optional reason (recorded in history)
+ * @param fields - Project fields to update atomically with the status
+ * @returns The new status
+ */
+export async function rollbackProjectStatus(
+  projectId: string,
+  to: ProjectStatus,
+  userId: string,
+  reason?: string,
+  fields: ProjectFieldUpdates = {}
+): Promise<ProjectStatus> {
+  const from = await getCurrentStatus(projectId);
+
+  if (statusIndex(to) >= statusIndex(from)) {
+    throw new Error(`Conflict: Cannot roll back project from ${from} to ${to}`);
+  }
+
+  const applied = await applyTransition(projectId, from, to, userId, { rollback: true, reason, fields });
+  if (!applied) {
+    throw new Error(`Conflict: Project status changed while rolling back from ${from} to ${to}`);
+  }
+
+  return to;
+}
+
+/**
+ * Get the status history of a project, oldest first
+ * @param projectId - Project UUID
+ */
+export async function getStatusHistory(projectId: string) {
+  return prisma.projectStatusHistory.findMany({
+    where: { projectId },
+    orderBy: { createdAt: 'asc' },
+  });
+}
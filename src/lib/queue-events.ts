@@ -0,0 +1,140 @@
+/**
+ * src/lib/queue-events.ts: Per-project relay of background job events
+ *
+ * Listens to BullMQ QueueEvents for the evidence, file and NLP queues and
+ * re-emits progress, completion and failure events to subscribers of the
+ * project each job belongs to (used by the project SSE endpoint).
+ */
+
+import { EventEmitter } from 'events';
+import { Job, Queue, QueueEvents } from 'bullmq';
+import { evidenceQueue, fileQueue, nlpQueue } from './queue';
+
+export interface ProjectJobEvent {
+  queue: string;
+  jobId: string;
+  event: 'progress' | 'completed' | 'failed';
+  evidenceId?: string;
+  progress?: unknown;
+  failedReason?: string;
+  timestamp: number;
+}
+
+type ProjectJobListener = (event: ProjectJobEvent) => void;
+
+interface JobOwner {
+  projectId: string;
+  evidenceId?: string;
+}
+
+// Queues whose jobs belong to a project's evidence pipeline
+const RELAYED_QUEUES: Queue[] = [evidenceQueue, fileQueue, nlpQueue];
+
+// Bounded cache of job ID → owning project, so each job is looked up once
+const MAX_CACHED_OWNERS = 1000;
+
+interface QueueEventsRelay {
+  emitter: EventEmitter;
+  queueEvents: QueueEvents[];
+  owners: Map<string, JobOwner>;
+}
+
+const globalForRelay = globalThis as unknown as {
+  queueEventsRelay: QueueEventsRelay | undefined;
+};
+
+/**
+ * Find the project (and evidence) a job belongs to
+ */
+async function resolveJobOwner(relay: QueueEventsRelay, queue: Queue, jobId: string): Promise<JobOwner | null> {
+  const cacheKey = `${queue.name}:${jobId}`;
+  const cached = relay.owners.get(cacheKey);
+  if (cached) return cached;
+
+  const job = await Job.fromId(queue, jobId);
+  if (!job?.data?.projectId) return null;
+
+  const owner = { projectId: job.data.projectId, evidenceId: job.data.evidenceId };
+  relay.owners.set(cacheKey, owner);
+
+  // Maps iterate in insertion order, so the first key is the oldest
+  if (relay.owners.size > MAX_CACHED_OWNERS) {
+    relay.owners.delete(relay.owners.keys().next().value as string);
+  }
+
+  return owner;
+}
+
+/**
+ * Create the QueueEvents listeners (one blocking Redis connection per queue)
+ */
+function createRelay(): QueueEventsRelay {
+  const relay: QueueEventsRelay = {
+    emitter: new EventEmitter(),
+    queueEvents: [],
+    owners: new Map(),
+  };
+  relay.emitter.setMaxListeners(0); // One listener per open SSE connection
+
+  for (const queue of RELAYED_QUEUES) {
+    const queueEvents = new QueueEvents(queue.name, {
+      connection: {
+        host: process.env.UPSTASH_REDIS_HOST,
+        port: parseInt(process.env.UPSTASH_REDIS_PORT || '6379'),
+        password: process.env.UPSTASH_REDIS_PASSWORD,
+      },
+    });
+
+    const relayEvent = async (jobId: string, event: Omit<ProjectJobEvent, 'queue' | 'jobId' | 'evidenceId' | 'timestamp'>) => {
+      try {
+        const owner = await resolveJobOwner(relay, queue, jobId);
+        if (!owner) return;
+
+        relay.emitter.emit(owner.projectId, {
+          queue: queue.name,
+          jobId,
+          evidenceId: owner.evidenceId,
+          timestamp: Date.now(),
+          ...event,
+        } satisfies ProjectJobEvent);
+      } catch (error) {
+        console.error(`src/lib/queue-events.ts: Failed to relay ${event.event} event for job ${jobId}:`, error);
+      }
+    };
+
+    // Resolve owners while the job still exists (completed jobs may be pruned)
+    queueEvents.on('active', ({ jobId }) => {
+      resolveJobOwner(relay, queue, jobId).catch(() => undefined);
+    });
+    queueEvents.on('progress', ({ jobId, data }) => relayEvent(jobId, { event: 'progress', progress: data }));
+    queueEvents.on('completed', ({ jobId }) => relayEvent(jobId, { event: 'completed' }));
+    queueEvents.on('failed', ({ jobId, failedReason }) => relayEvent(jobId, { event: 'failed', failedReason }));
+    queueEvents.on('error', (error) => {
+      console.error(`src/lib/queue-events.ts: QueueEvents error on ${queue.name}:`, error);
+    });
+
+    relay.queueEvents.push(queueEvents);
+  }
+
+  console.log(`src/lib/queue-events.ts: Relaying events for queues ${RELAYED_QUEUES.map(queue => queue.name).join(', ')}`);
+  return relay;
+}
+
+/**
+ * Subscribe to job events for a project's evidence pipeline
+ * @param projectId - Project UUID
+ * @param listener - Called for each progress, completed or failed event
+ * @returns Function that removes the subscription
+ */
+export function subscribeToProjectJobs(projectId: string, listener: ProjectJobListener): () => void {
+  if (!globalForRelay.queueEventsRelay) {
+    globalForRelay.queueEventsRelay = createRelay();
+  }
+
+  const { emitter } = globalForRelay.queueEventsRelay;
+  emitter.on(projectId, listener);
+
+  return () => {
+    emitter.off(projectId, listener);
+  };
+}
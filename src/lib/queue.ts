@@ -45,6 +45,19 @@ export const nlpQueue = new Queue('nlp-processing', {
   },
 });
 
+export const fileQueue = new Queue('file-processing', {
+  connection,
+  defaultJobOptions: {
+    removeOnComplete: 50,
+    removeOnFail: 100,
+    attempts: 2, // Extraction failures are usually deterministic
+    backoff: {
+      type: 'exponential',
+      delay: 5000,
+    },
+  },
+});
+
 export const enrichmentQueue = new Queue('data-enrichment', {
   connection,
   defaultJobOptions: {
@@ -63,6 +76,13 @@ export interface EvidenceFetchJob {
   evidenceId: string;
   url: string;
   projectId: string;
+  refresh?: boolean; // Re-fetch of processed evidence: bypass the response cache, skip NLP if unchanged
+}
+
+export interface FileProcessJob {
+  evidenceId: string;
+  fileKey: string;
+  projectId: string;
 }
 
 export interface NlpSummarizeJob {
@@ -75,6 +95,7 @@ export interface EnrichmentJob {
   projectId: string;
   companyDomain: string;
   enrichmentType: 'news' | 'crunchbase' | 'techstack' | 'sec_filings';
+  runId?: string; // EnrichmentRun tracking this job (requests made through the enrichment API)
 }
 
 /**
@@ -91,6 +112,20 @@ export async function addEvidenceFetchJob(data: EvidenceFetchJob, jobId?: string
   });
 }
 
+/**
+ * Add file processing (text extraction) job to queue
+ * @param data - File processing job data
+ * @param jobId - Optional job ID for idempotency
+ */
+export async function addFileProcessJob(data: FileProcessJob, jobId?: string) {
+  console.log(`src/lib/queue.ts: Adding file processing job for evidence ${data.evidenceId}`);
+  
+  return await fileQueue.add('process-file', data, {
+    jobId: jobId || `file-${data.evidenceId}`,
+    delay: 1000,
+  });
+}
+
 /**
  * Add NLP summarization job to queue
  * @param data - NLP processing job data
@@ -123,14 +158,16 @@ export async function addEnrichmentJob(data: EnrichmentJob, jobId?: string) {
  * Get queue statistics for monitoring
  */
 export async function getQueueStats() {
-  const [evidenceStats, nlpStats, enrichmentStats] = await Promise.all([
+  const [evidenceStats, fileStats, nlpStats, enrichmentStats] = await Promise.all([
     evidenceQueue.getJobCounts(),
+    fileQueue.getJobCounts(),
     nlpQueue.getJobCounts(),
     enrichmentQueue.getJobCounts(),
   ]);
 
   return {
     evidence: evidenceStats,
+    file: fileStats,
     nlp: nlpStats,
     enrichment: enrichmentStats,
   };
@@ -145,6 +182,8 @@ export async function cleanupQueues() {
   await Promise.all([
     evidenceQueue.clean(24 * 60 * 60 * 1000, 100, 'completed'), // Clean completed jobs older than 24h
     evidenceQueue.clean(7 * 24 * 60 * 60 * 1000, 50, 'failed'), // Clean failed jobs older than 7 days
+    fileQueue.clean(24 * 60 * 60 * 1000, 100, 'completed'),
+    fileQueue.clean(7 * 24 * 60 * 60 * 1000, 50, 'failed'),
     nlpQueue.clean(24 * 60 * 60 * 1000, 100, 'completed'),
     nlpQueue.clean(7 * 24 * 60 * 60 * 1000, 50, 'failed'),
     enrichmentQueue.clean(24 * 60 * 60 * 1000, 100, 'completed'),
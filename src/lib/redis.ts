@@ -43,6 +43,13 @@ export const rateLimiters = {
     limiter: Ratelimit.slidingWindow(30, '1 h'),
     analytics: true,
   }),
+  
+  // Enrichment requests: 20 per hour per user (paid third-party APIs)
+  enrichment: new Ratelimit({
+    redis,
+    limiter: Ratelimit.slidingWindow(20, '1 h'),
+    analytics: true,
+  }),
 };
 
 /**
@@ -70,7 +77,8 @@ export async function cacheGet<T>(key: string): Promise<T | null> {
     const cached = await redis.get(key);
     if (cached) {
       console.log(`src/lib/redis.ts: Cache hit for key: ${key}`);
-      return JSON.parse(cached as string);
+      // The Upstash client already deserializes JSON values
+      return (typeof cached === 'string' ? JSON.parse(cached) : cached) as T;
     }
     console.log(`src/lib/redis.ts: Cache miss for key: ${key}`);
     return null;
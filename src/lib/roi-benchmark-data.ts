@@ -0,0 +1,314 @@
+/**
+ * src/lib/roi-benchmark-data.ts: Bundled ROI benchmark dataset
+ *
+ * Typical ranges for ROI inputs, keyed by industry, company size and
+ * product category ('*' matches any). An input's range comes from the most
+ * specific entry that covers it, so entries only list the inputs where
+ * their segment differs from the baseline. Every entry cites a source;
+ * sources that are our own estimates rather than published studies say so,
+ * and name the public data the ranges should be checked against.
+ * Bump ROI_BENCHMARKS_VERSION whenever ranges change so stored ROI
+ * calculations record which dataset produced their defaults and warnings.
+ */
+
+export const ROI_BENCHMARKS_VERSION = 'benchmarks-2026.1';
+
+export type BenchmarkIndustry =
+  | 'software'
+  | 'financial_services'
+  | 'healthcare'
+  | 'legal'
+  | 'professional_services'
+  | 'retail'
+  | 'manufacturing'
+  | 'public_sector';
+
+export type BenchmarkSize = 'smb' | 'mid_market' | 'enterprise';
+
+export type BenchmarkCategory =
+  | 'devops'
+  | 'security'
+  | 'finops'
+  | 'observability'
+  | 'data_analytics'
+  | 'customer_support'
+  | 'legal_tech';
+
+// ROI inputs with benchmark ranges, plus the share of staff who use the product (drives the nPeople default)
+export type BenchmarkInput =
+  | 'costPerHour'
+  | 'hoursSavedPerPersonPerMonth'
+  | 'errorReductionPct'
+  | 'cloudReductionPct'
+  | 'riskReductionPct'
+  | 'affectedStaffShare';
+
+export interface BenchmarkRange {
+  low: number;
+  typical: number;
+  high: number; // Values above this draw a plausibility warning
+}
+
+export interface BenchmarkSource {
+  title: string;
+  basis: string; // How the ranges were derived
+  year: number;
+  kind: 'published' | 'internal_estimate';
+  url?: string; // The publication itself (published sources)
+  checkAgainst?: { title: string; url: string }; // Public data an internal estimate is calibrated against
+}
+
+export interface RoiBenchmark {
+  id: string;
+  industry: BenchmarkIndustry | '*';
+  size: BenchmarkSize | '*';
+  productCategory: BenchmarkCategory | '*';
+  ranges: Partial<Record<BenchmarkInput, BenchmarkRange>>;
+  source: string; // Key into BENCHMARK_SOURCES
+}
+
+export const BENCHMARK_SOURCES: Record<string, BenchmarkSource> = {
+  baseline: {
+    title: 'Cross-industry ROI baseline',
+    basis: 'Conservative ranges used across all segments when nothing more specific applies',
+    year: 2026,
+    kind: 'internal_estimate',
+  },
+  loadedLabor: {
+    title: 'Loaded labor cost model',
+    basis: 'BLS OEWS median hourly wages for the segment\'s core occupations, times a 1.3-1.5 benefits and overhead multiplier',
+    year: 2025,
+    kind: 'internal_estimate',
+    checkAgainst: {
+      title: 'BLS Occupational Employment and Wage Statistics, national estimates',
+      url: 'https://www.bls.gov/oes/current/oes_nat.htm',
+    },
+  },
+  legalRates: {
+    title: 'Legal billing rate estimate',
+    basis: 'Published US associate and partner billing rates; in-house counsel cost at the low end',
+    year: 2025,
+    kind: 'internal_estimate',
+  },
+  finopsOutcomes: {
+    title: 'FinOps practitioner outcomes',
+    basis: 'Savings reported from rightsizing, commitment management and idle-resource cleanup programs',
+    year: 2025,
+    kind: 'internal_estimate',
+    checkAgainst: {
+      title: 'FinOps Foundation, State of FinOps',
+      url: 'https://data.finops.org/',
+    },
+  },
+  engineeringProductivity: {
+    title: 'Engineering productivity estimate',
+    basis: 'Time recovered from build, deploy and incident toil reported in developer-productivity studies',
+    year: 2025,
+    kind: 'internal_estimate',
+  },
+  securityOutcomes: {
+    title: 'Security program outcomes',
+    basis: 'Incident-likelihood and impact reductions attributed to identity, detection and response tooling',
+    year: 2025,
+    kind: 'internal_estimate',
+  },
+  supportOperations: {
+    title: 'Support operations benchmarks',
+    basis: 'Agent cost and handle-time reductions reported for support automation and self-service',
+    year: 2025,
+    kind: 'internal_estimate',
+  },
+};
+
+export const ROI_BENCHMARKS: RoiBenchmark[] = [
+  // Baseline for every segment
+  {
+    id: 'baseline',
+    industry: '*',
+    size: '*',
+    productCategory: '*',
+    ranges: {
+      costPerHour: { low: 40, typical: 85, high: 200 },
+      hoursSavedPerPersonPerMonth: { low: 1, typical: 6, high: 40 },
+      errorReductionPct: { low: 0.1, typical: 0.3, high: 0.9 },
+      cloudReductionPct: { low: 0.05, typical: 0.15, high: 0.5 },
+      riskReductionPct: { low: 0.1, typical: 0.3, high: 0.8 },
+      affectedStaffShare: { low: 0.02, typical: 0.1, high: 0.5 },
+    },
+    source: 'baseline',
+  },
+
+  // Labor cost by size and industry (industry entries come later so they win ties with size)
+  {
+    id: 'labor-smb',
+    industry: '*',
+    size: 'smb',
+    productCategory: '*',
+    ranges: { costPerHour: { low: 30, typical: 65, high: 150 } },
+    source: 'loadedLabor',
+  },
+  {
+    id: 'labor-software',
+    industry: 'software',
+    size: '*',
+    productCategory: '*',
+    ranges: { costPerHour: { low: 60, typical: 110, high: 250 } },
+    source: 'loadedLabor',
+  },
+  {
+    id: 'labor-financial-services',
+    industry: 'financial_services',
+    size: '*',
+    productCategory: '*',
+    ranges: { costPerHour: { low: 70, typical: 120, high: 300 } },
+    source: 'loadedLabor',
+  },
+  {
+    id: 'labor-healthcare',
+    industry: 'healthcare',
+    size: '*',
+    productCategory: '*',
+    ranges: { costPerHour: { low: 45, typical: 80, high: 180 } },
+    source: 'loadedLabor',
+  },
+  {
+    id: 'labor-legal',
+    industry: 'legal',
+    size: '*',
+    productCategory: '*',
+    ranges: { costPerHour: { low: 120, typical: 250, high: 800 } },
+    source: 'legalRates',
+  },
+  {
+    id: 'labor-professional-services',
+    industry: 'professional_services',
+    size: '*',
+    productCategory: '*',
+    ranges: { costPerHour: { low: 70, typical: 140, high: 400 } },
+    source: 'loadedLabor',
+  },
+  {
+    id: 'labor-retail',
+    industry: 'retail',
+    size: '*',
+    productCategory: '*',
+    ranges: { costPerHour: { low: 25, typical: 50, high: 150 } },
+    source: 'loadedLabor',
+  },
+  {
+    id: 'labor-public-sector',
+    industry: 'public_sector',
+    size: '*',
+    productCategory: '*',
+    ranges: { costPerHour: { low: 40, typical: 70, high: 150 } },
+    source: 'loadedLabor',
+  },
+
+  // Outcomes by product category
+  {
+    id: 'category-devops',
+    industry: '*',
+    size: '*',
+    productCategory: 'devops',
+    ranges: {
+      hoursSavedPerPersonPerMonth: { low: 2, typical: 8, high: 40 },
+      errorReductionPct: { low: 0.2, typical: 0.4, high: 0.9 },
+      affectedStaffShare: { low: 0.05, typical: 0.2, high: 0.6 },
+    },
+    source: 'engineeringProductivity',
+  },
+  {
+    id: 'category-observability',
+    industry: '*',
+    size: '*',
+    productCategory: 'observability',
+    ranges: {
+      hoursSavedPerPersonPerMonth: { low: 1, typical: 5, high: 30 },
+      errorReductionPct: { low: 0.15, typical: 0.35, high: 0.8 },
+      cloudReductionPct: { low: 0.03, typical: 0.1, high: 0.35 },
+      affectedStaffShare: { low: 0.05, typical: 0.15, high: 0.5 },
+    },
+    source: 'engineeringProductivity',
+  },
+  {
+    id: 'category-finops',
+    industry: '*',
+    size: '*',
+    productCategory: 'finops',
+    ranges: {
+      hoursSavedPerPersonPerMonth: { low: 1, typical: 4, high: 20 },
+      cloudReductionPct: { low: 0.1, typical: 0.25, high: 0.7 },
+      affectedStaffShare: { low: 0.01, typical: 0.03, high: 0.15 },
+    },
+    source: 'finopsOutcomes',
+  },
+  {
+    id: 'category-finops-enterprise',
+    industry: '*',
+    size: 'enterprise',
+    productCategory: 'finops',
+    ranges: {
+      // Committed-use discounts are usually in place already, leaving less to recover
+      cloudReductionPct: { low: 0.08, typical: 0.2, high: 0.6 },
+    },
+    source: 'finopsOutcomes',
+  },
+  {
+    id: 'category-security',
+    industry: '*',
+    size: '*',
+    productCategory: 'security',
+    ranges: {
+      hoursSavedPerPersonPerMonth: { low: 1, typical: 5, high: 30 },
+      riskReductionPct: { low: 0.2, typical: 0.4, high: 0.85 },
+      affectedStaffShare: { low: 0.01, typical: 0.05, high: 0.2 },
+    },
+    source: 'securityOutcomes',
+  },
+  {
+    id: 'category-security-financial-services',
+    industry: 'financial_services',
+    size: '*',
+    productCategory: 'security',
+    ranges: {
+      riskReductionPct: { low: 0.15, typical: 0.35, high: 0.75 },
+    },
+    source: 'securityOutcomes',
+  },
+  {
+    id: 'category-data-analytics',
+    industry: '*',
+    size: '*',
+    productCategory: 'data_analytics',
+    ranges: {
+      hoursSavedPerPersonPerMonth: { low: 2, typical: 10, high: 50 },
+      errorReductionPct: { low: 0.1, typical: 0.25, high: 0.7 },
+      affectedStaffShare: { low: 0.05, typical: 0.15, high: 0.6 },
+    },
+    source: 'engineeringProductivity',
+  },
+  {
+    id: 'category-customer-support',
+    industry: '*',
+    size: '*',
+    productCategory: 'customer_support',
+    ranges: {
+      costPerHour: { low: 25, typical: 40, high: 90 },
+      hoursSavedPerPersonPerMonth: { low: 2, typical: 12, high: 60 },
+      affectedStaffShare: { low: 0.02, typical: 0.1, high: 0.4 },
+    },
+    source: 'supportOperations',
+  },
+  {
+    id: 'category-legal-tech',
+    industry: '*',
+    size: '*',
+    productCategory: 'legal_tech',
+    ranges: {
+      hoursSavedPerPersonPerMonth: { low: 2, typical: 10, high: 50 },
+      errorReductionPct: { low: 0.1, typical: 0.3, high: 0.8 },
+      affectedStaffShare: { low: 0.01, typical: 0.05, high: 0.7 },
+    },
+    source: 'legalRates',
+  },
+];
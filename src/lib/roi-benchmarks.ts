@@ -0,0 +1,294 @@
+/**
+ * src/lib/roi-benchmarks.ts: Benchmark-based ROI input suggestions
+ *
+ * Places a project in a benchmark segment (industry from the company
+ * profile's name or NAICS/SIC code, size from its headcount, product
+ * category from the project's free-text category), resolves the typical
+ * range of each ROI input for that segment, and turns the ranges into
+ * pre-filled inputs. Ranges carry their source so defaults and warnings
+ * can cite it.
+ */
+
+import type { CompanyProfileFields } from './company-profile';
+import type { RoiInputsType } from './schemas';
+import {
+  BenchmarkCategory,
+  BenchmarkIndustry,
+  BenchmarkInput,
+  BenchmarkRange,
+  BenchmarkSize,
+  BenchmarkSource,
+  BENCHMARK_SOURCES,
+  ROI_BENCHMARKS,
+  ROI_BENCHMARKS_VERSION,
+  RoiBenchmark,
+} from './roi-benchmark-data';
+
+export interface BenchmarkContext {
+  industry?: BenchmarkIndustry | null;
+  size?: BenchmarkSize | null;
+  productCategory?: BenchmarkCategory | null;
+}
+
+export interface ResolvedBenchmarkRange extends BenchmarkRange {
+  benchmarkId: string;
+  segment: string; // Segment the range applies to, e.g. "legal" or "enterprise FinOps"
+  citation: string; // Source title and year, with the publication URL or the public data to check an estimate against
+  estimate: boolean; // The source is an internal estimate, not a published study
+}
+
+export interface ResolvedBenchmarks {
+  version: string;
+  context: BenchmarkContext;
+  ranges: Partial<Record<BenchmarkInput, ResolvedBenchmarkRange>>;
+}
+
+export interface HeadcountEstimate {
+  count: number;
+  basis: string; // e.g. "1001-5000 employees"
+  source?: string; // Where the headcount came from
+}
+
+export interface RoiSuggestions {
+  version: string;
+  context: BenchmarkContext;
+  inputs: Partial<RoiInputsType>; // Values to pre-fill
+  ranges: ResolvedBenchmarks['ranges'];
+  notes: string[]; // How each pre-filled value was derived
+}
+
+const INDUSTRY_LABELS: Record<BenchmarkIndustry, string> = {
+  software: 'software',
+  financial_services: 'financial services',
+  healthcare: 'healthcare',
+  legal: 'legal',
+  professional_services: 'professional services',
+  retail: 'retail',
+  manufacturing: 'manufacturing',
+  public_sector: 'public sector',
+};
+
+const SIZE_LABELS: Record<BenchmarkSize, string> = {
+  smb: 'SMB',
+  mid_market: 'mid-market',
+  enterprise: 'enterprise',
+};
+
+const CATEGORY_LABELS: Record<BenchmarkCategory, string> = {
+  devops: 'DevOps',
+  security: 'security',
+  finops: 'FinOps',
+  observability: 'observability',
+  data_analytics: 'data & analytics',
+  customer_support: 'customer support',
+  legal_tech: 'legal tech',
+};
+
+// Inputs pre-filled with the benchmark's typical value
+const PREFILLED_INPUTS: Array<Exclude<BenchmarkInput, 'affectedStaffShare'>> = [
+  'costPerHour',
+  'hoursSavedPerPersonPerMonth',
+  'errorReductionPct',
+  'cloudReductionPct',
+  'riskReductionPct',
+];
+
+// Industry names, checked in order (legal before professional services, which it overlaps)
+const INDUSTRY_PATTERNS: Array<[BenchmarkIndustry, RegExp]> = [
+  ['legal', /\b(?:legal|law firms?|attorneys?|lawyers?)\b/i],
+  ['financial_services', /\b(?:financ\w*|bank\w*|insurance|fintech|payments?|capital markets|asset management|lending)\b/i],
+  ['healthcare', /\b(?:health\w*|hospitals?|medical|pharma\w*|biotech\w*|life sciences|clinical)\b/i],
+  ['public_sector', /\b(?:government|public sector|public administration|federal|municipal|defen[cs]e)\b/i],
+  ['retail', /\b(?:retail\w*|e-?commerce|consumer goods|wholesale)\b/i],
+  ['manufacturing', /\b(?:manufactur\w*|industrial|automotive|semiconductors?|aerospace)\b/i],
+  ['professional_services', /\b(?:consult\w*|professional services|accounting|advisory|staffing)\b/i],
+  ['software', /\b(?:software|saas|internet|information technology|cloud|developer tools|cyber\s?security)\b/i],
+];
+
+// Product categories, checked in order (FinOps before the broader cloud/DevOps terms)
+const CATEGORY_PATTERNS: Array<[BenchmarkCategory, RegExp]> = [
+  ['finops', /\b(?:finops|cloud cost|cost optimi[sz]ation|cloud spend)\b/i],
+  ['legal_tech', /\b(?:legal\s?tech|contract management|e-?discovery|clm)\b/i],
+  ['security', /\b(?:security|cyber\w*|identity|iam|siem|soc|threat|vulnerabilit\w*|zero trust)\b/i],
+  ['observability', /\b(?:observability|monitoring|apm|logging|tracing|incident management)\b/i],
+  ['customer_support', /\b(?:customer support|customer service|help ?desk|contact cent(?:er|re)|ticketing)\b/i],
+  ['data_analytics', /\b(?:data|analytics|business intelligence|bi|etl|warehouse|machine learning|ml)\b/i],
+  ['devops', /\b(?:devops|ci\/?cd|continuous (?:integration|delivery)|platform engineering|developer (?:tools|productivity)|infrastructure as code|kubernetes)\b/i],
+];
+
+/**
+ * Benchmark industry from a NAICS code (2-6 digits)
+ */
+function industryFromNaics(code: string): BenchmarkIndustry | null {
+  if (code.startsWith('5411')) return 'legal';
+  if (code.startsWith('5112') || code.startsWith('5132') || code.startsWith('518') || code.startsWith('5415')) return 'software';
+  const sector = parseInt(code.substring(0, 2), 10);
+  if (sector === 52) return 'financial_services';
+  if (sector === 62) return 'healthcare';
+  if (sector === 92) return 'public_sector';
+  if (sector === 44 || sector === 45 || sector === 42) return 'retail';
+  if (sector >= 31 && sector <= 33) return 'manufacturing';
+  if (sector === 54) return 'professional_services';
+  if (sector === 51) return 'software';
+  return null;
+}
+
+/**
+ * Benchmark industry from a 4-digit SIC code
+ */
+function industryFromSic(code: string): BenchmarkIndustry | null {
+  const value = parseInt(code, 10);
+  if (value === 8111) return 'legal';
+  if (value >= 7370 && value <= 7379) return 'software';
+  if (value >= 6000 && value <= 6799) return 'financial_services';
+  if (value >= 8000 && value <= 8099) return 'healthcare';
+  if (value >= 9100 && value <= 9799) return 'public_sector';
+  if (value >= 5200 && value <= 5999) return 'retail';
+  if (value >= 2000 && value <= 3999) return 'manufacturing';
+  if (value >= 8700 && value <= 8748) return 'professional_services';
+  return null;
+}
+
+/**
+ * Benchmark industry for a company profile: industry codes first, then the industry name
+ */
+export function classifyIndustry(profile: Pick<CompanyProfileFields, 'industryName' | 'naicsCode' | 'sicCode'>): BenchmarkIndustry | null {
+  const fromCode = (profile.naicsCode && industryFromNaics(profile.naicsCode)) || (profile.sicCode && industryFromSic(profile.sicCode));
+  if (fromCode) return fromCode;
+  if (!profile.industryName) return null;
+  const match = INDUSTRY_PATTERNS.find(([, pattern]) => pattern.test(profile.industryName as string));
+  return match ? match[0] : null;
+}
+
+/**
+ * Size segment from an exact headcount or an employee band such as "201-500" or "10001+"
+ */
+export function classifySize(profile: Pick<CompanyProfileFields, 'employeeCount' | 'employeeBand'>): BenchmarkSize | null {
+  let upper: number | null = profile.employeeCount ?? null;
+  if (upper === null && profile.employeeBand) {
+    upper = profile.employeeBand.endsWith('+') ? Infinity : parseInt(profile.employeeBand.split('-')[1] ?? '', 10);
+  }
+  if (upper === null || isNaN(upper)) return null;
+  if (upper <= 200) return 'smb';
+  if (upper <= 1000) return 'mid_market';
+  return 'enterprise';
+}
+
+/**
+ * Benchmark product category from the project's free-text product category
+ */
+export function classifyProductCategory(productCategory: string): BenchmarkCategory | null {
+  const match = CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(productCategory));
+  return match ? match[0] : null;
+}
+
+/**
+ * Benchmark segment for a project
+ * @param profile - Company profile (null when none has been recorded)
+ * @param productCategory - Project's product category
+ */
+export function benchmarkContext(profile: CompanyProfileFields | null, productCategory: string): BenchmarkContext {
+  return {
+    industry: profile ? classifyIndustry(profile) : null,
+    size: profile ? classifySize(profile) : null,
+    productCategory: classifyProductCategory(productCategory),
+  };
+}
+
+/**
+ * Readable segment, e.g. "enterprise FinOps" or "all segments"
+ */
+export function describeBenchmarkSegment(segment: { industry?: BenchmarkIndustry | '*' | null; size?: BenchmarkSize | '*' | null; productCategory?: BenchmarkCategory | '*' | null }): string {
+  const parts = [
+    segment.size && segment.size !== '*' ? SIZE_LABELS[segment.size] : null,
+    segment.industry && segment.industry !== '*' ? INDUSTRY_LABELS[segment.industry] : null,
+    segment.productCategory && segment.productCategory !== '*' ? CATEGORY_LABELS[segment.productCategory] : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : 'all segments';
+}
+
+/**
+ * Whether a benchmark entry applies to a segment
+ */
+function matches(benchmark: RoiBenchmark, context: BenchmarkContext): boolean {
+  return (benchmark.industry === '*' || benchmark.industry === context.industry) &&
+    (benchmark.size === '*' || benchmark.size === context.size) &&
+    (benchmark.productCategory === '*' || benchmark.productCategory === context.productCategory);
+}
+
+/**
+ * Number of dimensions a benchmark entry pins down
+ */
+function specificity(benchmark: RoiBenchmark): number {
+  return [benchmark.industry, benchmark.size, benchmark.productCategory].filter(key => key !== '*').length;
+}
+
+/**
+ * Citation for a benchmark source
+ * Internal estimates are labelled as such so they are never mistaken for a study
+ */
+function benchmarkCitation(source: BenchmarkSource): string {
+  if (source.kind === 'published') {
+    return `${source.title} (${source.year})${source.url ? `, ${source.url}` : ''}`;
+  }
+  const check = source.checkAgainst ? `; check against ${source.checkAgainst.title}, ${source.checkAgainst.url}` : '';
+  return `internal estimate: ${source.title} (${source.year})${check}`;
+}
+
+/**
+ * Resolve each input's range from the most specific matching benchmark entry
+ * Later entries win ties, so the dataset lists narrower overrides last.
+ * @param context - Benchmark segment (unknown dimensions match only '*')
+ */
+export function resolveRoiBenchmarks(context: BenchmarkContext): ResolvedBenchmarks {
+  const ranges: ResolvedBenchmarks['ranges'] = {};
+  const chosen: Partial<Record<BenchmarkInput, number>> = {};
+
+  ROI_BENCHMARKS.filter(benchmark => matches(benchmark, context)).forEach(benchmark => {
+    const score = specificity(benchmark);
+    const source = BENCHMARK_SOURCES[benchmark.source];
+
+    (Object.keys(benchmark.ranges) as BenchmarkInput[]).forEach(input => {
+      if ((chosen[input] ?? -1) > score) return;
+      chosen[input] = score;
+      ranges[input] = {
+        ...(benchmark.ranges[input] as BenchmarkRange),
+        benchmarkId: benchmark.id,
+        segment: describeBenchmarkSegment(benchmark),
+        citation: source ? benchmarkCitation(source) : benchmark.source,
+        estimate: source?.kind !== 'published',
+      };
+    });
+  });
+
+  return { version: ROI_BENCHMARKS_VERSION, context, ranges };
+}
+
+/**
+ * Pre-filled ROI inputs: benchmark typical values, and nPeople from the
+ * company's headcount times the typical share of staff using the product
+ * @param benchmarks - Resolved benchmark ranges
+ * @param headcount - Company headcount estimate, if known
+ */
+export function suggestRoiInputs(benchmarks: ResolvedBenchmarks, headcount: HeadcountEstimate | null): RoiSuggestions {
+  const inputs: Partial<RoiInputsType> = {};
+  const notes: string[] = [];
+
+  const share = benchmarks.ranges.affectedStaffShare;
+  if (headcount && share) {
+    inputs.nPeople = Math.max(1, Math.round(headcount.count * share.typical));
+    notes.push(
+      `nPeople: ${Math.round(share.typical * 100)}% of ${headcount.basis}` +
+      `${headcount.source ? ` (profile source: ${headcount.source})` : ''}; share from ${share.citation}, ${share.segment}`
+    );
+  }
+
+  PREFILLED_INPUTS.forEach(input => {
+    const range = benchmarks.ranges[input];
+    if (!range) return;
+    inputs[input] = range.typical;
+    notes.push(`${input}: typical for ${range.segment} (${range.citation})`);
+  });
+
+  return { version: benchmarks.version, context: benchmarks.context, inputs, ranges: benchmarks.ranges, notes };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { validateRoiInputs } from './roi-calculator';
+import { resolveRoiBenchmarks } from './roi-benchmarks';
+
+const INPUTS = {
+  nPeople: 50,
+  costPerHour: 90,
+  hoursSavedPerPersonPerMonth: 4,
+  errorCostAnnual: 0,
+  errorReductionPct: 0,
+  cloudSpendAnnual: 2_000_000,
+  cloudReductionPct: 0.2,
+  riskCostAnnual: 0,
+  riskReductionPct: 0,
+  licenseCostAnnual: 60_000,
+  implementationOneTime: 20_000,
+};
+
+describe('validateRoiInputs', () => {
+  it('accepts inputs within the segment benchmark ranges', () => {
+    expect(validateRoiInputs(INPUTS, resolveRoiBenchmarks({ productCategory: 'finops' }))).toEqual([]);
+  });
+
+  it('labels ranges that are internal estimates and names the public data to check them against', () => {
+    const [warning] = validateRoiInputs({ ...INPUTS, cloudReductionPct: 0.9 }, resolveRoiBenchmarks({ productCategory: 'finops' }));
+
+    expect(warning).toMatch(/^Cloud cost reduction of 90% is above the typical range for FinOps/);
+    expect(warning).toContain('internal estimate: FinOps practitioner outcomes (2025)');
+    expect(warning).toContain('check against FinOps Foundation, State of FinOps, https://data.finops.org/');
+    expect(warning).not.toContain('source:');
+  });
+});
@@ -6,6 +6,18 @@
  */
 
 import { RoiInputsType, RoiOutputType, RoiScenarioType } from './schemas';
+import { resolveRoiBenchmarks, ResolvedBenchmarks } from './roi-benchmarks';
+import { BenchmarkInput } from './roi-benchmark-data';
+import { formatCurrency, formatPercentage } from './utils';
+
+// Inputs checked against the upper end of their benchmark range, with display formats
+const PLAUSIBILITY_CHECKS: Array<{ input: Exclude<BenchmarkInput, 'affectedStaffShare'>; label: string; format: (value: number) => string }> = [
+  { input: 'hoursSavedPerPersonPerMonth', label: 'Hours saved per person per month', format: value => `${value} hours` },
+  { input: 'costPerHour', label: 'Cost per hour', format: value => formatCurrency(value) },
+  { input: 'errorReductionPct', label: 'Error reduction', format: value => formatPercentage(value, 0) },
+  { input: 'cloudReductionPct', label: 'Cloud cost reduction', format: value => formatPercentage(value, 0) },
+  { input: 'riskReductionPct', label: 'Risk reduction', format: value => formatPercentage(value, 0) },
+];
 
 /**
  * Calculate ROI scenario based on input parameters
@@ -96,32 +108,24 @@ export function calculateRoiScenarios(inputs: RoiInputsType): RoiOutputType {
 
 /**
  * Validate ROI inputs for reasonableness
+ * Inputs above the high end of their benchmark range are flagged, citing
+ * the segment and source of the range (labelled when it is an internal estimate).
  * @param inputs - ROI inputs to validate
+ * @param benchmarks - Ranges for the project's segment (defaults to the cross-industry baseline)
  * @returns Array of validation warnings (empty if all good)
  */
-export function validateRoiInputs(inputs: RoiInputsType): string[] {
+export function validateRoiInputs(inputs: RoiInputsType, benchmarks: ResolvedBenchmarks = resolveRoiBenchmarks({})): string[] {
   const warnings: string[] = [];
   
-  // Check for unrealistic values
-  if (inputs.hoursSavedPerPersonPerMonth > 160) {
-    warnings.push('Hours saved per month seems high (>160 hours)');
-  }
-  
-  if (inputs.costPerHour > 200) {
-    warnings.push('Cost per hour seems high (>$200)');
-  }
-  
-  if (inputs.errorReductionPct > 0.9) {
-    warnings.push('Error reduction >90% may be optimistic');
-  }
-  
-  if (inputs.cloudReductionPct > 0.5) {
-    warnings.push('Cloud cost reduction >50% may be optimistic');
-  }
-  
-  if (inputs.riskReductionPct > 0.8) {
-    warnings.push('Risk reduction >80% may be optimistic');
-  }
+  // Check for values beyond what the segment's benchmarks support
+  PLAUSIBILITY_CHECKS.forEach(({ input, label, format }) => {
+    const range = benchmarks.ranges[input];
+    if (!range || inputs[input] <= range.high) return;
+    warnings.push(
+      `${label} of ${format(inputs[input])} is above the typical range for ${range.segment} ` +
+      `(${format(range.low)}-${format(range.high)}; ${range.estimate ? '' : 'source: '}${range.citation}, ${benchmarks.version})`
+    );
+  });
   
   // Check for missing significant values
   const totalPotentialBenefit = inputs.nPeople * inputs.hoursSavedPerPersonPerMonth * 12 * inputs.costPerHour +
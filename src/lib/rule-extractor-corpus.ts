@@ -0,0 +1,139 @@
+/**
+ * src/lib/rule-extractor-corpus.ts: Labelled fixture corpus for the rule-based extractor
+ *
+ * Short business documents with the signal kinds each must (and must not)
+ * yield. `evaluateRuleExtractor` runs the extractor over the corpus so rule
+ * changes can be checked for regressions in precision and recall.
+ */
+
+import type { SignalKind } from '@prisma/client';
+import { extractRuleSignals } from './rule-extractor';
+
+export interface CorpusDocument {
+  id: string;
+  text: string;
+  expectedKinds: SignalKind[];
+  absentKinds: SignalKind[];
+}
+
+export interface CorpusEvaluation {
+  documents: Array<{ id: string; passed: boolean; foundKinds: SignalKind[]; missing: SignalKind[]; unexpected: SignalKind[] }>;
+  precision: number; // Share of reported kinds that were expected (over labelled kinds)
+  recall: number; // Share of expected kinds that were reported
+  passed: boolean;
+}
+
+export const RULE_EXTRACTOR_CORPUS: CorpusDocument[] = [
+  {
+    id: 'careers-page',
+    text: `Careers at Northwind. We're hiring across engineering, sales and customer success. We currently have 45 open roles in Austin, Berlin and remote. Join our growing team and help us build the future of logistics software.`,
+    expectedKinds: ['hiring'],
+    absentKinds: ['security', 'compliance', 'financial'],
+  },
+  {
+    id: 'trust-center',
+    text: `Trust Center. Contoso has completed its SOC 2 Type II audit and is ISO 27001 certified. All customer data is encrypted at rest and in transit. We run annual penetration testing with an independent firm and operate a public bug bounty program.`,
+    expectedKinds: ['compliance', 'security'],
+    absentKinds: ['hiring', 'financial'],
+  },
+  {
+    id: 'funding-announcement',
+    text: `Fabrikam raised a $40 million Series B led by Redpoint Ventures to expand its platform. The company said annual recurring revenue grew 180 percent in 2024. Fabrikam plans to use the funding to expand into the European market next year.`,
+    expectedKinds: ['financial', 'company'],
+    absentKinds: ['security', 'compliance'],
+  },
+  {
+    id: 'platform-migration',
+    text: `Over the next 18 months, Litware is migrating its core workloads to Kubernetes on AWS. Our biggest challenge is legacy infrastructure that still relies on manual processes for every release. The platform team is standardizing on Terraform for all new environments.`,
+    expectedKinds: ['company'],
+    absentKinds: ['hiring', 'financial'],
+  },
+  {
+    id: 'product-launch',
+    text: `Today Tailspin announced a new AI-powered analytics platform for retailers. The product is generally available to all customers starting this week. Customers can now connect Shopify and BigCommerce stores through a native integration.`,
+    expectedKinds: ['product'],
+    absentKinds: ['hiring', 'security', 'compliance'],
+  },
+  {
+    id: 'breach-disclosure',
+    text: `Adatum disclosed a data breach affecting 1.2 million customer records after a ransomware attack on a third-party vendor. The company has hired a new Chief Information Security Officer and is rolling out multi-factor authentication for all employees. Regulators in two states have opened inquiries.`,
+    expectedKinds: ['security', 'compliance'],
+    absentKinds: ['product'],
+  },
+  {
+    id: 'industry-report',
+    text: `The global supply chain software market is expected to grow at a CAGR of 11.2 percent through 2030, according to Gartner. Analysts predict consolidation as incumbents acquire smaller competitors. Most enterprises still rely on spreadsheets for demand planning.`,
+    expectedKinds: ['industry'],
+    absentKinds: ['hiring', 'security'],
+  },
+  {
+    id: 'earnings-release',
+    text: `Woodgrove Bank reported fourth quarter results on Tuesday. Net income rose 14 percent to $2.1 billion, while operating margin narrowed because of higher technology spending. The bank reaffirmed full-year guidance and announced a cost-cutting program.`,
+    expectedKinds: ['financial'],
+    absentKinds: ['hiring', 'product'],
+  },
+  {
+    id: 'healthcare-compliance',
+    text: `As a HIPAA covered entity, Lamna Healthcare must sign a business associate agreement with every vendor that processes patient data. The organization was fined $850,000 by the Office for Civil Rights last year. Vendors must also demonstrate GDPR compliance for European patients.`,
+    expectedKinds: ['compliance'],
+    absentKinds: ['hiring', 'product'],
+  },
+  {
+    id: 'leadership-change',
+    text: `Proseware announced a reorganization of its go-to-market teams after its CEO stepped down in March. The new leadership team named customer retention its top priority for the year. Proseware also announced layoffs affecting about 8 percent of staff.`,
+    expectedKinds: ['company', 'hiring'],
+    absentKinds: ['security', 'compliance'],
+  },
+  {
+    id: 'job-posting-security',
+    text: `Senior Security Engineer. Relecloud is looking for a senior security engineer to lead incident response and threat detection across our cloud environment. You will own our SIEM and help us prepare for FedRAMP authorization.`,
+    expectedKinds: ['hiring', 'security', 'compliance'],
+    absentKinds: ['financial'],
+  },
+  {
+    id: 'acquisition-news',
+    text: `Wide World Importers agreed to acquire Coho Logistics for $310 million in cash, a deal valued at roughly six times revenue. The acquisition gives Wide World a foothold in cold-chain shipping and is expected to close in the second quarter.`,
+    expectedKinds: ['financial'],
+    absentKinds: ['hiring', 'security'],
+  },
+  {
+    id: 'pricing-update',
+    text: `Starting June 1, Fourth Coffee Cloud is introducing new pricing tiers. The free tier will be limited to three users, and the enterprise plan now includes single sign-on and audit logs. The product roadmap for the second half of the year focuses on offline support.`,
+    expectedKinds: ['product'],
+    absentKinds: ['hiring', 'financial'],
+  },
+  {
+    id: 'no-signal-boilerplate',
+    text: `Welcome to our website. Please read our terms of use. Click here to learn more about who we are and what we do every day for our valued customers.`,
+    expectedKinds: [],
+    absentKinds: ['hiring', 'security', 'compliance', 'financial', 'product', 'company', 'industry'],
+  },
+];
+
+/**
+ * Run the rule-based extractor over the fixture corpus
+ * @param corpus - Labelled documents (defaults to the shipped corpus)
+ * @returns Per-document results plus precision/recall over labelled kinds
+ */
+export function evaluateRuleExtractor(corpus: CorpusDocument[] = RULE_EXTRACTOR_CORPUS): CorpusEvaluation {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+
+  const documents = corpus.map(document => {
+    const foundKinds = Array.from(new Set(extractRuleSignals(document.text).signals.map(signal => signal.kind)));
+    const missing = document.expectedKinds.filter(kind => !foundKinds.includes(kind));
+    const unexpected = document.absentKinds.filter(kind => foundKinds.includes(kind));
+
+    truePositives += document.expectedKinds.length - missing.length;
+    falseNegatives += missing.length;
+    falsePositives += unexpected.length;
+
+    return { id: document.id, passed: missing.length === 0 && unexpected.length === 0, foundKinds, missing, unexpected };
+  });
+
+  const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 1;
+  const recall = truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 1;
+
+  return { documents, precision, recall, passed: documents.every(document => document.passed) };
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { calibrateConfidence, detectTopics, extractRuleSignals, RULE_EXTRACTOR_VERSION } from './rule-extractor';
+import { evaluateRuleExtractor, RULE_EXTRACTOR_CORPUS } from './rule-extractor-corpus';
+import { analyzeContent, crossCheckSignals } from './signal-extraction';
+
+describe('evaluateRuleExtractor', () => {
+  it('passes every labelled document in the fixture corpus', () => {
+    const evaluation = evaluateRuleExtractor();
+
+    expect(evaluation.documents.filter(document => !document.passed)).toEqual([]);
+    expect(evaluation.passed).toBe(true);
+    expect(evaluation.precision).toBe(1);
+    expect(evaluation.recall).toBe(1);
+  });
+});
+
+describe('calibrateConfidence', () => {
+  it('keeps confidence between 0.3 and 0.9 and increasing with the score', () => {
+    const confidences = [0, 0.2, 0.4, 0.6, 0.8, 1].map(calibrateConfidence);
+
+    expect(confidences[0]).toBeGreaterThanOrEqual(0.3);
+    expect(confidences[confidences.length - 1]).toBeLessThanOrEqual(0.9);
+    confidences.slice(1).forEach((confidence, index) => expect(confidence).toBeGreaterThan(confidences[index]));
+  });
+
+  it('keeps weak lone keywords below 0.5 and strong patterns above 0.75', () => {
+    expect(calibrateConfidence(0.3)).toBeLessThan(0.5);
+    expect(calibrateConfidence(0.85)).toBeGreaterThan(0.75);
+  });
+});
+
+describe('detectTopics', () => {
+  it('drops terms longer than the analysis schema allows', () => {
+    const slug = 'enterprise-data-platform-migration-program-phase-two-rollout-plan-final';
+    const text = Array.from({ length: 3 }, () => `Read the ${slug} document before the planning review meeting.`).join(' ');
+
+    const topics = detectTopics(text);
+
+    expect(slug.length).toBeGreaterThan(60);
+    expect(topics.length).toBeGreaterThan(0);
+    expect(topics.every(topic => topic.length <= 60)).toBe(true);
+  });
+});
+
+describe('crossCheckSignals', () => {
+  const rules = {
+    summary: 'Rule summary.',
+    signals: [
+      { kind: 'hiring' as const, text: 'We currently have 45 open roles in Austin, Berlin and remote.', confidence: 0.8, weight: 0.6 },
+      { kind: 'security' as const, text: 'All customer data is encrypted at rest and in transit.', confidence: 0.7, weight: 0.7 },
+      { kind: 'compliance' as const, text: 'Contoso has completed its SOC 2 Type II audit.', confidence: 0.75, weight: 0.7 },
+    ],
+    keyQuotes: ['We currently have 45 open roles in Austin, Berlin and remote.'],
+    topics: ['open roles'],
+  };
+
+  it('boosts corroborated signals, penalizes unsupported ones and discounts rule-only kinds', () => {
+    const checked = crossCheckSignals({
+      summary: 'LLM summary.',
+      signals: [
+        { kind: 'hiring', text: 'The company has 45 open roles across Austin, Berlin and remote.', confidence: 0.6, weight: 0.6 },
+        { kind: 'security', text: 'Runs a public bug bounty program.', confidence: 0.6, weight: 0.5 },
+        { kind: 'financial', text: 'Revenue grew 40 percent.', confidence: 0.6, weight: 0.8 },
+      ],
+      keyQuotes: [],
+      topics: [],
+    }, rules);
+
+    expect(checked.summary).toBe('LLM summary.');
+    expect(checked.signals.map(signal => [signal.kind, signal.confidence])).toEqual([
+      ['hiring', 0.75],
+      ['security', 0.65],
+      ['financial', 0.5],
+      ['compliance', 0.6],
+    ]);
+    expect(checked.keyQuotes).toEqual(rules.keyQuotes);
+    expect(checked.topics).toEqual(rules.topics);
+  });
+
+  it('keeps the LLM key quotes and topics when it returned some', () => {
+    const checked = crossCheckSignals({ summary: 'LLM summary.', signals: [], keyQuotes: ['Quote.'], topics: ['logistics'] }, rules);
+
+    expect(checked.keyQuotes).toEqual(['Quote.']);
+    expect(checked.topics).toEqual(['logistics']);
+  });
+});
+
+describe('analyzeContent with the rules backend', () => {
+  it('returns a validated analysis attributed to the rule extractor', async () => {
+    const trustCenter = RULE_EXTRACTOR_CORPUS.find(document => document.id === 'trust-center')!;
+
+    const result = await analyzeContent(`<p>${trustCenter.text}</p>`, 'rules');
+
+    expect(result.provider).toBe('rules');
+    expect(result.model).toBe(RULE_EXTRACTOR_VERSION);
+    expect(result.attempts).toBe(1);
+    expect(result.signals.map(signal => signal.kind)).toEqual(expect.arrayContaining(['compliance', 'security']));
+    expect(result.keyQuotes.every(quote => trustCenter.text.includes(quote))).toBe(true);
+  });
+
+  it('accepts documents whose recurring terms are longer than a topic may be', async () => {
+    const slug = 'https-status-contoso-example-com-incidents-2024-database-failover-report';
+    const text = Array.from({ length: 3 }, () => `Customers were pointed to ${slug} after the database outage in March.`).join(' ');
+
+    const result = await analyzeContent(text, 'rules');
+
+    expect(result.topics.every(topic => topic.length <= 60)).toBe(true);
+  });
+
+  it('matches the extractor run directly on the cleaned text', async () => {
+    const text = RULE_EXTRACTOR_CORPUS[0].text;
+    const { summary, signals, keyQuotes, topics } = await analyzeContent(text, 'rules');
+
+    expect({ summary, signals, keyQuotes, topics }).toEqual(extractRuleSignals(text));
+  });
+});
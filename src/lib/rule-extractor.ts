@@ -0,0 +1,304 @@
+/**
+ * src/lib/rule-extractor.ts: Offline rule-based signal extraction
+ *
+ * Deterministic extractor that needs no model: scores each sentence
+ * against curated lexicons and regex patterns per signal kind ("we're
+ * hiring", "SOC 2", "raised Series B", "migrating to Kubernetes"), then
+ * keeps the best-supported sentences as signals with calibrated weight
+ * and confidence. Used as the NLP backend where prospect research must not
+ * leave the deployment, or as a cross-check on LLM output.
+ */
+
+import type { SignalKind } from '@prisma/client';
+import type { SignalAnalysisType } from './signal-extraction';
+
+interface SignalRule {
+  pattern: RegExp;
+  strength: number; // 0-1, how strongly a match indicates the kind on its own
+}
+
+interface KindProfile {
+  rules: SignalRule[];
+  weight: number; // Business importance of the kind, before specificity adjustment
+}
+
+export const RULE_EXTRACTOR_VERSION = 'rules-v1';
+
+const KIND_PROFILES: Record<SignalKind, KindProfile> = {
+  hiring: {
+    weight: 0.6,
+    rules: [
+      { pattern: /\bwe(?:'re|’re| are) (?:actively )?hiring\b/i, strength: 0.9 },
+      { pattern: /\b(?:open|new) (?:roles|positions|requisitions|headcount)\b/i, strength: 0.7 },
+      { pattern: /\bjob (?:openings?|postings?|listings?)\b/i, strength: 0.7 },
+      { pattern: /\bjoin (?:our|the) (?:growing )?team\b/i, strength: 0.6 },
+      { pattern: /\b(?:is|are) (?:looking for|seeking) (?:an? )?(?:senior |staff |principal |lead )?[a-z]+ (?:engineer|manager|director|analyst|specialist|architect|lead)s?\b/i, strength: 0.7 },
+      { pattern: /\bhir(?:e|ed|ing) (?:\d+|dozens of|hundreds of|more) (?:new )?(?:engineers|employees|people|staff|developers|salespeople)\b/i, strength: 0.8 },
+      { pattern: /\b(?:appointed|named|hired|welcomes?) (?:a |an |its |our )?(?:new )?(?:chief [a-z]+ officer|c[eitfors]o|vp|vice president|head of)\b/i, strength: 0.6 },
+      { pattern: /\b(?:headcount|recruiting|talent acquisition|hiring spree|hiring freeze)\b/i, strength: 0.5 },
+      { pattern: /\b(?:layoffs?|laid off|reduction in force|job cuts)\b/i, strength: 0.6 },
+    ],
+  },
+  security: {
+    weight: 0.7,
+    rules: [
+      { pattern: /\b(?:data )?breach(?:es|ed)?\b/i, strength: 0.8 },
+      { pattern: /\b(?:ransomware|malware|phishing|cyber ?attacks?|ddos)\b/i, strength: 0.8 },
+      { pattern: /\bvulnerabilit(?:y|ies)\b|\bcve-\d{4}-\d+\b/i, strength: 0.7 },
+      { pattern: /\bzero[- ]trust\b/i, strength: 0.7 },
+      { pattern: /\b(?:ciso|chief information security officer|security operations center|soc team)\b/i, strength: 0.6 },
+      { pattern: /\b(?:penetration test(?:ing)?|pen ?test|red team|bug bounty)\b/i, strength: 0.7 },
+      { pattern: /\b(?:multi-factor|two-factor|mfa|2fa|single sign-on|sso)\b/i, strength: 0.5 },
+      { pattern: /\b(?:encrypt(?:ion|ed)|end-to-end encrypted|at rest and in transit)\b/i, strength: 0.5 },
+      { pattern: /\b(?:threat detection|incident response|endpoint (?:detection|protection)|edr|siem|xdr)\b/i, strength: 0.6 },
+      { pattern: /\bsecurity (?:incident|posture|program|team|controls?)\b/i, strength: 0.5 },
+    ],
+  },
+  compliance: {
+    weight: 0.65,
+    rules: [
+      { pattern: /\bsoc ?(?:2|ii|1)(?: type (?:1|2|i|ii))?\b/i, strength: 0.85 },
+      { pattern: /\biso(?:\/iec)? ?27001\b|\biso ?27701\b|\biso ?9001\b/i, strength: 0.85 },
+      { pattern: /\b(?:gdpr|hipaa|ccpa|cpra|pci[- ]dss|sox|sarbanes-oxley|fedramp|fisma|nist 800-\d+|dora|nis ?2|ferpa|glba)\b/i, strength: 0.8 },
+      { pattern: /\b(?:compliance|compliant|certif(?:ied|ication)|attestation)\b/i, strength: 0.45 },
+      { pattern: /\b(?:regulat(?:or|ors|ory|ion|ions)|audit(?:ed|or|ors|s)?|fined|penalt(?:y|ies)|consent decree)\b/i, strength: 0.4 },
+      { pattern: /\bregulators?(?: [a-z0-9]+){0,4} (?:have |has )?(?:opened|launched|announced|are conducting) (?:an? )?(?:inquir(?:y|ies)|investigations?|probes?)\b|\b(?:enforcement action|consent order|regulatory (?:inquiry|investigation|scrutiny))\b/i, strength: 0.75 },
+      { pattern: /\b(?:data residency|data protection officer|privacy polic(?:y|ies)|data processing agreement)\b/i, strength: 0.5 },
+    ],
+  },
+  financial: {
+    weight: 0.7,
+    rules: [
+      { pattern: /\braised? (?:a |an )?(?:\$[\d.,]+ ?(?:[mb]|million|billion)\b.*?)?(?:seed|series [a-h]|pre-seed|growth) (?:round|funding|financing)?/i, strength: 0.9 },
+      { pattern: /\bseries [a-h] (?:round|funding|financing)\b/i, strength: 0.85 },
+      { pattern: /\b(?:funding round|venture (?:capital|funding)|led by [A-Z][\w&]+ (?:capital|ventures|partners))\b/i, strength: 0.7 },
+      { pattern: /\b(?:revenue|sales|arr|mrr|bookings|earnings|ebitda|net income|operating income)\b.{0,60}\b(?:grew|increased|rose|declined|fell|dropped|of|reached|up|down)\b/i, strength: 0.75 },
+      { pattern: /\b(?:ipo|initial public offering|went public|spac)\b/i, strength: 0.8 },
+      { pattern: /\b(?:valuation|valued at|market cap(?:italization)?)\b/i, strength: 0.7 },
+      { pattern: /\b(?:acquired|acquisition of|acquires|merger with|to acquire)\b/i, strength: 0.6 },
+      { pattern: /\b(?:quarterly|annual|fiscal|q[1-4]) (?:results|earnings|report|revenue|guidance)\b/i, strength: 0.7 },
+      { pattern: /\b(?:profitab(?:le|ility)|cash flow|burn rate|gross margin|operating margin|cost[- ]cutting)\b/i, strength: 0.55 },
+    ],
+  },
+  product: {
+    weight: 0.55,
+    rules: [
+      { pattern: /\b(?:launch(?:ed|es|ing)?|unveil(?:ed|s)?|introduc(?:ed|es|ing)|announc(?:ed|es|ing)) (?:a |an |the |its |our )?(?:new |next-generation |ai-powered )?(?:product|platform|feature|app|service|solution|version|release|api|integration|module|tool)s?\b/i, strength: 0.85 },
+      { pattern: /\b(?:generally available|general availability|now available|public beta|private beta|early access)\b/i, strength: 0.8 },
+      { pattern: /\b(?:product roadmap|roadmap|release notes|changelog|new release)\b/i, strength: 0.6 },
+      { pattern: /\b(?:integrat(?:es|ion|ions) with|native integration|marketplace listing|plugin|sdk)\b/i, strength: 0.55 },
+      { pattern: /\b(?:pricing (?:plan|tier|change)s?|new pricing|free tier|enterprise (?:plan|edition|tier))\b/i, strength: 0.6 },
+      { pattern: /\b(?:customers can now|users can now|now supports|adds support for)\b/i, strength: 0.7 },
+    ],
+  },
+  company: {
+    weight: 0.6,
+    rules: [
+      { pattern: /\b(?:migrat(?:e|es|ed|ing)|mov(?:e|es|ed|ing)|transition(?:s|ed|ing)?) (?:its |our |their )?(?:[a-z-]+ )?(?:workloads|infrastructure|data|applications|systems|platform)? ?(?:to|onto) (?:the )?(?:cloud|kubernetes|aws|azure|gcp|google cloud|microservices|snowflake|databricks|salesforce|sap s\/4hana)\b/i, strength: 0.85 },
+      { pattern: /\b(?:digital transformation|modernization|moderniz(?:e|ing) (?:its|our|their)|legacy (?:systems?|infrastructure|applications?))\b/i, strength: 0.7 },
+      { pattern: /\b(?:adopt(?:ed|s|ing)|deploy(?:ed|s|ing)|roll(?:ed|ing)? out|standardiz(?:ed|ing) on|implement(?:ed|s|ing)) (?:[a-z0-9-]+ ){0,2}(?:kubernetes|terraform|snowflake|databricks|servicenow|workday|salesforce|okta|datadog|generative ai|ai|machine learning|erp|crm)\b/i, strength: 0.75 },
+      { pattern: /\b(?:reorganiz(?:ation|ed|ing)|restructur(?:ing|ed)|new (?:ceo|cto|cio|cfo|leadership)|stepp(?:ed|ing) down|succession)\b/i, strength: 0.7 },
+      { pattern: /\b(?:expan(?:d|ds|ded|ding|sion) (?:into|to|in)|opens? (?:a |an |its )?new (?:office|headquarters|data center|facility)|entered the [a-z]+ market)\b/i, strength: 0.7 },
+      { pattern: /\b(?:strategic (?:partnership|priority|priorities|initiative)|partner(?:s|ed|ship) with|three-year plan|annual strategy)\b/i, strength: 0.6 },
+      { pattern: /\b(?:our|the company'?s?|its) (?:biggest|key|main|top) (?:challenge|priority|priorities|initiative|focus)\b/i, strength: 0.7 },
+      { pattern: /\b(?:struggl(?:e|es|ed|ing) (?:with|to)|bottleneck|pain point|manual process(?:es)?|technical debt|outage)\b/i, strength: 0.6 },
+    ],
+  },
+  industry: {
+    weight: 0.5,
+    rules: [
+      { pattern: /\b(?:market (?:size|share|growth|is expected|is projected|will reach)|total addressable market|tam)\b/i, strength: 0.75 },
+      { pattern: /\b(?:cagr|compound annual growth rate)\b/i, strength: 0.85 },
+      { pattern: /\b(?:industry|sector|market)(?:-wide| trends?| analysts?| leaders?| consolidation| report| survey| outlook)\b/i, strength: 0.7 },
+      { pattern: /\b(?:gartner|forrester|idc|mckinsey|deloitte|bain|bcg|statista)\b/i, strength: 0.6 },
+      { pattern: /\b(?:analysts? (?:expect|predict|estimate|forecast)|is expected to (?:grow|reach|double)|by 20[2-4]\d)\b/i, strength: 0.6 },
+      { pattern: /\b(?:competitors?|competitive landscape|incumbents?|new entrants|disrupt(?:ion|ed|ing|ors?))\b/i, strength: 0.5 },
+      { pattern: /\b(?:across the industry|companies in the|organizations (?:are|across)|most enterprises|percent of (?:companies|organizations|enterprises|respondents))\b/i, strength: 0.65 },
+    ],
+  },
+};
+
+// Sentences scoring below this for a kind are not reported as that kind
+const MIN_SIGNAL_SCORE = 0.5;
+const MAX_SIGNALS_PER_KIND = 2;
+const MAX_SIGNALS = 8;
+const MAX_KINDS_PER_SENTENCE = 2;
+const MIN_SENTENCE_CHARS = 30;
+const MAX_SENTENCE_CHARS = 500;
+const MAX_KEY_QUOTES = 3;
+const MAX_TOPICS = 5;
+const MAX_TOPIC_CHARS = 60; // The analysis schema's topic limit; longer terms are tokens like URLs or hashes
+
+// Words that never make a topic on their own
+const STOPWORDS = new Set(`
+  about above after again against also among because been before being below between both but can could did does doing down during each
+  every few for from further had has have having her here hers him his how into its itself just more most much must our ours out over
+  own same she should some such than that the their theirs them then there these they this those through too under until very was were
+  what when where which while who whom why will with would you your yours all any and are not nor now off once only other per via
+  new one two three first last next year years month months week today company companies inc ltd llc corp team teams customer
+  customers people use used using make made help helps including based well like get across within without many way ways
+  said says announced plans plan still relies rely operate operates run runs grew grow grows rose fell expected according
+`.trim().split(/\s+/));
+
+export interface RuleSignalMatch {
+  kind: SignalKind;
+  text: string;
+  score: number; // 0-1 combined rule evidence for the kind
+  sentenceIndex: number;
+}
+
+/**
+ * Split text into sentences, keeping paragraph breaks as boundaries
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .flatMap(paragraph => paragraph.match(/(?:[^.!?]|[.!?]+(?=[^\s.!?"'”’)]))+(?:[.!?]+["'”’)]*|$)/g) ?? [])
+    .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+    .filter(sentence => sentence.length >= MIN_SENTENCE_CHARS);
+}
+
+/**
+ * Specificity of a sentence: concrete figures and named time frames make a signal more useful
+ */
+function specificity(sentence: string): number {
+  let bonus = 0;
+  if (/[$€£]\s?\d|\d+(?:\.\d+)?\s?(?:%|percent|million|billion|[mb]n?\b)/i.test(sentence)) bonus += 0.1;
+  if (/\b(?:19|20)\d{2}\b|\bq[1-4]\b|\b(?:this|next|last) (?:year|quarter|month)\b/i.test(sentence)) bonus += 0.05;
+  return bonus;
+}
+
+/**
+ * Score one sentence for one kind
+ * Independent rule matches combine as 1 - Π(1 - strength), so corroborating
+ * patterns raise the score with diminishing returns
+ */
+function scoreSentence(sentence: string, profile: KindProfile): number {
+  let miss = 1;
+  for (const rule of profile.rules) {
+    if (rule.pattern.test(sentence)) miss *= 1 - rule.strength;
+  }
+  const score = 1 - miss;
+  return score > 0 ? Math.min(1, score + specificity(sentence)) : 0;
+}
+
+/**
+ * Map a raw rule score to a calibrated confidence
+ * A single strong pattern (≈0.85) lands above 0.8; weak lone keywords stay below 0.5
+ */
+export function calibrateConfidence(score: number): number {
+  const confidence = 0.3 + 0.6 / (1 + Math.exp(-8 * (score - 0.6)));
+  return Math.round(confidence * 100) / 100;
+}
+
+/**
+ * Find the best-supported sentences for every signal kind
+ * @param text - Clean document text
+ * @returns Matches ordered by score, at most MAX_SIGNALS_PER_KIND per kind
+ */
+export function matchRuleSignals(text: string): RuleSignalMatch[] {
+  const sentences = splitSentences(text);
+  const matches: RuleSignalMatch[] = [];
+
+  for (const kind of Object.keys(KIND_PROFILES) as SignalKind[]) {
+    const profile = KIND_PROFILES[kind];
+    const seen = new Set<string>();
+
+    const kindMatches = sentences
+      .map((sentence, sentenceIndex) => ({
+        kind,
+        text: sentence.length > MAX_SENTENCE_CHARS ? `${sentence.substring(0, MAX_SENTENCE_CHARS - 1)}…` : sentence,
+        score: scoreSentence(sentence, profile),
+        sentenceIndex,
+      }))
+      .filter(match => match.score >= MIN_SIGNAL_SCORE)
+      .sort((a, b) => b.score - a.score || a.sentenceIndex - b.sentenceIndex)
+      .filter(match => {
+        // Repeated boilerplate sentences count once
+        const key = match.text.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, MAX_SIGNALS_PER_KIND);
+
+    matches.push(...kindMatches);
+  }
+
+  return matches.sort((a, b) => b.score - a.score || a.sentenceIndex - b.sentenceIndex);
+}
+
+/**
+ * Extract a summary and signals without a model
+ * @param text - Clean document text
+ * @returns Analysis in the same shape the LLM backend returns, with key quotes and topics
+ */
+export function extractRuleSignals(text: string): SignalAnalysisType {
+  const matches = matchRuleSignals(text);
+
+  // A sentence supporting several kinds is reported under its strongest kinds only
+  const kindsPerSentence = new Map<number, number>();
+  const selected = matches.filter(match => {
+    const used = kindsPerSentence.get(match.sentenceIndex) ?? 0;
+    if (used >= MAX_KINDS_PER_SENTENCE) return false;
+    kindsPerSentence.set(match.sentenceIndex, used + 1);
+    return true;
+  }).slice(0, MAX_SIGNALS);
+
+  const signals = selected.map(match => ({
+    kind: match.kind,
+    text: match.text,
+    confidence: calibrateConfidence(match.score),
+    weight: Math.round(Math.min(1, KIND_PROFILES[match.kind].weight + specificity(match.text)) * 100) / 100,
+  }));
+
+  // Extractive summary: the two strongest signal sentences in document order, else the opening
+  const summaryIndexes = Array.from(new Set(selected.map(match => match.sentenceIndex))).slice(0, 2).sort((a, b) => a - b);
+  const sentences = splitSentences(text);
+  const summarySentences = summaryIndexes.length > 0
+    ? summaryIndexes.map(index => sentences[index])
+    : sentences.slice(0, 2);
+  const summary = (summarySentences.join(' ') || 'No substantive content found.').substring(0, 1000);
+
+  // Key quotes: the best-supported sentences, verbatim
+  const keyQuotes = Array.from(new Set(selected.map(match => match.text))).slice(0, MAX_KEY_QUOTES);
+
+  console.log(`src/lib/rule-extractor.ts: Extracted ${signals.length} rule-based signals`);
+
+  return { summary, signals, keyQuotes, topics: detectTopics(text) };
+}
+
+/**
+ * Detect the document's main topics from recurring terms
+ * Two-word phrases that recur outrank single words; terms sharing a word
+ * with an already chosen topic are skipped, as are terms over MAX_TOPIC_CHARS
+ * @param text - Clean document text
+ * @returns Up to MAX_TOPICS lower-case terms, most frequent first
+ */
+export function detectTopics(text: string): string[] {
+  const counts = new Map<string, number>();
+  const count = (term: string, by: number) => counts.set(term, (counts.get(term) ?? 0) + by);
+
+  for (const sentence of splitSentences(text)) {
+    const words = sentence.toLowerCase().match(/[a-z][a-z0-9+-]*[a-z0-9+]/g) ?? [];
+    words.forEach((word, index) => {
+      if (word.length < 4 || STOPWORDS.has(word)) return;
+      count(word, 1);
+      const next = words[index + 1];
+      if (next && next.length >= 3 && !STOPWORDS.has(next)) count(`${word} ${next}`, 1.5);
+    });
+  }
+
+  const ranked = Array.from(counts.entries())
+    .filter(([term, weight]) => weight >= 2 && term.length <= MAX_TOPIC_CHARS)
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1));
+
+  const topics: string[] = [];
+  for (const [term] of ranked) {
+    if (topics.length >= MAX_TOPICS) break;
+    const words = term.split(' ');
+    if (topics.some(topic => topic.split(' ').some(word => words.includes(word)))) continue;
+    topics.push(term);
+  }
+  return topics;
+}
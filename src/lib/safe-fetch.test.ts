@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+interface Route {
+  status: number;
+  headers?: Record<string, string>;
+  body?: string;
+  hang?: boolean; // Never respond
+}
+
+const { addresses, routes } = vi.hoisted(() => ({
+  addresses: new Map<string, string>(),
+  routes: new Map<string, Route>(),
+}));
+
+// Resolve hostnames from the fixture table instead of the network
+vi.mock('dns', () => ({
+  default: {
+    lookup: (hostname: string, _options: object, callback: (error: Error | null, addresses?: Array<{ address: string; family: number }>) => void) => {
+      const address = addresses.get(hostname);
+      if (!address) return callback(Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' }));
+      callback(null, [{ address, family: address.includes(':') ? 6 : 4 }]);
+    },
+  },
+}));
+
+// Requests run the real safe lookup, then answer from the fixture routes
+vi.mock('http', async () => {
+  type Lookup = (hostname: string, options: object, callback: (error: Error | null) => void) => void;
+  const { EventEmitter } = await import('events');
+  const { PassThrough } = await import('stream');
+
+  class FixtureRequest extends EventEmitter {
+    constructor(private url: URL, private options: { lookup: Lookup }) {
+      super();
+    }
+
+    destroy(error?: Error) {
+      if (error) this.emit('error', error);
+      this.emit('close');
+      return this;
+    }
+
+    end() {
+      this.options.lookup(this.url.hostname, {}, (error: Error | null) => {
+        if (error) return this.destroy(error);
+        const route = routes.get(this.url.toString());
+        if (!route) return this.destroy(new Error(`No fixture route for ${this.url}`));
+        if (route.hang) return;
+
+        const response = Object.assign(new PassThrough(), { statusCode: route.status, headers: route.headers ?? {} });
+        this.emit('response', response);
+        response.end(route.body ?? '');
+      });
+    }
+  }
+
+  return { default: { request: (url: URL, options: { lookup: Lookup }) => new FixtureRequest(url, options) } };
+});
+
+import { isBlockedAddress, safeFetch, SafeFetchBlockedError } from './safe-fetch';
+
+afterEach(() => {
+  addresses.clear();
+  routes.clear();
+});
+
+describe('isBlockedAddress', () => {
+  it.each([
+    ['10.1.2.3', 'private'],
+    ['172.16.0.1', 'private'],
+    ['192.168.1.10', 'private'],
+    ['127.0.0.1', 'loopback'],
+    ['::1', 'IPv6 loopback'],
+    ['169.254.169.254', 'link-local (cloud metadata)'],
+    ['fe80::1', 'IPv6 link-local'],
+    ['fd00::1', 'IPv6 unique local'],
+    ['::ffff:127.0.0.1', 'IPv4-mapped loopback'],
+    ['::ffff:a00:1', 'IPv4-mapped private in hex form'],
+    ['not-an-ip', 'not an address'],
+  ])('blocks %s (%s)', address => {
+    expect(isBlockedAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.216.34', '2606:4700::1111', '::ffff:93.184.216.34'])('allows public address %s', address => {
+    expect(isBlockedAddress(address)).toBe(false);
+  });
+});
+
+describe('safeFetch', () => {
+  const blockedCode = (promise: Promise<unknown>) => promise.then(
+    () => 'resolved',
+    error => (error instanceof SafeFetchBlockedError ? error.code : error.message)
+  );
+
+  it('follows redirects between public hosts', async () => {
+    addresses.set('contoso.com', '93.184.216.34');
+    addresses.set('www.contoso.com', '93.184.216.35');
+    routes.set('http://contoso.com/', { status: 301, headers: { location: 'http://www.contoso.com/' } });
+    routes.set('http://www.contoso.com/', { status: 200, headers: { 'content-type': 'text/html; charset=utf-8' }, body: '<p>Hello</p>' });
+
+    const response = await safeFetch('http://contoso.com/');
+
+    expect(response.url).toBe('http://www.contoso.com/');
+    expect(response.text()).toBe('<p>Hello</p>');
+  });
+
+  it('blocks private and IPv4-mapped address literals before connecting', async () => {
+    await expect(blockedCode(safeFetch('http://10.0.0.5/'))).resolves.toBe('BLOCKED_ADDRESS');
+    await expect(blockedCode(safeFetch('http://[::ffff:127.0.0.1]/'))).resolves.toBe('BLOCKED_ADDRESS');
+    await expect(blockedCode(safeFetch('http://169.254.169.254/latest/meta-data/'))).resolves.toBe('BLOCKED_ADDRESS');
+  });
+
+  it('blocks hostnames that resolve to private addresses', async () => {
+    addresses.set('intranet.contoso.com', '192.168.0.20');
+
+    await expect(blockedCode(safeFetch('http://intranet.contoso.com/'))).resolves.toBe('BLOCKED_ADDRESS');
+  });
+
+  it('blocks a redirect into a private range', async () => {
+    addresses.set('contoso.com', '93.184.216.34');
+    addresses.set('internal.contoso.com', '10.0.0.8');
+    routes.set('http://contoso.com/', { status: 302, headers: { location: 'http://internal.contoso.com/admin' } });
+    routes.set('http://contoso.com/literal', { status: 302, headers: { location: 'http://127.0.0.1/' } });
+
+    await expect(blockedCode(safeFetch('http://contoso.com/'))).resolves.toBe('BLOCKED_ADDRESS');
+    await expect(blockedCode(safeFetch('http://contoso.com/literal'))).resolves.toBe('BLOCKED_ADDRESS');
+  });
+
+  it('rejects disallowed content types', async () => {
+    addresses.set('contoso.com', '93.184.216.34');
+    routes.set('http://contoso.com/setup.exe', { status: 200, headers: { 'content-type': 'application/octet-stream' }, body: 'MZ' });
+
+    await expect(blockedCode(safeFetch('http://contoso.com/setup.exe', { allowedContentTypes: ['text/html'] })))
+      .resolves.toBe('BLOCKED_CONTENT_TYPE');
+  });
+
+  it('caps the response size by declared length and by bytes received', async () => {
+    addresses.set('contoso.com', '93.184.216.34');
+    routes.set('http://contoso.com/declared', { status: 200, headers: { 'content-length': '2048' }, body: 'x'.repeat(2048) });
+    routes.set('http://contoso.com/streamed', { status: 200, body: 'x'.repeat(2048) });
+
+    await expect(blockedCode(safeFetch('http://contoso.com/declared', { maxBytes: 1024 }))).resolves.toBe('RESPONSE_TOO_LARGE');
+    await expect(blockedCode(safeFetch('http://contoso.com/streamed', { maxBytes: 1024 }))).resolves.toBe('RESPONSE_TOO_LARGE');
+  });
+
+  it('gives up once the overall deadline passes', async () => {
+    addresses.set('contoso.com', '93.184.216.34');
+    routes.set('http://contoso.com/slow', { status: 200, hang: true });
+
+    await expect(safeFetch('http://contoso.com/slow', { deadlineMs: 50 })).rejects.toThrow('Fetch timed out after 50ms');
+  });
+});
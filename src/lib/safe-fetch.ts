@@ -0,0 +1,296 @@
+/**
+ * src/lib/safe-fetch.ts: SSRF-safe outbound HTTP fetching
+ *
+ * Fetches user-supplied URLs without reaching internal infrastructure:
+ * every hostname is resolved and checked against private, loopback and
+ * link-local ranges at connect time (so each redirect hop is re-checked
+ * and DNS rebinding cannot swap the address), redirects are capped,
+ * ports are restricted, response size and content type are bounded, and
+ * the whole fetch (every hop and its body) runs under one deadline.
+ */
+
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import zlib from 'zlib';
+
+export type SafeFetchBlockCode =
+  | 'INVALID_URL'
+  | 'BLOCKED_PROTOCOL'
+  | 'BLOCKED_PORT'
+  | 'BLOCKED_ADDRESS'
+  | 'TOO_MANY_REDIRECTS'
+  | 'BLOCKED_CONTENT_TYPE'
+  | 'RESPONSE_TOO_LARGE'
+  | 'ROBOTS_DISALLOWED';
+
+/**
+ * Raised when a request is refused by a safety policy (as opposed to a
+ * network or HTTP failure); blocked requests should not be retried
+ */
+export class SafeFetchBlockedError extends Error {
+  constructor(public code: SafeFetchBlockCode, message: string, public url: string) {
+    super(message);
+    this.name = 'SafeFetchBlockedError';
+  }
+}
+
+export interface SafeFetchOptions {
+  headers?: Record<string, string>;
+  allowedContentTypes?: string[];
+  maxBytes?: number;
+  maxRedirects?: number;
+  followRedirects?: boolean; // false returns redirect responses to the caller (default true)
+  timeoutMs?: number; // Socket idle timeout for each request
+  deadlineMs?: number; // Total time for the fetch, including redirects and reading the body
+}
+
+export interface SafeFetchResponse {
+  url: string; // Final URL after redirects
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  contentType: string;
+  body: Buffer;
+  text(): string;
+}
+
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+export const DEFAULT_MAX_REDIRECTS = 5;
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_DEADLINE_MS = 60000;
+
+// Ports outbound fetches may use; override with FETCH_ALLOWED_PORTS=80,443,8080
+const ALLOWED_PORTS = (process.env.FETCH_ALLOWED_PORTS || '80,443')
+  .split(',')
+  .map(port => parseInt(port.trim()))
+  .filter(port => !isNaN(port));
+
+// Non-public address ranges (RFC 6890 special-purpose registries)
+const blockedAddresses = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24],
+  ['192.88.99.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24],
+  ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['100::', 64],
+  ['2001::', 23], ['2001:db8::', 32], ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv6'));
+
+/**
+ * Check whether an IP address is private, loopback, link-local or otherwise non-public
+ * @param address - IPv4 or IPv6 address
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+
+  // IPv4-mapped IPv6 (::ffff:a.b.c.d) is checked as the embedded IPv4 address
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return blockedAddresses.check(mapped[1], 'ipv4');
+
+  return blockedAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * DNS lookup that refuses to connect to non-public addresses
+ * Used as the socket lookup so the checked address is the one connected to
+ */
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+
+    const list = addresses as dns.LookupAddress[];
+    const blocked = list.find(entry => isBlockedAddress(entry.address));
+    if (list.length === 0 || blocked) {
+      return callback(
+        new SafeFetchBlockedError('BLOCKED_ADDRESS', `${hostname} resolves to non-public address ${blocked?.address ?? '(none)'}`, hostname) as NodeJS.ErrnoException,
+        '',
+        0
+      );
+    }
+
+    if (options.all) {
+      callback(null, list as unknown as string, 0);
+    } else {
+      callback(null, list[0].address, list[0].family);
+    }
+  });
+};
+
+/**
+ * Validate a URL's protocol, port and (for IP literals) address before connecting
+ */
+function assertUrlAllowed(url: URL) {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new SafeFetchBlockedError('BLOCKED_PROTOCOL', `Protocol ${url.protocol} is not allowed`, url.toString());
+  }
+
+  const port = url.port ? parseInt(url.port) : url.protocol === 'https:' ? 443 : 80;
+  if (!ALLOWED_PORTS.includes(port)) {
+    throw new SafeFetchBlockedError('BLOCKED_PORT', `Port ${port} is not allowed`, url.toString());
+  }
+
+  if (url.username || url.password) {
+    throw new SafeFetchBlockedError('INVALID_URL', 'URLs with credentials are not allowed', url.toString());
+  }
+
+  // IP literals skip DNS lookup, so check them directly
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(hostname) && isBlockedAddress(hostname)) {
+    throw new SafeFetchBlockedError('BLOCKED_ADDRESS', `Address ${hostname} is not public`, url.toString());
+  }
+}
+
+/**
+ * Perform a single HTTP request (no redirect handling) with size and time limits
+ * Aborting `signal` destroys the request and rejects with the signal's reason
+ */
+function requestOnce(
+  url: URL,
+  options: Required<Omit<SafeFetchOptions, 'allowedContentTypes'>> & Pick<SafeFetchOptions, 'allowedContentTypes'>,
+  signal: AbortSignal
+) {
+  return new Promise<{ status: number; headers: http.IncomingHttpHeaders; body: Buffer }>((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.request(url, {
+      method: 'GET',
+      headers: { 'Accept-Encoding': 'gzip, deflate, br', ...options.headers },
+      lookup: safeLookup,
+      timeout: options.timeoutMs,
+    });
+
+    const abort = () => {
+      request.destroy();
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', abort, { once: true });
+    request.on('close', () => signal.removeEventListener('abort', abort));
+
+    request.on('timeout', () => request.destroy(new Error(`Request timed out after ${options.timeoutMs}ms`)));
+    request.on('error', reject);
+
+    request.on('response', response => {
+      const status = response.statusCode || 0;
+
+      // Redirect and not-modified responses carry no body worth reading
+      if ((status >= 300 && status < 400) || status === 304) {
+        response.resume();
+        return resolve({ status, headers: response.headers, body: Buffer.alloc(0) });
+      }
+
+      const mimeType = (response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+      if (status < 400 && options.allowedContentTypes && !options.allowedContentTypes.includes(mimeType)) {
+        response.destroy();
+        return reject(new SafeFetchBlockedError('BLOCKED_CONTENT_TYPE', `Content type ${mimeType || 'unknown'} is not allowed`, url.toString()));
+      }
+
+      const declaredLength = parseInt(response.headers['content-length'] || '0');
+      if (declaredLength > options.maxBytes) {
+        response.destroy();
+        return reject(new SafeFetchBlockedError('RESPONSE_TOO_LARGE', `Response of ${declaredLength} bytes exceeds ${options.maxBytes}`, url.toString()));
+      }
+
+      // Decompress while counting, so compressed bombs are also bounded
+      const encoding = (response.headers['content-encoding'] || '').toLowerCase();
+      const stream =
+        encoding === 'gzip' ? response.pipe(zlib.createGunzip()) :
+        encoding === 'deflate' ? response.pipe(zlib.createInflate()) :
+        encoding === 'br' ? response.pipe(zlib.createBrotliDecompress()) :
+        response;
+
+      const chunks: Buffer[] = [];
+      let received = 0;
+
+      stream.on('data', (chunk: Buffer) => {
+        received += chunk.length;
+        if (received > options.maxBytes) {
+          response.destroy();
+          stream.destroy();
+          reject(new SafeFetchBlockedError('RESPONSE_TOO_LARGE', `Response exceeds ${options.maxBytes} bytes`, url.toString()));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      stream.on('error', reject);
+      stream.on('end', () => resolve({ status, headers: response.headers, body: Buffer.concat(chunks) }));
+    });
+
+    request.end();
+  });
+}
+
+/**
+ * Decode a response body using the charset from its content type
+ */
+function decodeBody(body: Buffer, contentType: string): string {
+  const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1] || 'utf-8';
+  try {
+    return new TextDecoder(charset).decode(body);
+  } catch {
+    return body.toString('utf8');
+  }
+}
+
+/**
+ * Fetch a URL with SSRF protections, following redirects manually
+ * @param input - URL to fetch
+ * @param options - Headers and limits; allowedContentTypes restricts successful responses
+ * @returns Final response (including 304 and error statuses, and redirects when followRedirects is false)
+ * @throws SafeFetchBlockedError when a safety policy refuses the request
+ */
+export async function safeFetch(input: string, options: SafeFetchOptions = {}): Promise<SafeFetchResponse> {
+  const limits = {
+    headers: options.headers || {},
+    allowedContentTypes: options.allowedContentTypes,
+    maxBytes: options.maxBytes ?? DEFAULT_MAX_BYTES,
+    maxRedirects: options.maxRedirects ?? DEFAULT_MAX_REDIRECTS,
+    followRedirects: options.followRedirects ?? true,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    deadlineMs: options.deadlineMs ?? DEFAULT_DEADLINE_MS,
+  };
+
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new SafeFetchBlockedError('INVALID_URL', 'Invalid URL', input);
+  }
+
+  // The socket timeout only bounds idle time, so a slow trickle could run indefinitely
+  const deadline = new AbortController();
+  const timer = setTimeout(() => deadline.abort(new Error(`Fetch timed out after ${limits.deadlineMs}ms`)), limits.deadlineMs);
+
+  try {
+    for (let hop = 0; ; hop++) {
+      assertUrlAllowed(url);
+
+      const response = await requestOnce(url, limits, deadline.signal);
+      const location = response.headers.location;
+
+      if (limits.followRedirects && response.status >= 300 && response.status < 400 && response.status !== 304 && location) {
+        if (hop >= limits.maxRedirects) {
+          throw new SafeFetchBlockedError('TOO_MANY_REDIRECTS', `More than ${limits.maxRedirects} redirects`, url.toString());
+        }
+        url = new URL(location, url);
+        continue;
+      }
+
+      const contentType = response.headers['content-type'] || '';
+      return {
+        url: url.toString(),
+        status: response.status,
+        headers: response.headers,
+        contentType,
+        body: response.body,
+        text: () => decodeBody(response.body, contentType),
+      };
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
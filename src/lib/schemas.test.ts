@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { EvidenceCreate } from './schemas';
+
+const PROJECT_ID = '11111111-1111-4111-8111-111111111111';
+const FILE_KEY = `projects/${PROJECT_ID}/evidence/22222222-2222-4222-8222-222222222222/report.pdf`;
+
+describe('EvidenceCreate', () => {
+  it('accepts a file key on file evidence', () => {
+    expect(EvidenceCreate.parse({ projectId: PROJECT_ID, type: 'file', title: 'Q3 report', fileKey: FILE_KEY }).fileKey).toBe(FILE_KEY);
+  });
+
+  it('rejects a file key on notes and URL evidence', () => {
+    const note = EvidenceCreate.safeParse({ projectId: PROJECT_ID, type: 'note', title: 'Call notes', fileKey: FILE_KEY });
+    const url = EvidenceCreate.safeParse({ projectId: PROJECT_ID, type: 'url', title: 'Blog', url: 'https://acme.com/blog', fileKey: FILE_KEY });
+
+    expect(note.success).toBe(false);
+    expect(note.error?.issues[0].path).toEqual(['fileKey']);
+    expect(url.success).toBe(false);
+  });
+});
@@ -55,25 +55,63 @@ export const EvidenceSource = z.object({
   projectId: UUID,
   type: z.enum(["url", "file", "note"]),
   url: z.string().url().optional(),
+  canonicalUrl: z.string().url().optional(),
+  urlHash: z.string().optional(),
+  canonicalUrlHash: z.string().optional(),
+  simhash: z.string().optional(),
+  duplicateOfId: UUID.optional(),
+  duplicateSimilarity: z.number().min(0).max(1).optional(),
   fileKey: z.string().optional(),
   title: z.string().min(1).max(200),
   author: z.string().max(100).optional(),
   publishedAt: z.string().datetime().optional(),
   snippet: z.string().max(1000).optional(),
+  summary: z.string().max(1000).optional(),
+  keyQuotes: z.array(z.string().max(500)).optional(),
+  topics: z.array(z.string().max(60)).optional(),
+  analyzedBy: z.string().max(100).optional(),
+  analyzedAt: z.string().datetime().optional(),
   contentHash: z.string(),
   approved: z.boolean().default(false),
+  scannedAt: z.string().datetime().optional(),
+  rejectedReason: z.string().max(300).optional(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
 });
 
 export const EvidenceCreate = EvidenceSource.omit({
   id: true,
+  canonicalUrl: true,
+  urlHash: true,
+  canonicalUrlHash: true,
+  simhash: true,
+  duplicateOfId: true,
+  duplicateSimilarity: true,
+  summary: true,
+  keyQuotes: true,
+  topics: true,
+  analyzedBy: true,
+  analyzedAt: true,
   contentHash: true,
   approved: true,
+  scannedAt: true,
+  rejectedReason: true,
   createdAt: true,
   updatedAt: true,
+}).refine(evidence => evidence.type === 'file' || evidence.fileKey === undefined, {
+  // Only file evidence confirms an upload; other types must not reference stored objects
+  message: 'fileKey is only accepted for file evidence',
+  path: ['fileKey'],
 });
 
+export const EvidenceUpdate = EvidenceSource.pick({
+  url: true,
+  title: true,
+  author: true,
+  publishedAt: true,
+  snippet: true,
+}).partial();
+
 // Signal schema for extracted insights from evidence
 export const Signal = z.object({
   id: UUID,
@@ -204,6 +242,70 @@ export const OutreachAssetCreate = OutreachAsset.omit({
   updatedAt: true,
 });
 
+// Hiring record query filters (search params)
+export const HiringQuery = z.object({
+  department: z.enum([
+    "engineering",
+    "devops",
+    "security",
+    "data",
+    "product",
+    "design",
+    "sales",
+    "marketing",
+    "customer_success",
+    "finance",
+    "people",
+    "legal",
+    "operations",
+    "other"
+  ]).optional(),
+  seniority: z.enum([
+    "intern",
+    "junior",
+    "mid",
+    "senior",
+    "lead",
+    "manager",
+    "director",
+    "executive"
+  ]).optional(),
+  technology: z.string().min(1).max(50).optional(),
+  days: z.coerce.number().int().min(1).max(3650).optional(),
+});
+
+// Enrichment request
+export const EnrichmentRequest = z.object({
+  types: z.array(z.enum(["news", "crunchbase", "techstack", "sec_filings"])).min(1).max(4),
+});
+
+// Company profile manual update (null clears a field)
+export const CompanyProfileUpdate = z.object({
+  industryName: z.string().min(1).max(100).nullable(),
+  naicsCode: z.string().regex(/^\d{2,6}$/, "NAICS codes have 2-6 digits").nullable(),
+  sicCode: z.string().regex(/^\d{4}$/, "SIC codes have 4 digits").nullable(),
+  employeeBand: z.enum(["1-10", "11-50", "51-200", "201-500", "501-1000", "1001-5000", "5001-10000", "10001+"]).nullable(),
+  employeeCount: z.number().int().min(1).nullable(),
+  hqCity: z.string().min(1).max(100).nullable(),
+  hqRegion: z.string().min(1).max(100).nullable(),
+  hqCountry: z.string().min(1).max(100).nullable(),
+  revenueBand: z.enum(["<1M", "1M-10M", "10M-50M", "50M-100M", "100M-500M", "500M-1B", "1B-10B", "10B+"]).nullable(),
+  fundingStage: z.enum([
+    "bootstrapped",
+    "pre_seed",
+    "seed",
+    "series_a",
+    "series_b",
+    "series_c",
+    "series_d_plus",
+    "private_equity",
+    "public"
+  ]).nullable(),
+  ownership: z.enum(["public", "private"]).nullable(),
+  stockTicker: z.string().regex(/^[A-Z0-9.\-]{1,10}$/, "Use the exchange ticker, e.g. ACME").nullable(),
+  subsidiaries: z.array(z.string().min(1).max(100)).max(100).nullable(),
+}).partial();
+
 // API response schemas
 export const ApiError = z.object({
   type: z.string().default("about:blank"),
@@ -224,6 +326,7 @@ export type ProjectCreateType = z.infer<typeof ProjectCreate>;
 export type ProjectUpdateType = z.infer<typeof ProjectUpdate>;
 export type EvidenceSourceType = z.infer<typeof EvidenceSource>;
 export type EvidenceCreateType = z.infer<typeof EvidenceCreate>;
+export type EvidenceUpdateType = z.infer<typeof EvidenceUpdate>;
 export type SignalType = z.infer<typeof Signal>;
 export type SignalCreateType = z.infer<typeof SignalCreate>;
 export type PainType = z.infer<typeof Pain>;
@@ -235,5 +338,8 @@ export type StakeholderType = z.infer<typeof Stakeholder>;
 export type StakeholderCreateType = z.infer<typeof StakeholderCreate>;
 export type OutreachAssetType = z.infer<typeof OutreachAsset>;
 export type OutreachAssetCreateType = z.infer<typeof OutreachAssetCreate>;
+export type HiringQueryType = z.infer<typeof HiringQuery>;
+export type EnrichmentRequestType = z.infer<typeof EnrichmentRequest>;
+export type CompanyProfileUpdateType = z.infer<typeof CompanyProfileUpdate>;
 export type ApiErrorType = z.infer<typeof ApiError>;
 export type ApiSuccessType = z.infer<typeof ApiSuccess>;
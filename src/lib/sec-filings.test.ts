@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { prisma, updateCompanyProfile } = vi.hoisted(() => ({
+  prisma: {
+    project: { findUniqueOrThrow: vi.fn() },
+    financialMetric: { deleteMany: vi.fn(), createMany: vi.fn() },
+    signal: { deleteMany: vi.fn(), createMany: vi.fn() },
+    evidence: { update: vi.fn() },
+    $transaction: vi.fn(async () => []),
+  },
+  updateCompanyProfile: vi.fn(async () => ({ updatedFields: ['ownership', 'stockTicker'] })),
+}));
+
+vi.mock('./db', () => ({ prisma }));
+vi.mock('./company-profile', async importOriginal => ({
+  ...(await importOriginal<typeof import('./company-profile')>()),
+  updateCompanyProfile,
+}));
+
+import { isCompanyFiling, parseInlineXbrl, parseSecFiling, recordSecFiling } from './sec-filings';
+
+const context = (id: string, period: string, segment = '') =>
+  `<xbrli:context id="${id}"><xbrli:entity><xbrli:identifier scheme="http://www.sec.gov/CIK">0001234567</xbrli:identifier>${segment}</xbrli:entity><xbrli:period>${period}</xbrli:period></xbrli:context>`;
+const fact = (name: string, contextRef: string, value: string, extra = '') =>
+  `<ix:nonFraction name="${name}" contextRef="${contextRef}" unitRef="usd" scale="6" ${extra}>${value}</ix:nonFraction>`;
+
+const FILING_HTML = `<html><body><div style="display:none"><ix:header><ix:hidden>
+<ix:nonNumeric name="dei:DocumentType" contextRef="fy2025">10-K</ix:nonNumeric>
+<ix:nonNumeric name="dei:DocumentFiscalYearFocus" contextRef="fy2025">2025</ix:nonNumeric>
+<ix:nonNumeric name="dei:DocumentFiscalPeriodFocus" contextRef="fy2025">FY</ix:nonNumeric>
+<ix:nonNumeric name="dei:DocumentPeriodEndDate" contextRef="fy2025">2025-12-31</ix:nonNumeric>
+<ix:nonNumeric name="dei:TradingSymbol" contextRef="fy2025">nwnd</ix:nonNumeric>
+<ix:nonNumeric name="dei:EntityCentralIndexKey" contextRef="fy2025">0001234567</ix:nonNumeric>
+</ix:hidden><ix:resources>
+${context('fy2025', '<xbrli:startDate>2025-01-01</xbrli:startDate><xbrli:endDate>2025-12-31</xbrli:endDate>')}
+${context('fy2024', '<xbrli:startDate>2024-01-01</xbrli:startDate><xbrli:endDate>2024-12-31</xbrli:endDate>')}
+${context('fy2025-cloud', '<xbrli:startDate>2025-01-01</xbrli:startDate><xbrli:endDate>2025-12-31</xbrli:endDate>', '<xbrli:segment><xbrldi:explicitMember dimension="srt:ProductOrServiceAxis">nwnd:CloudMember</xbrldi:explicitMember></xbrli:segment>')}
+${context('dec2025', '<xbrli:instant>2025-12-31</xbrli:instant>')}
+<xbrli:unit id="usd"><xbrli:measure>iso4217:USD</xbrli:measure></xbrli:unit>
+</ix:resources></ix:header></div>
+<div>UNITED STATES SECURITIES AND EXCHANGE COMMISSION</div>
+<div>FORM 10-K</div>
+<div><ix:nonNumeric name="dei:EntityRegistrantName" contextRef="fy2025">Northwind Traders, Inc.</ix:nonNumeric></div>
+<div>Item 8. Financial Statements and Supplementary Data</div>
+<table>
+<tr><td>Revenue</td><td>${fact('us-gaap:Revenues', 'fy2025', '1,200.0')}</td><td>${fact('us-gaap:Revenues', 'fy2024', '1,000.0')}</td></tr>
+<tr><td>Cloud revenue</td><td>${fact('us-gaap:Revenues', 'fy2025-cloud', '700.0')}</td></tr>
+<tr><td>Operating expenses</td><td>${fact('us-gaap:OperatingExpenses', 'fy2025', '900.0')}</td><td>${fact('us-gaap:OperatingExpenses', 'fy2024', '950.0')}</td></tr>
+<tr><td>Other income (expense)</td><td>${fact('us-gaap:NonoperatingIncomeExpense', 'fy2025', '12.5', 'sign="-"')}</td></tr>
+</table>
+<div>Notes: revenue was ${fact('us-gaap:Revenues', 'fy2025', '1,200.0')} million.</div>
+</body></html>`;
+
+describe('parseInlineXbrl', () => {
+  it('reads consolidated facts with scale and sign, skipping dimensional and repeated facts', () => {
+    const { facts, dei } = parseInlineXbrl(FILING_HTML);
+
+    expect(facts.filter(item => item.concept === 'us-gaap:Revenues').map(item => item.value)).toEqual([1.2e9, 1e9]);
+    expect(facts.find(item => item.concept === 'us-gaap:NonoperatingIncomeExpense')?.value).toBe(-12.5e6);
+    expect(facts[0]).toMatchObject({ unit: 'iso4217:USD', periodStart: new Date('2025-01-01'), periodEnd: new Date('2025-12-31') });
+    expect(dei).toMatchObject({ DocumentType: '10-K', EntityRegistrantName: 'Northwind Traders, Inc.', TradingSymbol: 'nwnd' });
+  });
+});
+
+describe('parseSecFiling', () => {
+  it('reads the form, registrant and year-over-year metrics of an annual report', () => {
+    const filing = parseSecFiling({ html: FILING_HTML })!;
+
+    expect(filing).toMatchObject({ form: '10-K', companyName: 'Northwind Traders, Inc.', ticker: 'NWND', cik: '0001234567', fiscalYear: 2025, fiscalPeriod: 'FY' });
+    expect(filing.metrics.find(metric => metric.metric === 'revenue')).toMatchObject({
+      value: 1.2e9,
+      priorValue: 1e9,
+      deltaPct: 0.2,
+      concept: 'us-gaap:Revenues',
+      section: 'Item 8. Financial Statements and Supplementary Data',
+    });
+    expect(filing.metrics.find(metric => metric.metric === 'opex')?.deltaPct).toBeCloseTo(-0.0526, 4);
+  });
+
+  it('returns null for documents that are not 10-K or 10-Q reports', () => {
+    expect(parseSecFiling({ text: 'Northwind Traders quarterly newsletter' })).toBeNull();
+  });
+});
+
+describe('isCompanyFiling', () => {
+  const filing = { companyName: 'NORTHWIND TRADERS INC /DE/', ticker: 'NWND', cik: '0001234567' };
+
+  it('matches the registrant name, the ticker or a CIK known to be the company', () => {
+    expect(isCompanyFiling(filing, { companyName: 'Northwind Traders' })).toBe(true);
+    expect(isCompanyFiling({ ...filing, companyName: undefined }, { companyName: 'Northwind', stockTicker: 'nwnd' })).toBe(true);
+    expect(isCompanyFiling({ cik: '1234567' }, { companyName: 'Northwind', ciks: ['0001234567'] })).toBe(true);
+  });
+
+  it('rejects peer filings and filings that name no registrant', () => {
+    expect(isCompanyFiling({ companyName: 'Contoso Ltd', ticker: 'CTSO', cik: '0007654321' }, { companyName: 'Northwind Traders', stockTicker: 'NWND', ciks: ['0001234567'] })).toBe(false);
+    expect(isCompanyFiling({}, { companyName: 'Northwind Traders' })).toBe(false);
+  });
+});
+
+describe('recordSecFiling', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('updates the company profile from the company’s own filing', async () => {
+    prisma.project.findUniqueOrThrow.mockResolvedValue({ companyName: 'Northwind Traders', companyProfile: null, financialMetrics: [] });
+
+    const recorded = await recordSecFiling('project-1', 'evidence-1', parseSecFiling({ html: FILING_HTML })!, 'sec-filing/upload');
+
+    expect(updateCompanyProfile).toHaveBeenCalledWith('project-1', expect.objectContaining({ ownership: 'public', stockTicker: 'NWND' }), { source: 'sec-filing/upload', evidenceId: 'evidence-1' });
+    expect(recorded.profileFields).toBe(2);
+    expect(prisma.financialMetric.createMany.mock.calls[0][0].data[0]).toMatchObject({ registrant: 'Northwind Traders, Inc.', registrantCik: '0001234567', ownCompany: true });
+  });
+
+  it('records a peer’s figures tagged with the registrant and leaves the profile alone', async () => {
+    prisma.project.findUniqueOrThrow.mockResolvedValue({ companyName: 'Contoso', companyProfile: { stockTicker: 'CTSO' }, financialMetrics: [] });
+
+    const recorded = await recordSecFiling('project-1', 'evidence-1', parseSecFiling({ html: FILING_HTML })!, 'sec-filing/url');
+
+    expect(updateCompanyProfile).not.toHaveBeenCalled();
+    expect(recorded).toMatchObject({ metrics: 2, profileFields: 0 });
+    expect(prisma.financialMetric.createMany.mock.calls[0][0].data.every((metric: { registrant: string; ownCompany: boolean }) =>
+      metric.registrant === 'Northwind Traders, Inc.' && !metric.ownCompany
+    )).toBe(true);
+  });
+});
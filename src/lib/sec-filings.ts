@@ -0,0 +1,658 @@
+/**
+ * src/lib/sec-filings.ts: SEC 10-K/10-Q filing ingestion
+ *
+ * Recognizes annual and quarterly reports (uploaded, fetched from a URL or
+ * supplied by the EDGAR provider), reads revenue, operating expenses, R&D
+ * spend and headcount from the filing's inline XBRL facts with the same
+ * period one year earlier, and extracts the headlines of the Item 1A risk
+ * factors. Both become signals that cite the filing section they came
+ * from; figures are also stored as financial metrics for the project,
+ * tagged with the registrant. Only the project company's own filings
+ * update its profile; a competitor's or customer's 10-K is evidence too.
+ */
+
+import type { FinancialMetricType, SignalKind } from '@prisma/client';
+import { prisma } from './db';
+import { formatLargeNumber, formatPercentage } from './utils';
+import { decodeEntities } from './document-extractor';
+import { truncateAtWord } from './html-extractor';
+import { CompanyProfileFields, revenueBandFor, updateCompanyProfile } from './company-profile';
+import type { EnrichmentSignal } from './enrichment-providers';
+
+export interface XbrlFact {
+  concept: string; // Prefixed concept name, e.g. "us-gaap:Revenues"
+  value: number;
+  unit: string; // Measure, e.g. "iso4217:USD"
+  periodStart?: Date; // Absent for instant facts
+  periodEnd: Date;
+}
+
+export interface FilingMetric {
+  metric: FinancialMetricType;
+  value: number;
+  unit: 'USD' | 'employees';
+  periodStart?: Date;
+  periodEnd: Date;
+  priorValue?: number;
+  priorPeriodEnd?: Date;
+  deltaPct?: number; // Year-over-year change, 0.12 = +12%
+  concept?: string; // XBRL concept the value was read from (none for text matches)
+  section: string;
+}
+
+export interface RiskFactor {
+  headline: string;
+  category?: string; // Sub-heading the risk is listed under, e.g. "Risks Related to Our Business"
+  kind: SignalKind;
+}
+
+export interface SecFiling {
+  form: string; // 10-K, 10-Q, 10-K/A or 10-Q/A
+  companyName?: string;
+  ticker?: string;
+  cik?: string;
+  sicCode?: string;
+  fiscalYear?: number;
+  fiscalPeriod?: string; // FY, Q1, Q2 or Q3
+  periodEnd?: Date;
+  metrics: FilingMetric[];
+  riskFactors: RiskFactor[];
+}
+
+// Most risk factors turned into signals per filing
+const MAX_RISK_FACTORS = 25;
+
+// Concepts read for each metric, most specific first
+const METRIC_CONCEPTS: Record<FinancialMetricType, string[]> = {
+  revenue: [
+    'us-gaap:Revenues',
+    'us-gaap:RevenueFromContractWithCustomerExcludingAssessedTax',
+    'us-gaap:RevenueFromContractWithCustomerIncludingAssessedTax',
+    'us-gaap:SalesRevenueNet',
+  ],
+  opex: ['us-gaap:OperatingExpenses', 'us-gaap:CostsAndExpenses', 'us-gaap:OperatingCostsAndExpenses'],
+  rnd: ['us-gaap:ResearchAndDevelopmentExpense', 'us-gaap:ResearchAndDevelopmentExpenseExcludingAcquiredInProcessCost'],
+  headcount: ['dei:EntityNumberOfEmployees'],
+};
+
+const METRIC_LABELS: Record<FinancialMetricType, string> = {
+  revenue: 'revenue',
+  opex: 'operating expenses',
+  rnd: 'R&D spending',
+  headcount: 'headcount',
+};
+
+// Duration of the reported period, in days, by form
+const ANNUAL_DAYS: [number, number] = [350, 380];
+const QUARTER_DAYS: [number, number] = [80, 100];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Corporate suffixes ignored when matching a company name to an SEC registrant
+const REGISTRANT_SUFFIXES = /\b(?:the|inc|incorporated|corp|corporation|co|company|ltd|limited|plc|llc|lp|holdings?|group|sa|nv|ag)\b/g;
+
+// Risk headlines by signal kind, checked in order
+const RISK_KIND_PATTERNS: Array<[SignalKind, RegExp]> = [
+  ['security', /\b(?:cyber\w*|security (?:breach|incident)s?|data breach\w*|ransomware|unauthori[sz]ed access|hack\w*|malicious)\b/i],
+  ['compliance', /\b(?:regulat\w*|compliance|privacy|laws?|legal proceedings|litigation|governmental|sanctions|export controls)\b/i],
+  ['hiring', /\b(?:personnel|talent|key employees|retain\w* (?:and|or) (?:attract|motivat)\w*|attract\w* (?:and|or) retain\w*|workforce)\b/i],
+  ['financial', /\b(?:revenue growth|indebtedness|debt|liquidity|capital|credit|interest rates?|currenc\w*|tax\w*|profitab\w*|net losses|financial results|operating results|stock price)\b/i],
+  ['product', /\b(?:products?|platform|technolog\w*|innovat\w*|features?)\b/i],
+];
+
+/**
+ * Parse an XBRL date (YYYY-MM-DD) or a cover-page date such as "December 31, 2025"
+ */
+function parseFilingDate(value?: string): Date | undefined {
+  if (!value) return undefined;
+  const iso = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const date = iso ? new Date(Date.UTC(+iso[1], +iso[2] - 1, +iso[3])) : new Date(`${value.trim()} UTC`);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Attribute value from a raw tag's attribute string
+ */
+function attribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`, 'i'));
+  return match?.[1];
+}
+
+/**
+ * Text of an element's inner HTML
+ */
+function innerText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Numeric value of an ix:nonFraction fact, applying its format, scale and sign
+ */
+function nonFractionValue(attributes: string, content: string): number | null {
+  const text = innerText(content);
+  const format = attribute(attributes, 'format') ?? '';
+
+  let value: number;
+  if (/zerodash|fixed-zero/i.test(format) || /^[-—–]$/.test(text)) {
+    value = 0;
+  } else {
+    // Comma-decimal formats (1.234,5) swap the separators
+    const normalized = /comma-?decimal/i.test(format) ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+    value = parseFloat(normalized.replace(/[^\d.]/g, ''));
+    if (isNaN(value)) return null;
+  }
+
+  const scale = parseInt(attribute(attributes, 'scale') ?? '0', 10);
+  if (!isNaN(scale) && scale !== 0) value *= Math.pow(10, scale);
+  return attribute(attributes, 'sign') === '-' ? -value : value;
+}
+
+/**
+ * Read the numeric facts and cover-page (dei) values of an inline XBRL document
+ * Facts reported against dimensional contexts (segments, products,
+ * geographies) are skipped so only consolidated totals remain.
+ */
+export function parseInlineXbrl(html: string): { facts: XbrlFact[]; dei: Record<string, string> } {
+  const contexts = new Map<string, { start?: Date; end: Date }>();
+  const contextPattern = /<(?:[\w-]+:)?context\b([^>]*)>([\s\S]*?)<\/(?:[\w-]+:)?context>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = contextPattern.exec(html)) !== null) {
+    const id = attribute(match[1], 'id');
+    const body = match[2];
+    if (!id || /<(?:[\w-]+:)?segment\b/i.test(body)) continue;
+    const instant = parseFilingDate(body.match(/<(?:[\w-]+:)?instant>([^<]+)</i)?.[1]);
+    const start = parseFilingDate(body.match(/<(?:[\w-]+:)?startDate>([^<]+)</i)?.[1]);
+    const end = parseFilingDate(body.match(/<(?:[\w-]+:)?endDate>([^<]+)</i)?.[1]);
+    if (instant) contexts.set(id, { end: instant });
+    else if (start && end) contexts.set(id, { start, end });
+  }
+
+  const units = new Map<string, string>();
+  const unitPattern = /<(?:[\w-]+:)?unit\b([^>]*)>([\s\S]*?)<\/(?:[\w-]+:)?unit>/gi;
+  while ((match = unitPattern.exec(html)) !== null) {
+    const id = attribute(match[1], 'id');
+    const measures = match[2].match(/<(?:[\w-]+:)?measure>[^<]+<\/(?:[\w-]+:)?measure>/gi) ?? [];
+    // Ratio units (USD per share) have several measures and are not used
+    if (id && measures.length === 1) units.set(id, measures[0].replace(/<[^>]*>/g, '').trim());
+  }
+
+  const facts: XbrlFact[] = [];
+  const seen = new Set<string>();
+  const factPattern = /<ix:nonFraction\b([^>]*)>([\s\S]*?)<\/ix:nonFraction>/gi;
+  while ((match = factPattern.exec(html)) !== null) {
+    const concept = attribute(match[1], 'name');
+    const context = contexts.get(attribute(match[1], 'contextRef') ?? '');
+    if (!concept || !context) continue;
+
+    // The same fact appears on the statements and again in the notes
+    const key = `${concept}|${context.start?.getTime() ?? ''}|${context.end.getTime()}`;
+    if (seen.has(key)) continue;
+
+    const value = nonFractionValue(match[1], match[2]);
+    if (value === null) continue;
+    seen.add(key);
+    facts.push({
+      concept,
+      value,
+      unit: units.get(attribute(match[1], 'unitRef') ?? '') ?? '',
+      periodStart: context.start,
+      periodEnd: context.end,
+    });
+  }
+
+  const dei: Record<string, string> = {};
+  const nonNumericPattern = /<ix:nonNumeric\b([^>]*)>([\s\S]*?)<\/ix:nonNumeric>/gi;
+  while ((match = nonNumericPattern.exec(html)) !== null) {
+    const name = attribute(match[1], 'name');
+    if (name?.startsWith('dei:') && dei[name.substring(4)] === undefined) {
+      dei[name.substring(4)] = innerText(match[2]);
+    }
+  }
+
+  return { facts, dei };
+}
+
+/**
+ * Plain text of a filing's HTML, one line per block element
+ * Filings lay out paragraphs as divs rather than <p>, and the hidden
+ * ix:header holds only XBRL metadata.
+ */
+export function filingText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<ix:header\b[\s\S]*?<\/ix:header>/gi, ' ')
+      .replace(/<(script|style|head)\b[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<br\s*\/?>|<\/(?:div|p|tr|li|h[1-6]|table|section)>/gi, '\n')
+      .replace(/<[^>]*>/g, ' ')
+  )
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Form type of an SEC annual or quarterly report
+ * @returns "10-K", "10-Q" (or an amendment), or null when the document is not one
+ */
+export function detectFilingForm(text: string, dei: Record<string, string> = {}): string | null {
+  const documentType = dei.DocumentType?.toUpperCase().replace(/\s+/g, '');
+  if (documentType && /^10-[KQ](?:\/A)?$/.test(documentType)) return documentType;
+
+  // Cover page: "UNITED STATES SECURITIES AND EXCHANGE COMMISSION ... FORM 10-K"
+  const cover = text.substring(0, 5000);
+  if (!/SECURITIES\s+AND\s+EXCHANGE\s+COMMISSION/i.test(cover)) return null;
+  const form = cover.match(/\bFORM\s+(10-[KQ](?:\/A)?)\b/i);
+  return form ? form[1].toUpperCase() : null;
+}
+
+/**
+ * Duration of a fact's period in days (0 for instants)
+ */
+function durationDays(fact: XbrlFact): number {
+  return fact.periodStart ? (fact.periodEnd.getTime() - fact.periodStart.getTime()) / DAY_MS : 0;
+}
+
+/**
+ * Whether two dates are within a few days of each other (52/53-week fiscal years drift)
+ */
+function sameDay(a: Date, b: Date, toleranceDays: number = 7): boolean {
+  return Math.abs(a.getTime() - b.getTime()) <= toleranceDays * DAY_MS;
+}
+
+/**
+ * Current and prior-year values of one metric
+ * Uses the first concept (in priority order) reported for the filing's
+ * period, and the same concept one year earlier for the comparison.
+ */
+function selectMetric(
+  facts: XbrlFact[],
+  metric: FinancialMetricType,
+  quarterly: boolean,
+  periodEnd: Date | undefined,
+  section: string
+): FilingMetric | null {
+  const [minDays, maxDays] = quarterly ? QUARTER_DAYS : ANNUAL_DAYS;
+  const candidates = facts.filter(fact => {
+    if (!METRIC_CONCEPTS[metric].includes(fact.concept)) return false;
+    if (metric === 'headcount') return true;
+    const days = durationDays(fact);
+    return /USD$/i.test(fact.unit) && days >= minDays && days <= maxDays;
+  });
+  if (candidates.length === 0) return null;
+
+  const latest = candidates.reduce((max, fact) => (fact.periodEnd > max ? fact.periodEnd : max), candidates[0].periodEnd);
+  const reportEnd = periodEnd && candidates.some(fact => sameDay(fact.periodEnd, periodEnd)) ? periodEnd : latest;
+
+  for (const concept of METRIC_CONCEPTS[metric]) {
+    const current = candidates.find(fact => fact.concept === concept && sameDay(fact.periodEnd, reportEnd));
+    if (!current) continue;
+
+    const yearEarlier = new Date(current.periodEnd.getTime() - 365 * DAY_MS);
+    const prior = candidates.find(fact => fact.concept === concept && fact !== current && sameDay(fact.periodEnd, yearEarlier, 15));
+
+    return {
+      metric,
+      value: current.value,
+      unit: metric === 'headcount' ? 'employees' : 'USD',
+      periodStart: current.periodStart,
+      periodEnd: current.periodEnd,
+      ...(prior && {
+        priorValue: prior.value,
+        priorPeriodEnd: prior.periodEnd,
+        ...(prior.value !== 0 && { deltaPct: (current.value - prior.value) / Math.abs(prior.value) }),
+      }),
+      concept,
+      section,
+    };
+  }
+  return null;
+}
+
+/**
+ * Headcount stated in the Human Capital discussion, e.g. "we had approximately 3,200 full-time employees"
+ */
+export function findHeadcount(text: string): number | null {
+  const match = text.match(/\b(?:approximately|about|had|employ(?:ed)?|total of)\s+([\d,]{2,9})\s+(?:full-time\s+|total\s+)?(?:employees|team members|people)\b/i);
+  if (!match) return null;
+  const count = parseInt(match[1].replace(/,/g, ''), 10);
+  return isNaN(count) || count === 0 ? null : count;
+}
+
+/**
+ * Signal kind for a risk factor headline
+ */
+function classifyRisk(headline: string): SignalKind {
+  const match = RISK_KIND_PATTERNS.find(([, pattern]) => pattern.test(headline));
+  return match ? match[0] : 'company';
+}
+
+/**
+ * Headlines of the Item 1A risk factors
+ * The table of contents also lists "Item 1A. Risk Factors", so the longest
+ * span between that heading and the next item's heading is the section.
+ * Headlines are the short single-sentence paragraphs followed by a longer
+ * explanation; short unpunctuated lines are category sub-headings.
+ */
+export function extractRiskFactors(text: string): RiskFactor[] {
+  const start = /^[ \t]*item\s*1a\s*\.?\s*[-—–:.]?\s*risk\s+factors\.?[ \t]*$/gim;
+  const end = /^[ \t]*item\s*(?:1b|1c|2|3)\s*\.?\s*[-—–:.]?\s*(?:unresolved|cybersecurity|properties|unregistered|defaults|legal\s+proceedings)/im;
+
+  // Headings stand on their own line; cross-references ("see Item 1A. Risk Factors") do not
+  let section = '';
+  let match: RegExpExecArray | null;
+  while ((match = start.exec(text)) !== null) {
+    const rest = text.substring(match.index + match[0].length);
+    const stop = rest.search(end);
+    const candidate = stop === -1 ? rest.substring(0, 200_000) : rest.substring(0, stop);
+    if (candidate.length > section.length) section = candidate;
+  }
+  if (section.length < 500) return [];
+
+  let paragraphs = section.split(/\n\s*\n/).map(paragraph => paragraph.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  if (paragraphs.length < 3) {
+    paragraphs = section.split('\n').map(line => line.trim()).filter(Boolean);
+  }
+
+  const risks: RiskFactor[] = [];
+  let category: string | undefined;
+  paragraphs.forEach((paragraph, index) => {
+    if (risks.length >= MAX_RISK_FACTORS) return;
+
+    if (/^risks?\s+(?:related|relating)\s+to\b/i.test(paragraph) && paragraph.length <= 150 && !/\.$/.test(paragraph)) {
+      category = paragraph;
+      return;
+    }
+
+    const next = paragraphs[index + 1] ?? '';
+    const sentences = paragraph.split(/[.!?]\s+(?=[A-Z])/).length;
+    if (paragraph.length >= 40 && paragraph.length <= 400 && /\.$/.test(paragraph) && sentences <= 2 && next.length > Math.max(200, paragraph.length)) {
+      risks.push({ headline: paragraph, category, kind: classifyRisk(paragraph) });
+    }
+  });
+
+  return risks;
+}
+
+/**
+ * Parse an SEC annual or quarterly report
+ * @param source - Filing HTML (inline XBRL facts are read when present) and/or its extracted text
+ * @returns Parsed filing, or null when the document is not a 10-K or 10-Q
+ */
+export function parseSecFiling(source: { html?: string; text?: string }): SecFiling | null {
+  const { facts, dei } = source.html ? parseInlineXbrl(source.html) : { facts: [], dei: {} as Record<string, string> };
+
+  // Check the cover page before converting the whole document; most pages are not filings
+  const cover = source.html ? filingText(source.html.substring(0, 100_000)) : source.text ?? '';
+  const form = detectFilingForm(cover, dei);
+  if (!form) return null;
+
+  const text = source.html ? filingText(source.html) : cover;
+
+  const quarterly = form.startsWith('10-Q');
+  const periodEnd = parseFilingDate(dei.DocumentPeriodEndDate) ??
+    parseFilingDate(text.substring(0, 5000).match(/for the (?:fiscal )?(?:year|quarterly period) ended:?\s+([A-Z][a-z]+\.? \d{1,2},? \d{4})/i)?.[1]);
+  const fiscalYear = parseInt(dei.DocumentFiscalYearFocus ?? '', 10) || periodEnd?.getUTCFullYear();
+  const fiscalPeriod = dei.DocumentFiscalPeriodFocus?.toUpperCase() || (quarterly ? undefined : 'FY');
+
+  const statements = quarterly ? 'Part I, Item 1. Financial Statements' : 'Item 8. Financial Statements and Supplementary Data';
+  const metrics = (['revenue', 'opex', 'rnd'] as FinancialMetricType[])
+    .map(metric => selectMetric(facts, metric, quarterly, periodEnd, statements))
+    .filter((metric): metric is FilingMetric => metric !== null);
+
+  const headcount = selectMetric(facts, 'headcount', quarterly, periodEnd, 'Cover Page');
+  if (headcount) {
+    metrics.push(headcount);
+  } else if (!quarterly) {
+    const count = findHeadcount(text);
+    if (count && periodEnd) {
+      metrics.push({ metric: 'headcount', value: count, unit: 'employees', periodEnd, section: 'Item 1. Business (Human Capital)' });
+    }
+  }
+
+  return {
+    form,
+    companyName: dei.EntityRegistrantName || undefined,
+    ticker: dei.TradingSymbol?.toUpperCase() || undefined,
+    cik: dei.EntityCentralIndexKey || undefined,
+    fiscalYear,
+    fiscalPeriod,
+    periodEnd,
+    metrics,
+    riskFactors: extractRiskFactors(text),
+  };
+}
+
+/**
+ * Company name reduced for registrant matching ("Acme Corp." and "ACME CORP /DE/" both become "acme")
+ */
+export function registrantKey(name: string): string {
+  return name.toLowerCase().replace(/\/[a-z]{2}\//g, ' ').replace(/[^a-z0-9 ]+/g, ' ').replace(REGISTRANT_SUFFIXES, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Whether a filing is the project company's own
+ * The registrant name (dei:EntityRegistrantName), trading symbol or CIK
+ * must match the project's company name, its profile's stock ticker or a
+ * CIK already known to be the company's. A filing that identifies no
+ * registrant is not assumed to be the company's.
+ * @param company - Project company name, profile ticker and CIKs of its earlier filings
+ */
+export function isCompanyFiling(
+  filing: Pick<SecFiling, 'companyName' | 'ticker' | 'cik'>,
+  company: { companyName: string; stockTicker?: string | null; ciks?: string[] }
+): boolean {
+  const key = registrantKey(company.companyName);
+  const tickers = [company.stockTicker, company.companyName.trim()]
+    .filter((ticker): ticker is string => Boolean(ticker))
+    .map(ticker => ticker.toUpperCase());
+
+  return Boolean(
+    (filing.companyName && key && registrantKey(filing.companyName) === key) ||
+    (filing.ticker && tickers.includes(filing.ticker.toUpperCase())) ||
+    (filing.cik && company.ciks?.some(cik => Number(cik) === Number(filing.cik)))
+  );
+}
+
+/**
+ * Short filing label used in citations, e.g. "10-K FY2025" or "10-Q Q2 FY2025"
+ */
+export function filingLabel(filing: Pick<SecFiling, 'form' | 'fiscalYear' | 'fiscalPeriod'>): string {
+  const period = filing.fiscalPeriod && filing.fiscalPeriod !== 'FY' ? ` ${filing.fiscalPeriod}` : '';
+  return `${filing.form}${period}${filing.fiscalYear ? ` FY${filing.fiscalYear}` : ''}`;
+}
+
+/**
+ * Format a metric value, e.g. "$1.2B" or "3,200 employees"
+ */
+function formatMetricValue(metric: Pick<FilingMetric, 'unit' | 'value'>): string {
+  return metric.unit === 'USD'
+    ? `${metric.value < 0 ? '-' : ''}$${formatLargeNumber(Math.abs(metric.value))}`
+    : `${metric.value.toLocaleString('en-US')} employees`;
+}
+
+/**
+ * One-sentence description of a metric with its year-over-year change
+ */
+export function describeFinancialMetric(metric: FilingMetric, companyName: string, filing: Pick<SecFiling, 'form' | 'fiscalYear' | 'fiscalPeriod'>): string {
+  const period = metric.metric === 'headcount'
+    ? `as of ${metric.periodEnd.toISOString().substring(0, 10)}`
+    : filing.form.startsWith('10-Q')
+      ? `for the quarter ended ${metric.periodEnd.toISOString().substring(0, 10)}`
+      : `for fiscal ${filing.fiscalYear ?? metric.periodEnd.getUTCFullYear()}`;
+
+  let change = '';
+  if (metric.deltaPct !== undefined && metric.priorValue !== undefined) {
+    const direction = metric.deltaPct > 0 ? 'up' : metric.deltaPct < 0 ? 'down' : 'flat';
+    change = direction === 'flat'
+      ? `, flat year over year`
+      : `, ${direction} ${formatPercentage(Math.abs(metric.deltaPct))} from ${formatMetricValue({ unit: metric.unit, value: metric.priorValue })} a year earlier`;
+  }
+
+  return metric.metric === 'headcount'
+    ? `${companyName} reported ${formatMetricValue(metric)} ${period}${change}.`
+    : `${companyName} reported ${METRIC_LABELS[metric.metric]} of ${formatMetricValue(metric)} ${period}${change}.`;
+}
+
+/**
+ * Structured signals for a filing: one financial signal per metric and one per risk factor
+ * Large year-over-year swings weigh more. Each signal cites its filing section.
+ */
+export function filingSignals(filing: SecFiling, companyName: string): EnrichmentSignal[] {
+  const label = filingLabel(filing);
+  const revenue = filing.metrics.find(metric => metric.metric === 'revenue');
+
+  const financial = filing.metrics.map(metric => {
+    let text = describeFinancialMetric(metric, filing.companyName || companyName, filing);
+    // R&D intensity is the figure buyers compare against peers
+    if (metric.metric === 'rnd' && revenue && revenue.value > 0) {
+      text = `${text.replace(/\.$/, '')} (${formatPercentage(metric.value / revenue.value)} of revenue).`;
+    }
+    const swing = metric.deltaPct !== undefined && Math.abs(metric.deltaPct) >= 0.2 ? 0.2 : 0;
+    return {
+      kind: 'financial' as SignalKind,
+      text,
+      confidence: metric.concept ? 0.95 : 0.7,
+      weight: Math.min(1, (metric.metric === 'revenue' ? 0.6 : metric.metric === 'headcount' ? 0.4 : 0.5) + swing),
+      section: `${label}, ${metric.section}${metric.concept ? ` (${metric.concept})` : ''}`,
+    };
+  });
+
+  const riskSection = filing.form.startsWith('10-Q') ? 'Part II, Item 1A. Risk Factors' : 'Item 1A. Risk Factors';
+  const risks = filing.riskFactors.map(risk => ({
+    kind: risk.kind,
+    text: `Risk factor: ${risk.headline}`,
+    confidence: 0.9,
+    weight: 0.5,
+    section: `${label}, ${riskSection}${risk.category ? ` (${risk.category})` : ''}`,
+  }));
+
+  return financial.concat(risks);
+}
+
+/**
+ * Firmographic fields a filing establishes: public ownership, ticker, SIC code, headcount and (annual) revenue band
+ */
+export function filingProfile(filing: SecFiling): CompanyProfileFields {
+  const revenue = filing.metrics.find(metric => metric.metric === 'revenue');
+  const headcount = filing.metrics.find(metric => metric.metric === 'headcount');
+
+  return {
+    ownership: 'public',
+    fundingStage: 'public',
+    stockTicker: filing.ticker?.substring(0, 10),
+    sicCode: filing.sicCode,
+    employeeCount: headcount ? Math.round(headcount.value) : undefined,
+    revenueBand: revenue && !filing.form.startsWith('10-Q') && revenue.value > 0 ? revenueBandFor(revenue.value) : undefined,
+  };
+}
+
+/**
+ * Readable summary of a filing, stored as the evidence summary
+ */
+export function summarizeFiling(filing: SecFiling, companyName: string): string {
+  const name = filing.companyName || companyName;
+  const sentences = filing.metrics.map(metric => describeFinancialMetric(metric, name, filing));
+  if (filing.riskFactors.length > 0) {
+    sentences.push(`The filing lists ${filing.riskFactors.length} risk factors, including: ${filing.riskFactors.slice(0, 3).map(risk => risk.headline.replace(/\.$/, '')).join('; ')}.`);
+  }
+  return sentences.length > 0 ? sentences.join(' ') : `${name} ${filingLabel(filing)}.`;
+}
+
+/**
+ * Replace the financial metrics recorded from a filing's evidence
+ * @param ownCompany - Whether the filing is the project company's own (see isCompanyFiling)
+ */
+export async function recordFinancialMetrics(projectId: string, evidenceId: string, filing: SecFiling, ownCompany: boolean): Promise<number> {
+  await prisma.$transaction([
+    prisma.financialMetric.deleteMany({ where: { evidenceId } }),
+    prisma.financialMetric.createMany({
+      data: filing.metrics.map(metric => ({
+        projectId,
+        evidenceId,
+        metric: metric.metric,
+        form: filing.form,
+        fiscalYear: filing.fiscalYear ?? null,
+        fiscalPeriod: filing.fiscalPeriod ?? null,
+        periodStart: metric.periodStart ?? null,
+        periodEnd: metric.periodEnd,
+        value: metric.value,
+        priorValue: metric.priorValue ?? null,
+        priorPeriodEnd: metric.priorPeriodEnd ?? null,
+        deltaPct: metric.deltaPct ?? null,
+        unit: metric.unit,
+        concept: metric.concept ?? null,
+        section: metric.section,
+        registrant: filing.companyName?.substring(0, 200) ?? filing.ticker ?? null,
+        registrantCik: filing.cik?.substring(0, 10) ?? null,
+        ownCompany,
+      })),
+    }),
+  ]);
+  return filing.metrics.length;
+}
+
+/**
+ * Store a filing read from uploaded or fetched evidence
+ * Its structured signals replace NLP analysis of the document, so the
+ * evidence is summarized from the filing and its signals cite sections.
+ * The company profile is only updated from the company's own filings.
+ * @param source - Attribution for company profile fields, e.g. "sec/upload"
+ * @returns Counts of metrics, signals and profile fields recorded
+ */
+export async function recordSecFiling(
+  projectId: string,
+  evidenceId: string,
+  filing: SecFiling,
+  source: string
+): Promise<{ metrics: number; signals: number; profileFields: number }> {
+  const project = await prisma.project.findUniqueOrThrow({
+    where: { id: projectId },
+    select: {
+      companyName: true,
+      companyProfile: { select: { stockTicker: true } },
+      financialMetrics: { where: { ownCompany: true, registrantCik: { not: null } }, distinct: ['registrantCik'], select: { registrantCik: true } },
+    },
+  });
+  const ownCompany = isCompanyFiling(filing, {
+    companyName: project.companyName,
+    stockTicker: project.companyProfile?.stockTicker,
+    ciks: project.financialMetrics.map(metric => metric.registrantCik!),
+  });
+  const signals = filingSignals(filing, project.companyName);
+
+  const metrics = await recordFinancialMetrics(projectId, evidenceId, filing, ownCompany);
+  await prisma.$transaction([
+    prisma.signal.deleteMany({ where: { evidenceId } }),
+    prisma.signal.createMany({
+      data: signals.map(signal => ({
+        evidenceId,
+        kind: signal.kind,
+        text: signal.text.substring(0, 500),
+        confidence: signal.confidence,
+        weight: signal.weight,
+        section: signal.section?.substring(0, 200),
+      })),
+    }),
+    prisma.evidence.update({
+      where: { id: evidenceId },
+      data: {
+        summary: truncateAtWord(summarizeFiling(filing, project.companyName), 1000),
+        analyzedBy: `sec-filing/${filing.form}`,
+        analyzedAt: new Date(),
+      },
+    }),
+  ]);
+
+  let profileFields = 0;
+  if (ownCompany) {
+    const { updatedFields } = await updateCompanyProfile(projectId, filingProfile(filing), { source, evidenceId });
+    profileFields = updatedFields.length;
+  } else {
+    console.log(`src/lib/sec-filings.ts: ${filingLabel(filing)} of ${filing.companyName || filing.ticker || 'an unnamed registrant'} is not ${project.companyName}'s; leaving the company profile unchanged`);
+  }
+
+  console.log(`src/lib/sec-filings.ts: Recorded ${filingLabel(filing)} for evidence ${evidenceId}: ${metrics} metrics, ${signals.length} signals`);
+
+  return { metrics, signals: signals.length, profileFields };
+}
@@ -0,0 +1,184 @@
+/**
+ * src/lib/signal-clustering.ts: Project-level signal consolidation
+ *
+ * Clusters semantically similar signals across a project's evidence (ten
+ * articles about one incident yield one insight, not ten signals) and
+ * stores each cluster as a canonical Insight linked to every supporting
+ * signal. Confidence grows with the number of independent sources.
+ */
+
+import type { SignalKind } from '@prisma/client';
+import { prisma } from './db';
+import { cosineSimilarity, EmbeddingProvider, EmbeddingProviderError, getEmbeddingProvider, HashingEmbeddingProvider } from './embeddings';
+
+export interface ClusterableSignal {
+  id: string;
+  evidenceId: string;
+  kind: SignalKind;
+  text: string;
+  confidence: number;
+  weight: number;
+  vector: number[];
+}
+
+export interface ConsolidationResult {
+  insights: number;
+  signals: number;
+  corroborated: number; // Insights supported by more than one evidence source
+  embedded: number; // Signals embedded in this pass (the rest reused stored embeddings)
+  embeddingModel: string;
+}
+
+// Each additional source removes this share of the remaining doubt
+const CORROBORATION_GAIN = 0.4;
+const MAX_INSIGHT_CONFIDENCE = 0.98;
+
+// Signal embeddings written per transaction
+const EMBEDDING_WRITE_BATCH = 100;
+
+/**
+ * Boost confidence by the number of independent sources supporting an insight
+ * One source leaves it unchanged; 0.6 becomes 0.76 with two and 0.91 with four
+ * @param confidence - Confidence of the strongest supporting signal
+ * @param sources - Distinct evidence sources
+ */
+export function corroboratedConfidence(confidence: number, sources: number): number {
+  const doubt = (1 - confidence) * Math.pow(1 - CORROBORATION_GAIN, Math.max(0, sources - 1));
+  return Math.round(Math.min(MAX_INSIGHT_CONFIDENCE, Math.max(confidence, 1 - doubt)) * 100) / 100;
+}
+
+/**
+ * Group signals of the same kind whose embeddings are close
+ * Greedy single pass, strongest signals first: a signal joins the cluster
+ * with the most similar centroid at or above the threshold, else starts one
+ * @param signals - Signals with embedding vectors
+ * @param threshold - Minimum cosine similarity to a cluster centroid
+ * @returns Clusters, each ordered strongest signal first
+ */
+export function clusterSignals(signals: ClusterableSignal[], threshold: number): ClusterableSignal[][] {
+  const ordered = [...signals].sort((a, b) => b.confidence * b.weight - a.confidence * a.weight || (a.id < b.id ? -1 : 1));
+  const clusters: Array<{ kind: SignalKind; members: ClusterableSignal[]; centroid: number[] }> = [];
+
+  for (const signal of ordered) {
+    let best: (typeof clusters)[number] | null = null;
+    let bestSimilarity = threshold;
+
+    for (const cluster of clusters) {
+      if (cluster.kind !== signal.kind) continue;
+      const similarity = cosineSimilarity(cluster.centroid, signal.vector);
+      if (similarity >= bestSimilarity) {
+        best = cluster;
+        bestSimilarity = similarity;
+      }
+    }
+
+    if (best) {
+      const size = best.members.length;
+      best.centroid = best.centroid.map((value, i) => (value * size + (signal.vector[i] ?? 0)) / (size + 1));
+      best.members.push(signal);
+    } else {
+      clusters.push({ kind: signal.kind, members: [signal], centroid: [...signal.vector] });
+    }
+  }
+
+  return clusters.map(cluster => cluster.members);
+}
+
+/**
+ * Load a project's signals with embeddings from the given provider, embedding any that lack one
+ */
+async function loadEmbeddedSignals(projectId: string, provider: EmbeddingProvider): Promise<{ signals: ClusterableSignal[]; embedded: number }> {
+  const embeddingModel = `${provider.name}/${provider.model}`;
+
+  // Quarantined or rejected evidence never contributes to insights
+  const rows = await prisma.signal.findMany({
+    where: { evidence: { projectId, approved: true } },
+    select: { id: true, evidenceId: true, kind: true, text: true, confidence: true, weight: true, embedding: true, embeddingModel: true },
+  });
+
+  const stale = rows.filter(row => !row.embedding || row.embeddingModel !== embeddingModel);
+  const vectors = stale.length > 0 ? await provider.embed(stale.map(row => row.text)) : [];
+  const fresh = new Map(stale.map((row, index) => [row.id, vectors[index]]));
+
+  for (let offset = 0; offset < stale.length; offset += EMBEDDING_WRITE_BATCH) {
+    await prisma.$transaction(
+      stale.slice(offset, offset + EMBEDDING_WRITE_BATCH).map(row =>
+        prisma.signal.update({
+          where: { id: row.id },
+          data: { embedding: JSON.stringify(fresh.get(row.id)), embeddingModel },
+        })
+      )
+    );
+  }
+
+  const signals = rows.map(row => ({
+    id: row.id,
+    evidenceId: row.evidenceId,
+    kind: row.kind,
+    text: row.text,
+    confidence: row.confidence,
+    weight: row.weight,
+    vector: fresh.get(row.id) ?? (JSON.parse(row.embedding as string) as number[]),
+  }));
+
+  return { signals, embedded: stale.length };
+}
+
+/**
+ * Rebuild a project's insights from its current signals
+ * Falls back to the local hashing embedder when the embeddings API fails
+ * @param projectId - Project UUID
+ * @param provider - Embedding provider override (defaults to the configured provider)
+ * @returns Counts of insights and signals consolidated
+ */
+export async function consolidateProjectSignals(projectId: string, provider: EmbeddingProvider = getEmbeddingProvider()): Promise<ConsolidationResult> {
+  let loaded: { signals: ClusterableSignal[]; embedded: number };
+  try {
+    loaded = await loadEmbeddedSignals(projectId, provider);
+  } catch (error) {
+    if (!(error instanceof EmbeddingProviderError) || provider.name === 'hashing') throw error;
+
+    console.warn(`src/lib/signal-clustering.ts: ${error.message}; falling back to the hashing embedder`);
+    provider = new HashingEmbeddingProvider();
+    loaded = await loadEmbeddedSignals(projectId, provider);
+  }
+
+  const clusters = clusterSignals(loaded.signals, provider.similarityThreshold);
+
+  await prisma.$transaction(async (tx) => {
+    // Serialize passes for the same project so they cannot interleave deletes and creates
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`insights:${projectId}`}))`;
+
+    await tx.insight.deleteMany({ where: { projectId } });
+
+    for (const members of clusters) {
+      const [strongest] = members;
+      const sources = new Set(members.map(member => member.evidenceId)).size;
+
+      await tx.insight.create({
+        data: {
+          projectId,
+          kind: strongest.kind,
+          text: strongest.text,
+          confidence: corroboratedConfidence(Math.max(...members.map(member => member.confidence)), sources),
+          weight: Math.max(...members.map(member => member.weight)),
+          corroboration: sources,
+          signalCount: members.length,
+          signals: { connect: members.map(member => ({ id: member.id })) },
+        },
+      });
+    }
+  }, { timeout: 30000 });
+
+  const result: ConsolidationResult = {
+    insights: clusters.length,
+    signals: loaded.signals.length,
+    corroborated: clusters.filter(members => new Set(members.map(member => member.evidenceId)).size > 1).length,
+    embedded: loaded.embedded,
+    embeddingModel: `${provider.name}/${provider.model}`,
+  };
+
+  console.log(`src/lib/signal-clustering.ts: Consolidated ${result.signals} signals into ${result.insights} insights for project ${projectId} (${result.corroborated} corroborated)`);
+
+  return result;
+}
@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FixtureLlmProvider } from './llm';
+import { extractSignals, LlmOutputError, parseJsonObject } from './signal-extraction';
+
+const CONTENT = 'Contoso raised a $40 million Series B to expand its logistics platform into Europe next year.';
+
+const VALID_OUTPUT = JSON.stringify({
+  summary: 'Contoso raised a Series B to expand into Europe.',
+  keyQuotes: ['Contoso raised a $40 million Series B'],
+  topics: ['funding'],
+  signals: [{ kind: 'financial', text: 'Raised a $40 million Series B.', confidence: 0.9, weight: 0.8 }],
+});
+
+describe('parseJsonObject', () => {
+  it('parses output wrapped in a code fence', () => {
+    expect(parseJsonObject('```json\n{"summary": "ok"}\n```')).toEqual({ summary: 'ok' });
+  });
+
+  it('parses the object out of surrounding prose', () => {
+    expect(parseJsonObject('Here is the analysis:\n{"summary": "ok", "signals": []}\nLet me know if you need more.'))
+      .toEqual({ summary: 'ok', signals: [] });
+  });
+
+  it('throws when there is no JSON object', () => {
+    expect(() => parseJsonObject('I could not analyze this content.')).toThrow(SyntaxError);
+  });
+});
+
+describe('extractSignals', () => {
+  it('re-prompts with the validation errors and accepts the corrected output', async () => {
+    const invalid = JSON.stringify({
+      summary: 'Contoso raised a Series B.',
+      signals: [{ kind: 'funding', text: 'Raised a Series B.', confidence: 1.4, weight: 0.8 }],
+    });
+    const provider = new FixtureLlmProvider([invalid, VALID_OUTPUT]);
+
+    const result = await extractSignals(CONTENT, provider);
+
+    expect(result.attempts).toBe(2);
+    expect(result.signals).toEqual([
+      expect.objectContaining({ kind: 'financial', text: 'Raised a $40 million Series B.', confidence: 0.9 }),
+    ]);
+    expect(result.keyQuotes).toEqual(['Contoso raised a $40 million Series B']);
+
+    // The retry shows the model its output and names the invalid fields
+    const retry = provider.requests[1].messages;
+    expect(retry).toHaveLength(3);
+    expect(retry[1]).toEqual({ role: 'assistant', content: invalid });
+    expect(retry[2].content).toMatch(/signals\.0\.kind/);
+    expect(retry[2].content).toMatch(/signals\.0\.confidence/);
+  });
+
+  it('throws LlmOutputError once the attempt limit is reached', async () => {
+    const provider = new FixtureLlmProvider(['Sorry, I cannot help with that.']);
+
+    const error = await extractSignals(CONTENT, provider).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(LlmOutputError);
+    expect(error.attempts).toBe(3);
+    expect(error.lastOutput).toBe('Sorry, I cannot help with that.');
+    expect(provider.requests).toHaveLength(3);
+  });
+
+  it('falls back to detected topics within the schema limits when the model returns none', async () => {
+    const slug = 'contoso-logistics-platform-european-expansion-series-b-announcement-2024';
+    const content = Array.from({ length: 3 }, () => `Contoso published ${slug} for its European logistics customers.`).join(' ');
+    const withoutTopics = JSON.stringify({ ...JSON.parse(VALID_OUTPUT), keyQuotes: [], topics: [] });
+
+    const result = await extractSignals(content, new FixtureLlmProvider([withoutTopics]));
+
+    expect(result.topics.length).toBeGreaterThan(0);
+    expect(result.topics.every(topic => topic.length <= 60)).toBe(true);
+  });
+
+  it('drops key quotes that do not appear in the content', async () => {
+    const paraphrased = JSON.stringify({ ...JSON.parse(VALID_OUTPUT), keyQuotes: ['Contoso is expanding fast', 'into Europe next year'] });
+
+    const result = await extractSignals(CONTENT, new FixtureLlmProvider([paraphrased]));
+
+    expect(result.keyQuotes).toEqual(['into Europe next year']);
+  });
+});
+
+describe('extractSignals on long documents', () => {
+  // About 11,000 estimated tokens of distinct sentences, several chunks at the default chunk size
+  const LONG_CONTENT = Array.from({ length: 600 }, (_, index) =>
+    `Site ${index} of the Contoso logistics network reported delivery delays caused by manual scheduling in region ${index % 40}.`
+  ).join(' ');
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it('analyzes every chunk, keeps chunk provenance and reduces the summaries', async () => {
+    const provider = new FixtureLlmProvider();
+
+    const result = await extractSignals(LONG_CONTENT, provider);
+
+    expect(result.usage?.chunks).toBeGreaterThan(1);
+    expect(result.usage).toMatchObject({ chunksAnalyzed: result.usage?.chunks, chunksFailed: 0, budgetExhausted: false });
+    expect(provider.requests).toHaveLength(result.usage!.chunks + 1);
+    expect(provider.requests[result.usage!.chunks].messages[0].content).toMatch(/summaries of consecutive sections/);
+
+    expect(result.signals.length).toBeGreaterThan(0);
+    result.signals.forEach(signal => {
+      expect(signal.chunkIndex).toBeLessThan(result.usage!.chunks);
+      expect(LONG_CONTENT.substring(signal.sourceStart!, signal.sourceEnd!)).toContain(signal.text);
+    });
+  });
+
+  it('skips later chunks once the per-document token budget is spent', async () => {
+    vi.stubEnv('LLM_MAX_TOKENS_PER_DOCUMENT', '8000');
+    vi.resetModules();
+    const { extractSignals: extractWithBudget } = await import('./signal-extraction');
+    const provider = new FixtureLlmProvider();
+
+    const result = await extractWithBudget(LONG_CONTENT, provider);
+
+    expect(result.usage?.budgetExhausted).toBe(true);
+    expect(result.usage?.chunksAnalyzed).toBeGreaterThan(0);
+    expect(result.usage?.chunksAnalyzed).toBeLessThan(result.usage!.chunks);
+    expect(result.usage?.tokens).toBeLessThanOrEqual(8000);
+    expect(provider.requests.length).toBeLessThan(result.usage!.chunks);
+  });
+});
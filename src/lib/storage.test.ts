@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildEvidenceFileKey, getStorage, isEvidenceFileKey, isSafeStorageKey, signLocalRequest, verifyLocalRequest } from './storage';
+
+const PROJECT_A = '11111111-1111-4111-8111-111111111111';
+const PROJECT_B = '22222222-2222-4222-8222-222222222222';
+
+describe('isEvidenceFileKey', () => {
+  it('accepts keys built for the project', () => {
+    expect(isEvidenceFileKey(PROJECT_A, buildEvidenceFileKey(PROJECT_A, 'Q3 report.pdf'))).toBe(true);
+  });
+
+  it('rejects keys that traverse out of the project prefix', () => {
+    expect(isEvidenceFileKey(PROJECT_A, `projects/${PROJECT_A}/evidence/../../${PROJECT_B}/evidence/x/report.pdf`)).toBe(false);
+    expect(isEvidenceFileKey(PROJECT_A, `projects/${PROJECT_A}/evidence/./x/report.pdf`)).toBe(false);
+    expect(isEvidenceFileKey(PROJECT_A, `projects/${PROJECT_A}/evidence//x/report.pdf`)).toBe(false);
+    expect(isEvidenceFileKey(PROJECT_A, `projects/${PROJECT_A}/evidence/x\\..\\..\\report.pdf`)).toBe(false);
+    expect(isEvidenceFileKey(PROJECT_A, buildEvidenceFileKey(PROJECT_B, 'report.pdf'))).toBe(false);
+  });
+});
+
+describe('isSafeStorageKey', () => {
+  it('rejects absolute and empty keys', () => {
+    expect(isSafeStorageKey('/etc/passwd')).toBe(false);
+    expect(isSafeStorageKey('')).toBe(false);
+    expect(isSafeStorageKey('projects/a/evidence/file..name.pdf')).toBe(true);
+  });
+});
+
+describe('local storage driver', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('refuses to sign URLs without a configured secret', () => {
+    vi.stubEnv('LOCAL_STORAGE_SECRET', '');
+
+    expect(() => signLocalRequest('GET', new URLSearchParams({ key: 'projects/a/evidence/b/c.pdf', expires: '9999999999' })))
+      .toThrow(/LOCAL_STORAGE_SECRET is required/);
+  });
+
+  it('verifies only URLs signed with the configured secret', () => {
+    const params = new URLSearchParams({ key: 'projects/a/evidence/b/c.pdf', expires: '9999999999' });
+    vi.stubEnv('LOCAL_STORAGE_SECRET', 'first-secret');
+    params.set('signature', signLocalRequest('GET', params));
+
+    expect(verifyLocalRequest('GET', params)).toBe(true);
+    expect(verifyLocalRequest('PUT', params)).toBe(false);
+    vi.stubEnv('LOCAL_STORAGE_SECRET', 'other-secret');
+    expect(verifyLocalRequest('GET', params)).toBe(false);
+  });
+
+  it('refuses keys with traversal segments even when they resolve inside the storage root', async () => {
+    vi.stubEnv('STORAGE_DRIVER', 'local');
+    vi.stubEnv('LOCAL_STORAGE_SECRET', 'test-secret');
+    vi.stubEnv('LOCAL_STORAGE_DIR', '/tmp/storage-test');
+
+    await expect(getStorage().getObject(`projects/${PROJECT_A}/evidence/../../${PROJECT_B}/evidence/x/report.pdf`))
+      .rejects.toThrow(/Invalid storage key/);
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * src/lib/storage.ts: File storage adapters for evidence uploads
+ *
+ * Provides a storage abstraction with an S3 implementation (also usable
+ * with MinIO and other S3-compatible endpoints) and a local-disk driver
+ * that serves HMAC-signed URLs so development works without AWS.
+ */
+
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Maximum accepted upload size (25 MB)
+export const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+// Default lifetime of presigned URLs
+const DEFAULT_URL_TTL_SECONDS = 15 * 60;
+
+export interface PresignedUrl {
+  url: string;
+  method: 'PUT' | 'GET';
+  headers: Record<string, string>;
+  expiresAt: string;
+}
+
+export interface StoredObjectInfo {
+  size: number;
+  contentType: string;
+}
+
+export interface StorageAdapter {
+  readonly driver: 's3' | 'local';
+  createUploadUrl(key: string, contentType: string, ttlSeconds?: number): Promise<PresignedUrl>;
+  createDownloadUrl(key: string, filename?: string, ttlSeconds?: number): Promise<PresignedUrl>;
+  putObject(key: string, body: Buffer, contentType: string): Promise<void>;
+  getObject(key: string): Promise<Buffer>;
+  headObject(key: string): Promise<StoredObjectInfo | null>;
+  deleteObject(key: string): Promise<void>;
+}
+
+/**
+ * Build the storage key for an uploaded evidence file
+ * @param projectId - Project UUID
+ * @param filename - Original filename from the client
+ * @returns Key scoped to the project's evidence prefix
+ */
+export function buildEvidenceFileKey(projectId: string, filename: string): string {
+  const safeName = filename
+    .normalize('NFKD')
+    .replace(/[^a-zA-Z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 100) || 'file';
+
+  return `${evidenceKeyPrefix(projectId)}${crypto.randomUUID()}/${safeName}`;
+}
+
+/**
+ * Key prefix under which a project's evidence files are stored
+ * @param projectId - Project UUID
+ */
+export function evidenceKeyPrefix(projectId: string): string {
+  return `projects/${projectId}/evidence/`;
+}
+
+/**
+ * Whether a storage key is a plain relative path
+ * Rejects empty, `.` and `..` segments, absolute keys and backslashes, so a
+ * key can't step out of the prefix it starts with
+ * @param key - Storage key from a client or job
+ */
+export function isSafeStorageKey(key: string): boolean {
+  if (!key || key.length > 1024 || /[\\\0]/.test(key)) return false;
+  return key.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..');
+}
+
+/**
+ * Whether a client-supplied key names an evidence upload of the project
+ * @param projectId - Project UUID
+ * @param key - Storage key from the client
+ */
+export function isEvidenceFileKey(projectId: string, key: string): boolean {
+  return isSafeStorageKey(key) && key.startsWith(evidenceKeyPrefix(projectId));
+}
+
+/**
+ * Key prefix under which an evidence item's content snapshots are stored
+ * Kept outside the evidence upload prefix so snapshots can't be claimed as uploads
+ * @param projectId - Project UUID
+ * @param evidenceId - Evidence UUID
+ */
+export function snapshotKeyPrefix(projectId: string, evidenceId: string): string {
+  return `projects/${projectId}/snapshots/${evidenceId}/`;
+}
+
+/**
+ * Build a Content-Disposition header value for downloads
+ */
+function contentDisposition(filename: string): string {
+  return `attachment; filename="${filename.replace(/["\\]/g, '')}"`;
+}
+
+/**
+ * S3 storage adapter (AWS S3, MinIO, or any S3-compatible endpoint)
+ */
+class S3StorageAdapter implements StorageAdapter {
+  readonly driver = 's3' as const;
+  private client: S3Client;
+  private bucket: string;
+
+  constructor() {
+    this.bucket = process.env.AWS_S3_BUCKET || 'gtm-deep-diver-files';
+    this.client = new S3Client({
+      region: process.env.AWS_REGION || 'us-east-1',
+      // Custom endpoint + path-style addressing for MinIO and similar
+      endpoint: process.env.AWS_S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.AWS_S3_FORCE_PATH_STYLE === 'true',
+    });
+  }
+
+  async createUploadUrl(key: string, contentType: string, ttlSeconds = DEFAULT_URL_TTL_SECONDS) {
+    const url = await getSignedUrl(
+      this.client,
+      new PutObjectCommand({ Bucket: this.bucket, Key: key, ContentType: contentType }),
+      { expiresIn: ttlSeconds }
+    );
+
+    return {
+      url,
+      method: 'PUT' as const,
+      headers: { 'Content-Type': contentType },
+      expiresAt: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+    };
+  }
+
+  async createDownloadUrl(key: string, filename?: string, ttlSeconds = DEFAULT_URL_TTL_SECONDS) {
+    const url = await getSignedUrl(
+      this.client,
+      new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        ResponseContentDisposition: filename ? contentDisposition(filename) : undefined,
+      }),
+      { expiresIn: ttlSeconds }
+    );
+
+    return {
+      url,
+      method: 'GET' as const,
+      headers: {},
+      expiresAt: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+    };
+  }
+
+  async putObject(key: string, body: Buffer, contentType: string) {
+    await this.client.send(
+      new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: body, ContentType: contentType })
+    );
+  }
+
+  async getObject(key: string) {
+    const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    if (!response.Body) {
+      throw new Error(`Not Found: Storage object ${key} has no body`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async headObject(key: string) {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return {
+        size: response.ContentLength ?? 0,
+        contentType: response.ContentType || 'application/octet-stream',
+      };
+    } catch (error) {
+      if (error instanceof Error && (error.name === 'NotFound' || error.name === 'NoSuchKey')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async deleteObject(key: string) {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+/**
+ * Local filesystem storage adapter for development and tests.
+ * Presigned URLs point at /api/storage/local and carry an HMAC signature
+ * that the route verifies before reading or writing the file.
+ */
+class LocalStorageAdapter implements StorageAdapter {
+  readonly driver = 'local' as const;
+  private rootDir: string;
+  private baseUrl: string;
+
+  constructor() {
+    localStorageSecret();
+    this.rootDir = path.resolve(process.env.LOCAL_STORAGE_DIR || '.storage');
+    this.baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  }
+
+  /**
+   * Resolve a key to a path inside the storage root (rejects traversal)
+   */
+  resolvePath(key: string): string {
+    if (!isSafeStorageKey(key)) {
+      throw new Error(`Forbidden: Invalid storage key ${key}`);
+    }
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Forbidden: Invalid storage key ${key}`);
+    }
+    return filePath;
+  }
+
+  private signedUrl(method: 'PUT' | 'GET', key: string, ttlSeconds: number, extra: Record<string, string>) {
+    const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+    const params = new URLSearchParams({ key, expires: expires.toString(), ...extra });
+    params.set('signature', signLocalRequest(method, params));
+
+    return {
+      url: `${this.baseUrl}/api/storage/local?${params.toString()}`,
+      expiresAt: new Date(expires * 1000).toISOString(),
+    };
+  }
+
+  async createUploadUrl(key: string, contentType: string, ttlSeconds = DEFAULT_URL_TTL_SECONDS) {
+    const { url, expiresAt } = this.signedUrl('PUT', key, ttlSeconds, { contentType });
+    return { url, method: 'PUT' as const, headers: { 'Content-Type': contentType }, expiresAt };
+  }
+
+  async createDownloadUrl(key: string, filename?: string, ttlSeconds = DEFAULT_URL_TTL_SECONDS) {
+    const { url, expiresAt } = this.signedUrl('GET', key, ttlSeconds, filename ? { filename } : {});
+    return { url, method: 'GET' as const, headers: {}, expiresAt };
+  }
+
+  async putObject(key: string, body: Buffer, contentType: string) {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+    await fs.writeFile(`${filePath}.meta.json`, JSON.stringify({ contentType }));
+  }
+
+  async getObject(key: string) {
+    return fs.readFile(this.resolvePath(key));
+  }
+
+  async headObject(key: string) {
+    const filePath = this.resolvePath(key);
+    try {
+      const [stat, meta] = await Promise.all([
+        fs.stat(filePath),
+        fs.readFile(`${filePath}.meta.json`, 'utf8').catch(() => '{}'),
+      ]);
+      return {
+        size: stat.size,
+        contentType: JSON.parse(meta).contentType || 'application/octet-stream',
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  async deleteObject(key: string) {
+    const filePath = this.resolvePath(key);
+    await Promise.all([
+      fs.rm(filePath, { force: true }),
+      fs.rm(`${filePath}.meta.json`, { force: true }),
+    ]);
+  }
+}
+
+/**
+ * Secret that signs local storage URLs
+ * The local endpoint is not behind a session, so a default secret would let
+ * anyone who has read this code forge upload and download URLs
+ * @throws Error when LOCAL_STORAGE_SECRET is not set
+ */
+function localStorageSecret(): string {
+  const secret = process.env.LOCAL_STORAGE_SECRET;
+  if (!secret) {
+    throw new Error('LOCAL_STORAGE_SECRET is required for the local storage driver');
+  }
+  return secret;
+}
+
+/**
+ * Compute the HMAC signature for a local storage URL
+ * @param method - HTTP method the URL authorizes
+ * @param params - URL parameters (signature excluded)
+ */
+export function signLocalRequest(method: 'PUT' | 'GET', params: URLSearchParams): string {
+  const secret = localStorageSecret();
+  const payload = [method, ...Array.from(params.entries())
+    .filter(([name]) => name !== 'signature')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}=${value}`)].join('\n');
+
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/**
+ * Verify a signed local storage URL
+ * @param method - HTTP method of the incoming request
+ * @param params - URL parameters including signature
+ * @returns true if the signature matches and the URL has not expired
+ */
+export function verifyLocalRequest(method: 'PUT' | 'GET', params: URLSearchParams): boolean {
+  const signature = params.get('signature') || '';
+  const expires = parseInt(params.get('expires') || '0');
+
+  if (!expires || expires < Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+
+  const expected = signLocalRequest(method, params);
+  return signature.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
+
+let storageInstance: StorageAdapter | undefined;
+
+/**
+ * Get the configured storage adapter
+ * STORAGE_DRIVER=local uses the filesystem; anything else uses S3
+ */
+export function getStorage(): StorageAdapter {
+  if (!storageInstance) {
+    storageInstance = process.env.STORAGE_DRIVER === 'local'
+      ? new LocalStorageAdapter()
+      : new S3StorageAdapter();
+    console.log(`src/lib/storage.ts: Using ${storageInstance.driver} storage driver`);
+  }
+  return storageInstance;
+}
@@ -0,0 +1,502 @@
+/**
+ * src/lib/tech-fingerprints.ts: Bundled technology fingerprint database
+ *
+ * Wappalyzer-style patterns matched against a fetched page's response
+ * headers, cookie names, meta tags, script sources, DOM and markup.
+ * A capture group in a pattern extracts the version. Bump
+ * TECH_FINGERPRINTS_VERSION whenever fingerprints change so stored
+ * profiles record which database produced them.
+ */
+
+export const TECH_FINGERPRINTS_VERSION = 'fingerprints-v1';
+
+export type TechCategory =
+  | 'cms'
+  | 'ecommerce'
+  | 'javascript-framework'
+  | 'ui-framework'
+  | 'web-server'
+  | 'backend'
+  | 'cdn'
+  | 'hosting'
+  | 'analytics'
+  | 'tag-manager'
+  | 'marketing-automation'
+  | 'crm'
+  | 'customer-support'
+  | 'ab-testing'
+  | 'advertising'
+  | 'consent'
+  | 'security'
+  | 'payments'
+  | 'monitoring'
+  | 'search';
+
+export interface TechFingerprint {
+  name: string;
+  category: TechCategory;
+  headers?: Record<string, RegExp>; // Lowercase header name -> value pattern
+  cookies?: RegExp[]; // Cookie name patterns
+  meta?: Record<string, RegExp>; // Meta name or property -> content pattern
+  scriptSrc?: RegExp[];
+  dom?: string[]; // CSS selectors
+  html?: RegExp[];
+  implies?: string[];
+}
+
+export const TECH_FINGERPRINTS: TechFingerprint[] = [
+  // Content management and commerce
+  {
+    name: 'WordPress',
+    category: 'cms',
+    meta: { generator: /^WordPress ?([\d.]+)?/i },
+    scriptSrc: [/\/wp-(?:content|includes)\//],
+    headers: { link: /rel="https:\/\/api\.w\.org\/"/ },
+    html: [/<link[^>]+\/wp-content\//i],
+    implies: ['PHP', 'MySQL'],
+  },
+  {
+    name: 'WooCommerce',
+    category: 'ecommerce',
+    meta: { generator: /^WooCommerce ?([\d.]+)?/i },
+    scriptSrc: [/\/woocommerce\//],
+    dom: ['body.woocommerce', '.woocommerce-cart'],
+    implies: ['WordPress'],
+  },
+  {
+    name: 'Drupal',
+    category: 'cms',
+    meta: { generator: /^Drupal ?([\d.]+)?/i },
+    headers: { 'x-generator': /^Drupal ?([\d.]+)?/i, 'x-drupal-cache': /.*/ },
+    scriptSrc: [/\/(?:misc|core\/misc)\/drupal\.js/],
+    implies: ['PHP'],
+  },
+  {
+    name: 'Joomla',
+    category: 'cms',
+    meta: { generator: /^Joomla!? ?([\d.]+)?/i },
+    html: [/<script[^>]+\/media\/(?:jui|system)\/js\//i],
+    implies: ['PHP'],
+  },
+  {
+    name: 'Webflow',
+    category: 'cms',
+    meta: { generator: /^Webflow/i },
+    html: [/<html[^>]+data-wf-(?:page|site)=/i],
+    scriptSrc: [/\.webflow\.(?:io|com)\//, /assets\.website-files\.com\//],
+  },
+  {
+    name: 'Squarespace',
+    category: 'cms',
+    headers: { server: /^Squarespace/i },
+    scriptSrc: [/static\.squarespace\.com\//, /assets\.squarespace\.com\//],
+  },
+  {
+    name: 'Wix',
+    category: 'cms',
+    meta: { generator: /^Wix\.com/i },
+    headers: { 'x-wix-request-id': /.*/ },
+    scriptSrc: [/static\.parastorage\.com\//],
+  },
+  {
+    name: 'Ghost',
+    category: 'cms',
+    meta: { generator: /^Ghost ?([\d.]+)?/i },
+    headers: { 'x-ghost-cache-status': /.*/ },
+    implies: ['Node.js'],
+  },
+  {
+    name: 'HubSpot CMS',
+    category: 'cms',
+    meta: { generator: /^HubSpot/i },
+    headers: { 'x-hs-hub-id': /.*/ },
+    implies: ['HubSpot'],
+  },
+  {
+    name: 'Contentful',
+    category: 'cms',
+    html: [/images\.ctfassets\.net\//i],
+  },
+  {
+    name: 'Shopify',
+    category: 'ecommerce',
+    headers: { 'x-shopid': /.*/, 'x-shopify-stage': /.*/ },
+    cookies: [/^_shopify_(?:y|s)$/],
+    scriptSrc: [/cdn\.shopify\.com\//],
+  },
+  {
+    name: 'Magento',
+    category: 'ecommerce',
+    cookies: [/^X-Magento-Vary$/, /^mage-cache-storage$/],
+    scriptSrc: [/\/(?:static|skin)\/frontend\//, /mage\/cookies\.js/],
+    implies: ['PHP'],
+  },
+  {
+    name: 'BigCommerce',
+    category: 'ecommerce',
+    headers: { 'x-bc-storefront-version': /.*/ },
+    scriptSrc: [/cdn\d*\.bigcommerce\.com\//],
+  },
+
+  // JavaScript and UI frameworks
+  {
+    name: 'React',
+    category: 'javascript-framework',
+    scriptSrc: [/\breact(?:-dom)?(?:\.production)?(?:\.min)?\.js/],
+    dom: ['[data-reactroot]', '[data-reactid]'],
+  },
+  {
+    name: 'Next.js',
+    category: 'javascript-framework',
+    headers: { 'x-powered-by': /^Next\.js ?([\d.]+)?/i, 'x-nextjs-cache': /.*/ },
+    scriptSrc: [/\/_next\/static\//],
+    dom: ['script#__NEXT_DATA__'],
+    implies: ['React', 'Node.js'],
+  },
+  {
+    name: 'Gatsby',
+    category: 'javascript-framework',
+    meta: { generator: /^Gatsby ?([\d.]+)?/i },
+    dom: ['#___gatsby'],
+    implies: ['React'],
+  },
+  {
+    name: 'Vue.js',
+    category: 'javascript-framework',
+    scriptSrc: [/\bvue(?:\.runtime)?(?:\.global)?(?:\.prod)?(?:\.min)?\.js/],
+    html: [/<[^>]+\sdata-v-[0-9a-f]{8}\b/i],
+  },
+  {
+    name: 'Nuxt.js',
+    category: 'javascript-framework',
+    scriptSrc: [/\/_nuxt\//],
+    dom: ['#__nuxt', '#__layout'],
+    implies: ['Vue.js', 'Node.js'],
+  },
+  {
+    name: 'Angular',
+    category: 'javascript-framework',
+    html: [/<[^>]+\sng-version="([\d.]+)"/i],
+  },
+  {
+    name: 'Svelte',
+    category: 'javascript-framework',
+    html: [/<[^>]+\sclass="[^"]*\bsvelte-[a-z0-9]{5,}\b/i],
+  },
+  {
+    name: 'jQuery',
+    category: 'javascript-framework',
+    scriptSrc: [/jquery[.-]([\d.]+)(?:\.min)?\.js/i, /\/jquery(?:\.min)?\.js/i],
+  },
+  {
+    name: 'Bootstrap',
+    category: 'ui-framework',
+    scriptSrc: [/bootstrap(?:\.bundle)?(?:\.min)?\.js/i],
+    html: [/<link[^>]+bootstrap(?:\.min)?\.css/i],
+  },
+  {
+    name: 'Tailwind CSS',
+    category: 'ui-framework',
+    html: [/<link[^>]+tailwind(?:\.min)?\.css/i, /<style[^>]*>\s*\/\*!\s*tailwindcss v([\d.]+)/i],
+  },
+
+  // Servers, platforms and languages
+  {
+    name: 'Nginx',
+    category: 'web-server',
+    headers: { server: /^nginx(?:\/([\d.]+))?/i },
+  },
+  {
+    name: 'Apache HTTP Server',
+    category: 'web-server',
+    headers: { server: /^Apache(?:\/([\d.]+))?/i },
+  },
+  {
+    name: 'Microsoft IIS',
+    category: 'web-server',
+    headers: { server: /^Microsoft-IIS(?:\/([\d.]+))?/i },
+    implies: ['Microsoft ASP.NET'],
+  },
+  {
+    name: 'LiteSpeed',
+    category: 'web-server',
+    headers: { server: /^LiteSpeed/i },
+  },
+  {
+    name: 'Caddy',
+    category: 'web-server',
+    headers: { server: /^Caddy/i },
+  },
+  {
+    name: 'PHP',
+    category: 'backend',
+    headers: { 'x-powered-by': /^PHP(?:\/([\d.]+))?/i },
+    cookies: [/^PHPSESSID$/],
+  },
+  {
+    name: 'MySQL',
+    category: 'backend',
+  },
+  {
+    name: 'Microsoft ASP.NET',
+    category: 'backend',
+    headers: { 'x-aspnet-version': /^([\d.]+)/, 'x-powered-by': /^ASP\.NET/i },
+    cookies: [/^ASP\.NET_SessionId$/, /^\.AspNetCore\./],
+    html: [/<input[^>]+name="__VIEWSTATE"/i],
+  },
+  {
+    name: 'Express',
+    category: 'backend',
+    headers: { 'x-powered-by': /^Express/i },
+    implies: ['Node.js'],
+  },
+  {
+    name: 'Node.js',
+    category: 'backend',
+  },
+  {
+    name: 'Ruby on Rails',
+    category: 'backend',
+    cookies: [/^_[a-z0-9_]+_session$/],
+    meta: { 'csrf-param': /^authenticity_token$/ },
+    headers: { 'x-runtime': /^[\d.]+$/ },
+  },
+  {
+    name: 'Django',
+    category: 'backend',
+    cookies: [/^csrftoken$/, /^django_language$/],
+    html: [/<input[^>]+name="csrfmiddlewaretoken"/i],
+    implies: ['Python'],
+  },
+  {
+    name: 'Laravel',
+    category: 'backend',
+    cookies: [/^laravel_session$/, /^XSRF-TOKEN$/],
+    implies: ['PHP'],
+  },
+  {
+    name: 'Python',
+    category: 'backend',
+  },
+
+  // Delivery and hosting
+  {
+    name: 'Cloudflare',
+    category: 'cdn',
+    headers: { server: /^cloudflare$/i, 'cf-ray': /.*/ },
+    cookies: [/^__cf_bm$/, /^__cfruid$/, /^cf_clearance$/],
+  },
+  {
+    name: 'Fastly',
+    category: 'cdn',
+    headers: { 'x-fastly-request-id': /.*/, 'x-served-by': /^cache-/ },
+  },
+  {
+    name: 'Akamai',
+    category: 'cdn',
+    headers: { 'x-akamai-transformed': /.*/, server: /^AkamaiGHost/i },
+    cookies: [/^ak_bmsc$/, /^bm_sv$/],
+  },
+  {
+    name: 'Amazon CloudFront',
+    category: 'cdn',
+    headers: { 'x-amz-cf-id': /.*/, via: /CloudFront/i },
+    implies: ['Amazon Web Services'],
+  },
+  {
+    name: 'Amazon Web Services',
+    category: 'hosting',
+    headers: { server: /^(?:AmazonS3|awselb)/i, 'x-amz-request-id': /.*/ },
+    cookies: [/^AWSALB(?:CORS)?$/],
+  },
+  {
+    name: 'Google Cloud',
+    category: 'hosting',
+    headers: { via: /\b1\.1 google\b/i, server: /^(?:Google Frontend|gws)$/i },
+  },
+  {
+    name: 'Microsoft Azure',
+    category: 'hosting',
+    headers: { 'x-azure-ref': /.*/, 'x-ms-request-id': /.*/ },
+    cookies: [/^ARRAffinity(?:SameSite)?$/],
+  },
+  {
+    name: 'Vercel',
+    category: 'hosting',
+    headers: { server: /^Vercel$/i, 'x-vercel-id': /.*/ },
+  },
+  {
+    name: 'Netlify',
+    category: 'hosting',
+    headers: { server: /^Netlify$/i, 'x-nf-request-id': /.*/ },
+  },
+  {
+    name: 'Heroku',
+    category: 'hosting',
+    headers: { via: /\bvegur\b/i },
+  },
+
+  // Analytics and tags
+  {
+    name: 'Google Analytics',
+    category: 'analytics',
+    scriptSrc: [/google-analytics\.com\/(?:ga|analytics)\.js/, /googletagmanager\.com\/gtag\/js/],
+    cookies: [/^_ga$/, /^_gid$/],
+  },
+  {
+    name: 'Google Tag Manager',
+    category: 'tag-manager',
+    scriptSrc: [/googletagmanager\.com\/gtm\.js/],
+    html: [/googletagmanager\.com\/ns\.html\?id=GTM-/i],
+  },
+  {
+    name: 'Segment',
+    category: 'analytics',
+    scriptSrc: [/cdn\.segment\.(?:com|io)\/analytics\.js/],
+    cookies: [/^ajs_anonymous_id$/],
+  },
+  {
+    name: 'Mixpanel',
+    category: 'analytics',
+    scriptSrc: [/cdn\.mxpnl\.com\//, /cdn\.mixpanel\.com\//],
+  },
+  {
+    name: 'Amplitude',
+    category: 'analytics',
+    scriptSrc: [/cdn\.amplitude\.com\//],
+  },
+  {
+    name: 'Heap',
+    category: 'analytics',
+    scriptSrc: [/cdn\.heapanalytics\.com\//],
+  },
+  {
+    name: 'Hotjar',
+    category: 'analytics',
+    scriptSrc: [/static\.hotjar\.com\//],
+    cookies: [/^_hjSessionUser_\d+$/, /^_hjid$/],
+  },
+  {
+    name: 'FullStory',
+    category: 'analytics',
+    scriptSrc: [/(?:edge\.)?fullstory\.com\/s\/fs\.js/],
+  },
+  {
+    name: 'Plausible',
+    category: 'analytics',
+    scriptSrc: [/plausible\.io\/js\//],
+  },
+
+  // Marketing, sales and support
+  {
+    name: 'HubSpot',
+    category: 'marketing-automation',
+    scriptSrc: [/js\.hs-scripts\.com\//, /js\.hsforms\.net\//, /js\.hs-analytics\.net\//],
+    cookies: [/^__hstc$/, /^hubspotutk$/],
+  },
+  {
+    name: 'Marketo',
+    category: 'marketing-automation',
+    scriptSrc: [/munchkin\.marketo\.net\//, /\.marketo\.com\/js\/forms2\//],
+    cookies: [/^_mkto_trk$/],
+  },
+  {
+    name: 'Salesforce Pardot',
+    category: 'marketing-automation',
+    scriptSrc: [/pi\.pardot\.com\//],
+    cookies: [/^visitor_id\d+$/],
+    implies: ['Salesforce'],
+  },
+  {
+    name: 'Salesforce',
+    category: 'crm',
+    scriptSrc: [/\.force\.com\//, /service\.force\.com\/embeddedservice\//],
+  },
+  {
+    name: 'Intercom',
+    category: 'customer-support',
+    scriptSrc: [/widget\.intercom\.io\//, /js\.intercomcdn\.com\//],
+    cookies: [/^intercom-id-/],
+  },
+  {
+    name: 'Drift',
+    category: 'customer-support',
+    scriptSrc: [/js\.driftt\.com\//],
+  },
+  {
+    name: 'Zendesk',
+    category: 'customer-support',
+    scriptSrc: [/static\.zdassets\.com\//],
+  },
+  {
+    name: 'Optimizely',
+    category: 'ab-testing',
+    scriptSrc: [/cdn\.optimizely\.com\/js\//],
+    cookies: [/^optimizelyEndUserId$/],
+  },
+  {
+    name: 'LinkedIn Insight Tag',
+    category: 'advertising',
+    scriptSrc: [/snap\.licdn\.com\/li\.lms-analytics\//],
+  },
+  {
+    name: 'Meta Pixel',
+    category: 'advertising',
+    scriptSrc: [/connect\.facebook\.net\/[^/]+\/fbevents\.js/],
+    cookies: [/^_fbp$/],
+  },
+
+  // Consent, security, payments, monitoring and search
+  {
+    name: 'OneTrust',
+    category: 'consent',
+    scriptSrc: [/cdn\.cookielaw\.org\//, /optanon\.blob\.core\.windows\.net\//],
+    cookies: [/^OptanonConsent$/],
+  },
+  {
+    name: 'Cookiebot',
+    category: 'consent',
+    scriptSrc: [/consent\.cookiebot\.com\//],
+  },
+  {
+    name: 'reCAPTCHA',
+    category: 'security',
+    scriptSrc: [/www\.google\.com\/recaptcha\//, /www\.gstatic\.com\/recaptcha\//],
+  },
+  {
+    name: 'hCaptcha',
+    category: 'security',
+    scriptSrc: [/(?:js\.)?hcaptcha\.com\/1\/api\.js/],
+  },
+  {
+    name: 'Stripe',
+    category: 'payments',
+    scriptSrc: [/js\.stripe\.com\//],
+  },
+  {
+    name: 'PayPal',
+    category: 'payments',
+    scriptSrc: [/(?:www\.)?paypal(?:objects)?\.com\/sdk\/js/],
+  },
+  {
+    name: 'Sentry',
+    category: 'monitoring',
+    scriptSrc: [/browser\.sentry-cdn\.com\/([\d.]+)\//, /js\.sentry-cdn\.com\//],
+  },
+  {
+    name: 'New Relic',
+    category: 'monitoring',
+    scriptSrc: [/js-agent\.newrelic\.com\//],
+    html: [/\bNREUM\b/],
+  },
+  {
+    name: 'Datadog',
+    category: 'monitoring',
+    scriptSrc: [/www\.datadoghq-browser-agent\.com\//],
+  },
+  {
+    name: 'Algolia',
+    category: 'search',
+    scriptSrc: [/cdn\.jsdelivr\.net\/(?:npm\/)?algoliasearch/, /algolia(?:search)?(?:\.lite)?(?:\.min)?\.js/],
+  },
+];
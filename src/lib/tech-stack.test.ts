@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('./polite-fetch', () => ({ politeFetch: vi.fn() }));
+
+import { detectTechStack, fingerprintHeaders, mergeTechDetections, TechDetection } from './tech-stack';
+
+const WORDPRESS_PAGE = `<!DOCTYPE html><html><head>
+<meta name="generator" content="WordPress 6.4.2">
+<link rel="stylesheet" href="/wp-content/themes/contoso/style.css">
+<script src="/wp-includes/js/jquery/jquery.min.js"></script>
+<script src="https://www.googletagmanager.com/gtm.js?id=GTM-ABC123"></script>
+</head><body><p>Contoso logistics</p></body></html>`;
+
+const summary = (detections: Array<Pick<TechDetection, 'name' | 'confidence' | 'version'>>) =>
+  Object.fromEntries(detections.map(({ name, confidence, version }) => [name, version ? `${confidence} ${version}` : confidence]));
+
+describe('fingerprintHeaders', () => {
+  it('lowercases names and keeps only cookie names', () => {
+    expect(fingerprintHeaders({ Server: 'nginx/1.25.3', 'set-cookie': ['PHPSESSID=secret; Path=/', '_ga=GA1.2.3; Path=/'] })).toEqual({
+      server: 'nginx/1.25.3',
+      'set-cookie': 'PHPSESSID; _ga',
+    });
+  });
+});
+
+describe('detectTechStack', () => {
+  it('combines matches per technology, reads versions and follows implications', () => {
+    const detections = detectTechStack({
+      html: WORDPRESS_PAGE,
+      headers: { server: 'nginx/1.25.3', 'set-cookie': 'PHPSESSID; _ga' },
+    });
+
+    expect(summary(detections)).toEqual({
+      WordPress: '0.99 6.4.2',
+      Nginx: '0.9 1.25.3',
+      PHP: 0.89,
+      MySQL: 0.89,
+      jQuery: 0.85,
+      'Google Tag Manager': 0.85,
+      'Google Analytics': 0.75,
+    });
+    expect(detections[0].matches).toEqual([
+      { type: 'meta', detail: 'generator: WordPress 6.4.2' },
+      { type: 'script', detail: '/wp-includes/js/jquery/jquery.min.js' },
+      { type: 'html', detail: '<link rel="stylesheet" href="/wp-content/' },
+    ]);
+  });
+
+  it('does not detect technologies that are only mentioned in the page text', () => {
+    const html = '<html><body><p>We migrated from WordPress and Shopify to a React front end served by Nginx.</p></body></html>';
+
+    expect(detectTechStack({ html, headers: {} })).toEqual([]);
+  });
+});
+
+describe('mergeTechDetections', () => {
+  const detection = (name: string, confidence: number, version?: string): TechDetection => ({
+    name,
+    category: 'web-server',
+    confidence,
+    version,
+    matches: [{ type: 'header', detail: `server: ${name.toLowerCase()}` }],
+  });
+
+  it('raises confidence for technologies seen on several pages, using at most three sightings', () => {
+    const pages = [0.6, 0.6, 0.6, 0.6].map((confidence, index) => ({
+      page: { url: `https://contoso.com/page-${index}`, evidenceId: `evidence-${index}` },
+      detections: [detection('Nginx', confidence)],
+    }));
+
+    const [nginx] = mergeTechDetections(pages);
+
+    expect(nginx.confidence).toBe(0.94);
+    expect(nginx.sources).toHaveLength(4);
+    expect(nginx.sources[0]).toEqual({ url: 'https://contoso.com/page-0', evidenceId: 'evidence-0', match: 'header: server: nginx' });
+  });
+
+  it('caps merged confidence below certainty and keeps the first version found', () => {
+    const merged = mergeTechDetections([
+      { page: { url: 'https://contoso.com/' }, detections: [detection('Nginx', 0.9), detection('Apache HTTP Server', 0.5)] },
+      { page: { url: 'https://contoso.com/about' }, detections: [detection('Nginx', 0.9, '1.25.3')] },
+      { page: { url: 'https://contoso.com/blog' }, detections: [detection('Nginx', 0.9, '1.24.0')] },
+    ]);
+
+    expect(merged.map(({ name, confidence, version }) => ({ name, confidence, version }))).toEqual([
+      { name: 'Nginx', confidence: 0.99, version: '1.25.3' },
+      { name: 'Apache HTTP Server', confidence: 0.5, version: null },
+    ]);
+    expect(merged[0].sources[0]).not.toHaveProperty('evidenceId');
+  });
+});
@@ -0,0 +1,423 @@
+/**
+ * src/lib/tech-stack.ts: Offline technology stack detection
+ *
+ * Matches the bundled fingerprint database against pages on the company's
+ * domain: snapshots of URL evidence the project already fetched, plus the
+ * homepage. Detections are combined across pages into a project tech-stack
+ * profile where each technology carries a confidence and the pages and
+ * patterns that matched.
+ */
+
+import type { IncomingHttpHeaders } from 'http';
+import { parseHTML } from 'linkedom';
+import { prisma } from './db';
+import { getStorage } from './storage';
+import { politeFetch } from './polite-fetch';
+import { extractDomain } from './utils';
+import { TECH_FINGERPRINTS, TECH_FINGERPRINTS_VERSION, TechCategory, TechFingerprint } from './tech-fingerprints';
+
+export type TechMatchType = 'header' | 'cookie' | 'meta' | 'script' | 'dom' | 'html' | 'implied';
+
+export interface TechMatch {
+  type: TechMatchType;
+  detail: string; // e.g. "server: nginx/1.25.3" or "implied by Next.js"
+}
+
+export interface TechDetection {
+  name: string;
+  category: TechCategory;
+  version?: string;
+  confidence: number;
+  matches: TechMatch[];
+}
+
+export interface FingerprintPage {
+  url: string;
+  evidenceId?: string;
+  html: string;
+  headers: Record<string, string>; // From fingerprintHeaders
+}
+
+export interface TechStackSource {
+  url: string;
+  evidenceId?: string;
+  match: string;
+}
+
+export interface TechStackEntry {
+  name: string;
+  category: string;
+  version: string | null;
+  confidence: number;
+  sources: TechStackSource[];
+}
+
+export interface TechStackResult {
+  pages: number;
+  technologies: number;
+  detector: string;
+}
+
+// Evidence of one match, by how specific the pattern type usually is
+const MATCH_CONFIDENCE: Record<Exclude<TechMatchType, 'implied'>, number> = {
+  meta: 0.95,
+  header: 0.9,
+  script: 0.85,
+  cookie: 0.75,
+  dom: 0.7,
+  html: 0.6,
+};
+
+// Implied technologies (WordPress implies PHP) are slightly less certain than their source
+const IMPLIED_CONFIDENCE_FACTOR = 0.9;
+
+// Detections below this confidence are left out of outreach and pain mapping
+export const MIN_TECH_CONFIDENCE = 0.5;
+
+// Company pages fingerprinted per profile, newest evidence first
+const MAX_PROFILE_PAGES = 20;
+
+// Markup searched by html patterns (scripts and meta tags sit near the top)
+const MAX_HTML_SCAN_CHARS = 500000;
+
+const MAX_HEADER_VALUE_CHARS = 500;
+
+// Sources kept per technology
+const MAX_SOURCES = 10;
+
+const FINGERPRINTS_BY_NAME = new Map(TECH_FINGERPRINTS.map(fingerprint => [fingerprint.name, fingerprint]));
+
+/**
+ * Reduce response headers to what fingerprinting needs
+ * Header names are lowercased, values truncated, and Set-Cookie reduced to
+ * cookie names so no session values are stored
+ * @param headers - Response headers
+ */
+export function fingerprintHeaders(headers: IncomingHttpHeaders): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  Object.entries(headers).forEach(([name, value]) => {
+    if (value === undefined) return;
+    const key = name.toLowerCase();
+
+    if (key === 'set-cookie') {
+      const cookies = (Array.isArray(value) ? value : [value])
+        .map(cookie => cookie.split('=')[0].trim())
+        .filter(Boolean);
+      result[key] = cookies.join('; ');
+      return;
+    }
+
+    result[key] = (Array.isArray(value) ? value.join(', ') : value).substring(0, MAX_HEADER_VALUE_CHARS);
+  });
+
+  return result;
+}
+
+/**
+ * Normalize a project's company domain (a bare domain or a URL) to its host without "www."
+ */
+export function companyHost(companyDomain: string): string {
+  const host = (/^[a-z][a-z0-9+.-]*:\/\//i.test(companyDomain) ? extractDomain(companyDomain) : companyDomain) ?? companyDomain;
+  return host.toLowerCase().replace(/^www\./, '').replace(/\.$/, '');
+}
+
+/**
+ * Whether a URL is on the company's domain or one of its subdomains
+ */
+export function isCompanyUrl(url: string, companyDomain: string): boolean {
+  const host = extractDomain(url)?.toLowerCase();
+  const company = companyHost(companyDomain);
+  return !!host && (host === company || host.endsWith(`.${company}`));
+}
+
+/**
+ * First capture group of a match when it looks like a version number
+ */
+function matchVersion(match: RegExpMatchArray): string | undefined {
+  const version = match[1];
+  return version && /^\d+(?:\.\d+)*$/.test(version) ? version : undefined;
+}
+
+/**
+ * Combine independent pieces of evidence: each removes part of the remaining doubt
+ * Pattern matches never make a detection certain, so the result stays below 1
+ */
+function combineConfidence(confidences: number[]): number {
+  const doubt = confidences.reduce((remaining, confidence) => remaining * (1 - confidence), 1);
+  return Math.min(0.99, Math.round((1 - doubt) * 100) / 100);
+}
+
+/**
+ * Match one fingerprint against a parsed page
+ */
+function matchFingerprint(
+  fingerprint: TechFingerprint,
+  page: { headers: Record<string, string>; cookies: string[]; meta: Map<string, string[]>; scripts: string[]; html: string; document: Document }
+): { matches: TechMatch[]; version?: string } {
+  const matches: TechMatch[] = [];
+  let version: string | undefined;
+
+  const record = (type: TechMatch['type'], detail: string, match?: RegExpMatchArray | null) => {
+    matches.push({ type, detail: detail.substring(0, 200) });
+    if (!version && match) version = matchVersion(match);
+  };
+
+  Object.entries(fingerprint.headers ?? {}).forEach(([name, pattern]) => {
+    const value = page.headers[name];
+    const match = value !== undefined ? value.match(pattern) : null;
+    if (match) record('header', `${name}: ${value}`, match);
+  });
+
+  (fingerprint.cookies ?? []).forEach(pattern => {
+    const cookie = page.cookies.find(name => pattern.test(name));
+    if (cookie) record('cookie', cookie);
+  });
+
+  Object.entries(fingerprint.meta ?? {}).forEach(([name, pattern]) => {
+    for (const content of page.meta.get(name) ?? []) {
+      const match = content.match(pattern);
+      if (match) {
+        record('meta', `${name}: ${content}`, match);
+        break;
+      }
+    }
+  });
+
+  (fingerprint.scriptSrc ?? []).forEach(pattern => {
+    for (const src of page.scripts) {
+      const match = src.match(pattern);
+      if (match) {
+        record('script', src, match);
+        break;
+      }
+    }
+  });
+
+  (fingerprint.dom ?? []).forEach(selector => {
+    if (page.document.querySelector(selector)) record('dom', selector);
+  });
+
+  (fingerprint.html ?? []).forEach(pattern => {
+    const match = page.html.match(pattern);
+    if (match) record('html', match[0], match);
+  });
+
+  return { matches, version };
+}
+
+/**
+ * Detect the technologies used by one page
+ * @param page - Page markup and fingerprinting headers
+ * @returns Detected technologies with confidence and the patterns that matched, most confident first
+ */
+export function detectTechStack(page: Pick<FingerprintPage, 'html' | 'headers'>): TechDetection[] {
+  const html = page.html.substring(0, MAX_HTML_SCAN_CHARS);
+  const { document } = parseHTML(html) as unknown as { document: Document };
+
+  const meta = new Map<string, string[]>();
+  document.querySelectorAll('meta[content]').forEach(element => {
+    const name = (element.getAttribute('name') || element.getAttribute('property') || '').toLowerCase();
+    if (!name) return;
+    meta.set(name, [...(meta.get(name) ?? []), element.getAttribute('content') ?? '']);
+  });
+
+  const parsed = {
+    headers: page.headers,
+    cookies: (page.headers['set-cookie'] ?? '').split(/;\s*/).filter(Boolean),
+    meta,
+    scripts: Array.from(document.querySelectorAll('script[src]')).map(element => element.getAttribute('src') ?? ''),
+    html,
+    document,
+  };
+
+  const detections = new Map<string, TechDetection>();
+  for (const fingerprint of TECH_FINGERPRINTS) {
+    const { matches, version } = matchFingerprint(fingerprint, parsed);
+    if (matches.length === 0) continue;
+
+    detections.set(fingerprint.name, {
+      name: fingerprint.name,
+      category: fingerprint.category,
+      version,
+      confidence: combineConfidence(matches.map(match => MATCH_CONFIDENCE[match.type as Exclude<TechMatchType, 'implied'>])),
+      matches,
+    });
+  }
+
+  // Follow implications transitively (WooCommerce -> WordPress -> PHP)
+  const pending = Array.from(detections.values());
+  while (pending.length > 0) {
+    const detection = pending.shift() as TechDetection;
+    for (const impliedName of FINGERPRINTS_BY_NAME.get(detection.name)?.implies ?? []) {
+      const implied = FINGERPRINTS_BY_NAME.get(impliedName);
+      if (!implied) continue;
+
+      const confidence = Math.round(detection.confidence * IMPLIED_CONFIDENCE_FACTOR * 100) / 100;
+      const existing = detections.get(impliedName);
+      if (existing) {
+        if (existing.confidence < confidence) existing.confidence = confidence;
+        continue;
+      }
+
+      const added: TechDetection = {
+        name: implied.name,
+        category: implied.category,
+        confidence,
+        matches: [{ type: 'implied', detail: `implied by ${detection.name}` }],
+      };
+      detections.set(impliedName, added);
+      pending.push(added);
+    }
+  }
+
+  return Array.from(detections.values()).sort((a, b) => b.confidence - a.confidence || (a.name < b.name ? -1 : 1));
+}
+
+/**
+ * Combine page detections into one profile
+ * A technology seen on several pages is more certain than one seen once
+ * @param pages - Fingerprinted pages with their detections
+ */
+export function mergeTechDetections(pages: Array<{ page: Pick<FingerprintPage, 'url' | 'evidenceId'>; detections: TechDetection[] }>): TechStackEntry[] {
+  const merged = new Map<string, { detection: TechDetection; confidences: number[]; sources: TechStackSource[] }>();
+
+  for (const { page, detections } of pages) {
+    for (const detection of detections) {
+      const entry = merged.get(detection.name) ?? { detection, confidences: [], sources: [] };
+      entry.confidences.push(detection.confidence);
+      if (!entry.detection.version && detection.version) entry.detection = { ...entry.detection, version: detection.version };
+      detection.matches.forEach(match => {
+        entry.sources.push({ url: page.url, ...(page.evidenceId && { evidenceId: page.evidenceId }), match: `${match.type}: ${match.detail}` });
+      });
+      merged.set(detection.name, entry);
+    }
+  }
+
+  return Array.from(merged.values())
+    .map(({ detection, confidences, sources }) => ({
+      name: detection.name,
+      category: detection.category,
+      version: detection.version ?? null,
+      // Repeat sightings corroborate, but a page seen many times is not many sources
+      confidence: combineConfidence([...confidences].sort((a, b) => b - a).slice(0, 3)),
+      sources: sources.slice(0, MAX_SOURCES),
+    }))
+    .sort((a, b) => b.confidence - a.confidence || (a.name < b.name ? -1 : 1));
+}
+
+/**
+ * Collect fingerprintable pages on the company domain
+ * Uses the latest snapshot of each approved URL evidence on the domain and
+ * fetches the homepage when no evidence covers it
+ */
+async function collectCompanyPages(projectId: string, companyDomain: string): Promise<FingerprintPage[]> {
+  const host = companyHost(companyDomain);
+  const storage = getStorage();
+
+  const evidence = await prisma.evidence.findMany({
+    where: { projectId, type: 'url', approved: true, url: { contains: host, mode: 'insensitive' } },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      id: true,
+      url: true,
+      snapshots: {
+        orderBy: { version: 'desc' },
+        take: 1,
+        select: { rawKey: true, contentType: true, headers: true },
+      },
+    },
+  });
+
+  const pages: FingerprintPage[] = [];
+  for (const item of evidence) {
+    const [snapshot] = item.snapshots;
+    if (!item.url || !snapshot || !isCompanyUrl(item.url, host) || !/html/i.test(snapshot.contentType)) continue;
+    if (pages.length >= MAX_PROFILE_PAGES) break;
+
+    try {
+      pages.push({
+        url: item.url,
+        evidenceId: item.id,
+        html: (await storage.getObject(snapshot.rawKey)).toString('utf8'),
+        headers: snapshot.headers ? (JSON.parse(snapshot.headers) as Record<string, string>) : {},
+      });
+    } catch (error) {
+      console.warn(`src/lib/tech-stack.ts: Skipping snapshot of evidence ${item.id}: ${(error as Error).message}`);
+    }
+  }
+
+  if (!pages.some(page => new URL(page.url).pathname === '/')) {
+    const homepage = `https://${host}/`;
+    try {
+      const response = await politeFetch(homepage, {
+        headers: {
+          'Accept': 'text/html,application/xhtml+xml;q=0.9',
+          'Accept-Language': 'en-US,en;q=0.5',
+        },
+        allowedContentTypes: ['text/html', 'application/xhtml+xml'],
+        timeoutMs: 30000,
+      });
+      if (response.status >= 200 && response.status < 300) {
+        pages.push({ url: response.url, html: response.text(), headers: fingerprintHeaders(response.headers) });
+      }
+    } catch (error) {
+      console.warn(`src/lib/tech-stack.ts: Could not fetch ${homepage}: ${(error as Error).message}`);
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Rebuild a project's tech-stack profile from its company pages
+ * @param projectId - Project UUID
+ * @param companyDomain - Company domain or website URL
+ * @returns Pages fingerprinted and technologies stored
+ */
+export async function profileTechStack(projectId: string, companyDomain: string): Promise<TechStackResult> {
+  const pages = await collectCompanyPages(projectId, companyDomain);
+  const entries = mergeTechDetections(pages.map(page => ({ page, detections: detectTechStack(page) })));
+
+  // With no page fetched, keep the previous profile rather than wiping it
+  if (pages.length > 0) {
+    await prisma.$transaction([
+      prisma.techStackItem.deleteMany({ where: { projectId } }),
+      prisma.techStackItem.createMany({
+        data: entries.map(entry => ({
+          projectId,
+          name: entry.name,
+          category: entry.category,
+          version: entry.version,
+          confidence: entry.confidence,
+          sources: JSON.stringify(entry.sources),
+          detector: TECH_FINGERPRINTS_VERSION,
+        })),
+      }),
+    ]);
+  }
+
+  console.log(`src/lib/tech-stack.ts: Detected ${entries.length} technologies on ${pages.length} pages for project ${projectId}`);
+
+  return { pages: pages.length, technologies: entries.length, detector: TECH_FINGERPRINTS_VERSION };
+}
+
+/**
+ * Load a project's stored tech-stack profile, most confident first
+ * @param projectId - Project UUID
+ * @param minConfidence - Leave out weaker detections
+ */
+export async function loadTechStack(projectId: string, minConfidence: number = 0): Promise<TechStackEntry[]> {
+  const items = await prisma.techStackItem.findMany({
+    where: { projectId, confidence: { gte: minConfidence } },
+    orderBy: [{ confidence: 'desc' }, { name: 'asc' }],
+  });
+
+  return items.map(item => ({
+    name: item.name,
+    category: item.category,
+    version: item.version,
+    confidence: item.confidence,
+    sources: JSON.parse(item.sources) as TechStackSource[],
+  }));
+}
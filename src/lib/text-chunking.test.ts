@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { chunkText, estimateTokens } from './text-chunking';
+
+const sentence = (index: number) => `Sentence ${index} describes the logistics platform rollout at site number ${index}.`;
+
+describe('chunkText', () => {
+  it('returns one chunk for short text and none for empty text', () => {
+    expect(chunkText('A short note.', { maxTokens: 2000, overlapTokens: 200 })).toEqual([
+      { index: 0, start: 0, end: 13, text: 'A short note.', tokens: estimateTokens('A short note.') },
+    ]);
+    expect(chunkText('', { maxTokens: 2000, overlapTokens: 200 })).toEqual([]);
+  });
+
+  it('splits at sentence boundaries within the token limit, overlapping neighbours, with source offsets', () => {
+    const text = Array.from({ length: 60 }, (_, index) => sentence(index)).join(' ');
+
+    const chunks = chunkText(text, { maxTokens: 100, overlapTokens: 30 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk, index) => {
+      expect(chunk.index).toBe(index);
+      expect(chunk.tokens).toBeLessThanOrEqual(100);
+      expect(text.substring(chunk.start, chunk.end)).toBe(chunk.text);
+      expect(chunk.text.trim()).toMatch(/^Sentence \d+ .*\.$/);
+    });
+    chunks.slice(1).forEach((chunk, index) => {
+      expect(chunk.start).toBeLessThan(chunks[index].end);
+      expect(chunk.start).toBeGreaterThan(chunks[index].start);
+    });
+    expect(chunks[0].start).toBe(0);
+    expect(chunks[chunks.length - 1].end).toBe(text.length);
+  });
+});
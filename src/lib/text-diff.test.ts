@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, diffText } from './text-diff';
+
+describe('diffLines', () => {
+  it('marks removed, added and unchanged lines in order', () => {
+    expect(diffLines('a\nb\nc\nd\ne', 'a\nc\nd\nx\ne\nf')).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'equal', text: 'c' },
+      { type: 'equal', text: 'd' },
+      { type: 'added', text: 'x' },
+      { type: 'equal', text: 'e' },
+      { type: 'added', text: 'f' },
+    ]);
+  });
+
+  it('treats large rewrites of long pages as replaced without exhausting memory', () => {
+    const before = Array.from({ length: 20000 }, (_, index) => `line ${index}`).join('\n');
+    const after = Array.from({ length: 20000 }, (_, index) => (index % 7 === 0 ? `changed ${index}` : `line ${index}`)).join('\n');
+    const heapBefore = process.memoryUsage().heapUsed;
+
+    const { added, removed } = diffText(before, after);
+
+    expect(added).toBe(20000);
+    expect(removed).toBe(20000);
+    expect(process.memoryUsage().heapUsed - heapBefore).toBeLessThan(200 * 1024 * 1024);
+  });
+});
+
+describe('diffText', () => {
+  it('renders hunks with line numbers and context', () => {
+    const { added, removed, unified } = diffText('a\nb\nc', 'a\nB\nc');
+    expect(added).toBe(1);
+    expect(removed).toBe(1);
+    expect(unified).toBe('@@ -1,3 +1,3 @@\n a\n-b\n+B\n c');
+  });
+
+  it('returns an empty diff for identical texts', () => {
+    expect(diffText('same\ntext', 'same\ntext')).toEqual({ added: 0, removed: 0, unified: '' });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * src/lib/text-diff.ts: Line-based text diffing
+ *
+ * Myers O(ND) diff over lines, rendered as a unified diff with context,
+ * for comparing successive content snapshots of evidence pages.
+ */
+
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface TextDiff {
+  added: number;
+  removed: number;
+  unified: string;
+}
+
+// Edit distance beyond which pages are treated as rewritten rather than diffed line by line
+// (the saved frontiers take about 4·D² bytes, 36 MB at this limit)
+const MAX_EDIT_DISTANCE = 3000;
+
+// Upper bound on lines × edit steps, so long pages get a proportionally smaller edit budget
+const MAX_DIFF_WORK = 40_000_000;
+
+/**
+ * Compute the line-level edit script between two texts
+ * @param before - Previous text
+ * @param after - New text
+ * @returns Lines marked equal, added or removed, in order
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.length > 0 ? before.split('\n') : [];
+  const b = after.length > 0 ? after.split('\n') : [];
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max;
+
+  const limit = Math.min(max, MAX_EDIT_DISTANCE, Math.floor(MAX_DIFF_WORK / Math.max(1, max)));
+
+  // Furthest-reaching x per diagonal k; before each edit step d, the frontier
+  // for diagonals -d..d is saved for backtracking (index k + d)
+  const v = new Int32Array(2 * max + 2);
+  const trace: Int32Array[] = [];
+  let found = false;
+
+  for (let d = 0; d <= limit; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+    if (found) break;
+  }
+
+  if (!found) {
+    // Too different to diff usefully: everything removed, everything added
+    return [
+      ...a.map(text => ({ type: 'removed' as const, text })),
+      ...b.map(text => ({ type: 'added' as const, text })),
+    ];
+  }
+
+  // Backtrack through the saved frontiers to recover the edit script
+  const lines: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const frontier = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && frontier[d + k - 1] < frontier[d + k + 1]) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : frontier[d + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      lines.push({ type: 'equal', text: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        lines.push({ type: 'added', text: b[y - 1] });
+      } else {
+        lines.push({ type: 'removed', text: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return lines.reverse();
+}
+
+/**
+ * Diff two texts and render the changes as a unified diff
+ * @param before - Previous text
+ * @param after - New text
+ * @param context - Unchanged lines shown around each change
+ * @returns Added/removed line counts and unified diff text (empty when identical)
+ */
+export function diffText(before: string, after: string, context: number = 3): TextDiff {
+  const lines = diffLines(before, after);
+  const added = lines.filter(line => line.type === 'added').length;
+  const removed = lines.filter(line => line.type === 'removed').length;
+
+  if (added === 0 && removed === 0) {
+    return { added, removed, unified: '' };
+  }
+
+  // Group changes into hunks, merging those separated by little unchanged text
+  const hunks: Array<{ start: number; end: number }> = [];
+  lines.forEach((line, index) => {
+    if (line.type === 'equal') return;
+    const last = hunks[hunks.length - 1];
+    if (last && index - last.end <= context * 2 + 1) {
+      last.end = index;
+    } else {
+      hunks.push({ start: index, end: index });
+    }
+  });
+
+  const output: string[] = [];
+  for (const hunk of hunks) {
+    const from = Math.max(0, hunk.start - context);
+    const to = Math.min(lines.length - 1, hunk.end + context);
+
+    // Line numbers in the old and new text where the hunk begins
+    let oldLine = 1;
+    let newLine = 1;
+    for (let index = 0; index < from; index++) {
+      if (lines[index].type !== 'added') oldLine++;
+      if (lines[index].type !== 'removed') newLine++;
+    }
+
+    const body = lines.slice(from, to + 1);
+    const oldCount = body.filter(line => line.type !== 'added').length;
+    const newCount = body.filter(line => line.type !== 'removed').length;
+
+    output.push(`@@ -${oldLine},${oldCount} +${newLine},${newCount} @@`);
+    for (const line of body) {
+      output.push(`${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}${line.text}`);
+    }
+  }
+
+  return { added, removed, unified: output.join('\n') };
+}
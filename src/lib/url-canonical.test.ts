@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalizeUrl, urlIdentityHash, urlIdentityKey } from './url-canonical';
+
+describe('canonicalizeUrl', () => {
+  it('drops tracking parameters, fragments and default ports but keeps other parameters as encoded', () => {
+    expect(canonicalizeUrl('HTTPS://Acme.COM:443/blog/post?utm_source=x&id=a%2Fb&fbclid=123#comments'))
+      .toBe('https://acme.com/blog/post?id=a%2Fb');
+  });
+
+  it('removes the query entirely when only tracking parameters remain', () => {
+    expect(canonicalizeUrl('https://acme.com/pricing?utm_medium=email&gclid=abc')).toBe('https://acme.com/pricing');
+  });
+
+  it('returns unparseable input unchanged', () => {
+    expect(canonicalizeUrl('not a url')).toBe('not a url');
+  });
+});
+
+describe('urlIdentityKey', () => {
+  it('treats scheme, www, trailing slashes, index documents and parameter order as the same page', () => {
+    const key = urlIdentityKey('https://acme.com/blog?b=2&a=1');
+
+    expect(urlIdentityKey('http://www.acme.com/blog/?a=1&b=2&utm_campaign=launch')).toBe(key);
+    expect(urlIdentityKey('https://acme.com/blog/index.html?a=1&b=2')).toBe(key);
+    expect(key).toBe('acme.com/blog?a=1&b=2');
+  });
+
+  it('keeps different paths and parameter values apart', () => {
+    expect(urlIdentityHash('https://acme.com/blog?id=1')).not.toBe(urlIdentityHash('https://acme.com/blog?id=2'));
+    expect(urlIdentityHash('https://acme.com/blog')).not.toBe(urlIdentityHash('https://acme.com/news'));
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * src/lib/url-canonical.ts: URL canonicalization for evidence deduplication
+ *
+ * Removes tracking parameters and cosmetic variance from URLs so the same
+ * page submitted as `https://acme.com/blog?utm_source=x` and
+ * `https://www.acme.com/blog/` is recognised as one evidence source.
+ */
+
+import { generateContentHash } from './utils';
+
+// Query parameters that only track campaigns or clicks and never change page content
+const TRACKING_PARAM_PATTERN = /^(utm_[a-z_]+|gclid|gclsrc|dclid|gbraid|wbraid|fbclid|msclkid|yclid|twclid|li_fat_id|igshid|mc_cid|mc_eid|_hsenc|_hsmi|__hstc|__hssc|__hsfp|hsctatrk|mkt_tok|vero_id|vero_conv|oly_anon_id|oly_enc_id|_ga|_gl|ref_src|ref_url|s_cid|cmpid|trk|trkcampaign|sc_campaign|sc_channel)$/i;
+
+/**
+ * Whether a raw (still encoded) query parameter name is a tracking parameter
+ */
+function isTrackingParam(rawName: string): boolean {
+  try {
+    return TRACKING_PARAM_PATTERN.test(decodeURIComponent(rawName.replace(/\+/g, ' ')));
+  } catch {
+    return false; // Malformed escape: keep the parameter as-is
+  }
+}
+
+/**
+ * Clean a URL for storage and fetching
+ * Lowercases scheme and host, drops default ports, fragments and tracking
+ * parameters. The result still resolves to the same page.
+ * @param url - Absolute http(s) URL
+ * @returns Cleaned URL, or the input unchanged if it cannot be parsed
+ */
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url;
+  }
+
+  // URL already lowercases scheme and host and drops default ports
+  parsed.hash = '';
+  parsed.hostname = parsed.hostname.replace(/\.$/, '');
+
+  // Filter the raw pairs so the remaining parameters keep their original encoding
+  const params = parsed.search
+    .substring(1)
+    .split('&')
+    .filter(pair => pair && !isTrackingParam(pair.split('=')[0]));
+  parsed.search = params.length > 0 ? `?${params.join('&')}` : '';
+
+  return parsed.toString();
+}
+
+/**
+ * Identity key of a URL for duplicate detection
+ * Also ignores the scheme, a leading `www.`, a trailing slash, a trailing
+ * index document and query parameter order, which don't change which page
+ * is meant
+ * @param url - Absolute http(s) URL
+ */
+export function urlIdentityKey(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(canonicalizeUrl(url));
+  } catch {
+    return url.trim().toLowerCase();
+  }
+
+  const host = parsed.host.replace(/^www\./, '');
+  const pathname = parsed.pathname
+    .replace(/\/{2,}/g, '/')
+    .replace(/\/index\.(html?|php|aspx?)$/i, '/')
+    .replace(/\/+$/, '');
+
+  parsed.searchParams.sort();
+  const query = parsed.searchParams.toString();
+
+  return `${host}${pathname}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * SHA-256 of a URL's identity key, stored for duplicate lookups
+ * @param url - Absolute http(s) URL
+ */
+export function urlIdentityHash(url: string): string {
+  return generateContentHash(urlIdentityKey(url));
+}
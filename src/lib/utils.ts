@@ -143,6 +143,21 @@ export function deepClone<T>(obj: T): T {
   return JSON.parse(JSON.stringify(obj));
 }
 
+/**
+ * Parse a JSON-array-of-strings text column
+ * @param json - Stored JSON text (null when never set)
+ * @returns Parsed strings, or an empty array when unset or malformed
+ */
+export function parseStringArray(json: string | null | undefined): string[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Check if string is empty or only whitespace
  * @param str - String to check
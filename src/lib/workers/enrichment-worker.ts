@@ -0,0 +1,137 @@
+/**
+ * src/lib/workers/enrichment-worker.ts: Background worker for data enrichment
+ *
+ * Consumes the data-enrichment queue. Tech-stack enrichment fingerprints
+ * the company's web pages offline and rebuilds the project's tech-stack
+ * profile; news and company-profile enrichment call the configured
+ * provider and store its results as evidence. Jobs requested through the
+ * enrichment API carry an EnrichmentRun that records status and counts.
+ */
+
+import { Worker, Job } from 'bullmq';
+import { prisma } from '../db';
+import { EnrichmentJob } from '../queue';
+import { auditLog } from '../audit';
+import { profileTechStack } from '../tech-stack';
+import { runProviderEnrichment } from '../enrichment';
+import { EnrichmentProviderError } from '../enrichment-providers';
+import IORedis from 'ioredis';
+
+// Redis connection for worker
+const connection = new IORedis({
+  host: process.env.UPSTASH_REDIS_HOST,
+  port: parseInt(process.env.UPSTASH_REDIS_PORT || '6379'),
+  password: process.env.UPSTASH_REDIS_PASSWORD,
+  maxRetriesPerRequest: 3,
+});
+
+/**
+ * Process data enrichment job
+ * @param job - BullMQ job containing enrichment data
+ */
+async function processEnrichment(job: Job<EnrichmentJob>) {
+  const { projectId, companyDomain, enrichmentType, runId } = job.data;
+
+  console.log(`src/lib/workers/enrichment-worker.ts: Processing ${enrichmentType} enrichment for project ${projectId}`);
+
+  const run = runId
+    ? await prisma.enrichmentRun.update({
+        where: { id: runId },
+        data: { status: 'running', startedAt: new Date(), error: null },
+      })
+    : null;
+
+  try {
+    switch (enrichmentType) {
+      case 'techstack': {
+        const result = await profileTechStack(projectId, companyDomain);
+
+        if (run) {
+          await prisma.enrichmentRun.update({
+            where: { id: run.id },
+            data: { status: 'done', provider: result.detector, itemsFound: result.technologies, finishedAt: new Date() },
+          });
+        }
+
+        await auditLog(
+          'system',
+          'ENRICH_TECHSTACK',
+          `Detected ${result.technologies} technologies on ${result.pages} pages of ${companyDomain} (${result.detector})`,
+          projectId
+        );
+
+        return { success: true, projectId, enrichmentType, ...result };
+      }
+
+      default: {
+        if (!run) {
+          console.warn(`src/lib/workers/enrichment-worker.ts: ${enrichmentType} enrichment requires an enrichment run`);
+          return { success: false, projectId, enrichmentType, skipped: true };
+        }
+
+        const result = await runProviderEnrichment(run);
+
+        await prisma.enrichmentRun.update({
+          where: { id: run.id },
+          data: {
+            status: 'done',
+            itemsFound: result.itemsFound,
+            evidenceCreated: result.evidenceCreated,
+            signalsCreated: result.signalsCreated,
+            finishedAt: new Date(),
+          },
+        });
+
+        await auditLog(
+          'system',
+          `ENRICH_${enrichmentType.toUpperCase()}`,
+          `${result.provider} returned ${result.itemsFound} items for ${companyDomain}: ${result.evidenceCreated} new evidence, ${result.signalsCreated} signals, ${result.profileFieldsUpdated} company profile fields`,
+          projectId
+        );
+
+        return { success: true, projectId, enrichmentType, ...result };
+      }
+    }
+  } catch (error) {
+    console.error(`src/lib/workers/enrichment-worker.ts: ${enrichmentType} enrichment failed for project ${projectId}:`, error);
+
+    // Missing configuration and rejected requests fail the same way on every attempt
+    const retryable = !(error instanceof EnrichmentProviderError && !error.retryable);
+    const willRetry = retryable && job.attemptsMade + 1 < (job.opts.attempts ?? 1);
+
+    if (run) {
+      await prisma.enrichmentRun.update({
+        where: { id: run.id },
+        data: {
+          status: willRetry ? 'queued' : 'failed',
+          error: (error instanceof Error ? error.message : 'Unknown error').substring(0, 500),
+          ...(!willRetry && { finishedAt: new Date() }),
+        },
+      });
+    }
+
+    if (!retryable) {
+      return { success: false, projectId, enrichmentType, error: (error as Error).message };
+    }
+    throw error; // Re-throw for BullMQ retry logic
+  }
+}
+
+// Create and export the worker
+export const enrichmentWorker = new Worker('data-enrichment', processEnrichment, {
+  connection,
+  concurrency: 2,
+});
+
+// Worker event handlers
+enrichmentWorker.on('completed', (job: Job) => {
+  console.log(`src/lib/workers/enrichment-worker.ts: Enrichment job ${job.id} completed successfully`);
+});
+
+enrichmentWorker.on('failed', (job: Job | undefined, err: Error) => {
+  console.error(`src/lib/workers/enrichment-worker.ts: Enrichment job ${job?.id} failed:`, err);
+});
+
+enrichmentWorker.on('error', (err: Error) => {
+  console.error('src/lib/workers/enrichment-worker.ts: Worker error:', err);
+});
@@ -2,13 +2,26 @@
  * src/lib/workers/evidence-worker.ts: Background worker for evidence fetching
  * 
  * Processes evidence fetching jobs to retrieve content from URLs,
- * extract metadata, and prepare content for NLP summarization.
+ * extract main content and metadata, record a versioned content
+ * snapshot, and prepare the clean text for NLP summarization. SEC
+ * 10-K/10-Q filings are read for financial figures and risk factors.
  */
 
 import { Worker, Job } from 'bullmq';
 import { prisma } from '../db';
 import { generateContentHash } from '../utils';
-import { addNlpSummarizeJob, EvidenceFetchJob } from '../queue';
+import { addEnrichmentJob, addNlpSummarizeJob, EvidenceFetchJob } from '../queue';
+import { auditLog } from '../audit';
+import { extractHtmlContent, ExtractedHtml, truncateAtWord } from '../html-extractor';
+import { decodeEntities } from '../document-extractor';
+import { SafeFetchBlockedError } from '../safe-fetch';
+import { politeFetch } from '../polite-fetch';
+import { markProcessingFailed, markProcessingStarted } from '../evidence-processing';
+import { recordSnapshot } from '../evidence-snapshots';
+import { checkForDuplicates } from '../duplicate-detection';
+import { ExtractedJobPosting, extractJobPostings, isJobPostingUrl, looksLikeCareersPage } from '../job-postings';
+import { fingerprintHeaders, isCompanyUrl } from '../tech-stack';
+import { parseSecFiling, recordSecFiling } from '../sec-filings';
 import IORedis from 'ioredis';
 
 // Redis connection for worker
@@ -19,120 +32,256 @@ const connection = new IORedis({
   maxRetriesPerRequest: 3,
 });
 
+// Response types that may be approved as URL evidence
+const APPROVED_CONTENT_TYPES = ['text/html', 'application/xhtml+xml', 'text/plain', 'application/xml', 'text/xml'];
+
+// Largest response body read from an evidence URL
+const MAX_RESPONSE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Mark URL evidence as rejected and record why in the audit log
+ */
+async function rejectEvidence(evidenceId: string, projectId: string, action: string, code: string, reason: string) {
+  await prisma.evidence.update({
+    where: { id: evidenceId },
+    data: {
+      approved: false,
+      scannedAt: new Date(),
+      rejectedReason: reason.substring(0, 300),
+    },
+  });
+
+  // Rejections are final, so no retry state
+  await markProcessingFailed(evidenceId, { code, message: reason });
+
+  await auditLog('system', action, `Rejected URL evidence ${evidenceId}: ${reason}`, projectId);
+
+  console.warn(`src/lib/workers/evidence-worker.ts: Rejected evidence ${evidenceId}: ${reason}`);
+}
+
 /**
- * Fetch content from URL with proper headers and error handling
+ * Fetch content from URL through the SSRF-safe, polite fetch layer
  * @param url - URL to fetch
+ * @param revalidate - Bypass the fresh response cache (refreshes)
  * @returns Fetched content and metadata
  */
-async function fetchUrlContent(url: string) {
+async function fetchUrlContent(url: string, revalidate: boolean = false) {
   console.log(`src/lib/workers/evidence-worker.ts: Fetching content from ${url}`);
   
-  const response = await fetch(url, {
+  const response = await politeFetch(url, {
     headers: {
-      'User-Agent': 'GTM-Deep-Diver/1.0 (+https://gtm-deep-diver.com)',
-      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,text/plain;q=0.8',
       'Accept-Language': 'en-US,en;q=0.5',
-      'Accept-Encoding': 'gzip, deflate',
-      'Cache-Control': 'no-cache',
     },
-    signal: AbortSignal.timeout(30000), // 30 second timeout
+    allowedContentTypes: APPROVED_CONTENT_TYPES,
+    maxBytes: MAX_RESPONSE_BYTES,
+    timeoutMs: 30000, // 30 second timeout
+    revalidate,
   });
 
-  if (!response.ok) {
-    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(`HTTP ${response.status}`);
   }
 
-  const content = await response.text();
-  const contentType = response.headers.get('content-type') || '';
-  
-  // Extract basic metadata from HTML
-  let title = '';
-  let author = '';
-  let publishedAt: Date | null = null;
-
-  if (contentType.includes('text/html')) {
-    // Extract title
-    const titleMatch = content.match(/<title[^>]*>([^<]+)<\/title>/i);
-    title = titleMatch ? titleMatch[1].trim() : new URL(url).hostname;
-
-    // Extract author (various meta tag formats)
-    const authorMatch = content.match(/<meta[^>]*(?:name|property)=["'](?:author|article:author)["'][^>]*content=["']([^"']+)["']/i);
-    author = authorMatch ? authorMatch[1].trim() : '';
-
-    // Extract published date
-    const dateMatch = content.match(/<meta[^>]*(?:name|property)=["'](?:article:published_time|date|pubdate)["'][^>]*content=["']([^"']+)["']/i);
-    if (dateMatch) {
-      const parsedDate = new Date(dateMatch[1]);
-      if (!isNaN(parsedDate.getTime())) {
-        publishedAt = parsedDate;
-      }
-    }
+  const content = response.text();
+  const contentType = response.contentType;
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+
+  // Extract main content and metadata from HTML; other text types are used as-is
+  let page: ExtractedHtml;
+  const html = mimeType === 'text/html' || mimeType === 'application/xhtml+xml';
+  if (html) {
+    page = extractHtmlContent(content, response.url);
+  } else if (mimeType === 'text/plain') {
+    page = { text: content.replace(/[ \t]+/g, ' ').trim() };
+  } else {
+    page = { text: decodeEntities(content.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim() };
   }
 
-  // Generate snippet (first 500 chars of text content)
-  const textContent = content.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
-  const snippet = textContent.substring(0, 500);
+  // Snippet is the lead paragraph, falling back to the start of the clean text
+  const snippet = truncateAtWord(page.leadParagraph || page.text, 500);
 
   return {
     content,
-    title: title || new URL(url).hostname,
-    author,
-    publishedAt,
+    contentType,
+    html,
+    finalUrl: response.url,
+    // Cache entries stored before headers were cached carry none; keep the snapshot's instead
+    headers: response.fromCache && Object.keys(response.headers).length === 0 ? undefined : fingerprintHeaders(response.headers),
+    text: page.text,
+    title: page.title?.substring(0, 200) || new URL(url).hostname,
+    author: page.author?.substring(0, 100) || page.siteName?.substring(0, 100) || '',
+    publishedAt: page.publishedAt ?? null,
+    canonicalUrl: page.canonicalUrl && page.canonicalUrl.length <= 500 ? page.canonicalUrl : null,
     snippet,
-    contentHash: generateContentHash(content),
+    contentHash: generateContentHash(page.text || content),
   };
 }
 
+/**
+ * Replace the hiring records extracted from an evidence page
+ * Roles still listed keep their first-seen date, so postings without a
+ * posted date can still be filtered by age across refreshes
+ */
+async function recordHiringRecords(projectId: string, evidenceId: string, postings: ExtractedJobPosting[]) {
+  const key = (title: string, location?: string | null) => `${title.toLowerCase()}|${(location ?? '').toLowerCase()}`;
+
+  await prisma.$transaction(async (tx) => {
+    const existing = await tx.hiringRecord.findMany({
+      where: { evidenceId },
+      select: { title: true, location: true, firstSeenAt: true },
+    });
+    const firstSeen = new Map(existing.map(record => [key(record.title, record.location), record.firstSeenAt]));
+
+    await tx.hiringRecord.deleteMany({ where: { evidenceId } });
+    await tx.hiringRecord.createMany({
+      data: postings.map(posting => ({
+        projectId,
+        evidenceId,
+        title: posting.title,
+        department: posting.department,
+        seniority: posting.seniority,
+        location: posting.location ?? null,
+        remote: posting.remote,
+        postedAt: posting.postedAt ?? null,
+        technologies: JSON.stringify(posting.technologies),
+        url: posting.url ?? null,
+        firstSeenAt: firstSeen.get(key(posting.title, posting.location)) ?? new Date(),
+      })),
+    });
+  });
+}
+
 /**
  * Process evidence fetching job
  * @param job - BullMQ job containing evidence fetch data
  */
 async function processEvidenceFetch(job: Job<EvidenceFetchJob>) {
-  const { evidenceId, url, projectId } = job.data;
+  const { evidenceId, url, projectId, refresh = false } = job.data;
   
   console.log(`src/lib/workers/evidence-worker.ts: Processing evidence fetch job for ${evidenceId}`);
 
   try {
-    // Fetch content from URL
-    const fetchResult = await fetchUrlContent(url);
+    await markProcessingStarted(evidenceId);
 
-    // Update evidence record with fetched metadata
+    // Fetch content from URL; policy blocks are final and never retried
+    let fetchResult: Awaited<ReturnType<typeof fetchUrlContent>>;
+    try {
+      fetchResult = await fetchUrlContent(url, refresh);
+    } catch (error) {
+      if (error instanceof SafeFetchBlockedError) {
+        await rejectEvidence(evidenceId, projectId, 'BLOCK_FETCH', error.code, `${error.code}: ${error.message}`);
+        return { success: false, evidenceId, rejected: true, reason: error.message };
+      }
+      throw error;
+    }
+
+    if (fetchResult.content.includes('\0')) {
+      await rejectEvidence(evidenceId, projectId, 'REJECT_EVIDENCE', 'BINARY_CONTENT', 'Response body contains binary data');
+      return { success: false, evidenceId, rejected: true, reason: 'Response body contains binary data' };
+    }
+
+    await job.updateProgress(50);
+
+    // Keep a versioned copy of the content; a refresh that finds no change skips re-analysis
+    const { snapshot, changed, diff } = await recordSnapshot({
+      projectId,
+      evidenceId,
+      body: Buffer.from(fetchResult.content, 'utf8'),
+      contentType: fetchResult.contentType,
+      text: fetchResult.text,
+      contentHash: fetchResult.contentHash,
+      headers: fetchResult.headers,
+    });
+
+    if (changed && diff) {
+      await auditLog(
+        'system',
+        'EVIDENCE_CHANGED',
+        `Evidence ${evidenceId} content changed: version ${snapshot.version} (+${diff.added}/-${diff.removed} lines)`,
+        projectId
+      );
+    }
+
+    // Flag other evidence for the same canonical page, or syndicated copies of the same text
+    const duplicates = await checkForDuplicates(projectId, evidenceId, fetchResult.text, fetchResult.canonicalUrl);
+
+    // Careers pages and job postings yield structured hiring records
+    let hiringRecords: number | undefined;
+    if (fetchResult.html && (changed || !refresh) && (isJobPostingUrl(fetchResult.finalUrl) || looksLikeCareersPage(fetchResult.title, fetchResult.text))) {
+      const postings = extractJobPostings(fetchResult.content, fetchResult.finalUrl, fetchResult.text);
+      await recordHiringRecords(projectId, evidenceId, postings);
+      hiringRecords = postings.length;
+      console.log(`src/lib/workers/evidence-worker.ts: Recorded ${postings.length} hiring records for evidence ${evidenceId}`);
+    }
+
+    // New content on the company's own site can change its detected tech stack
+    if (fetchResult.html && changed) {
+      const project = await prisma.project.findUnique({ where: { id: projectId }, select: { companyDomain: true } });
+      if (project && isCompanyUrl(fetchResult.finalUrl, project.companyDomain)) {
+        await addEnrichmentJob(
+          { projectId, companyDomain: project.companyDomain, enrichmentType: 'techstack' },
+          `enrich-${projectId}-techstack-${job.id}`
+        );
+      }
+    }
+
+    // SEC filings yield cited financial and risk signals, which replace NLP analysis
+    let financialMetrics: number | undefined;
+    let filingSignals = 0;
+    if (changed || !refresh) {
+      const filing = parseSecFiling(fetchResult.html ? { html: fetchResult.content } : { text: fetchResult.text });
+      if (filing) {
+        const recorded = await recordSecFiling(projectId, evidenceId, filing, 'sec-filing/url');
+        financialMetrics = recorded.metrics;
+        filingSignals = recorded.signals;
+      }
+    }
+
+    // Update evidence record with fetched metadata; substantial new content goes on to NLP analysis
+    const analyze = fetchResult.text.length > 500 && (changed || !refresh) && filingSignals === 0;
     await prisma.evidence.update({
       where: { id: evidenceId },
       data: {
         title: fetchResult.title,
         author: fetchResult.author || undefined,
         publishedAt: fetchResult.publishedAt,
+        canonicalUrl: fetchResult.canonicalUrl,
+        canonicalUrlHash: duplicates.canonicalUrlHash,
+        simhash: duplicates.simhash,
+        duplicateOfId: duplicates.match?.evidenceId ?? null,
+        duplicateSimilarity: duplicates.match?.similarity ?? null,
         snippet: fetchResult.snippet,
         contentHash: fetchResult.contentHash,
-        approved: true, // Auto-approve URL content (files need separate scanning)
+        approved: true,
+        scannedAt: new Date(),
+        rejectedReason: null,
+        processingState: analyze ? 'fetched' : 'done',
+        ...(!analyze && { processingFinishedAt: new Date() }),
         updatedAt: new Date(),
       },
     });
 
     console.log(`src/lib/workers/evidence-worker.ts: Updated evidence ${evidenceId} with fetched metadata`);
 
-    // Queue NLP summarization if content is substantial
-    if (fetchResult.content.length > 500) {
-      await addNlpSummarizeJob({
-        evidenceId,
-        content: fetchResult.content,
-        projectId,
-      });
+    // Queue NLP summarization of the clean text (job ID per fetch so re-fetches are re-analyzed)
+    if (analyze) {
+      await addNlpSummarizeJob(
+        {
+          evidenceId,
+          content: fetchResult.text,
+          projectId,
+        },
+        `nlp-${evidenceId}-${job.id}`
+      );
     }
 
-    return { success: true, evidenceId, title: fetchResult.title };
+    return { success: true, evidenceId, title: fetchResult.title, version: snapshot.version, changed, hiringRecords, financialMetrics };
   } catch (error) {
     console.error(`src/lib/workers/evidence-worker.ts: Evidence fetch failed for ${evidenceId}:`, error);
     
-    // Update evidence with error status
-    await prisma.evidence.update({
-      where: { id: evidenceId },
-      data: {
-        snippet: `Failed to fetch: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        updatedAt: new Date(),
-      },
-    });
+    // Record the failure without touching user-visible content
+    await markProcessingFailed(evidenceId, error, job);
 
     throw error; // Re-throw for BullMQ retry logic
   }
@@ -0,0 +1,162 @@
+/**
+ * src/lib/workers/file-worker.ts: Background worker for file evidence processing
+ *
+ * Scans quarantined evidence uploads, approving or rejecting them, then
+ * extracts plain text and document metadata from approved files and
+ * prepares the content for NLP summarization. Uploaded SEC 10-K/10-Q
+ * filings are read for financial figures and risk factors instead.
+ */
+
+import { Worker, Job } from 'bullmq';
+import { prisma } from '../db';
+import { generateContentHash } from '../utils';
+import { addNlpSummarizeJob, FileProcessJob } from '../queue';
+import { getStorage } from '../storage';
+import { detectDocumentFormat, extractDocument } from '../document-extractor';
+import { scanFile } from '../file-scanner';
+import { truncateAtWord } from '../html-extractor';
+import { auditLog } from '../audit';
+import { markProcessingFailed, markProcessingStarted } from '../evidence-processing';
+import { checkForDuplicates } from '../duplicate-detection';
+import { parseSecFiling, recordSecFiling } from '../sec-filings';
+import IORedis from 'ioredis';
+
+// Redis connection for worker
+const connection = new IORedis({
+  host: process.env.UPSTASH_REDIS_HOST,
+  port: parseInt(process.env.UPSTASH_REDIS_PORT || '6379'),
+  password: process.env.UPSTASH_REDIS_PASSWORD,
+  maxRetriesPerRequest: 3,
+});
+
+/**
+ * Process file evidence job
+ * @param job - BullMQ job containing file processing data
+ */
+async function processFileEvidence(job: Job<FileProcessJob>) {
+  const { evidenceId, fileKey, projectId } = job.data;
+
+  console.log(`src/lib/workers/file-worker.ts: Processing file job for evidence ${evidenceId}`);
+
+  try {
+    await markProcessingStarted(evidenceId);
+
+    const storage = getStorage();
+    const fileInfo = await storage.headObject(fileKey);
+    if (!fileInfo) {
+      throw new Error(`File ${fileKey} not found in storage`);
+    }
+
+    // Download and run security checks while the file is quarantined
+    const buffer = await storage.getObject(fileKey);
+    const scan = await scanFile(buffer, detectDocumentFormat(fileInfo.contentType, fileKey));
+
+    if (!scan.clean || !scan.format) {
+      await prisma.evidence.update({
+        where: { id: evidenceId },
+        data: {
+          approved: false,
+          scannedAt: new Date(),
+          rejectedReason: scan.reason?.substring(0, 300) || 'Rejected by security scan',
+        },
+      });
+
+      await markProcessingFailed(evidenceId, { code: 'SCAN_REJECTED', message: scan.reason || 'Rejected by security scan' });
+
+      // Rejected content is never served, so drop it from storage
+      await storage.deleteObject(fileKey);
+      await auditLog('system', 'REJECT_EVIDENCE', `Rejected file evidence ${evidenceId}: ${scan.reason}`, projectId);
+
+      console.warn(`src/lib/workers/file-worker.ts: Rejected file evidence ${evidenceId}: ${scan.reason}`);
+      return { success: false, evidenceId, rejected: true, reason: scan.reason };
+    }
+
+    await prisma.evidence.update({
+      where: { id: evidenceId },
+      data: {
+        approved: true,
+        scannedAt: new Date(),
+        rejectedReason: null,
+      },
+    });
+
+    await job.updateProgress(25);
+
+    // Extract text and metadata using the sniffed format, not the declared one
+    const format = scan.format;
+    const document = await extractDocument(buffer, format);
+
+    await job.updateProgress(50);
+
+    // Flag syndicated or lightly edited copies of evidence already in the project
+    const duplicates = await checkForDuplicates(projectId, evidenceId, document.text);
+
+    // SEC filings yield cited financial and risk signals, which replace NLP analysis
+    let financialMetrics: number | undefined;
+    let filingSignals = 0;
+    const filing = parseSecFiling(format === 'html' ? { html: buffer.toString('utf8') } : { text: document.text });
+    if (filing) {
+      const recorded = await recordSecFiling(projectId, evidenceId, filing, 'sec-filing/upload');
+      financialMetrics = recorded.metrics;
+      filingSignals = recorded.signals;
+    }
+
+    // Update evidence record with extracted metadata; substantial content goes on to NLP analysis
+    const analyze = document.text.length > 500 && filingSignals === 0;
+    await prisma.evidence.update({
+      where: { id: evidenceId },
+      data: {
+        title: document.title?.substring(0, 200) || undefined,
+        author: document.author?.substring(0, 100) || undefined,
+        publishedAt: document.createdAt,
+        snippet: truncateAtWord(document.leadParagraph || document.text, 500),
+        contentHash: generateContentHash(document.text || fileKey),
+        simhash: duplicates.simhash,
+        duplicateOfId: duplicates.match?.evidenceId ?? null,
+        duplicateSimilarity: duplicates.match?.similarity ?? null,
+        processingState: analyze ? 'fetched' : 'done',
+        ...(!analyze && { processingFinishedAt: new Date() }),
+        updatedAt: new Date(),
+      },
+    });
+
+    console.log(`src/lib/workers/file-worker.ts: Extracted ${document.text.length} chars from ${format} evidence ${evidenceId}`);
+
+    // Queue NLP summarization (job ID per processing run so retries are re-analyzed)
+    if (analyze) {
+      await addNlpSummarizeJob(
+        {
+          evidenceId,
+          content: document.text,
+          projectId,
+        },
+        `nlp-${evidenceId}-${job.id}`
+      );
+    }
+
+    return { success: true, evidenceId, format, characters: document.text.length, financialMetrics };
+  } catch (error) {
+    console.error(`src/lib/workers/file-worker.ts: File processing failed for ${evidenceId}:`, error);
+    await markProcessingFailed(evidenceId, error, job);
+    throw error; // Re-throw for BullMQ retry logic
+  }
+}
+
+// Create and export the worker
+export const fileWorker = new Worker('file-processing', processFileEvidence, {
+  connection,
+  concurrency: 2, // Document parsing is CPU and memory heavy
+});
+
+// Worker event handlers
+fileWorker.on('completed', (job: Job) => {
+  console.log(`src/lib/workers/file-worker.ts: Job ${job.id} completed successfully`);
+});
+
+fileWorker.on('failed', (job: Job | undefined, err: Error) => {
+  console.error(`src/lib/workers/file-worker.ts: Job ${job?.id} failed:`, err);
+});
+
+fileWorker.on('error', (err: Error) => {
+  console.error('src/lib/workers/file-worker.ts: Worker error:', err);
+});
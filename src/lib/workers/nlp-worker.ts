@@ -1,13 +1,17 @@
 /**
  * src/lib/workers/nlp-worker.ts: Background worker for NLP processing
  * 
- * Processes content summarization and signal extraction using OpenAI API
- * with proper rate limiting and error handling.
+ * Processes content summarization and signal extraction through the
+ * configured NLP backend (LLM provider, offline rules, or both), with
+ * schema-validated output, rate limiting and error handling.
  */
 
 import { Worker, Job } from 'bullmq';
 import { prisma } from '../db';
 import { NlpSummarizeJob } from '../queue';
+import { markProcessingFailed, markProcessingState } from '../evidence-processing';
+import { analyzeContent } from '../signal-extraction';
+import { auditLog } from '../audit';
 import IORedis from 'ioredis';
 
 // Redis connection for worker
@@ -18,111 +22,50 @@ const connection = new IORedis({
   maxRetriesPerRequest: 3,
 });
 
-/**
- * Summarize content using OpenAI API
- * @param content - Raw content to summarize
- * @returns Summary and extracted signals
- */
-async function summarizeContent(content: string) {
-  console.log('src/lib/workers/nlp-worker.ts: Starting content summarization');
-
-  // Remove HTML tags and clean content
-  const cleanContent = content
-    .replace(/<[^>]*>/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim()
-    .substring(0, 8000); // Limit to ~8k chars for API efficiency
-
-  // Prepare prompt for OpenAI API
-  // const prompt = `
-Analyze this business content and extract key signals. Focus on:
-1. Business challenges and pain points
-2. Technology initiatives and priorities  
-3. Financial metrics and growth indicators
-4. Security, compliance, and risk factors
-5. Hiring patterns and organizational changes
-
-Content:
-${cleanContent}
-
-Provide a structured response with:
-- Summary (2-3 sentences)
-- Key signals (3-5 bullet points with confidence scores 0-1)
-- Signal categories: industry, company, security, hiring, product, financial, compliance
-
-Format as JSON:
-{
-  "summary": "...",
-  "signals": [
-    {
-      "kind": "company",
-      "text": "...",
-      "confidence": 0.8,
-      "weight": 0.7
-    }
-  ]
-}
-`;
-
-  try {
-    // Mock OpenAI API call for now (replace with actual implementation)
-    // const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    //   method: 'POST',
-    //   headers: {
-    //     'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-    //     'Content-Type': 'application/json',
-    //   },
-    //   body: JSON.stringify({
-    //     model: 'gpt-4',
-    //     messages: [{ role: 'user', content: prompt }],
-    //     max_tokens: 1000,
-    //     temperature: 0.3,
-    //   }),
-    // });
-
-    // For now, return mock data structure
-    const mockResult = {
-      summary: 'Content analysis completed. Key business signals extracted and categorized.',
-      signals: [
-        {
-          kind: 'company' as const,
-          text: 'Organization shows signs of digital transformation initiatives',
-          confidence: 0.7,
-          weight: 0.6,
-        },
-        {
-          kind: 'security' as const,
-          text: 'Security compliance requirements mentioned in content',
-          confidence: 0.6,
-          weight: 0.5,
-        },
-      ],
-    };
-
-    console.log(`src/lib/workers/nlp-worker.ts: Summarization completed with ${mockResult.signals.length} signals`);
-    return mockResult;
-  } catch (error) {
-    console.error('src/lib/workers/nlp-worker.ts: OpenAI API call failed:', error);
-    throw error;
-  }
-}
-
 /**
  * Process NLP summarization job
  * @param job - BullMQ job containing NLP processing data
  */
 async function processNlpSummarization(job: Job<NlpSummarizeJob>) {
-  const { evidenceId, content } = job.data;
+  const { evidenceId, content, projectId } = job.data;
   
   console.log(`src/lib/workers/nlp-worker.ts: Processing NLP job for evidence ${evidenceId}`);
 
   try {
-    // Summarize content and extract signals
-    const result = await summarizeContent(content);
+    // Only analyze evidence that passed security scanning
+    const evidence = await prisma.evidence.findUnique({
+      where: { id: evidenceId },
+      select: { approved: true },
+    });
+
+    if (!evidence?.approved) {
+      console.log(`src/lib/workers/nlp-worker.ts: Skipping unapproved evidence ${evidenceId}`);
+      // End the pipeline here so the evidence is not left waiting for analysis
+      if (evidence) {
+        await markProcessingFailed(evidenceId, { code: 'NOT_APPROVED', message: 'Evidence was not approved for analysis' });
+      }
+      return { success: false, evidenceId, skipped: true };
+    }
+
+    await markProcessingState(evidenceId, 'analyzing');
 
-    // Create signals in database
-    const signals = await Promise.all(
-      result.signals.map(signal =>
+    // Summarize content and extract signals
+    const result = await analyzeContent(content);
+
+    // Replace the analysis and signals from any earlier run on this evidence
+    const [, , ...signals] = await prisma.$transaction([
+      prisma.evidence.update({
+        where: { id: evidenceId },
+        data: {
+          summary: result.summary,
+          keyQuotes: JSON.stringify(result.keyQuotes),
+          topics: JSON.stringify(result.topics),
+          analyzedBy: `${result.provider}/${result.model}`.substring(0, 100),
+          analyzedAt: new Date(),
+        },
+      }),
+      prisma.signal.deleteMany({ where: { evidenceId } }),
+      ...result.signals.map(signal =>
         prisma.signal.create({
           data: {
             evidenceId,
@@ -130,21 +73,39 @@ async function processNlpSummarization(job: Job<NlpSummarizeJob>) {
             text: signal.text,
             confidence: signal.confidence,
             weight: signal.weight,
+            chunkIndex: signal.chunkIndex,
+            sourceStart: signal.sourceStart,
+            sourceEnd: signal.sourceEnd,
           },
         })
-      )
-    );
+      ),
+    ]);
+
+    await markProcessingState(evidenceId, 'done');
 
     console.log(`src/lib/workers/nlp-worker.ts: Created ${signals.length} signals for evidence ${evidenceId}`);
 
+    if (result.usage?.budgetExhausted) {
+      await auditLog(
+        'system',
+        'ANALYSIS_BUDGET_EXHAUSTED',
+        `Analyzed ${result.usage.chunksAnalyzed} of ${result.usage.chunks} chunks of evidence ${evidenceId} (~${result.usage.tokens} tokens) before reaching the per-document token cap`,
+        projectId
+      );
+    }
+
     return { 
       success: true, 
       evidenceId, 
       signalsCreated: signals.length,
       summary: result.summary,
+      provider: result.provider,
+      model: result.model,
+      usage: result.usage,
     };
   } catch (error) {
     console.error(`src/lib/workers/nlp-worker.ts: NLP processing failed for ${evidenceId}:`, error);
+    await markProcessingFailed(evidenceId, error, job, 'analyzing');
     throw error;
   }
 }
@@ -152,7 +113,7 @@ async function processNlpSummarization(job: Job<NlpSummarizeJob>) {
 // Create and export the worker
 export const nlpWorker = new Worker('nlp-processing', processNlpSummarization, {
   connection,
-  concurrency: 2, // Limit concurrent OpenAI API calls
+  concurrency: 2, // Limit concurrent LLM API calls
   limiter: {
     max: 5, // Max 5 API calls per minute to respect rate limits
     duration: 60000,
@@ -13,6 +13,7 @@ import { rateLimiters } from '@/lib/redis';
 const isPublicRoute = createRouteMatcher([
   '/',
   '/api/healthz',
+  '/api/storage/local(.*)', // Authorized by URL signature
   '/sign-in(.*)',
   '/sign-up(.*)',
 ]);